@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseChatSseData, readSseData } from './aiChat';
+
+function streamOf(parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(encoder.encode(part));
+      controller.close();
+    },
+  });
+}
+
+describe('parseChatSseData', () => {
+  it('认出 threadId 帧、内容帧、错误帧和结束', () => {
+    expect(parseChatSseData('{"threadId":7,"choices":[]}')).toEqual({
+      done: false,
+      threadId: 7,
+      content: '',
+      error: undefined,
+    });
+    expect(parseChatSseData('{"choices":[{"delta":{"content":"hi"}}]}')).toMatchObject({
+      done: false,
+      content: 'hi',
+    });
+    expect(parseChatSseData('{"error":"boom"}')).toMatchObject({ error: 'boom', content: '' });
+    expect(parseChatSseData('[DONE]')).toEqual({ done: true });
+    expect(parseChatSseData('not json')).toBeNull();
+  });
+});
+
+describe('readSseData', () => {
+  it('跨块拼行，只吐 data: 行', async () => {
+    const out: string[] = [];
+    for await (const data of readSseData(
+      streamOf(['data: {"a":', '1}\n\n: ping\n', 'data: [DONE]']),
+    )) {
+      out.push(data);
+    }
+    expect(out).toEqual(['{"a":1}', '[DONE]']);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * 词卡追问（ADR 0046）：读 /ai/chat 的 SSE。帧格式和 enrich-stream 一样是 OpenAI 的流式格式，
+ * 新对话的第一帧额外带 threadId。
+ */
+
+export type ChatSseFrame =
+  | { done: true }
+  | { done: false; threadId?: number; content: string; error?: string };
+
+/** 一帧 data: 后面的内容 → 结构化结果；不是 JSON 的返回 null */
+export function parseChatSseData(data: string): ChatSseFrame | null {
+  if (data === '[DONE]') return { done: true };
+  try {
+    const chunk = JSON.parse(data);
+    return {
+      done: false,
+      threadId: typeof chunk.threadId === 'number' ? chunk.threadId : undefined,
+      content: chunk.choices?.[0]?.delta?.content || '',
+      error: typeof chunk.error === 'string' ? chunk.error : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** 按行切开响应体，逐个吐出 data: 后面的内容 */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) yield line.slice(5).trim();
+    }
+  }
+  if (buffer.startsWith('data:')) yield buffer.slice(5).trim();
+}
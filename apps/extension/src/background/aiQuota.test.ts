@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const localStore: Record<string, unknown> = {};
+
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: vi.fn(async (key: string) => ({ [key]: localStore[key] })),
+      set: vi.fn(async (obj: Record<string, unknown>) => {
+        Object.assign(localStore, obj);
+      }),
+      remove: vi.fn(async (key: string) => {
+        delete localStore[key];
+      }),
+    },
+  },
+});
+
+import {
+  AI_QUOTA_BLOCK_KEY,
+  clearAiQuotaBlock,
+  getAiQuotaBlock,
+  parseAiQuotaError,
+  rememberAiQuotaFailure,
+} from './aiQuota';
+
+beforeEach(() => {
+  delete localStore[AI_QUOTA_BLOCK_KEY];
+});
+
+describe('parseAiQuotaError', () => {
+  it('只认 429，优先用响应体里的原因和秒数', () => {
+    expect(parseAiQuotaError(500, null, null)).toBeNull();
+    expect(
+      parseAiQuotaError(429, { reason: 'rate', retryAfter: 12, message: '太快了' }, '99'),
+    ).toEqual({ reason: 'rate', retryAfter: 12, message: '太快了' });
+  });
+
+  it('响应体读不出来时退回 Retry-After 头，按额度用完处理', () => {
+    expect(parseAiQuotaError(429, null, '3600')).toEqual({
+      reason: 'quota',
+      retryAfter: 3600,
+      message: '今日 AI 额度已用完',
+    });
+  });
+});
+
+describe('额度用完后的本地标记', () => {
+  it('额度用完记到恢复时间，过了时间自动失效', async () => {
+    await rememberAiQuotaFailure({ reason: 'quota', retryAfter: 60, message: '' }, 1_000);
+    expect(await getAiQuotaBlock(2_000)).toBe(61_000);
+    expect(await getAiQuotaBlock(61_000)).toBeNull();
+  });
+
+  it('限流不记；设置页可以手动清掉', async () => {
+    await rememberAiQuotaFailure({ reason: 'rate', retryAfter: 30, message: '' }, 0);
+    expect(await getAiQuotaBlock(1)).toBeNull();
+
+    await rememberAiQuotaFailure({ reason: 'quota', retryAfter: 60, message: '' }, 0);
+    await clearAiQuotaBlock();
+    expect(await getAiQuotaBlock(1)).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * AI 额度用完后的降级（ADR 0044）：后端 /ai/* 返回 429 时记下恢复时间，
+ * 在那之前词卡和翻译卡不再发 AI 请求，只显示词典释义。
+ */
+
+import type { AiQuotaErrorBody } from 'shared-types';
+
+/** chrome.storage.local 里存额度恢复的时间戳（毫秒） */
+export const AI_QUOTA_BLOCK_KEY = 'aiQuotaBlockedUntil';
+
+export interface AiQuotaFailure {
+  reason: 'quota' | 'rate';
+  /** 秒 */
+  retryAfter: number;
+  message: string;
+}
+
+/** 429 响应 → 失败原因；不是 429 返回 null。响应体缺字段时退回 Retry-After 头 */
+export function parseAiQuotaError(
+  status: number,
+  body: Partial<AiQuotaErrorBody> | null,
+  retryAfterHeader: string | null,
+): AiQuotaFailure | null {
+  if (status !== 429) return null;
+  const retryAfter = body?.retryAfter ?? (Number(retryAfterHeader) || 60);
+  const reason = body?.reason === 'rate' ? 'rate' : 'quota';
+  return {
+    reason,
+    retryAfter,
+    message:
+      body?.message ?? (reason === 'rate' ? 'AI 请求太频繁，请稍后再试' : '今日 AI 额度已用完'),
+  };
+}
+
+/** 还在额度用完的时间段里时返回恢复时间，否则 null */
+export async function getAiQuotaBlock(now = Date.now()): Promise<number | null> {
+  const stored = await chrome.storage.local.get(AI_QUOTA_BLOCK_KEY);
+  const until = stored[AI_QUOTA_BLOCK_KEY];
+  return typeof until === 'number' && until > now ? until : null;
+}
+
+/** 只有当天额度用完才记下来；限流是短时间的，不影响后面的请求 */
+export async function rememberAiQuotaFailure(
+  failure: AiQuotaFailure,
+  now = Date.now(),
+): Promise<void> {
+  if (failure.reason !== 'quota') return;
+  await chrome.storage.local.set({ [AI_QUOTA_BLOCK_KEY]: now + failure.retryAfter * 1000 });
+}
+
+/** 设置页拉到的用量显示还有额度（比如换了套餐）时清掉 */
+export async function clearAiQuotaBlock(): Promise<void> {
+  await chrome.storage.local.remove(AI_QUOTA_BLOCK_KEY);
+}
@@ -1,4 +1,4 @@
-import type { WordDetails } from 'shared-types';
+import type { ConcordanceExamplesResponse, WordDetails } from 'shared-types';
 import { logger } from '../../utils/logger';
 import { fetchJsonWithAuth } from './fetchWithAuth';
 import { getApiBaseUrl } from './apiConfig';
@@ -33,6 +33,16 @@ export class DictionaryService {
     }
   }
 
+  /**
+   * 词族例句（ADR 0037）：预置书和用户上传文档里挖出来的句子。失败直接抛，由词卡提示
+   */
+  async getWordExamples(word: string): Promise<ConcordanceExamplesResponse> {
+    const API_BASE_URL = await getApiBaseUrl();
+    return fetchJsonWithAuth<ConcordanceExamplesResponse>(
+      `${API_BASE_URL}/dictionary/${encodeURIComponent(word)}/examples`,
+    );
+  }
+
   /**
    * 创建 fallback 词典数据
    */
@@ -1,5 +1,15 @@
 import type {
+  FamilyDetachRequest,
+  FamilyOverridesResponse,
+  StatusChangeSource,
+  UserListDto,
+  UserListFamiliesResponse,
+  VocabularyBatchItem,
+  VocabularyBatchRequest,
+  VocabularyBatchResponse,
   VocabularySyncResponse,
+  WordEncounterRecordResponse,
+  WordEncounterRequest,
   WordFamiliarityStatus,
   WordMutationResponse,
 } from 'shared-types';
@@ -15,6 +25,10 @@ import { getApiBaseUrl } from './apiConfig';
  */
 export class VocabularyApi {
   private static readonly DEFAULT_TIMEOUT = 10000;
+  /** 批量写服务端一个事务跑几百条，给足时间 */
+  private static readonly BATCH_TIMEOUT = 60000;
+  /** 与后端 MAX_BATCH_ITEMS 一致 */
+  static readonly BATCH_MAX_ITEMS = 500;
 
   public config: ApiConfig;
 
@@ -41,12 +55,17 @@ export class VocabularyApi {
     word: string,
     status: WordFamiliarityStatus | null,
     familiarityLevel?: number,
+    source?: StatusChangeSource,
   ): Promise<WordMutationResponse> {
     await this.ensureBaseUrl();
-    logger.info(`Updating word status: ${word} -> ${status}`, { familiarityLevel });
+    logger.info(`Updating word status: ${word} -> ${status}`, { familiarityLevel, source });
 
     try {
-      const requestBody: WordUpdateRequest = { status: status ?? undefined, familiarityLevel };
+      const requestBody: WordUpdateRequest = {
+        status: status ?? undefined,
+        familiarityLevel,
+        source,
+      };
 
       const data = await fetchJsonWithAuth<WordMutationResponse>(
         `${this.config.baseUrl}/vocabulary/${encodeURIComponent(word)}`,
@@ -70,6 +89,61 @@ export class VocabularyApi {
     }
   }
 
+  /**
+   * 批量更新单词状态——一次请求，服务端一个事务；results 与 items 一一对应。
+   * 单次最多 BATCH_MAX_ITEMS 条，超出由调用方分批。
+   */
+  async batchUpdateWordStatus(
+    items: VocabularyBatchItem[],
+    source: StatusChangeSource = 'batch',
+  ): Promise<VocabularyBatchResponse> {
+    await this.ensureBaseUrl();
+    logger.info(`Batch updating ${items.length} words`, { source });
+
+    try {
+      const requestBody: VocabularyBatchRequest = { items, source };
+      return await fetchJsonWithAuth<VocabularyBatchResponse>(
+        `${this.config.baseUrl}/vocabulary/batch`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestBody),
+          signal: AbortSignal.timeout(VocabularyApi.BATCH_TIMEOUT),
+        },
+      );
+    } catch (error) {
+      ResponseHandler.logError('Failed to batch update word status', error, {
+        count: items.length,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 把一个词从当前词族拆成独立词族（词卡"这个词不一样"，ADR 0035）。
+   * 返回最新的调整列表；词族词形的变化由调用方再走一次增量同步拿回来。
+   */
+  async detachWordFamily(word: string): Promise<FamilyOverridesResponse> {
+    await this.ensureBaseUrl();
+    logger.info(`Detaching word from its family: ${word}`);
+
+    try {
+      const requestBody: FamilyDetachRequest = { word };
+      return await fetchJsonWithAuth<FamilyOverridesResponse>(
+        `${this.config.baseUrl}/vocabulary/family-overrides/detach`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(requestBody),
+          signal: AbortSignal.timeout(this.config.timeout),
+        },
+      );
+    } catch (error) {
+      ResponseHandler.logError('Failed to detach word family', error, { word });
+      throw error;
+    }
+  }
+
   /**
    * 自动提升熟练度
    */
@@ -93,6 +167,63 @@ export class VocabularyApi {
     }
   }
 
+  /**
+   * 记录一次查词的上下文句子
+   */
+  async recordEncounter(request: WordEncounterRequest): Promise<WordEncounterRecordResponse> {
+    await this.ensureBaseUrl();
+    return fetchJsonWithAuth<WordEncounterRecordResponse>(
+      `${this.config.baseUrl}/vocabulary/encounters`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+        signal: AbortSignal.timeout(this.config.timeout),
+      },
+    );
+  }
+
+  /**
+   * 当前用户的自建词单
+   */
+  async getUserLists(): Promise<UserListDto[]> {
+    await this.ensureBaseUrl();
+    const data = await fetchJsonWithAuth<{ lists: UserListDto[] }>(`${this.config.baseUrl}/lists`, {
+      method: 'GET',
+      signal: AbortSignal.timeout(this.config.timeout),
+    });
+    return data.lists;
+  }
+
+  /**
+   * 新建词单，重名时后端回 409
+   */
+  async createUserList(name: string): Promise<UserListDto> {
+    await this.ensureBaseUrl();
+    return fetchJsonWithAuth<UserListDto>(`${this.config.baseUrl}/lists`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name }),
+      signal: AbortSignal.timeout(this.config.timeout),
+    });
+  }
+
+  /**
+   * 把词所在的词族加入词单
+   */
+  async addToUserList(listId: number, words: string[]): Promise<UserListFamiliesResponse> {
+    await this.ensureBaseUrl();
+    return fetchJsonWithAuth<UserListFamiliesResponse>(
+      `${this.config.baseUrl}/lists/${listId}/families`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ words }),
+        signal: AbortSignal.timeout(this.config.timeout),
+      },
+    );
+  }
+
   /**
    * 全量同步：拉取当前用户的所有词族（用于本地镜像）。
    */
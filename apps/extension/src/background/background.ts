@@ -2,6 +2,9 @@ import type { ChromeMessage } from 'shared-types';
 import { MessageHandlers } from './messageHandlers';
 import { VocabularyMirror } from './vocabularyMirror';
 import { DictionaryMirror } from './dictionaryMirror';
+import { DefinitionsPack } from './definitionsPack';
+import { VocabularyEventStream } from './vocabularyEvents';
+import { IgnoredWordsStore } from './ignoredWordsStore';
 import { Logger } from '../utils/logger';
 
 const logger = new Logger('BackgroundScript');
@@ -27,6 +30,23 @@ logger.info('Background script loaded', { version: 'v3' });
 // 初始化消息处理器
 const messageHandlers = new MessageHandlers();
 
+// 已登录时订阅词库变更推送（service worker 每次唤醒都会重新执行到这里）
+chrome.storage.local
+  .get('accessToken')
+  .then((result) => {
+    if (!result.accessToken) return;
+    VocabularyEventStream.getInstance().start();
+    migrateLegacyIgnoredWords();
+  })
+  .catch((err) => logger.warn('Failed to read access token for event stream', err));
+
+/** 旧版本存在 chrome.storage.sync 的忽略列表上传到服务端；没有旧数据时是 no-op */
+function migrateLegacyIgnoredWords(): void {
+  IgnoredWordsStore.getInstance()
+    .migrateLegacyList()
+    .catch((err) => logger.warn('Failed to migrate legacy ignore list', err as Error));
+}
+
 chrome.runtime.onInstalled.addListener(() => {
   logger.info('Extension installed', { version: 'v3' });
 
@@ -138,6 +158,9 @@ chrome.runtime.onStartup.addListener(() => {
   DictionaryMirror.getInstance()
     .init()
     .catch((err) => logger.error('Failed to init dictionary mirror on startup', err as Error));
+  DefinitionsPack.getInstance()
+    .init()
+    .catch((err) => logger.error('Failed to init definitions pack on startup', err as Error));
 });
 
 // 监听认证状态变化——登录后触发同步、登出时清空镜像
@@ -154,12 +177,18 @@ chrome.storage.onChanged.addListener((changes, areaName) => {
     mirror.syncFromRemote().catch((err) => {
       logger.error('Failed to sync mirror after login', err as Error);
     });
+    VocabularyEventStream.getInstance().start();
+    migrateLegacyIgnoredWords();
   } else if (!newValue && oldValue) {
     // 登出：清空本地镜像
     logger.info('Logout detected, clearing vocabulary mirror');
+    VocabularyEventStream.getInstance().stop();
     mirror.clear().catch((err) => {
       logger.error('Failed to clear mirror on logout', err as Error);
     });
+    IgnoredWordsStore.getInstance()
+      .clearLocal()
+      .catch((err) => logger.error('Failed to clear ignore list on logout', err as Error));
   }
 });
 
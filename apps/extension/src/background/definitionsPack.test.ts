@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { DefinitionsPackManifest } from 'shared-types';
+import {
+  PACK_RECHECK_MS,
+  diffPackChunks,
+  normalizePackWord,
+  shouldCheckPack,
+  type DefinitionsPackMeta,
+} from './definitionsPack';
+
+function manifest(hashes: string[]): DefinitionsPackManifest {
+  return {
+    version: hashes.join('-'),
+    whitelistVersion: 'w1',
+    familyCount: hashes.length,
+    chunks: hashes.map((hash, id) => ({ id, hash, familyCount: 1 })),
+  };
+}
+
+function meta(overrides: Partial<DefinitionsPackMeta> = {}): DefinitionsPackMeta {
+  return {
+    version: 'v1',
+    whitelistVersion: 'w1',
+    chunkHashes: { 0: 'a' },
+    checkedAt: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
+
+describe('diffPackChunks', () => {
+  it('首次下载时所有块都要下', () => {
+    const { changed, removed } = diffPackChunks({}, manifest(['a', 'b']));
+    expect(changed.map((c) => c.id)).toEqual([0, 1]);
+    expect(removed).toEqual([]);
+  });
+
+  it('只重下 hash 变了的块，manifest 里没有的块要删', () => {
+    const { changed, removed } = diffPackChunks({ 0: 'a', 1: 'b', 2: 'c' }, manifest(['a', 'B']));
+    expect(changed.map((c) => c.id)).toEqual([1]);
+    expect(removed).toEqual([2]);
+  });
+});
+
+describe('shouldCheckPack', () => {
+  it('没下过或者上次没下完都要检查', () => {
+    expect(shouldCheckPack(null, 'w1', 0)).toBe(true);
+    expect(shouldCheckPack(meta({ version: null }), 'w1', 0)).toBe(true);
+  });
+
+  it('白名单换版本时立即检查，否则一天一次', () => {
+    expect(shouldCheckPack(meta(), 'w1', PACK_RECHECK_MS - 1)).toBe(false);
+    expect(shouldCheckPack(meta(), 'w2', 1)).toBe(true);
+    expect(shouldCheckPack(meta(), undefined, 1)).toBe(false);
+    expect(shouldCheckPack(meta(), 'w1', PACK_RECHECK_MS)).toBe(true);
+  });
+});
+
+describe('normalizePackWord', () => {
+  it('小写并统一撇号', () => {
+    expect(normalizePackWord(' Don’t ')).toBe("don't");
+  });
+});
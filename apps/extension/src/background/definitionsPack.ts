@@ -0,0 +1,288 @@
+import type {
+  DefinitionsPackChunk,
+  DefinitionsPackFamily,
+  DefinitionsPackManifest,
+  WordDetails,
+} from 'shared-types';
+import { Logger } from '../utils/logger';
+import { getApiBaseUrl } from './api/apiConfig';
+import { DictionaryMirror } from './dictionaryMirror';
+
+const DB_NAME = 'linguoland-definitions';
+const DB_VERSION = 1;
+const FAMILY_STORE = 'families';
+const FORM_STORE = 'forms';
+const META_KEY = 'definitionsPackMeta';
+const SYNC_TIMEOUT_MS = 60_000;
+
+/** 白名单没变时多久去问一次 manifest */
+export const PACK_RECHECK_MS = 24 * 60 * 60 * 1000;
+
+export interface DefinitionsPackMeta {
+  /** 全部块都下完后才写；中途断掉时保留旧值，下次按块 hash 续传 */
+  version: string | null;
+  whitelistVersion: string | null;
+  chunkHashes: Record<number, string>;
+  checkedAt: string | null;
+}
+
+interface FamilyRow extends DefinitionsPackFamily {
+  chunkId: number;
+}
+
+interface FormRow {
+  word: string;
+  root: string;
+  chunkId: number;
+}
+
+/** 本地块 hash 和 manifest 对比：要重下的块、manifest 里已经没有的块 */
+export function diffPackChunks(
+  localHashes: Record<number, string>,
+  manifest: DefinitionsPackManifest,
+): { changed: DefinitionsPackManifest['chunks']; removed: number[] } {
+  const remoteIds = new Set(manifest.chunks.map((c) => c.id));
+  return {
+    changed: manifest.chunks.filter((c) => localHashes[c.id] !== c.hash),
+    removed: Object.keys(localHashes)
+      .map(Number)
+      .filter((id) => !remoteIds.has(id)),
+  };
+}
+
+/** 没下过、白名单换了版本、或者距上次检查超过一天，才去拉 manifest */
+export function shouldCheckPack(
+  meta: DefinitionsPackMeta | null,
+  whitelistVersion: string | undefined,
+  now: number,
+): boolean {
+  if (!meta?.version || !meta.checkedAt) return true;
+  if (whitelistVersion && whitelistVersion !== meta.whitelistVersion) return true;
+  return now - Date.parse(meta.checkedAt) >= PACK_RECHECK_MS;
+}
+
+/** 和后端 Word.text 一致：小写，弯引号换成直引号 */
+export function normalizePackWord(word: string): string {
+  return word.trim().toLowerCase().replace(/[‘’]/g, "'");
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB 事务被中止'));
+  });
+}
+
+/**
+ * 离线释义包（ADR 0040）：高频前两万个词族的释义存在 IndexedDB 里，
+ * GET_INTERNAL_DEFINITION 先查本地，命中就不走网络。
+ *
+ * - 后端按词族哈希分成若干块，每块按内容 hash 寻址；本地记下每块的 hash，只重下变了的块
+ * - 下载进度（各块 hash、检查时间）放在 chrome.storage.local，和白名单镜像一样
+ * - 包里不含用户数据：userLists 固定为空，词卡拿到 source = 'pack' 时自己再去后端补
+ */
+export class DefinitionsPack {
+  private static instance: DefinitionsPack | null = null;
+
+  private meta: DefinitionsPackMeta | null = null;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private initPromise: Promise<void> | null = null;
+  private syncPromise: Promise<void> | null = null;
+  private logger = new Logger('DefinitionsPack');
+
+  private constructor() {}
+
+  static getInstance(): DefinitionsPack {
+    if (!DefinitionsPack.instance) {
+      DefinitionsPack.instance = new DefinitionsPack();
+    }
+    return DefinitionsPack.instance;
+  }
+
+  /** 还原下载进度，需要时后台检查更新；失败不影响查词，照常走网络 */
+  async init(): Promise<void> {
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = (async () => {
+      if (typeof indexedDB === 'undefined') return;
+      this.meta = await this.readMeta();
+
+      const whitelist = await DictionaryMirror.getInstance().getResult();
+      if (!shouldCheckPack(this.meta, whitelist.version, Date.now())) return;
+
+      this.sync().catch((err) => {
+        this.logger.warn('释义包同步失败', err as Error);
+      });
+    })();
+
+    return this.initPromise;
+  }
+
+  sync(): Promise<void> {
+    if (this.syncPromise) return this.syncPromise;
+
+    this.syncPromise = (async () => {
+      try {
+        const baseUrl = await getApiBaseUrl();
+        const manifest = await this.fetchJson<DefinitionsPackManifest>(
+          `${baseUrl}/dictionary-pack/manifest`,
+        );
+        if (!manifest || !Array.isArray(manifest.chunks) || typeof manifest.version !== 'string') {
+          throw new Error('释义包 manifest 格式异常');
+        }
+
+        const meta: DefinitionsPackMeta = this.meta ?? {
+          version: null,
+          whitelistVersion: null,
+          chunkHashes: {},
+          checkedAt: null,
+        };
+
+        if (meta.version === manifest.version) {
+          this.meta = { ...meta, checkedAt: new Date().toISOString() };
+          await this.persistMeta();
+          this.logger.info('释义包 version 未变', { version: manifest.version });
+          return;
+        }
+
+        const { changed, removed } = diffPackChunks(meta.chunkHashes, manifest);
+        const db = await this.openDb();
+        for (const id of removed) {
+          await this.replaceChunk(db, id, []);
+          delete meta.chunkHashes[id];
+        }
+        // 每下完一块就记一次进度，service worker 中途被回收也能续传
+        for (const info of changed) {
+          const chunk = await this.fetchJson<DefinitionsPackChunk>(
+            `${baseUrl}/dictionary-pack/chunks/${info.hash}`,
+          );
+          if (!chunk || chunk.id !== info.id || !Array.isArray(chunk.families)) {
+            throw new Error(`释义包分块 ${info.id} 格式异常`);
+          }
+          await this.replaceChunk(db, info.id, chunk.families);
+          meta.chunkHashes[info.id] = info.hash;
+          this.meta = meta;
+          await this.persistMeta();
+        }
+
+        this.meta = {
+          ...meta,
+          version: manifest.version,
+          whitelistVersion: manifest.whitelistVersion,
+          checkedAt: new Date().toISOString(),
+        };
+        await this.persistMeta();
+        this.logger.info('释义包已更新', {
+          version: manifest.version,
+          familyCount: manifest.familyCount,
+          downloadedChunks: changed.length,
+        });
+      } finally {
+        this.syncPromise = null;
+      }
+    })();
+
+    return this.syncPromise;
+  }
+
+  /** 本地查词：先按词形找到词根，再取词族词条；查不到返回 null */
+  async lookup(word: string): Promise<WordDetails | null> {
+    if (typeof indexedDB === 'undefined') return null;
+    await this.init();
+    if (!this.meta || Object.keys(this.meta.chunkHashes).length === 0) return null;
+
+    const text = normalizePackWord(word);
+    if (!text) return null;
+
+    const db = await this.openDb();
+    const tx = db.transaction([FORM_STORE, FAMILY_STORE], 'readonly');
+    const form = await promisify<FormRow | undefined>(tx.objectStore(FORM_STORE).get(text));
+    const family = await promisify<FamilyRow | undefined>(
+      tx.objectStore(FAMILY_STORE).get(form?.root ?? text),
+    );
+    if (!family) return null;
+
+    const { entry } = family;
+    return { ...entry, source: entry.source === 'ai' ? 'ai' : 'pack', userLists: [] };
+  }
+
+  private async fetchJson<T>(url: string): Promise<T> {
+    const response = await fetch(url, {
+      method: 'GET',
+      signal: AbortSignal.timeout(SYNC_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  /** 一个事务里删掉这一块的旧数据再写新数据，查词时不会看到半块 */
+  private async replaceChunk(
+    db: IDBDatabase,
+    chunkId: number,
+    families: DefinitionsPackFamily[],
+  ): Promise<void> {
+    const tx = db.transaction([FAMILY_STORE, FORM_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    const familyStore = tx.objectStore(FAMILY_STORE);
+    const formStore = tx.objectStore(FORM_STORE);
+
+    const range = IDBKeyRange.only(chunkId);
+    const [oldRoots, oldForms] = await Promise.all([
+      promisify(familyStore.index('chunkId').getAllKeys(range)),
+      promisify(formStore.index('chunkId').getAllKeys(range)),
+    ]);
+    for (const key of oldRoots) familyStore.delete(key);
+    for (const key of oldForms) formStore.delete(key);
+
+    for (const family of families) {
+      familyStore.put({ ...family, chunkId } satisfies FamilyRow);
+      for (const word of family.words) {
+        formStore.put({ word, root: family.root, chunkId } satisfies FormRow);
+      }
+    }
+    await done;
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore(FAMILY_STORE, { keyPath: 'root' }).createIndex('chunkId', 'chunkId');
+          db.createObjectStore(FORM_STORE, { keyPath: 'word' }).createIndex('chunkId', 'chunkId');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async readMeta(): Promise<DefinitionsPackMeta | null> {
+    const result = await chrome.storage.local.get(META_KEY);
+    const raw = result[META_KEY] as DefinitionsPackMeta | undefined;
+    if (!raw || typeof raw.chunkHashes !== 'object' || raw.chunkHashes === null) {
+      return null;
+    }
+    return raw;
+  }
+
+  private async persistMeta(): Promise<void> {
+    if (!this.meta) return;
+    await chrome.storage.local.set({ [META_KEY]: this.meta });
+  }
+}
@@ -11,6 +11,7 @@ interface RemoteSnapshot {
   verbInflectionMap?: Record<string, string>;
   nounInflectionMap?: Record<string, string>;
   adjInflectionMap?: Record<string, string>;
+  phrases?: string[];
 }
 
 interface PersistedSnapshot extends RemoteSnapshot {
@@ -26,6 +27,7 @@ export interface DictionaryWhitelistResult {
   verbInflectionMap?: Record<string, string>;
   nounInflectionMap?: Record<string, string>;
   adjInflectionMap?: Record<string, string>;
+  phrases?: string[];
   error?: string;
 }
 
@@ -118,6 +120,7 @@ export class DictionaryMirror {
           verbInflectionMap: data.verbInflectionMap,
           nounInflectionMap: data.nounInflectionMap,
           adjInflectionMap: data.adjInflectionMap,
+          phrases: data.phrases,
           syncedAt: new Date().toISOString(),
         };
 
@@ -173,6 +176,7 @@ export class DictionaryMirror {
         verbInflectionMap: this.snapshot.verbInflectionMap,
         nounInflectionMap: this.snapshot.nounInflectionMap,
         adjInflectionMap: this.snapshot.adjInflectionMap,
+        phrases: this.snapshot.phrases,
       };
     }
 
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const localStore: Record<string, unknown> = {};
+const syncStore: Record<string, unknown> = {};
+
+function fakeArea(store: Record<string, unknown>) {
+  return {
+    get: vi.fn(async (key: string) => ({ [key]: store[key] })),
+    set: vi.fn(async (obj: Record<string, unknown>) => {
+      Object.assign(store, obj);
+    }),
+    remove: vi.fn(async (key: string) => {
+      delete store[key];
+    }),
+  };
+}
+
+vi.stubGlobal('chrome', {
+  storage: { local: fakeArea(localStore), sync: fakeArea(syncStore) },
+});
+
+vi.mock('./api/fetchWithAuth', () => ({
+  fetchJsonWithAuth: vi.fn(),
+}));
+vi.mock('./api/apiConfig', () => ({
+  getApiBaseUrl: vi.fn(async () => 'http://test'),
+}));
+
+import { fetchJsonWithAuth } from './api/fetchWithAuth';
+import { IgnoredWordsStore, IGNORED_WORDS_STORAGE_KEY } from './ignoredWordsStore';
+
+const fetchMock = vi.mocked(fetchJsonWithAuth);
+
+describe('IgnoredWordsStore', () => {
+  beforeEach(() => {
+    (IgnoredWordsStore as unknown as { instance: IgnoredWordsStore | null }).instance = null;
+    Object.keys(localStore).forEach((k) => delete localStore[k]);
+    Object.keys(syncStore).forEach((k) => delete syncStore[k]);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('ignore 打后端后用响应全量覆盖本地缓存', async () => {
+    localStore[IGNORED_WORDS_STORAGE_KEY] = ['stale'];
+    fetchMock.mockResolvedValueOnce({ words: ['nasa', 'kubernetes'], addedCount: 1 });
+
+    const result = await IgnoredWordsStore.getInstance().ignore(['NASA']);
+
+    expect(result.addedCount).toBe(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://test/vocabulary/ignored',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ words: ['NASA'] }) }),
+    );
+    expect(await IgnoredWordsStore.getInstance().getWords()).toEqual(['nasa', 'kubernetes']);
+  });
+
+  it('后端失败时不动本地缓存', async () => {
+    localStore[IGNORED_WORDS_STORAGE_KEY] = ['nasa'];
+    fetchMock.mockRejectedValueOnce(new Error('HTTP 500'));
+
+    await expect(IgnoredWordsStore.getInstance().unignore('nasa')).rejects.toThrow('HTTP 500');
+    expect(localStore[IGNORED_WORDS_STORAGE_KEY]).toEqual(['nasa']);
+  });
+
+  it('旧版 storage.sync 列表上传一次，成功后删除旧 key', async () => {
+    syncStore.ignoredWords = ['nasa', 'kubernetes'];
+    fetchMock.mockResolvedValueOnce({ words: ['nasa', 'kubernetes'], addedCount: 2 });
+
+    const added = await IgnoredWordsStore.getInstance().migrateLegacyList();
+
+    expect(added).toBe(2);
+    expect(syncStore.ignoredWords).toBeUndefined();
+    expect(localStore[IGNORED_WORDS_STORAGE_KEY]).toEqual(['nasa', 'kubernetes']);
+  });
+
+  it('上传失败保留旧 key，下次再试', async () => {
+    syncStore.ignoredWords = ['nasa'];
+    fetchMock.mockRejectedValueOnce(new Error('offline'));
+
+    await expect(IgnoredWordsStore.getInstance().migrateLegacyList()).rejects.toThrow('offline');
+    expect(syncStore.ignoredWords).toEqual(['nasa']);
+  });
+
+  it('没有旧数据时不发请求', async () => {
+    expect(await IgnoredWordsStore.getInstance().migrateLegacyList()).toBe(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
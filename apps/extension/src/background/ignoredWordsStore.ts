@@ -0,0 +1,121 @@
+import type { IgnoreWordsRequest, IgnoredWordsResponse } from 'shared-types';
+import { Logger } from '../utils/logger';
+import { fetchJsonWithAuth } from './api/fetchWithAuth';
+import { getApiBaseUrl } from './api/apiConfig';
+
+/** 本地缓存的 key（chrome.storage.local）。content 的 DictionaryLoader 读它并监听变化 */
+export const IGNORED_WORDS_STORAGE_KEY = 'ignoredWords';
+/** 旧版本存放忽略列表的位置（chrome.storage.sync），登录后上传一次即删除 */
+const LEGACY_SYNC_KEY = 'ignoredWords';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * 忽略列表的客户端缓存，服务端 `/vocabulary/ignored` 是权威（ADR 0027）。
+ *
+ * - 写：先打后端，成功后用响应里的全量覆盖本地缓存；失败直接抛给调用方，不做乐观写入
+ * - 读：content 直接读 chrome.storage.local，不经过消息
+ * - /vocabulary/sync 响应和 SSE 事件里带的全量同样整体覆盖
+ * - 旧版本存在 chrome.storage.sync 里的列表由 migrateLegacyList 上传一次
+ *
+ * 只有 storage 状态、没有内存状态，所以 options 页直接用也不会和 background 不一致。
+ */
+export class IgnoredWordsStore {
+  private static instance: IgnoredWordsStore | null = null;
+
+  private migrating: Promise<number> | null = null;
+  private logger = new Logger('IgnoredWordsStore');
+
+  private constructor() {}
+
+  static getInstance(): IgnoredWordsStore {
+    if (!IgnoredWordsStore.instance) {
+      IgnoredWordsStore.instance = new IgnoredWordsStore();
+    }
+    return IgnoredWordsStore.instance;
+  }
+
+  async getWords(): Promise<string[]> {
+    const result = await chrome.storage.local.get(IGNORED_WORDS_STORAGE_KEY);
+    const words = result[IGNORED_WORDS_STORAGE_KEY];
+    return Array.isArray(words) ? (words as string[]) : [];
+  }
+
+  async replaceAll(words: string[]): Promise<void> {
+    await chrome.storage.local.set({ [IGNORED_WORDS_STORAGE_KEY]: words });
+  }
+
+  /** 从后端拉最新全量并覆盖本地 */
+  async refresh(): Promise<string[]> {
+    const data = await this.request('GET', '/vocabulary/ignored');
+    await this.replaceAll(data.words);
+    return data.words;
+  }
+
+  async ignore(words: string[]): Promise<IgnoredWordsResponse> {
+    const body: IgnoreWordsRequest = { words };
+    const data = await this.request('POST', '/vocabulary/ignored', body);
+    await this.replaceAll(data.words);
+    return data;
+  }
+
+  async unignore(word: string): Promise<IgnoredWordsResponse> {
+    const data = await this.request('DELETE', `/vocabulary/ignored/${encodeURIComponent(word)}`);
+    await this.replaceAll(data.words);
+    return data;
+  }
+
+  /** 清空服务端的整个忽略列表 */
+  async clearAll(): Promise<IgnoredWordsResponse> {
+    const data = await this.request('DELETE', '/vocabulary/ignored');
+    await this.replaceAll(data.words);
+    return data;
+  }
+
+  /** 登出时只清本地缓存 */
+  async clearLocal(): Promise<void> {
+    await chrome.storage.local.remove(IGNORED_WORDS_STORAGE_KEY);
+  }
+
+  /**
+   * 把旧版 chrome.storage.sync 里的忽略列表上传到服务端，成功后删除旧 key。
+   * 需要已登录；失败保留旧 key，下次启动 / 登录再试。返回实际新增条数。
+   */
+  migrateLegacyList(): Promise<number> {
+    if (this.migrating) return this.migrating;
+
+    this.migrating = (async () => {
+      try {
+        const result = await chrome.storage.sync.get(LEGACY_SYNC_KEY);
+        const legacy = result[LEGACY_SYNC_KEY];
+        if (!Array.isArray(legacy)) return 0;
+
+        const words = legacy.filter((w): w is string => typeof w === 'string');
+        const addedCount = words.length > 0 ? ((await this.ignore(words)).addedCount ?? 0) : 0;
+        await chrome.storage.sync.remove(LEGACY_SYNC_KEY);
+        this.logger.info('Legacy ignore list migrated to server', {
+          localCount: words.length,
+          addedCount,
+        });
+        return addedCount;
+      } finally {
+        this.migrating = null;
+      }
+    })();
+
+    return this.migrating;
+  }
+
+  private async request(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    body?: IgnoreWordsRequest,
+  ): Promise<IgnoredWordsResponse> {
+    const baseUrl = await getApiBaseUrl();
+    return fetchJsonWithAuth<IgnoredWordsResponse>(`${baseUrl}${path}`, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  }
+}
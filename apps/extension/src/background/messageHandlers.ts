@@ -2,7 +2,10 @@ import type {
   AIEnrichmentData,
   ChromeMessage,
   ChromeMessageResponse,
+  FamilyOverridesResponse,
+  UserListFamiliesResponse,
   WordDetails,
+  WordEncounterRecordResponse,
   WordFamiliarityStatus,
   WordMutationResponse,
   WordQueryResponse,
@@ -14,6 +17,15 @@ import { Logger } from '../utils/logger';
 import { fetchJsonWithAuth } from './api/fetchWithAuth';
 import { VocabularyMirror } from './vocabularyMirror';
 import { DictionaryMirror } from './dictionaryMirror';
+import { DefinitionsPack } from './definitionsPack';
+import { IgnoredWordsStore } from './ignoredWordsStore';
+import {
+  getAiQuotaBlock,
+  parseAiQuotaError,
+  rememberAiQuotaFailure,
+  type AiQuotaFailure,
+} from './aiQuota';
+import { parseChatSseData, readSseData } from './aiChat';
 
 /**
  * Chrome消息处理器
@@ -24,6 +36,8 @@ export class MessageHandlers {
   private dictionaryService: DictionaryService;
   private mirror: VocabularyMirror;
   private dictionaryMirror: DictionaryMirror;
+  private definitionsPack: DefinitionsPack;
+  private ignoredWords: IgnoredWordsStore;
   private logger: Logger;
 
   constructor() {
@@ -31,6 +45,8 @@ export class MessageHandlers {
     this.dictionaryService = new DictionaryService();
     this.mirror = VocabularyMirror.getInstance();
     this.dictionaryMirror = DictionaryMirror.getInstance();
+    this.definitionsPack = DefinitionsPack.getInstance();
+    this.ignoredWords = IgnoredWordsStore.getInstance();
     this.logger = new Logger('MessageHandlers');
 
     // 后台启动时即拉取本地镜像（先 storage 兜底，再后台异步 sync）
@@ -40,6 +56,9 @@ export class MessageHandlers {
     this.dictionaryMirror.init().catch((err) => {
       this.logger.error('Failed to initialize dictionary mirror', err as Error);
     });
+    this.definitionsPack.init().catch((err) => {
+      this.logger.error('Failed to initialize definitions pack', err as Error);
+    });
   }
 
   /**
@@ -59,10 +78,15 @@ export class MessageHandlers {
   }
 
   /**
-   * 处理获取内部词典定义（新方法）
+   * 处理获取内部词典定义（新方法）：先查本地离线释义包（ADR 0040），没有再走网络
    */
   async handleGetInternalDefinition(word: string): Promise<WordDetails> {
     this.logger.debug('Handling get internal word definition', { word });
+    const local = await this.definitionsPack.lookup(word).catch((err) => {
+      this.logger.warn('Definitions pack lookup failed', err as Error);
+      return null;
+    });
+    if (local) return local;
     return await this.dictionaryService.getWordDetails(word);
   }
 
@@ -77,7 +101,12 @@ export class MessageHandlers {
     // 状态从 "ignored" 改变时，先从忽略列表中移除
     await this.removeFromIgnoredList(word);
 
-    const result = await this.vocabularyApi.updateWordStatus(word, status, familiarityLevel);
+    const result = await this.vocabularyApi.updateWordStatus(
+      word,
+      status,
+      familiarityLevel,
+      'word_card',
+    );
     await this.applyMutationToMirror(result);
     return result;
   }
@@ -94,16 +123,14 @@ export class MessageHandlers {
   }
 
   /**
-   * 从忽略列表中移除单词
+   * 从忽略列表中移除单词。先看本地缓存，不在列表里就不打后端。
    */
   private async removeFromIgnoredList(word: string): Promise<void> {
     try {
-      const result = await chrome.storage.sync.get(['ignoredWords']);
-      const ignoredWords: string[] = result.ignoredWords || [];
+      const ignoredWords = await this.ignoredWords.getWords();
       const wordLower = word.toLowerCase();
       if (ignoredWords.includes(wordLower)) {
-        const updatedWords = ignoredWords.filter((w) => w !== wordLower);
-        await chrome.storage.sync.set({ ignoredWords: updatedWords });
+        await this.ignoredWords.unignore(wordLower);
         this.logger.info('Word removed from ignore list', { word });
       }
     } catch (error) {
@@ -120,15 +147,9 @@ export class MessageHandlers {
     this.logger.debug('Handling ignore word', { word });
 
     try {
-      // 获取当前的忽略列表
-      const result = await chrome.storage.sync.get(['ignoredWords']);
-      const ignoredWords: string[] = result.ignoredWords || [];
-
-      // 添加新的忽略单词（转为小写避免重复）
-      const wordLower = word.toLowerCase();
-      if (!ignoredWords.includes(wordLower)) {
-        ignoredWords.push(wordLower);
-        await chrome.storage.sync.set({ ignoredWords });
+      // 后端负责规整与去重，addedCount 为 0 表示已经在列表里
+      const { addedCount } = await this.ignoredWords.ignore([word]);
+      if (addedCount) {
         this.logger.info('Word added to ignore list', { word });
         return { success: true, message: `单词 "${word}" 已添加到忽略列表` };
       } else {
@@ -153,26 +174,13 @@ export class MessageHandlers {
     this.logger.debug('Handling batch ignore words', { count: words.length });
 
     try {
-      // 获取当前的忽略列表
-      const result = await chrome.storage.sync.get(['ignoredWords']);
-      const ignoredWords: string[] = result.ignoredWords || [];
-
-      // 批量添加新的忽略单词（转为小写避免重复）
-      let addedCount = 0;
-      words.forEach((word) => {
-        const wordLower = word.toLowerCase();
-        if (!ignoredWords.includes(wordLower)) {
-          ignoredWords.push(wordLower);
-          addedCount++;
-        }
-      });
-
-      // 一次性保存
+      // 一次请求批量写入，已存在的由后端跳过
+      const result = await this.ignoredWords.ignore(words);
+      const addedCount = result.addedCount ?? 0;
       if (addedCount > 0) {
-        await chrome.storage.sync.set({ ignoredWords });
         this.logger.info('Batch words added to ignore list', {
           count: addedCount,
-          total: ignoredWords.length,
+          total: result.words.length,
         });
       }
 
@@ -192,36 +200,35 @@ export class MessageHandlers {
   }
 
   /**
-   * 批量更新单词状态——并行调后端，每条成功的写入都同步到镜像。
+   * 批量更新单词状态——走 /vocabulary/batch，每批在服务端一个事务里，要么全成要么全败；
+   * 超过单次上限时分批提交。返回的 family / removedFamilyRoot 整批同步到镜像。
    */
   async handleBatchUpdateWordStatus(
     words: string[],
     status: WordFamiliarityStatus,
     familiarityLevel?: number,
-  ): Promise<{ success: boolean; message: string; updatedCount: number }> {
+  ): Promise<{
+    success: boolean;
+    message: string;
+    updatedCount: number;
+    unknownLemmas: string[];
+  }> {
+    let updatedCount = 0;
+    const unknownLemmas: string[] = [];
     try {
-      let updatedCount = 0;
-      await Promise.all(
-        words.map((word) =>
-          this.vocabularyApi
-            .updateWordStatus(word, status, familiarityLevel)
-            .then(async (result) => {
-              updatedCount++;
-              await this.applyMutationToMirror(result);
-              return true;
-            })
-            .catch((error) => {
-              this.logger.warn('Failed to update word status in batch', {
-                word,
-                error,
-              });
-              return false;
-            }),
-        ),
-      );
+      for (let i = 0; i < words.length; i += VocabularyApi.BATCH_MAX_ITEMS) {
+        const items = words
+          .slice(i, i + VocabularyApi.BATCH_MAX_ITEMS)
+          .map((word) => ({ word, status, familiarityLevel }));
+        const result = await this.vocabularyApi.batchUpdateWordStatus(items);
+        await this.mirror.applyMutations(result.results);
+        updatedCount += result.updatedCount + result.removedCount;
+        unknownLemmas.push(...result.unknownLemmas);
+      }
 
       this.logger.info('Batch update word status completed', {
         updatedCount,
+        unknown: unknownLemmas.length,
         total: words.length,
       });
 
@@ -229,17 +236,42 @@ export class MessageHandlers {
         success: true,
         message: `已更新 ${updatedCount} 个单词状态`,
         updatedCount,
+        unknownLemmas,
       };
     } catch (error) {
       this.logger.error('Failed to batch update word status', error as Error);
       return {
         success: false,
         message: error instanceof Error ? error.message : '未知错误',
-        updatedCount: 0,
+        updatedCount,
+        unknownLemmas,
       };
     }
   }
 
+  /** 当天 AI 额度已用完（ADR 0044）时不再发请求，直接按失败处理 */
+  private async aiQuotaBlocked(): Promise<AiQuotaFailure | null> {
+    const until = await getAiQuotaBlock();
+    if (!until) return null;
+    return {
+      reason: 'quota',
+      retryAfter: Math.ceil((until - Date.now()) / 1000),
+      message: `今日 AI 额度已用完，${new Date(until).toLocaleString()} 恢复`,
+    };
+  }
+
+  /** 429 时读出原因并记下额度用完；其他状态返回 null，照原来的流程处理 */
+  private async readAiQuotaFailure(response: Response): Promise<AiQuotaFailure | null> {
+    if (response.status !== 429) return null;
+    const body = await response.json().catch(() => null);
+    const failure = parseAiQuotaError(response.status, body, response.headers.get('Retry-After'));
+    if (failure) {
+      this.logger.info('AI quota exceeded', { reason: failure.reason });
+      await rememberAiQuotaFailure(failure);
+    }
+    return failure;
+  }
+
   /**
    * 处理 AI 增强单词释义（非流式）
    */
@@ -280,6 +312,26 @@ export class MessageHandlers {
   ): Promise<void> {
     this.logger.debug('Handling enrich word stream', { word, context, enhancedPhraseDetection });
 
+    const sendQuotaError = (failure: AiQuotaFailure) => {
+      if (!sender.tab?.id) return;
+      chrome.tabs
+        .sendMessage(sender.tab.id, {
+          type: 'ENRICH_STREAM_ERROR',
+          word,
+          error: failure.message,
+          quotaExceeded: failure.reason === 'quota',
+        })
+        .catch(() => {
+          // 忽略发送失败
+        });
+    };
+
+    const blocked = await this.aiQuotaBlocked();
+    if (blocked) {
+      sendQuotaError(blocked);
+      return;
+    }
+
     try {
       // 获取 accessToken
       const storage = await chrome.storage.local.get('accessToken');
@@ -298,6 +350,12 @@ export class MessageHandlers {
         body: JSON.stringify({ word, context, enhancedPhraseDetection }),
       });
 
+      const quotaFailure = await this.readAiQuotaFailure(response);
+      if (quotaFailure) {
+        sendQuotaError(quotaFailure);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
@@ -388,6 +446,92 @@ export class MessageHandlers {
     }
   }
 
+  /**
+   * 词卡追问（ADR 0046）。回复复用 ENRICH_STREAM_* 消息，带 channel: 'chat' 和 threadId，
+   * 词卡据此把它和 AI 解析的流分开；content 是累计的全文。
+   */
+  async handleAiChatStream(
+    message: ChromeMessage,
+    sender: chrome.runtime.MessageSender,
+  ): Promise<void> {
+    const { word, context, question } = message;
+    let threadId = message.threadId;
+    this.logger.debug('Handling AI chat stream', { word, threadId });
+
+    const notify = (
+      payload: Pick<ChromeMessage, 'type' | 'content' | 'error' | 'quotaExceeded'>,
+    ) => {
+      if (!sender.tab?.id) return;
+      chrome.tabs
+        .sendMessage(sender.tab.id, { ...payload, channel: 'chat', word, threadId })
+        .catch(() => {
+          // 忽略发送失败
+        });
+    };
+
+    const blocked = await this.aiQuotaBlocked();
+    if (blocked) {
+      notify({ type: 'ENRICH_STREAM_ERROR', error: blocked.message, quotaExceeded: true });
+      return;
+    }
+
+    try {
+      const storage = await chrome.storage.local.get('accessToken');
+      const accessToken = storage.accessToken;
+      if (!accessToken) {
+        throw new Error('No access token available');
+      }
+
+      const response = await fetch(`${this.vocabularyApi.config.baseUrl}/ai/chat`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ threadId, word, context, message: question }),
+      });
+
+      const quotaFailure = await this.readAiQuotaFailure(response);
+      if (quotaFailure) {
+        notify({
+          type: 'ENRICH_STREAM_ERROR',
+          error: quotaFailure.message,
+          quotaExceeded: quotaFailure.reason === 'quota',
+        });
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      if (!response.body) {
+        throw new Error('Response body is null');
+      }
+
+      let answer = '';
+      for await (const data of readSseData(response.body)) {
+        const frame = parseChatSseData(data);
+        if (!frame) continue;
+        if (frame.done) {
+          notify({ type: 'ENRICH_STREAM_COMPLETE', content: answer.trim() });
+          return;
+        }
+        if (frame.error) throw new Error(frame.error);
+        threadId = frame.threadId ?? threadId;
+        if (frame.content) {
+          answer += frame.content;
+          notify({ type: 'ENRICH_STREAM_DATA', content: answer });
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to stream AI chat', error as Error, { word, threadId });
+      notify({
+        type: 'ENRICH_STREAM_ERROR',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    }
+  }
+
   /**
    * 处理 AI 翻译句子（流式）
    */
@@ -409,6 +553,27 @@ export class MessageHandlers {
       sentenceAnalysisMode,
     });
 
+    const sendQuotaError = (failure: AiQuotaFailure) => {
+      if (!sender.tab?.id) return;
+      chrome.tabs
+        .sendMessage(sender.tab.id, {
+          type: 'TRANSLATE_STREAM_ERROR',
+          paragraph,
+          sentence: targetSentence,
+          error: failure.message,
+          quotaExceeded: failure.reason === 'quota',
+        })
+        .catch(() => {
+          // 忽略发送失败
+        });
+    };
+
+    const blocked = await this.aiQuotaBlocked();
+    if (blocked) {
+      sendQuotaError(blocked);
+      return;
+    }
+
     try {
       // 获取 accessToken
       this.logger.debug('[MessageHandlers] 获取 accessToken');
@@ -459,6 +624,12 @@ export class MessageHandlers {
           }),
       );
 
+      const quotaFailure = await this.readAiQuotaFailure(response);
+      if (quotaFailure) {
+        sendQuotaError(quotaFailure);
+        return;
+      }
+
       if (!response.ok) {
         this.logger.error(
           '[MessageHandlers] HTTP请求失败',
@@ -662,6 +833,52 @@ export class MessageHandlers {
     }
   }
 
+  /**
+   * 记录查词上下文。未登录或无痕窗口不记录；出处取发消息的 frame 的 URL 和所在标签页标题
+   */
+  async handleRecordEncounter(
+    message: ChromeMessage,
+    sender: chrome.runtime.MessageSender,
+  ): Promise<WordEncounterRecordResponse> {
+    const { accessToken } = await chrome.storage.local.get('accessToken');
+    if (!accessToken || sender.tab?.incognito) {
+      return { recorded: false };
+    }
+
+    const url = sender.url ?? sender.tab?.url;
+    return this.vocabularyApi.recordEncounter({
+      word: message.word!,
+      lemma: message.lemma,
+      sentence: message.context!,
+      url: url && /^https?:/.test(url) ? url : undefined,
+      pageTitle: sender.tab?.title,
+    });
+  }
+
+  /**
+   * 词卡"加入词单"：有 listId 直接加；只有 listName 时先建词单再加
+   */
+  async handleAddToUserList(message: ChromeMessage): Promise<UserListFamiliesResponse> {
+    let listId = message.listId;
+    if (listId === undefined) {
+      if (!message.listName?.trim()) {
+        throw new Error('缺少词单');
+      }
+      listId = (await this.vocabularyApi.createUserList(message.listName)).id;
+    }
+    return this.vocabularyApi.addToUserList(listId, [message.word!]);
+  }
+
+  /**
+   * 词卡"这个词不一样"：拆成独立词族后增量同步一次，镜像里原词族的词形和
+   * 调整过的词都换成最新的，调用方再触发重新扫描
+   */
+  async handleDetachWordFamily(word: string): Promise<FamilyOverridesResponse> {
+    const result = await this.vocabularyApi.detachWordFamily(word);
+    await this.mirror.syncFromRemote();
+    return result;
+  }
+
   /**
    * 主要的消息路由处理器
    */
@@ -761,9 +978,11 @@ export class MessageHandlers {
               message.familiarityLevel,
             );
 
-            // 通知content script更新每个单词的高亮
+            // 通知content script更新每个单词的高亮（不在词表里的没写入，跳过）
             if (result.success) {
-              message.words!.forEach((word) => {
+              const unknown = new Set(result.unknownLemmas);
+              const written = message.words!.filter((word) => !unknown.has(word));
+              written.forEach((word) => {
                 this.notifyContentScriptUpdate(
                   sender,
                   word,
@@ -796,6 +1015,35 @@ export class MessageHandlers {
           }, sendResponse);
           return true;
 
+        case 'GET_USER_LISTS':
+          ResponseHandler.handleAsyncMessage(() => this.vocabularyApi.getUserLists(), sendResponse);
+          return true;
+
+        case 'ADD_TO_USER_LIST':
+          ResponseHandler.handleAsyncMessage(() => this.handleAddToUserList(message), sendResponse);
+          return true;
+
+        case 'DETACH_WORD_FAMILY':
+          ResponseHandler.handleAsyncMessage(
+            () => this.handleDetachWordFamily(message.word!),
+            sendResponse,
+          );
+          return true;
+
+        case 'GET_WORD_EXAMPLES':
+          ResponseHandler.handleAsyncMessage(
+            () => this.dictionaryService.getWordExamples(message.word!),
+            sendResponse,
+          );
+          return true;
+
+        case 'RECORD_ENCOUNTER':
+          ResponseHandler.handleAsyncMessage(
+            () => this.handleRecordEncounter(message, sender),
+            sendResponse,
+          );
+          return true;
+
         case 'ENRICH_WORD':
           // 异步处理，立即返回 true
           ResponseHandler.handleAsyncMessage(
@@ -826,6 +1074,17 @@ export class MessageHandlers {
             });
           return true;
 
+        case 'AI_CHAT_STREAM':
+          // 流式处理，回复通过 ENRICH_STREAM_*（channel: 'chat'）发回
+          this.handleAiChatStream(message, sender)
+            .then(() => {
+              sendResponse(ResponseHandler.createSuccessResponse({ streaming: true }));
+            })
+            .catch((error) => {
+              sendResponse(ResponseHandler.createErrorResponse(error.message));
+            });
+          return true;
+
         case 'TRANSLATE_SENTENCE':
           // 异步处理，立即返回 true
           ResponseHandler.handleAsyncMessage(
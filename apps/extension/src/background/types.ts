@@ -1,4 +1,6 @@
 // Background script 专用类型定义
+import type { StatusChangeSource } from 'shared-types';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -9,6 +11,7 @@ export interface WordUpdateRequest {
   status: string;
   familiarityLevel?: number;
   userId?: string; // 可选，通常从 JWT 令牌中获取
+  source?: StatusChangeSource; // 写入后端状态流水，缺省按 manual
 }
 
 export interface ApiConfig {
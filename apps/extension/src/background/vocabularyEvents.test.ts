@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const sendMessage = vi.fn(async () => undefined);
+
+vi.stubGlobal('chrome', {
+  storage: {
+    local: {
+      get: vi.fn(async () => ({})),
+      set: vi.fn(async () => undefined),
+      remove: vi.fn(async () => undefined),
+    },
+  },
+  tabs: {
+    query: vi.fn(async () => [{ id: 1 }, { id: 2 }]),
+    sendMessage,
+  },
+});
+
+vi.mock('./api/fetchWithAuth', () => ({
+  fetchWithAuth: vi.fn(),
+  fetchJsonWithAuth: vi.fn(),
+}));
+vi.mock('./api/apiConfig', () => ({
+  getApiBaseUrl: vi.fn(async () => 'http://test'),
+}));
+
+import { parseSseFrames, VocabularyEventStream } from './vocabularyEvents';
+import { VocabularyMirror } from './vocabularyMirror';
+
+function sseResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+describe('parseSseFrames', () => {
+  it('按空行切帧，带 event 类型，未收全的尾巴留在 rest', () => {
+    const { frames, rest } = parseSseFrames(
+      'event: change\ndata: {"resync":true}\n\nevent: ping\ndata: {}\n\nevent: cha',
+    );
+    expect(frames).toEqual([
+      { event: 'change', data: '{"resync":true}' },
+      { event: 'ping', data: '{}' },
+    ]);
+    expect(rest).toBe('event: cha');
+  });
+
+  it('没有 event 行时默认 message，兼容 \\r\\n', () => {
+    const { frames } = parseSseFrames('data: 1\r\n\r\n');
+    expect(frames).toEqual([{ event: 'message', data: '1' }]);
+  });
+});
+
+describe('VocabularyEventStream', () => {
+  afterEach(() => {
+    VocabularyEventStream.getInstance().stop();
+    vi.clearAllMocks();
+  });
+
+  it('收到 change 事件后写进镜像并广播给所有标签页；帧被拆包也能拼回', async () => {
+    const { fetchWithAuth } = await import('./api/fetchWithAuth');
+    const family = {
+      familyRoot: 'run',
+      lemmas: ['run', 'ran'],
+      status: 'known',
+      familiarityLevel: 7,
+    };
+    const payload = `event: change\ndata: ${JSON.stringify({ family })}\n\n`;
+    (fetchWithAuth as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      sseResponse([payload.slice(0, 10), payload.slice(10)]),
+    );
+
+    VocabularyEventStream.getInstance().start();
+
+    await vi.waitFor(() => expect(sendMessage).toHaveBeenCalledTimes(2));
+    expect(VocabularyMirror.getInstance().query(['ran']).ran.status).toBe('known');
+    expect(sendMessage).toHaveBeenCalledWith(1, {
+      type: 'WORD_STATUS_UPDATED',
+      word: 'run',
+      status: 'known',
+      familiarityLevel: 7,
+      familyRoot: 'run',
+    });
+  });
+
+  it('tombstone 事件把词族移出镜像并按 unknown 广播', async () => {
+    const { fetchWithAuth } = await import('./api/fetchWithAuth');
+    await VocabularyMirror.getInstance().applyFamily({
+      familyRoot: 'eat',
+      lemmas: ['eat', 'ate'],
+      status: 'learning',
+      familiarityLevel: 2,
+    });
+    (fetchWithAuth as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce(
+      sseResponse(['event: change\ndata: {"removedFamilyRoot":"eat"}\n\n']),
+    );
+
+    VocabularyEventStream.getInstance().start();
+
+    await vi.waitFor(() =>
+      expect(sendMessage).toHaveBeenCalledWith(2, expect.objectContaining({ status: 'unknown' })),
+    );
+    expect(VocabularyMirror.getInstance().query(['ate']).ate.status).toBe('unknown');
+  });
+});
@@ -0,0 +1,182 @@
+import type { VocabularyChangeEvent, WordFamiliarityStatus } from 'shared-types';
+import { Logger } from '../utils/logger';
+import { fetchWithAuth } from './api/fetchWithAuth';
+import { getApiBaseUrl } from './api/apiConfig';
+import { VocabularyMirror } from './vocabularyMirror';
+import { IgnoredWordsStore } from './ignoredWordsStore';
+
+const INITIAL_RETRY_MS = 1_000;
+const MAX_RETRY_MS = 60_000;
+
+export interface SseFrame {
+  event: string;
+  data: string;
+}
+
+/**
+ * 把累计的 SSE 文本切成完整帧。最后一段可能没收全，原样放回 rest 等下次拼接。
+ */
+export function parseSseFrames(buffer: string): { frames: SseFrame[]; rest: string } {
+  const parts = buffer.split(/\r?\n\r?\n/);
+  const rest = parts.pop() ?? '';
+  const frames: SseFrame[] = [];
+
+  for (const part of parts) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of part.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+    }
+    if (data.length > 0) frames.push({ event, data: data.join('\n') });
+  }
+
+  return { frames, rest };
+}
+
+/**
+ * 订阅 /vocabulary/events：其他设备（移动端、另一台电脑）改了词族状态后，
+ * 实时写进本地镜像并广播 WORD_STATUS_UPDATED 给所有标签页；忽略列表变更覆盖本地缓存。
+ *
+ * - EventSource 在 service worker 里不可用、也带不了 Authorization 头，所以用 fetch 读流
+ * - service worker 被回收时连接随之断开；下次唤醒 init 会先增量 sync 补上断开期间的变更
+ * - 断线指数退避重连，登出时 stop
+ */
+export class VocabularyEventStream {
+  private static instance: VocabularyEventStream | null = null;
+
+  private abortController: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = INITIAL_RETRY_MS;
+  private mirror = VocabularyMirror.getInstance();
+  private logger = new Logger('VocabularyEventStream');
+
+  private constructor() {}
+
+  static getInstance(): VocabularyEventStream {
+    if (!VocabularyEventStream.instance) {
+      VocabularyEventStream.instance = new VocabularyEventStream();
+    }
+    return VocabularyEventStream.instance;
+  }
+
+  /** 幂等：已连接或正在等待重连时不重复建连 */
+  start(): void {
+    if (this.abortController || this.retryTimer) return;
+    void this.connect();
+  }
+
+  stop(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.abortController?.abort();
+    this.abortController = null;
+    this.retryDelay = INITIAL_RETRY_MS;
+  }
+
+  private async connect(): Promise<void> {
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    try {
+      const baseUrl = await getApiBaseUrl();
+      const response = await fetchWithAuth(`${baseUrl}/vocabulary/events`, {
+        method: 'GET',
+        headers: { Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      this.logger.info('Vocabulary event stream connected');
+      this.retryDelay = INITIAL_RETRY_MS;
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const { frames, rest } = parseSseFrames(buffer);
+        buffer = rest;
+        for (const frame of frames) {
+          if (frame.event === 'change') await this.handleChange(frame.data);
+        }
+      }
+      this.logger.info('Vocabulary event stream closed by server');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.logger.warn('Vocabulary event stream failed', error as Error);
+    }
+
+    if (this.abortController !== controller) return;
+    this.abortController = null;
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_MS);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.connect();
+    }, delay);
+  }
+
+  private async handleChange(raw: string): Promise<void> {
+    let event: VocabularyChangeEvent;
+    try {
+      event = JSON.parse(raw) as VocabularyChangeEvent;
+    } catch {
+      this.logger.warn('Malformed vocabulary event', { raw });
+      return;
+    }
+
+    if (event.ignoredWords) {
+      // 写进 storage 后各标签页的 content 自己会重新扫描
+      await IgnoredWordsStore.getInstance().replaceAll(event.ignoredWords);
+      return;
+    }
+
+    if (event.resync) {
+      // 批量导入之类的写入不逐条推送；已打开页面的高亮等刷新后生效
+      await this.mirror.syncFromRemote();
+      return;
+    }
+
+    if (event.family) {
+      await this.mirror.applyFamily(event.family);
+      this.broadcast(event.family.familyRoot, event.family.status, event.family.familiarityLevel);
+    } else if (event.removedFamilyRoot) {
+      await this.mirror.applyFamily(null, event.removedFamilyRoot);
+      this.broadcast(event.removedFamilyRoot, 'unknown', 0);
+    }
+  }
+
+  /** 推给所有标签页的所有 frame，content 按 familyRoot 整族更新高亮 */
+  private broadcast(familyRoot: string, status: WordFamiliarityStatus, familiarityLevel: number) {
+    chrome.tabs
+      .query({})
+      .then((tabs) => {
+        for (const tab of tabs) {
+          if (!tab.id) continue;
+          chrome.tabs
+            .sendMessage(tab.id, {
+              type: 'WORD_STATUS_UPDATED',
+              word: familyRoot,
+              status,
+              familiarityLevel,
+              familyRoot,
+            })
+            .catch(() => {
+              // 没有 content script 的标签页（chrome:// 等）会失败，忽略
+            });
+        }
+      })
+      .catch((error) => this.logger.debug('Failed to query tabs', error as Error));
+  }
+}
@@ -118,6 +118,20 @@ describe('VocabularyMirror', () => {
     });
   });
 
+  it('applyMutations 按顺序应用批量结果，只落一次盘', async () => {
+    const mirror = VocabularyMirror.getInstance();
+    await mirror.applyFamily(eatFamily);
+    vi.mocked(chrome.storage.local.set).mockClear();
+
+    await mirror.applyMutations([{ family: runFamily }, { removedFamilyRoot: 'eat' }, {}]);
+
+    expect(mirror.query(['ran', 'eating'])).toEqual({
+      ran: { status: 'known', familyRoot: 'run', familiarityLevel: 7 },
+      eating: { status: 'unknown', familyRoot: 'eating', familiarityLevel: 0 },
+    });
+    expect(chrome.storage.local.set).toHaveBeenCalledTimes(1);
+  });
+
   it('数据落到 chrome.storage.local，重启后能直接还原', async () => {
     const mirror1 = VocabularyMirror.getInstance();
     await mirror1.applyFamily(runFamily);
@@ -141,6 +155,142 @@ describe('VocabularyMirror', () => {
     });
   });
 
+  it('没有游标时拉全量，整体覆盖本地镜像', async () => {
+    const { fetchJsonWithAuth } = await import('./api/fetchWithAuth');
+    const fetchMock = fetchJsonWithAuth as unknown as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce({
+      syncedAt: '2026-10-19T08:00:00.000Z',
+      families: [eatFamily],
+    });
+
+    const mirror = VocabularyMirror.getInstance();
+    await mirror.applyFamily(runFamily);
+    await mirror.syncFromRemote();
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://test/vocabulary/sync');
+    expect(mirror.getStats()).toMatchObject({
+      familyCount: 1,
+      syncedAt: '2026-10-19T08:00:00.000Z',
+    });
+    expect(mirror.query(['running']).running.status).toBe('unknown');
+  });
+
+  it('有游标时带 since 增量拉取：合并 upsert、按 tombstone 删除、其余词族保留', async () => {
+    const { fetchJsonWithAuth } = await import('./api/fetchWithAuth');
+    const fetchMock = fetchJsonWithAuth as unknown as ReturnType<typeof vi.fn>;
+    const walkFamily: VocabularySyncFamily = {
+      familyRoot: 'walk',
+      lemmas: ['walk', 'walked'],
+      status: 'learning',
+      familiarityLevel: 1,
+    };
+    fetchMock
+      .mockResolvedValueOnce({
+        syncedAt: '2026-10-19T08:00:00.000Z',
+        families: [runFamily, eatFamily],
+      })
+      .mockResolvedValueOnce({
+        syncedAt: '2026-10-19T09:00:00.000Z',
+        families: [walkFamily, { ...runFamily, familiarityLevel: 5, status: 'learning' }],
+        incremental: true,
+        removedFamilyRoots: ['eat'],
+      });
+
+    const mirror = VocabularyMirror.getInstance();
+    await mirror.syncFromRemote();
+    await mirror.syncFromRemote();
+
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      'http://test/vocabulary/sync?since=2026-10-19T08%3A00%3A00.000Z',
+    );
+    expect(mirror.query(['ran', 'eating', 'walked'])).toEqual({
+      ran: { status: 'learning', familyRoot: 'run', familiarityLevel: 5 },
+      eating: { status: 'unknown', familyRoot: 'eating', familiarityLevel: 0 },
+      walked: { status: 'learning', familyRoot: 'walk', familiarityLevel: 1 },
+    });
+    expect(mirror.getStats().syncedAt).toBe('2026-10-19T09:00:00.000Z');
+  });
+
+  it('词族合并：目标 upsert 在前、源 tombstone 在后，合并过来的 lemma 不被删掉', async () => {
+    const { fetchJsonWithAuth } = await import('./api/fetchWithAuth');
+    const fetchMock = fetchJsonWithAuth as unknown as ReturnType<typeof vi.fn>;
+    const ranFamily: VocabularySyncFamily = {
+      familyRoot: 'ran',
+      lemmas: ['ran'],
+      status: 'learning',
+      familiarityLevel: 2,
+    };
+    fetchMock
+      .mockResolvedValueOnce({
+        syncedAt: '2026-10-19T08:00:00.000Z',
+        families: [{ ...runFamily, lemmas: ['run', 'runs'] }, ranFamily],
+      })
+      .mockResolvedValueOnce({
+        syncedAt: '2026-10-19T09:00:00.000Z',
+        families: [runFamily],
+        incremental: true,
+        removedFamilyRoots: ['ran'],
+      });
+
+    const mirror = VocabularyMirror.getInstance();
+    await mirror.syncFromRemote();
+    await mirror.syncFromRemote();
+
+    expect(mirror.query(['ran', 'runs'])).toEqual({
+      ran: { status: 'known', familyRoot: 'run', familiarityLevel: 7 },
+      runs: { status: 'known', familyRoot: 'run', familiarityLevel: 7 },
+    });
+    expect(mirror.getStats()).toMatchObject({ familyCount: 1, lemmaCount: 4 });
+  });
+
+  it('调整过词族的词带 overridden，列表随 sync 整份覆盖', async () => {
+    const { fetchJsonWithAuth } = await import('./api/fetchWithAuth');
+    const fetchMock = fetchJsonWithAuth as unknown as ReturnType<typeof vi.fn>;
+    fetchMock
+      .mockResolvedValueOnce({
+        syncedAt: '2026-10-19T08:00:00.000Z',
+        families: [{ ...runFamily, lemmas: ['run', 'runs', 'ran'] }],
+        overriddenWords: ['running'],
+      })
+      .mockResolvedValueOnce({
+        syncedAt: '2026-10-19T09:00:00.000Z',
+        families: [],
+        incremental: true,
+        overriddenWords: [],
+      });
+
+    const mirror = VocabularyMirror.getInstance();
+    await mirror.syncFromRemote();
+    expect(mirror.query(['Running', 'ran'])).toEqual({
+      Running: { status: 'unknown', familyRoot: 'Running', familiarityLevel: 0, overridden: true },
+      ran: { status: 'known', familyRoot: 'run', familiarityLevel: 7 },
+    });
+    expect(storageStore.vocabularyMirror).toMatchObject({ overriddenWords: ['running'] });
+
+    await mirror.syncFromRemote();
+    expect(mirror.query(['running']).running.overridden).toBeUndefined();
+  });
+
+  it('只有本地写入、从未同步过的快照不带游标，重启后仍拉全量', async () => {
+    const mirror1 = VocabularyMirror.getInstance();
+    await mirror1.applyFamily(runFamily);
+    expect((storageStore.vocabularyMirror as { syncedAt: string | null }).syncedAt).toBeNull();
+
+    (VocabularyMirror as unknown as { instance: VocabularyMirror | null }).instance = null;
+    const { fetchJsonWithAuth } = await import('./api/fetchWithAuth');
+    const fetchMock = fetchJsonWithAuth as unknown as ReturnType<typeof vi.fn>;
+    fetchMock.mockResolvedValueOnce({
+      syncedAt: '2026-10-19T08:00:00.000Z',
+      families: [runFamily],
+    });
+
+    const mirror2 = VocabularyMirror.getInstance();
+    await mirror2.init();
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://test/vocabulary/sync');
+  });
+
   it('clear 清空内存与 storage', async () => {
     const mirror = VocabularyMirror.getInstance();
     await mirror.applyFamily(runFamily);
@@ -2,18 +2,22 @@ import type {
   VocabularySyncFamily,
   VocabularySyncResponse,
   WordFamilyInfo,
+  WordMutationResponse,
   WordQueryResponse,
 } from 'shared-types';
 import { Logger } from '../utils/logger';
 import { fetchJsonWithAuth } from './api/fetchWithAuth';
 import { getApiBaseUrl } from './api/apiConfig';
+import { IgnoredWordsStore } from './ignoredWordsStore';
 
 const STORAGE_KEY = 'vocabularyMirror';
 const SYNC_TIMEOUT_MS = 30_000;
 
 interface PersistedSnapshot {
-  syncedAt: string;
+  // 只在和后端同步过后才有值；为空时下次必须拉全量，不能拿本地写入时间当游标
+  syncedAt: string | null;
   families: VocabularySyncFamily[];
+  overriddenWords?: string[]; // 调整过词族归属的词（ADR 0035）；旧快照没有这个字段
 }
 
 /**
@@ -24,12 +28,15 @@ interface PersistedSnapshot {
  * - 写路径仍以后端为权威，写成功后用响应里的 `family` 字段更新镜像。
  * - 持久化在 chrome.storage.local——service worker 重启后能立刻提供查询，
  *   同时异步拉一次最新数据兜底。
+ * - 有快照时带 syncedAt 作为游标增量拉取，只合并变化的词族和 tombstone；
+ *   没有快照（首次 / 登出后）才拉全量。
  */
 export class VocabularyMirror {
   private static instance: VocabularyMirror | null = null;
 
   private byLemma: Map<string, WordFamilyInfo> = new Map();
   private byFamily: Map<string, VocabularySyncFamily> = new Map();
+  private overriddenWords: Set<string> = new Set();
   private syncedAt: string | null = null;
   private initPromise: Promise<void> | null = null;
   private logger = new Logger('VocabularyMirror');
@@ -70,20 +77,35 @@ export class VocabularyMirror {
   }
 
   /**
-   * 主动从后端拉取全量最新数据，覆盖本地镜像。
+   * 从后端拉取最新数据：已有游标时增量合并，否则全量覆盖本地镜像。
    */
   async syncFromRemote(): Promise<void> {
     const baseUrl = await getApiBaseUrl();
-    const data = await fetchJsonWithAuth<VocabularySyncResponse>(`${baseUrl}/vocabulary/sync`, {
+    const since = this.syncedAt;
+    const url = since
+      ? `${baseUrl}/vocabulary/sync?since=${encodeURIComponent(since)}`
+      : `${baseUrl}/vocabulary/sync`;
+    const data = await fetchJsonWithAuth<VocabularySyncResponse>(url, {
       method: 'GET',
       signal: AbortSignal.timeout(SYNC_TIMEOUT_MS),
     });
 
-    this.applySnapshot(data);
+    if (data.incremental) {
+      this.applyDelta(data);
+    } else {
+      this.applySnapshot(data);
+    }
     await this.persist();
+    // 忽略列表随 sync 整份下发，单独缓存（ADR 0027）
+    if (data.ignoredWords) {
+      await IgnoredWordsStore.getInstance().replaceAll(data.ignoredWords);
+    }
 
     this.logger.info('Mirror synced from remote', {
-      familyCount: data.families.length,
+      incremental: Boolean(data.incremental),
+      changedCount: data.families.length,
+      removedCount: data.removedFamilyRoots?.length ?? 0,
+      familyCount: this.byFamily.size,
       syncedAt: data.syncedAt,
     });
   }
@@ -99,16 +121,21 @@ export class VocabularyMirror {
    * 过滤的 lemma，就视为"系统已知词"，应当返回 unknown 而不是被遗漏。
    * familyRoot 在未命中时暂用 lemma 自身——多数 lemma 已在 content 端做过 lemmatize，
    * 与 family root 大概率重合。少数边缘 case 留待后续把 lemma → family 映射也镜像下来。
+   *
+   * 用户调整过词族归属的词带 overridden，content 挑代表词元时优先用它（ADR 0035）。
    */
   query(lemmas: string[]): WordQueryResponse {
     const result: WordQueryResponse = {};
     for (const lemma of lemmas) {
       const hit = this.byLemma.get(lemma.toLowerCase());
-      result[lemma] = hit ?? {
+      const info = hit ?? {
         status: 'unknown',
         familyRoot: lemma,
         familiarityLevel: 0,
       };
+      result[lemma] = this.overriddenWords.has(lemma.toLowerCase())
+        ? { ...info, overridden: true }
+        : info;
     }
     return result;
   }
@@ -126,12 +153,29 @@ export class VocabularyMirror {
     await this.persist();
   }
 
+  /**
+   * 批量写（/vocabulary/batch）的结果按顺序应用，最后只落一次盘。
+   */
+  async applyMutations(
+    results: Pick<WordMutationResponse, 'family' | 'removedFamilyRoot'>[],
+  ): Promise<void> {
+    for (const result of results) {
+      if (result.family) {
+        this.upsertFamilyInMemory(result.family);
+      } else if (result.removedFamilyRoot) {
+        this.removeFamilyInMemory(result.removedFamilyRoot);
+      }
+    }
+    await this.persist();
+  }
+
   /**
    * 登出 / 换号时清空。
    */
   async clear(): Promise<void> {
     this.byLemma.clear();
     this.byFamily.clear();
+    this.overriddenWords.clear();
     this.syncedAt = null;
     await chrome.storage.local.remove(STORAGE_KEY);
     this.logger.info('Mirror cleared');
@@ -155,18 +199,31 @@ export class VocabularyMirror {
     this.byLemma.clear();
     this.byFamily.clear();
     this.syncedAt = snapshot.syncedAt;
+    this.overriddenWords = new Set(snapshot.overriddenWords ?? []);
     for (const family of snapshot.families) {
       this.upsertFamilyInMemory(family);
     }
   }
 
+  private applyDelta(delta: VocabularySyncResponse): void {
+    for (const family of delta.families) {
+      this.upsertFamilyInMemory(family);
+    }
+    for (const familyRoot of delta.removedFamilyRoots ?? []) {
+      this.removeFamilyInMemory(familyRoot);
+    }
+    // 调整过的词每次整份下发，直接覆盖
+    if (delta.overriddenWords) {
+      this.overriddenWords = new Set(delta.overriddenWords);
+    }
+    this.syncedAt = delta.syncedAt;
+  }
+
   private upsertFamilyInMemory(family: VocabularySyncFamily): void {
     // 先把旧 family 的 lemma 全部清掉，避免词形变更后产生残留
     const existing = this.byFamily.get(family.familyRoot);
     if (existing) {
-      for (const oldLemma of existing.lemmas) {
-        this.byLemma.delete(oldLemma.toLowerCase());
-      }
+      this.releaseLemmas(existing);
     }
 
     this.byFamily.set(family.familyRoot, family);
@@ -183,12 +240,23 @@ export class VocabularyMirror {
   private removeFamilyInMemory(familyRoot: string): void {
     const existing = this.byFamily.get(familyRoot);
     if (!existing) return;
-    for (const lemma of existing.lemmas) {
-      this.byLemma.delete(lemma.toLowerCase());
-    }
+    this.releaseLemmas(existing);
     this.byFamily.delete(familyRoot);
   }
 
+  /**
+   * 只删仍指向这个 family 的 lemma：词族合并后同一批 delta 里先 upsert 了目标 family，
+   * 再删源 family 时，已经归到目标下的 lemma 不能跟着删掉。
+   */
+  private releaseLemmas(family: VocabularySyncFamily): void {
+    for (const lemma of family.lemmas) {
+      const key = lemma.toLowerCase();
+      if (this.byLemma.get(key)?.familyRoot === family.familyRoot) {
+        this.byLemma.delete(key);
+      }
+    }
+  }
+
   private async readSnapshot(): Promise<PersistedSnapshot | null> {
     const result = await chrome.storage.local.get(STORAGE_KEY);
     const snapshot = result[STORAGE_KEY] as PersistedSnapshot | undefined;
@@ -198,8 +266,9 @@ export class VocabularyMirror {
 
   private async persist(): Promise<void> {
     const snapshot: PersistedSnapshot = {
-      syncedAt: this.syncedAt ?? new Date().toISOString(),
+      syncedAt: this.syncedAt,
       families: Array.from(this.byFamily.values()),
+      overriddenWords: Array.from(this.overriddenWords),
     };
     await chrome.storage.local.set({ [STORAGE_KEY]: snapshot });
   }
@@ -6,12 +6,17 @@ import type {
   AIEnrichmentData,
   ChromeMessage,
   ChromeMessageResponse,
+  UserListInfo,
   WordFamiliarityStatus,
 } from 'shared-types';
 import { WordCardHeader } from './components/WordCardHeader';
 import { WordDefinitions } from './components/WordDefinitions';
 import { WordCardActions } from './components/WordCardActions';
 import TagDisplayComponent from './components/TagDisplayComponent';
+import { UserListPicker } from './components/UserListPicker';
+import { FamilyDetachButton } from './components/FamilyDetachButton';
+import { ConcordanceExamples } from './components/ConcordanceExamples';
+import { WordChatPanel } from './components/WordChatPanel';
 import { WordCardStyles } from './styles/wordCardStyles';
 import { useWordCard } from './hooks/useWordCard';
 import { Slider } from '@/components/ui/slider';
@@ -39,7 +44,7 @@ interface WordCardProps {
 const WordCard: React.FC<WordCardProps> = ({
   word,
   lemmas,
-  // familyRoot,
+  familyRoot,
   details,
   context,
   status,
@@ -52,11 +57,19 @@ const WordCard: React.FC<WordCardProps> = ({
   const [aiData, setAiData] = useState<AIEnrichmentData | null>(null);
   const [isLoadingAi, setIsLoadingAi] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  // 当天 AI 额度用完（ADR 0044）：不当错误显示，词卡退回只看词典释义
+  const [aiQuotaNotice, setAiQuotaNotice] = useState<string | null>(null);
   const [showFamiliarity, setShowFamiliarity] = useState(true);
   const [currentFamiliarity, setCurrentFamiliarity] = useState(familiarityLevel);
   const [enhancedPhraseDetection, setEnhancedPhraseDetection] = useState(false);
   const [streamingContent, setStreamingContent] = useState<string>('');
   const [isStreaming, setIsStreaming] = useState(false);
+  const [userLists, setUserLists] = useState<UserListInfo[]>(details.userLists ?? []);
+  // 离线释义包命中时从后端补回的第三方词典释义（ADR 0041）
+  const [remoteSources, setRemoteSources] = useState<Pick<
+    WordDetails,
+    'externalDefinitions' | 'dictionaryOrder'
+  > | null>(null);
 
   logger.debug('enhancedPhraseDetection: ' + enhancedPhraseDetection);
   const closeButtonHoverHandlers = {
@@ -126,7 +139,8 @@ const WordCard: React.FC<WordCardProps> = ({
   // 监听流式消息
   React.useEffect(() => {
     const messageListener = (message: ChromeMessage) => {
-      if (message.word !== word) return;
+      // 追问的回复（channel: 'chat'）由 WordChatPanel 处理
+      if (message.word !== word || message.channel === 'chat') return;
 
       switch (message.type) {
         case 'ENRICH_STREAM_DATA':
@@ -157,7 +171,11 @@ const WordCard: React.FC<WordCardProps> = ({
           // 流式错误
           setIsStreaming(false);
           setIsLoadingAi(false);
-          setAiError(message.error || 'AI 解析失败');
+          if (message.quotaExceeded) {
+            setAiQuotaNotice(message.error || '今日 AI 额度已用完');
+          } else {
+            setAiError(message.error || 'AI 解析失败');
+          }
           setStreamingContent('');
           break;
       }
@@ -170,6 +188,22 @@ const WordCard: React.FC<WordCardProps> = ({
     };
   }, [word]);
 
+  // 离线释义包（ADR 0040）不带用户数据，词卡先用本地释义，再去后端补自建词单和第三方词典
+  React.useEffect(() => {
+    if (details.source !== 'pack') return;
+    const message: ChromeMessage = { type: 'GET_WORD_DETAILS', word };
+    chrome.runtime.sendMessage(message, (response: ChromeMessageResponse) => {
+      if (chrome.runtime.lastError || !response?.success) return;
+      const remote = response.data as WordDetails | undefined;
+      if (!remote || remote.id === -1) return;
+      setUserLists(remote.userLists ?? []);
+      setRemoteSources({
+        externalDefinitions: remote.externalDefinitions,
+        dictionaryOrder: remote.dictionaryOrder,
+      });
+    });
+  }, [details.source, word]);
+
   // 根据 AI 模式自动调用解析
   React.useEffect(() => {
     if (aiMode === 'auto' && context && !aiData && !isLoadingAi && !isStreaming) {
@@ -325,8 +359,34 @@ const WordCard: React.FC<WordCardProps> = ({
 				</div>
 			)} */}
 
-      <WordDefinitions details={details} />
-      <TagDisplayComponent tags={details.tags} />
+      <WordDefinitions details={remoteSources ? { ...details, ...remoteSources } : details} />
+      {/* 例句按词族从书架里挖（ADR 0037），不在系统词表里的词没有 */}
+      {details.source !== 'ai' && details.id !== -1 && <ConcordanceExamples word={word} />}
+      <TagDisplayComponent tags={details.tags} userLists={userLists} />
+      {/* AI 兜底的词不在系统词表里，没有词族可加 */}
+      {details.source !== 'ai' && details.id !== -1 && (
+        <UserListPicker
+          word={lemmas[0] ?? word}
+          memberIds={userLists.map((l) => l.id)}
+          onAdded={(list) =>
+            setUserLists((prev) => (prev.some((l) => l.id === list.id) ? prev : [...prev, list]))
+          }
+        />
+      )}
+      {/* 词族里还有别的词时才能拆（ADR 0035）；拆完重新扫描页面，高亮按新词族算 */}
+      {details.source !== 'ai' &&
+        details.id !== -1 &&
+        familyRoot &&
+        familyRoot !== word.toLowerCase() && (
+          <FamilyDetachButton
+            word={word.toLowerCase()}
+            familyRoot={familyRoot}
+            onDetached={() => {
+              handleClose();
+              document.dispatchEvent(new CustomEvent('lang-helper-force-rescan'));
+            }}
+          />
+        )}
       {details.source === 'ai' && (
         <div className="mt-1 text-font-secondary text-[10px] text-right">结果由 AI 生成</div>
       )}
@@ -377,7 +437,7 @@ const WordCard: React.FC<WordCardProps> = ({
       )}
 
       {/* AI 解析按钮 - 仅在 manual 模式且未加载时显示 */}
-      {aiMode === 'manual' && context && !aiData && (
+      {aiMode === 'manual' && context && !aiData && !aiQuotaNotice && (
         <div style={{ marginTop: '12px', marginBottom: '10px' }}>
           <button
             onClick={handleEnrich}
@@ -480,6 +540,16 @@ const WordCard: React.FC<WordCardProps> = ({
         </div>
       )}
 
+      {/* 追问 AI（ADR 0046）：解析出来以后才能接着问 */}
+      {aiMode !== 'off' && context && aiData && !isStreaming && !aiQuotaNotice && (
+        <WordChatPanel word={word} context={context} />
+      )}
+
+      {/* AI 额度用完 - 只是提示，词典释义照常显示 */}
+      {aiMode !== 'off' && aiQuotaNotice && (
+        <div className="mt-3 text-font-secondary text-xs px-1">{aiQuotaNotice}，先看词典释义</div>
+      )}
+
       {/* AI 解析错误 - 仅在非 off 模式时显示 */}
       {aiMode !== 'off' && aiError && (
         <div className="mt-3 bg-danger-100 text-danger-600 text-sm font-semibold px-3.5 py-2.5 rounded-sm flex items-center gap-2">
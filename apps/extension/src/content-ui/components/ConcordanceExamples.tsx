@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import type {
+  ChromeMessage,
+  ChromeMessageResponse,
+  ConcordanceExampleDto,
+  ConcordanceExamplesResponse,
+} from 'shared-types';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('ConcordanceExamples');
+
+interface ConcordanceExamplesProps {
+  word: string;
+}
+
+/** 把句中的原文写法加粗；找不到（大小写 / 撇号差异）就整句原样显示 */
+function renderSentence(example: ConcordanceExampleDto) {
+  const idx = example.sentence.indexOf(example.surfaceForm);
+  if (idx < 0) return example.sentence;
+  return (
+    <>
+      {example.sentence.slice(0, idx)}
+      <strong className="text-font-base">{example.surfaceForm}</strong>
+      {example.sentence.slice(idx + example.surfaceForm.length)}
+    </>
+  );
+}
+
+/**
+ * 词卡上的"原文例句"（ADR 0037）：词典里没有例句，改从预置书和用户上传的文档里挖。
+ * 展开时才拉，不拖慢词卡首屏；扩展里没有阅读器，只标出处，跳转在移动端。
+ */
+export const ConcordanceExamples: React.FC<ConcordanceExamplesProps> = ({ word }) => {
+  const [open, setOpen] = useState(false);
+  const [examples, setExamples] = useState<ConcordanceExampleDto[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = () => {
+    setOpen(!open);
+    if (open || examples) return;
+    const message: ChromeMessage = { type: 'GET_WORD_EXAMPLES', word };
+    chrome.runtime.sendMessage(message, (response: ChromeMessageResponse) => {
+      if (chrome.runtime.lastError || !response?.success) {
+        const reason = chrome.runtime.lastError?.message || response?.error || '加载例句失败';
+        logger.error('加载例句失败: ' + reason, new Error(reason));
+        setError('加载例句失败');
+        return;
+      }
+      setExamples((response.data as ConcordanceExamplesResponse).examples);
+    });
+  };
+
+  return (
+    <div className="mt-1 text-[11px]">
+      <button
+        type="button"
+        className="text-font-secondary hover:text-font-base cursor-pointer"
+        onClick={handleOpen}
+      >
+        {open ? '▾' : '▸'} 原文例句
+      </button>
+      {open && (
+        <div className="mt-1 space-y-1.5">
+          {examples === null && !error && <div className="text-font-secondary">加载中...</div>}
+          {examples && examples.length === 0 && (
+            <div className="text-font-secondary italic">书架里还没有含这个词的句子</div>
+          )}
+          {examples?.map((example, i) => (
+            <div key={i} className="border-l-2 border-gray-200 pl-2">
+              <div className="text-font-secondary italic">{renderSentence(example)}</div>
+              <div className="text-font-secondary opacity-70">— {example.documentTitle}</div>
+            </div>
+          ))}
+          {error && <div className="text-danger-600">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
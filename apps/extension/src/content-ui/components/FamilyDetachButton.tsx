@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { ChromeMessage, ChromeMessageResponse } from 'shared-types';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('FamilyDetachButton');
+
+interface FamilyDetachButtonProps {
+  word: string; // 要拆出的词（小写）
+  familyRoot: string; // 当前所在词族
+  onDetached: () => void;
+}
+
+/**
+ * 词卡上的"这个词不一样"（ADR 0035）：把当前词从词族里拆出来单独标记，
+ * 例如 generally 不跟着 general 一起算已掌握。点一下先展开说明，再确认。
+ * 撤销在设置页忽略列表下方的"词族调整"里。
+ */
+export const FamilyDetachButton: React.FC<FamilyDetachButtonProps> = ({
+  word,
+  familyRoot,
+  onDetached,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDetach = () => {
+    setBusy(true);
+    setError(null);
+    const message: ChromeMessage = { type: 'DETACH_WORD_FAMILY', word };
+    chrome.runtime.sendMessage(message, (response: ChromeMessageResponse) => {
+      setBusy(false);
+      if (chrome.runtime.lastError || !response?.success) {
+        const reason = chrome.runtime.lastError?.message || response?.error || '拆分失败';
+        logger.error('拆分词族失败: ' + reason, new Error(reason));
+        setError(reason);
+        return;
+      }
+      onDetached();
+    });
+  };
+
+  return (
+    <div className="mt-1 text-[11px] text-right">
+      <button
+        type="button"
+        className="text-font-secondary hover:text-font-base cursor-pointer"
+        onClick={() => setOpen(!open)}
+      >
+        这个词不一样
+      </button>
+      {open && (
+        <div className="mt-1 rounded-lg border border-bg-700 bg-bg-700 p-2 text-left">
+          <div className="text-font-secondary">
+            {`把 ${word} 从「${familyRoot}」词族拆出，单独标记掌握状态`}
+          </div>
+          <div className="mt-1 flex justify-end">
+            <button
+              type="button"
+              disabled={busy}
+              className="rounded bg-primary px-2 py-0.5 text-font-base disabled:opacity-50"
+              onClick={handleDetach}
+            >
+              {busy ? '拆分中...' : '拆出'}
+            </button>
+          </div>
+          {error && <div className="mt-1 text-danger-600">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
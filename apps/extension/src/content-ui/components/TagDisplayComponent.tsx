@@ -1,13 +1,14 @@
 import React from 'react';
 import { getTagDisplayMapper } from '../utils/tagDisplayMapper';
-import type { TagInfo } from 'shared-types';
+import type { TagInfo, UserListInfo } from 'shared-types';
 
 interface TagDisplayComponentProps {
   tags?: TagInfo[];
+  userLists?: UserListInfo[]; // 自建词单，排在考试标签后面，前缀 # 区分
 }
 
-const TagDisplayComponent: React.FC<TagDisplayComponentProps> = ({ tags }) => {
-  if (!tags || tags.length === 0) {
+const TagDisplayComponent: React.FC<TagDisplayComponentProps> = ({ tags = [], userLists = [] }) => {
+  if (tags.length === 0 && userLists.length === 0) {
     return null;
   }
 
@@ -25,6 +26,7 @@ const TagDisplayComponent: React.FC<TagDisplayComponentProps> = ({ tags }) => {
 
             return displayName;
           })
+          .concat(userLists.map((list) => `#${list.name}`))
           .join(',')}
       </span>
     </div>
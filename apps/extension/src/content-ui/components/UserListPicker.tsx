@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import type {
+  ChromeMessage,
+  ChromeMessageResponse,
+  UserListDto,
+  UserListFamiliesResponse,
+  UserListInfo,
+} from 'shared-types';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('UserListPicker');
+
+interface UserListPickerProps {
+  word: string; // 任意词形，后端定位到词族
+  memberIds: number[]; // 已包含该词族的词单
+  onAdded: (list: UserListInfo) => void;
+}
+
+function send<T>(message: ChromeMessage): Promise<T> {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, (response: ChromeMessageResponse) => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message));
+      } else if (!response?.success) {
+        reject(new Error(response?.error || '请求失败'));
+      } else {
+        resolve(response.data as T);
+      }
+    });
+  });
+}
+
+/**
+ * 词卡上的"加入词单"：展开后列出用户的词单，点一下把当前词族加进去；也可以输入名字新建。
+ * 词单列表在展开时才拉，不拖慢词卡首屏。
+ */
+export const UserListPicker: React.FC<UserListPickerProps> = ({ word, memberIds, onAdded }) => {
+  const [open, setOpen] = useState(false);
+  const [lists, setLists] = useState<UserListDto[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = async () => {
+    setOpen(!open);
+    if (open || lists) return;
+    try {
+      setLists(await send<UserListDto[]>({ type: 'GET_USER_LISTS' }));
+    } catch (err) {
+      logger.error('加载词单失败', err as Error);
+      setError('加载词单失败');
+    }
+  };
+
+  const handleAdd = async (target: { listId?: number; listName?: string }) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await send<UserListFamiliesResponse>({
+        type: 'ADD_TO_USER_LIST',
+        word,
+        ...target,
+      });
+      onAdded({ id: result.list.id, name: result.list.name });
+      setLists((prev) => [...(prev ?? []).filter((l) => l.id !== result.list.id), result.list]);
+      setNewName('');
+      setOpen(false);
+    } catch (err) {
+      logger.error('加入词单失败', err as Error);
+      setError((err as Error).message || '加入词单失败');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-1 text-[11px] text-right">
+      <button
+        type="button"
+        className="text-font-secondary hover:text-font-base cursor-pointer"
+        onClick={handleOpen}
+      >
+        ＋ 加入词单
+      </button>
+      {open && (
+        <div className="mt-1 rounded-lg border border-bg-700 bg-bg-700 p-2 text-left">
+          {lists === null && !error && <div className="text-font-secondary">加载中...</div>}
+          {lists && lists.length > 0 && (
+            <div className="mb-2 flex flex-wrap gap-1">
+              {lists.map((list) => {
+                const added = memberIds.includes(list.id);
+                return (
+                  <button
+                    key={list.id}
+                    type="button"
+                    disabled={busy || added}
+                    className={`rounded-full px-2 py-0.5 ${
+                      added
+                        ? 'bg-primary/30 text-font-secondary cursor-default'
+                        : 'bg-bg-base text-font-base hover:bg-primary/20 cursor-pointer'
+                    }`}
+                    onClick={() => handleAdd({ listId: list.id })}
+                  >
+                    {added ? '✓ ' : ''}
+                    {list.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+          <form
+            className="flex gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newName.trim()) handleAdd({ listName: newName.trim() });
+            }}
+          >
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={50}
+              placeholder="新建词单"
+              className="min-w-0 flex-1 rounded bg-bg-base px-2 py-0.5 text-font-base outline-none"
+            />
+            <button
+              type="submit"
+              disabled={busy || !newName.trim()}
+              className="rounded bg-primary px-2 py-0.5 text-font-base disabled:opacity-50"
+            >
+              新建
+            </button>
+          </form>
+          {error && <div className="mt-1 text-danger-600">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -75,6 +75,13 @@ export const WordCardHeader: React.FC<WordCardHeaderProps> = ({
         <div className="flex items-center flex-1 gap-2 flex-wrap">
           <h3 className="text-font-base font-semibold text-xl my-0">{word}</h3>
 
+          {/* 多词词条（ADR 0026）：状态 / 熟练度操作与单词完全一致，这里只做个标识 */}
+          {/\s/.test(word.trim()) && (
+            <div className="bg-gray-200 text-gray-600 text-xs font-semibold py-0.5 px-1 rounded-sm">
+              短语
+            </div>
+          )}
+
           {/* AI 来源标识 */}
           {/* {details.source === 'ai' && (
 						<TooltipProvider>
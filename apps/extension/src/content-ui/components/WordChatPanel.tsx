@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ChromeMessage, ChromeMessageResponse } from 'shared-types';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('WordChatPanel');
+
+interface WordChatPanelProps {
+  word: string;
+  context: string;
+}
+
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 词卡上的"追问 AI"（ADR 0046）：AI 解析出来以后展开，围绕这个词和这句话多轮对话。
+ * 对话存在后端，第一轮回复里拿到 threadId，之后的追问带上它；词卡关掉就不再续。
+ */
+export const WordChatPanel: React.FC<WordChatPanelProps> = ({ word, context }) => {
+  const [open, setOpen] = useState(false);
+  const [threadId, setThreadId] = useState<number | undefined>(undefined);
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [pending, setPending] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // 额度用完（ADR 0044）只是提示，不按错误显示
+  const [quotaNotice, setQuotaNotice] = useState<string | null>(null);
+
+  const busy = pending !== null;
+
+  useEffect(() => {
+    const listener = (message: ChromeMessage) => {
+      if (message.channel !== 'chat' || message.word !== word) return;
+      if (message.threadId !== undefined) setThreadId(message.threadId);
+
+      switch (message.type) {
+        case 'ENRICH_STREAM_DATA':
+          setPending(message.content ?? '');
+          break;
+        case 'ENRICH_STREAM_COMPLETE':
+          if (message.content) {
+            setTurns((prev) => [...prev, { role: 'assistant', content: message.content! }]);
+          }
+          setPending(null);
+          break;
+        case 'ENRICH_STREAM_ERROR':
+          if (message.quotaExceeded) {
+            setQuotaNotice(message.error || '今日 AI 额度已用完');
+          } else {
+            setError(message.error || '追问失败，请稍后再试');
+          }
+          setPending(null);
+          break;
+      }
+    };
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }, [word]);
+
+  const handleAsk = () => {
+    const text = question.trim();
+    if (!text || busy || quotaNotice) return;
+    setTurns((prev) => [...prev, { role: 'user', content: text }]);
+    setQuestion('');
+    setError(null);
+    setPending('');
+
+    const message: ChromeMessage = {
+      type: 'AI_CHAT_STREAM',
+      word,
+      context,
+      threadId,
+      question: text,
+    };
+    chrome.runtime.sendMessage(message, (response: ChromeMessageResponse) => {
+      if (chrome.runtime.lastError) {
+        logger.error('追问失败', new Error(chrome.runtime.lastError.message));
+        setError('追问失败：' + chrome.runtime.lastError.message);
+        setPending(null);
+      } else if (!response?.success) {
+        setError(response?.error || '追问失败，请稍后再试');
+        setPending(null);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        type="button"
+        className="text-font-secondary hover:text-font-base cursor-pointer"
+        onClick={() => setOpen(!open)}
+      >
+        {open ? '收起追问' : '💬 追问 AI'}
+      </button>
+      {open && (
+        <div className="mt-1 rounded-lg border border-bg-700 bg-bg-700 p-2">
+          <div className="max-h-48 overflow-y-auto">
+            {turns.map((turn, index) => (
+              <ChatBubble key={index} turn={turn} />
+            ))}
+            {pending !== null && (
+              <div className="mb-2 text-font-base">
+                {pending ? (
+                  <ChatMarkdown content={pending} />
+                ) : (
+                  <span className="inline-block w-2 h-2 bg-primary rounded-full animate-pulse" />
+                )}
+              </div>
+            )}
+          </div>
+          <form
+            className="flex gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAsk();
+            }}
+          >
+            <input
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              maxLength={500}
+              placeholder={`比如：为什么这里用 ${word}？`}
+              className="min-w-0 flex-1 rounded bg-bg-base px-2 py-0.5 text-font-base outline-none"
+            />
+            <button
+              type="submit"
+              disabled={busy || !question.trim() || !!quotaNotice}
+              className="rounded bg-primary px-2 py-0.5 text-font-base disabled:opacity-50"
+            >
+              发送
+            </button>
+          </form>
+          {quotaNotice && <div className="mt-1 text-font-secondary">{quotaNotice}</div>}
+          {error && <div className="mt-1 text-danger-600">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ChatBubble: React.FC<{ turn: ChatTurn }> = ({ turn }) =>
+  turn.role === 'user' ? (
+    <div className="mb-2 flex justify-end">
+      <span className="rounded-lg bg-primary/20 px-2 py-1 text-font-base">{turn.content}</span>
+    </div>
+  ) : (
+    <div className="mb-2 text-font-base">
+      <ChatMarkdown content={turn.content} />
+    </div>
+  );
+
+const ChatMarkdown: React.FC<{ content: string }> = ({ content }) => (
+  <div className="markdown-content">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      components={{
+        strong: ({ children }) => <strong className="font-bold text-font-base">{children}</strong>,
+        p: ({ children }) => <p className="mb-1 last:mb-0">{children}</p>,
+        ul: ({ children }) => <ul className="list-disc pl-4 my-1">{children}</ul>,
+        ol: ({ children }) => <ol className="list-decimal pl-4 my-1">{children}</ol>,
+        li: ({ children }) => <li className="mb-0.5">{children}</li>,
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
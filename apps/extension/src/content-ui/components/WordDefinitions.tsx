@@ -1,15 +1,89 @@
-import React from 'react';
+import React, { useState } from 'react';
 import type { DictionaryEntry } from 'shared-types';
 
 interface WordDefinitionsProps {
   details: DictionaryEntry;
 }
 
+/** 内置词典在词典顺序里的 key，和后端一致（ADR 0041） */
+const BUILTIN_SOURCE_KEY = 'ecdict';
+
+interface DefinitionTab {
+  key: string;
+  label: string;
+}
+
+/**
+ * 内置词典 + 命中的第三方词典，按用户的词典顺序排；顺序里没有的排最后。
+ * 只有第三方词典有这个词时（source 为 external）不显示内置词典的 tab。
+ */
+function buildTabs(details: DictionaryEntry): DefinitionTab[] {
+  const tabs: DefinitionTab[] = [
+    ...(details.source === 'external'
+      ? []
+      : [{ key: BUILTIN_SOURCE_KEY, label: details.source === 'ai' ? 'AI 释义' : '简明释义' }]),
+    ...(details.externalDefinitions ?? []).map((d) => ({ key: d.source, label: d.sourceName })),
+  ];
+  const order = details.dictionaryOrder ?? [];
+  const rank = (key: string) => {
+    const i = order.indexOf(key);
+    return i < 0 ? order.length : i;
+  };
+  return tabs.sort((a, b) => rank(a.key) - rank(b.key));
+}
+
 /**
  * WordCard 定义组件
- * 优先显示中文释义，如果没有则显示英文释义
+ * 有第三方词典的释义时按词典分 tab，用户排在最前的词典默认选中；否则只显示内置释义
  */
 export const WordDefinitions: React.FC<WordDefinitionsProps> = ({ details }) => {
+  const tabs = buildTabs(details);
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const active = tabs.find((t) => t.key === activeKey) ?? tabs[0];
+
+  if (tabs.length === 1 && tabs[0].key === BUILTIN_SOURCE_KEY) {
+    return <BuiltinDefinitions details={details} />;
+  }
+
+  const external = details.externalDefinitions?.find((d) => d.source === active.key);
+  return (
+    <div>
+      <div role="tablist" className="flex flex-wrap gap-1 mb-2 border-b border-gray-200">
+        {tabs.map((tab) => (
+          <button
+            key={tab.key}
+            type="button"
+            role="tab"
+            aria-selected={tab.key === active.key}
+            onClick={() => setActiveKey(tab.key)}
+            className={`px-2 py-1 text-xs -mb-px border-b-2 transition-colors ${
+              tab.key === active.key
+                ? 'border-primary text-font-base font-semibold'
+                : 'border-transparent text-font-secondary hover:text-font-base'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+      {external ? (
+        <div role="tabpanel" className="text-sm text-font-base whitespace-pre-line">
+          {external.headword !== details.word && (
+            <div className="text-xs text-font-secondary mb-1">{external.headword}</div>
+          )}
+          {external.definition}
+        </div>
+      ) : (
+        <div role="tabpanel">
+          <BuiltinDefinitions details={details} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** 内置词典（ECDICT / AI 兜底）：优先显示中文释义，如果没有则显示英文释义 */
+const BuiltinDefinitions: React.FC<WordDefinitionsProps> = ({ details }) => {
   // 优先使用中文释义
   if (
     details.chineseEntriesShort &&
@@ -58,6 +132,9 @@ export const WordDefinitions: React.FC<WordDefinitionsProps> = ({ details }) =>
                 {sense.examples && sense.examples.length > 0 && (
                   <div className="text-font-secondary text-sm italic mt-1 pl-2 border-l-2 border-gray-200">
                     "{sense.examples[0]}"
+                    {sense.exampleTranslations?.[0] && (
+                      <div className="not-italic">{sense.exampleTranslations[0]}</div>
+                    )}
                   </div>
                 )}
               </li>
@@ -75,6 +75,7 @@ async function initializeManagers(ctx: ContentScriptContext): Promise<void> {
       adjInflectionMap: loadResult.adjInflectionMap ?? null,
       dictionarySet: dictionaryLoader.getWhitelistSet(),
     });
+    TextProcessor.setPhrases(loadResult.phrases ?? null);
     logger.info('Dictionary loader initialized', {
       adverbMapSize: loadResult.adverbMap ? Object.keys(loadResult.adverbMap).length : 0,
       verbInflectionSize: loadResult.verbInflectionMap
@@ -86,6 +87,7 @@ async function initializeManagers(ctx: ContentScriptContext): Promise<void> {
       adjInflectionSize: loadResult.adjInflectionMap
         ? Object.keys(loadResult.adjInflectionMap).length
         : 0,
+      phraseCount: loadResult.phrases?.length ?? 0,
     });
   } else {
     logger.error('Dictionary load failed', new Error(loadResult.error ?? 'unknown'));
@@ -556,9 +558,9 @@ function setupSettingsListener(): void {
     }
   });
 
-  // 监听忽略列表变化（不在 SettingsManager 中）
+  // 监听忽略列表变化（不在 SettingsManager 中）。本地缓存由 background 在写入 / sync / 推送后覆盖
   chrome.storage.onChanged.addListener((changes, namespace) => {
-    if (namespace === 'sync' && changes.ignoredWords) {
+    if (namespace === 'local' && changes.ignoredWords) {
       logger.debug('Ignored words list updated, reloading');
       // 只有在核心功能已初始化时才处理忽略列表变化
       if (dictionaryLoader) {
@@ -694,15 +696,20 @@ function handleBatchOperation(operation: 'ignore' | 'known'): void {
             success: boolean;
             message: string;
             updatedCount: number;
+            unknownLemmas: string[];
           };
           logger.info('批量标记为已掌握完成', {
             updatedCount: batchResult.updatedCount,
+            unknownCount: batchResult.unknownLemmas.length,
             totalCount: uniqueLemmas.length,
           });
-          // 批量更新高亮状态
-          uniqueLemmas.forEach((lemma) => {
-            highlightManager.updateWordStatus(lemma, 'known');
-          });
+          // 批量更新高亮状态；不在系统词表里的词没有写入，保持原样
+          const unknown = new Set(batchResult.unknownLemmas);
+          uniqueLemmas
+            .filter((lemma) => !unknown.has(lemma))
+            .forEach((lemma) => {
+              highlightManager.updateWordStatus(lemma, 'known');
+            });
 
           // 显示成功通知
           showToast(`已标记 ${batchResult.updatedCount} 个单词为"已掌握"`, displayWords, 'success');
@@ -39,6 +39,7 @@ export interface ScanResult {
 export interface HighlightStats {
   totalMatches: number;
   camelCaseMatches: number;
+  phraseMatches: number; // 命中的多词词条数（ADR 0026）
   highlightCount: number;
   processedNodes: number;
 }
@@ -11,6 +11,8 @@ export interface DictionaryLoadResult {
   nounInflectionMap?: Record<string, string>;
   /** 形容词不规则比较级/最高级 map（better→good 等），ADR 0017 */
   adjInflectionMap?: Record<string, string>;
+  /** 多词词条原形列表（give up 等），ADR 0026 */
+  phrases?: string[];
   error?: string;
 }
 
@@ -171,6 +173,7 @@ export class DictionaryLoader {
     const verbInflectionMap = result.verbInflectionMap;
     const nounInflectionMap = result.nounInflectionMap;
     const adjInflectionMap = result.adjInflectionMap;
+    const phrases = result.phrases;
     await this.loadIgnoredWords();
 
     const endTime = performance.now();
@@ -184,17 +187,19 @@ export class DictionaryLoader {
       verbInflectionSize: verbInflectionMap ? Object.keys(verbInflectionMap).length : 0,
       nounInflectionSize: nounInflectionMap ? Object.keys(nounInflectionMap).length : 0,
       adjInflectionSize: adjInflectionMap ? Object.keys(adjInflectionMap).length : 0,
+      phraseCount: phrases?.length ?? 0,
     });
 
-    return { ok: true, adverbMap, verbInflectionMap, nounInflectionMap, adjInflectionMap };
+    return { ok: true, adverbMap, verbInflectionMap, nounInflectionMap, adjInflectionMap, phrases };
   }
 
   /**
-   * 从chrome.storage加载用户的忽略列表
+   * 加载用户的忽略列表。服务端是权威，background 的 IgnoredWordsStore 把最新全量
+   * 缓存在 chrome.storage.local（ADR 0027）；这里只读，写入统一走 IGNORE_WORD 消息。
    */
   private async loadIgnoredWords(): Promise<void> {
     try {
-      const result = await chrome.storage.sync.get(['ignoredWords']);
+      const result = await chrome.storage.local.get(['ignoredWords']);
       const ignoredWordsArray: string[] = result.ignoredWords || [];
       this.ignoredWords = new Set(ignoredWordsArray.map((word) => word.toLowerCase()));
     } catch (error) {
@@ -227,50 +232,10 @@ export class DictionaryLoader {
   }
 
   /**
-   * 检查一个词是否被用户忽略
+   * 检查一个词是否被用户忽略。服务端存的是直撇号，这里把弯撇号也归一过去
    */
   isIgnoredWord(word: string): boolean {
-    return this.ignoredWords.has(word.toLowerCase());
-  }
-
-  /**
-   * 添加词汇到忽略列表
-   */
-  async addIgnoredWord(word: string): Promise<void> {
-    const wordLower = word.toLowerCase();
-    this.ignoredWords.add(wordLower);
-
-    try {
-      // 保存到chrome.storage
-      const ignoredWordsArray = Array.from(this.ignoredWords);
-      await chrome.storage.sync.set({ ignoredWords: ignoredWordsArray });
-      logger.info(`🚫 已将 "${word}" 添加到忽略列表`);
-    } catch (error) {
-      logger.error('保存忽略列表失败', error as Error);
-      // 如果保存失败，从内存中移除
-      this.ignoredWords.delete(wordLower);
-      throw error;
-    }
-  }
-
-  /**
-   * 从忽略列表移除词汇
-   */
-  async removeIgnoredWord(word: string): Promise<void> {
-    const wordLower = word.toLowerCase();
-    this.ignoredWords.delete(wordLower);
-
-    try {
-      // 保存到chrome.storage
-      const ignoredWordsArray = Array.from(this.ignoredWords);
-      await chrome.storage.sync.set({ ignoredWords: ignoredWordsArray });
-      logger.info(`✅ 已将 "${word}" 从忽略列表中移除`);
-    } catch (error) {
-      logger.error('保存忽略列表失败', error as Error);
-      // 如果保存失败，重新添加到内存中
-      this.ignoredWords.add(wordLower);
-      throw error;
-    }
+    return this.ignoredWords.has(word.toLowerCase().replace(/’/g, "'"));
   }
 
   /**
@@ -178,6 +178,11 @@ export class EventHandlers {
 
       // 获取包含完整句子的上下文
       const contextSentence = this.getWordContext(event.clientX, event.clientY);
+      this.recordEncounter(
+        originalWord,
+        highlightInfo.familyRoot ?? highlightInfo.lemmas[0],
+        contextSentence,
+      );
 
       // 3.6 检查自动提升熟练度开关，如果打开则调用API（PRIMARY PATH）
       const settings = await chrome.storage.sync.get(['autoIncreaseFamiliarity']);
@@ -315,6 +320,10 @@ export class EventHandlers {
         }
       }
 
+      if (status !== 'ignored') {
+        this.recordEncounter(clickedWord, familyRoot ?? lemmas[0], contextSentence);
+      }
+
       // 3. 获取单词释义
       const queryWord = familyRoot || (lemmas.length > 0 ? lemmas[0] : clickedWord);
       const detailsResponse = await this.sendMessageAsync({
@@ -705,6 +714,17 @@ export class EventHandlers {
     }
   }
 
+  /**
+   * 把这次查词的句子记到服务端（个人例句库）。fire-and-forget，失败不影响弹卡
+   */
+  private recordEncounter(word: string, lemma: string | undefined, context: string): void {
+    if (!context) return;
+    const message: ChromeMessage = { type: 'RECORD_ENCOUNTER', word, lemma, context };
+    chrome.runtime.sendMessage(message).catch((error: Error) => {
+      logger.debug('Failed to record encounter: ' + error.message);
+    });
+  }
+
   /**
    * 获取上下文句子（段落）
    * 用于翻译功能，可能返回较长的段落
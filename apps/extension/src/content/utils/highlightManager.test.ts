@@ -147,6 +147,32 @@ describe('pickRepresentativeLemma — ADR 0018', () => {
     expect(pickRepresentativeLemma(lemmas, map)).toBe('y');
   });
 
+  it('调整过词族的候选优先于状态更强的候选（ADR 0035）', () => {
+    const lemmas = ['generally', 'general'];
+    const map = {
+      generally: {
+        status: 'unknown',
+        familyRoot: 'generally',
+        familiarityLevel: 0,
+        overridden: true,
+      },
+      general: { status: 'known', familyRoot: 'general', familiarityLevel: 7 },
+    };
+    expect(pickRepresentativeLemma(lemmas, map)).toBe('generally');
+
+    // 变形本身没调整，但它的原形被拆出来了：跟着原形走
+    const inflected = {
+      generating: { status: 'known', familyRoot: 'general', familiarityLevel: 7 },
+      generate: {
+        status: 'learning',
+        familyRoot: 'generate',
+        familiarityLevel: 1,
+        overridden: true,
+      },
+    };
+    expect(pickRepresentativeLemma(['generating', 'generate'], inflected)).toBe('generate');
+  });
+
   it('空 lemmas 返回空串，不抛错', () => {
     expect(pickRepresentativeLemma([], {})).toBe('');
   });
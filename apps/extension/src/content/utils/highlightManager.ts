@@ -17,12 +17,21 @@ import { DictionaryLoader } from './dictionaryLoader';
  * 直接拿 lemmas[0] 当代表就漏掉用户的标记。这个函数按 known > learning >
  * unknown 优先级挑——任何"已被用户标过"的 family 都比 fallback 的 unknown
  * 强。不存在更强信号时退回 lemmas[0] 保持原行为。
+ *
+ * 例外是用户调整过词族归属的词（ADR 0035，overridden）：用户明说过 generally 和
+ * general 不是一回事，就不能因为 general 已掌握而把 generally 也当成已掌握。
+ * 候选里有调整过的词时直接取第一个。
  */
 export function pickRepresentativeLemma(
   lemmas: string[],
-  lemmaDataMap: Record<string, { status: string; familyRoot: string; familiarityLevel: number }>,
+  lemmaDataMap: Record<
+    string,
+    { status: string; familyRoot: string; familiarityLevel: number; overridden?: boolean }
+  >,
 ): string {
   if (lemmas.length === 0) return '';
+  const overridden = lemmas.find((lemma) => lemmaDataMap[lemma]?.overridden);
+  if (overridden) return overridden;
   const priority: Record<string, number> = { known: 3, learning: 2, unknown: 1 };
   let best = lemmas[0];
   let bestScore = priority[lemmaDataMap[best]?.status ?? 'unknown'] ?? 0;
@@ -276,6 +285,7 @@ export class HighlightManager {
       return {
         totalMatches: 0,
         camelCaseMatches: 0,
+        phraseMatches: 0,
         highlightCount: 0,
         processedNodes: 0,
       };
@@ -294,6 +304,7 @@ export class HighlightManager {
     let processedNodes = 0;
     let totalMatches = 0;
     let camelCaseMatches = 0;
+    let phraseMatches = 0;
 
     nodes.forEach((node, nodeIndex) => {
       if (nodeIndex % 50 === 0 && nodeIndex > 0) {
@@ -307,6 +318,34 @@ export class HighlightManager {
 
       processedNodes++;
 
+      // 多词词条优先（ADR 0026）：最长匹配命中的片段整体建一个高亮，
+      // 片段内的单词不再单独高亮，点击任一部分都弹短语词卡
+      const phraseSpans: { start: number; end: number }[] = [];
+      const nodeVisible = !node.parentElement || TextProcessor.isElementVisible(node.parentElement);
+      for (const phrase of nodeVisible ? TextProcessor.findPhrases(text) : []) {
+        const lemmas = wordToLemmaMap.get(phrase.key);
+        if (!lemmas || lemmas.length === 0) continue;
+        const lemmaData = lemmaDataMap[lemmas[0]];
+        if (!lemmaData) continue;
+
+        phraseSpans.push({ start: phrase.start, end: phrase.end });
+        phraseMatches++;
+        const highlightInfo = this.createHighlightRange(
+          node,
+          text.slice(phrase.start, phrase.end),
+          phrase.key,
+          lemmas,
+          lemmaData.status,
+          lemmaData.familyRoot,
+          lemmaData.familiarityLevel,
+          phrase.start,
+          phrase.end,
+        );
+        if (highlightInfo && lemmaData.status !== 'known') {
+          highlightCount++;
+        }
+      }
+
       // 使用正则表达式查找所有单词
       const wordRegex = /\b[a-zA-Z'’]+\b/g;
       let match: RegExpExecArray | null;
@@ -325,6 +364,11 @@ export class HighlightManager {
         const wordLower = originalWord.toLowerCase();
         const matchIndex = match.index;
 
+        // 已被短语覆盖
+        if (phraseSpans.some((span) => matchIndex >= span.start && matchIndex < span.end)) {
+          continue;
+        }
+
         /**
          * 跳过缩写词
          */
@@ -442,6 +486,7 @@ export class HighlightManager {
       return {
         totalMatches: 0,
         camelCaseMatches: 0,
+        phraseMatches: 0,
         highlightCount: 0,
         processedNodes: 0,
       };
@@ -452,12 +497,14 @@ export class HighlightManager {
     this.logger.info(`  📄 处理节点: ${processedNodes}/${nodes.length}`);
     this.logger.info(`  🔤 总匹配数: ${totalMatches}`);
     this.logger.info(`  🐪 驼峰匹配: ${camelCaseMatches}`);
+    this.logger.info(`  🔗 短语匹配: ${phraseMatches}`);
     this.logger.info(`  🎯 创建高亮: ${highlightCount}`);
     this.logger.info(`  📝 注册表大小: ${this.registry.items.length}`);
 
     return {
       totalMatches,
       camelCaseMatches,
+      phraseMatches,
       highlightCount,
       processedNodes,
     };
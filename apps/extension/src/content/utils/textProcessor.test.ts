@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TextProcessor } from './textProcessor';
 
 // access private statics through any-cast，避免把内部 API 在 prod 暴露
@@ -85,3 +85,67 @@ describe('TextProcessor.getLemmasForWord 缓存', () => {
     expect(Array.from(TP.lemmaCache.keys()).filter((k) => k === 'running').length).toBe(1);
   });
 });
+
+describe('TextProcessor.findPhrases 多词词条最长匹配（ADR 0026）', () => {
+  beforeEach(() => {
+    TP.lemmaCache.clear();
+    TextProcessor.setInflectionMaps({
+      verbInflectionMap: { gave: 'give', took: 'take' },
+      nounInflectionMap: {},
+      adjInflectionMap: {},
+      dictionarySet: new Set(['give', 'take', 'card', 'look', 'forward', 'credit']),
+    });
+    TextProcessor.setPhrases([
+      'give up',
+      'in spite of',
+      'look forward to',
+      'look forward',
+      'machine learning',
+      'credit card',
+      'take care of',
+    ]);
+  });
+
+  afterEach(() => {
+    TextProcessor.setPhrases(null);
+    TextProcessor.setInflectionMaps({
+      verbInflectionMap: null,
+      nounInflectionMap: null,
+      adjInflectionMap: null,
+      dictionarySet: null,
+    });
+  });
+
+  it('词头变形还原：gave up → give up，key 保留原写法', () => {
+    const text = 'She never gave up.';
+    const [match] = TextProcessor.findPhrases(text);
+    expect(match).toMatchObject({ phrase: 'give up', key: 'gave up' });
+    expect(text.slice(match.start, match.end)).toBe('gave up');
+  });
+
+  it('三词以上的固定搭配整体命中', () => {
+    const matches = TextProcessor.findPhrases('In spite of the rain, we took care of it.');
+    expect(matches.map((m) => m.phrase)).toEqual(['in spite of', 'take care of']);
+  });
+
+  it('最长匹配优先：look forward to 胜过 look forward', () => {
+    const matches = TextProcessor.findPhrases('I look forward to it');
+    expect(matches.map((m) => m.phrase)).toEqual(['look forward to']);
+  });
+
+  it('末词复数还原：credit cards → credit card；连字符也算相邻', () => {
+    expect(TextProcessor.findPhrases('two credit cards')[0]?.phrase).toBe('credit card');
+    expect(TextProcessor.findPhrases('Machine-learning models')[0]?.phrase).toBe(
+      'machine learning',
+    );
+  });
+
+  it('中间隔了标点不算短语', () => {
+    expect(TextProcessor.findPhrases('What did you give, up there?')).toEqual([]);
+  });
+
+  it('未注入短语表时直接返回空', () => {
+    TextProcessor.setPhrases(null);
+    expect(TextProcessor.findPhrases('never give up')).toEqual([]);
+  });
+});
@@ -33,6 +33,14 @@ export class TextProcessor {
    * `dictionaryHas` 才有数据；为空时跳过所有需要验证的剥除分支。
    */
   private static dictionarySet: Set<string> | null = null;
+  /**
+   * 多词词条白名单（ADR 0026），key 是小写、单空格分隔的原形（"give up"）。
+   * phraseHeads 是所有词条首词的集合，用来在逐 token 扫描时快速跳过不可能起头的位置；
+   * maxPhraseTokens 是最长匹配的窗口上限。
+   */
+  private static phraseSet: Set<string> | null = null;
+  private static phraseHeads: Set<string> = new Set();
+  private static maxPhraseTokens = 0;
 
   /** 由 content.ts 在 DictionaryLoader 拿到 adverbMap 后调用，注入到本类。 */
   static setAdverbMap(map: Record<string, string> | null): void {
@@ -57,6 +65,23 @@ export class TextProcessor {
     this.lemmaCache.clear();
   }
 
+  /** 由 content.ts 注入后端下发的短语白名单；传 null / 空数组即关闭短语识别。 */
+  static setPhrases(phrases: string[] | null): void {
+    this.phraseSet = null;
+    this.phraseHeads = new Set();
+    this.maxPhraseTokens = 0;
+    if (!phrases || phrases.length === 0) return;
+
+    this.phraseSet = new Set();
+    for (const raw of phrases) {
+      const tokens = raw.toLowerCase().trim().split(/\s+/);
+      if (tokens.length < 2) continue;
+      this.phraseSet.add(tokens.join(' '));
+      this.phraseHeads.add(tokens[0]);
+      this.maxPhraseTokens = Math.max(this.maxPhraseTokens, tokens.length);
+    }
+  }
+
   private static dictionaryHas(word: string): boolean {
     return this.dictionarySet?.has(word) ?? false;
   }
@@ -372,6 +397,73 @@ export class TextProcessor {
     }
   }
 
+  /**
+   * 在一段文本里找多词词条，最长匹配优先、互不重叠（ADR 0026）。
+   *
+   * - token 用与高亮相同的 `[a-zA-Z'’]+` 切分，相邻 token 之间只允许空白或单个连字符，
+   *   跨标点（"give, up"）不算
+   * - 首词和末词都走 getLemmasForWord：首词覆盖动词短语变形（gave up / giving up），
+   *   末词覆盖复合名词复数（credit cards）；中间词只做小写比较
+   * - 返回的 key 是命中片段规整后的小写形式（"gave up"），用作 wordToLemmaMap 的键；
+   *   单词键里不会有空格，两者不会冲突
+   */
+  static findPhrases(text: string): { phrase: string; key: string; start: number; end: number }[] {
+    const result: { phrase: string; key: string; start: number; end: number }[] = [];
+    const phraseSet = this.phraseSet;
+    if (!phraseSet || !text) return result;
+
+    const tokens: { word: string; start: number; end: number }[] = [];
+    const tokenRegex = /[a-zA-Z'’]+/g;
+    let match: RegExpExecArray | null;
+    while ((match = tokenRegex.exec(text)) !== null) {
+      tokens.push({ word: match[0], start: match.index, end: match.index + match[0].length });
+    }
+
+    // linked[k]：token k 与 k+1 之间只隔空白或一个连字符
+    const linked = tokens.map(
+      (token, k) =>
+        k + 1 < tokens.length && /^(?:\s+|-)$/.test(text.slice(token.end, tokens[k + 1].start)),
+    );
+
+    let i = 0;
+    while (i < tokens.length) {
+      const heads = this.getLemmasForWord(this.normalizeApostrophe(tokens[i].word)).filter((h) =>
+        this.phraseHeads.has(h),
+      );
+      let span = 1;
+      while (span < this.maxPhraseTokens && i + span < tokens.length && linked[i + span - 1]) {
+        span++;
+      }
+
+      let matched = 0;
+      for (let n = span; n >= 2 && heads.length > 0 && !matched; n--) {
+        const window = tokens.slice(i, i + n).map((t) => this.normalizeApostrophe(t.word));
+        const middle = window.slice(1, -1).map((w) => w.toLowerCase());
+        const tails = this.getLemmasForWord(window[n - 1]);
+        for (const head of heads) {
+          const phrase = tails
+            .map((tail) => [head, ...middle, tail].join(' '))
+            .find((candidate) => phraseSet.has(candidate));
+          if (phrase) {
+            const start = tokens[i].start;
+            const end = tokens[i + n - 1].end;
+            const key = window.map((w) => w.toLowerCase()).join(' ');
+            result.push({ phrase, key, start, end });
+            matched = n;
+            break;
+          }
+        }
+      }
+      i += matched || 1;
+    }
+
+    return result;
+  }
+
+  private static normalizeApostrophe(word: string): string {
+    return word.replace(/’/g, "'");
+  }
+
   /**
    * 【核心重构方法】带白名单过滤
    * 从文本节点中收集所有单词，并进行词元化
@@ -396,6 +488,26 @@ export class TextProcessor {
     let whitelistRejected = 0;
     let ignoredWords = 0;
     let acceptedWords = 0;
+    let acceptedPhrases = 0;
+
+    // 多词词条按节点原文做最长匹配（ADR 0026）。短语本身就是白名单，不再过单词白名单；
+    // 用户忽略了原形（give up）或这个写法（gave up）都跳过
+    nodes.forEach((node) => {
+      const text = node.textContent;
+      if (!text) return;
+
+      for (const { phrase, key } of this.findPhrases(text)) {
+        if (wordToLemmaMap.has(key)) continue;
+        if (dictionaryLoader.isIgnoredWord(phrase) || dictionaryLoader.isIgnoredWord(key)) {
+          wordToLemmaMap.set(key, []);
+          ignoredWords++;
+          continue;
+        }
+        wordToLemmaMap.set(key, [phrase]);
+        uniqueLegitLemmas.add(phrase);
+        acceptedPhrases++;
+      }
+    });
 
     // 将所有文本节点内容合并成一个大字符串，用换行符分隔以保持句子边界
     const fullText = nodes
@@ -562,6 +674,7 @@ export class TextProcessor {
       duration: `${(endTime - startTime).toFixed(2)}ms`,
       totalScanned: totalWords,
       accepted: acceptedWords,
+      acceptedPhrases,
       whitelistRejected,
       ignored: ignoredWords,
       validLemmas: uniqueLegitLemmas.size,
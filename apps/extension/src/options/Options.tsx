@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { LoginPage } from '../popup/LoginPage';
 import { fetchWithAuth, fetchJsonWithAuth } from '../background/api/fetchWithAuth';
 import { getApiBaseUrl } from '../background/api/apiConfig';
+import { IgnoredWordsStore } from '../background/ignoredWordsStore';
 import { Logger } from '../utils/logger';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -53,18 +54,47 @@ import {
 
 import type {
   VocabularyFamily,
-  PresetList,
   VocabularyListResponse,
   VocabularyStats,
   SettingsData,
   ActiveTab,
 } from './types';
+import type {
+  PresetImportResponse,
+  PresetListInfo,
+  PresetRemovalResponse,
+  VocabularyImportSourceFilter,
+} from 'shared-types';
 import { formatDate } from './utils/formatDate';
 import { useUrlState } from './hooks/useUrlState';
 import { useAuth } from './hooks/useAuth';
+import { useVocabularyTimeline } from './hooks/useVocabularyTimeline';
+import { VocabularyTimelineCard } from './components/VocabularyTimelineCard';
+import { useKindleImport } from './hooks/useKindleImport';
+import { useUserLists, userListTagValue } from './hooks/useUserLists';
+import { KindleImportCard } from './components/KindleImportCard';
+import { PresetListCard } from './components/PresetListCard';
+import { PlacementTestCard } from './components/PlacementTestCard';
+import { usePlacementTest } from './hooks/usePlacementTest';
+import { AiQuotaSummary } from './components/AiQuotaSummary';
+import { useAiUsage } from './hooks/useAiUsage';
+import { FamilyOverridesCard } from './components/FamilyOverridesCard';
+import { useFamilyOverrides } from './hooks/useFamilyOverrides';
+import { DictionarySourcesCard } from './components/DictionarySourcesCard';
+import { useDictionarySources } from './hooks/useDictionarySources';
 
 const logger = new Logger('Options');
 
+// Anki 导出可选的背面字段，顺序即卡片上的顺序；value 对应后端 ?fields=
+const ANKI_FIELD_OPTIONS = [
+  { value: 'phonetic', label: '音标' },
+  { value: 'chinese', label: '中文释义' },
+  { value: 'definition', label: '英文释义' },
+  { value: 'family', label: '词族成员' },
+  { value: 'context', label: '查词原句' },
+  { value: 'audio', label: '发音链接' },
+];
+
 export default function Options() {
   const { isLoggedIn, currentUser, handleLoginSuccess, handleLogout: hookLogout } = useAuth();
   const [vocabularyData, setVocabularyData] = useState<VocabularyListResponse | null>(null);
@@ -99,11 +129,18 @@ export default function Options() {
     sortOrder,
     statusFilter,
     importSourceFilter,
+    tagFilter,
     searchTerm,
     activeTab,
   } = useUrlState();
 
-  const [presetLists, setPresetLists] = useState<PresetList[]>([]);
+  const { points: timelinePoints, loading: timelineLoading } = useVocabularyTimeline(
+    isLoggedIn === true,
+  );
+  const { usage: aiUsage, loading: aiUsageLoading } = useAiUsage(isLoggedIn === true);
+
+  const [presetLists, setPresetLists] = useState<PresetListInfo[]>([]);
+  const { lists: userLists } = useUserLists(isLoggedIn === true);
 
   // 忽略列表状态
   const [ignoredWords, setIgnoredWords] = useState<string[]>([]);
@@ -122,8 +159,17 @@ export default function Options() {
   const [analyzing, setAnalyzing] = useState(false);
 
   // 导出相关状态
-  const [exportFormat, setExportFormat] = useState<'json' | 'txt' | 'json-array'>('json');
+  const [exportFormat, setExportFormat] = useState<'json' | 'txt' | 'json-array' | 'anki'>('json');
   const [exportStatusFilter, setExportStatusFilter] = useState<'all' | 'learning' | 'known'>('all');
+  // Anki 卡包：正面恒为词根，背面字段可选；另可按词库标签 / 来源筛选
+  const [ankiFields, setAnkiFields] = useState<string[]>([
+    'phonetic',
+    'chinese',
+    'definition',
+    'context',
+  ]);
+  const [ankiTag, setAnkiTag] = useState('all');
+  const [ankiImportSource, setAnkiImportSource] = useState<VocabularyImportSourceFilter>('all');
 
   const handleLogout = async () => {
     await hookLogout();
@@ -143,6 +189,7 @@ export default function Options() {
         sortOrder,
         ...(statusFilter !== 'all' && { status: statusFilter }),
         ...(importSourceFilter !== 'all' && { importSource: importSourceFilter }),
+        ...(tagFilter !== 'all' && { tag: tagFilter }),
         ...(searchTerm && { search: searchTerm }),
       });
 
@@ -163,6 +210,7 @@ export default function Options() {
     sortOrder,
     statusFilter,
     importSourceFilter,
+    tagFilter,
     searchTerm,
   ]);
 
@@ -177,6 +225,19 @@ export default function Options() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isLoggedIn, loadVocabulary]);
 
+  const kindleImport = useKindleImport(() => {
+    loadVocabulary();
+    loadStats();
+  });
+
+  const placementTest = usePlacementTest(isLoggedIn === true, () => {
+    loadVocabulary();
+    loadStats();
+    fetchPresets();
+  });
+  const familyOverrides = useFamilyOverrides(isLoggedIn === true);
+  const dictionarySources = useDictionarySources(isLoggedIn === true);
+
   const loadStats = async () => {
     if (!isLoggedIn) return;
 
@@ -258,11 +319,13 @@ export default function Options() {
     }
   };
 
+  // 忽略列表以服务端为准；IgnoredWordsStore 写成功后同时刷新本地缓存，content 据此重新扫描
   const loadIgnoredWords = async () => {
+    if (!isLoggedIn) return;
+
     setIgnoredWordsLoading(true);
     try {
-      const result = await chrome.storage?.sync.get(['ignoredWords']);
-      setIgnoredWords(result?.ignoredWords || []);
+      setIgnoredWords(await IgnoredWordsStore.getInstance().refresh());
     } catch (error) {
       logger.error('Failed to load ignored words', error as Error);
     } finally {
@@ -272,9 +335,8 @@ export default function Options() {
 
   const removeIgnoredWord = async (word: string) => {
     try {
-      const updatedWords = ignoredWords.filter((w) => w !== word);
-      await chrome.storage?.sync.set({ ignoredWords: updatedWords });
-      setIgnoredWords(updatedWords);
+      const { words } = await IgnoredWordsStore.getInstance().unignore(word);
+      setIgnoredWords(words);
     } catch (error) {
       logger.error('Failed to remove ignored word', error as Error);
       alert('移除失败');
@@ -285,8 +347,8 @@ export default function Options() {
     if (!confirm('确定要清空所有忽略的词汇吗？')) return;
 
     try {
-      await chrome.storage?.sync.set({ ignoredWords: [] });
-      setIgnoredWords([]);
+      const { words } = await IgnoredWordsStore.getInstance().clearAll();
+      setIgnoredWords(words);
     } catch (error) {
       logger.error('Failed to clear ignored words', error as Error);
       alert('清空失败');
@@ -501,6 +563,10 @@ export default function Options() {
           endpoint = '/vocabulary/export/json-array';
           fileExtension = 'json';
           break;
+        case 'anki':
+          endpoint = '/vocabulary/export/anki';
+          fileExtension = 'apkg';
+          break;
         case 'json':
         default:
           endpoint = '/vocabulary/export';
@@ -513,9 +579,19 @@ export default function Options() {
       if (exportStatusFilter !== 'all') {
         params.append('status', exportStatusFilter);
       }
+      if (exportFormat === 'anki') {
+        const order = ANKI_FIELD_OPTIONS.map((option) => option.value);
+        const fields = ankiFields.slice().sort((a, b) => order.indexOf(a) - order.indexOf(b));
+        params.append('fields', ['word', ...fields].join(','));
+        if (ankiTag !== 'all') params.append('tag', ankiTag);
+        if (ankiImportSource !== 'all') params.append('importSource', ankiImportSource);
+      }
 
       const url = `${baseUrl}${endpoint}${params.toString() ? '?' + params.toString() : ''}`;
       const response = await fetchWithAuth(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
       const blob = await response.blob();
       const downloadUrl = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -544,7 +620,7 @@ export default function Options() {
 
     try {
       const baseUrl = await getApiBaseUrl();
-      const data = await fetchJsonWithAuth<PresetList[]>(`${baseUrl}/vocabulary/presets`);
+      const data = await fetchJsonWithAuth<PresetListInfo[]>(`${baseUrl}/vocabulary/presets`);
       setPresetLists(data);
     } catch (error) {
       logger.error('Failed to fetch preset lists', error as Error);
@@ -555,15 +631,20 @@ export default function Options() {
     setLoading(true);
     try {
       const baseUrl = await getApiBaseUrl();
-      const data = await fetchJsonWithAuth<any>(`${baseUrl}/vocabulary/add-preset/${listKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      const data = await fetchJsonWithAuth<PresetImportResponse>(
+        `${baseUrl}/vocabulary/add-preset/${listKey}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({}),
         },
-        body: JSON.stringify({}),
-      });
-      alert(`${data.message}！\n已添加 ${data.count} 个词元\n共 ${data.familiesAdded} 个词族`);
+      );
+      alert(`${data.message}！\n新增 ${data.familiesAdded} 个词族（v${data.version}）`);
       loadVocabulary();
+      loadStats();
+      fetchPresets();
     } catch (error) {
       logger.error('Failed to add preset vocabulary', error as Error);
       alert('添加词库失败');
@@ -572,6 +653,31 @@ export default function Options() {
     }
   };
 
+  const removePresetVocabulary = async (listKey: string) => {
+    const preset = presetLists.find((p) => p.key === listKey);
+    if (!confirm(`撤销导入「${preset?.name ?? listKey}」？导入后改过状态或复习过的词会保留。`)) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const baseUrl = await getApiBaseUrl();
+      const data = await fetchJsonWithAuth<PresetRemovalResponse>(
+        `${baseUrl}/vocabulary/preset/${listKey}`,
+        { method: 'DELETE' },
+      );
+      alert(`已移出 ${data.removedCount} 个词族，保留 ${data.keptCount} 个改动过的词族`);
+      loadVocabulary();
+      loadStats();
+      fetchPresets();
+    } catch (error) {
+      logger.error('Failed to remove preset vocabulary', error as Error);
+      alert('撤销导入失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -945,6 +1051,9 @@ export default function Options() {
                       </CardContent>
                     </Card>
 
+                    {/* 每日进度时间线 */}
+                    <VocabularyTimelineCard points={timelinePoints} loading={timelineLoading} />
+
                     {/* 最近遇到的生词族 */}
                     {stats.recentFamilies && stats.recentFamilies.length > 0 && (
                       <Card>
@@ -1038,6 +1147,32 @@ export default function Options() {
                               <SelectItem value="all">全部</SelectItem>
                               <SelectItem value="manual">手动添加</SelectItem>
                               <SelectItem value="preset">预设导入</SelectItem>
+                              <SelectItem value="kindle">Kindle 导入</SelectItem>
+                              <SelectItem value="placement">词汇量测试</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="w-36">
+                          <Label>词单</Label>
+                          <Select
+                            value={tagFilter}
+                            onValueChange={(v: string) => setUrlState({ tag: v, page: '1' })}
+                          >
+                            <SelectTrigger className="mt-2">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">全部</SelectItem>
+                              {presetLists.map((list) => (
+                                <SelectItem key={list.key} value={list.key}>
+                                  {list.name}
+                                </SelectItem>
+                              ))}
+                              {userLists.map((list) => (
+                                <SelectItem key={list.id} value={userListTagValue(list.id)}>
+                                  #{list.name}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
@@ -1461,12 +1596,23 @@ export default function Options() {
                                 </p>
                               </div>
                             </div>
+                            <div className="flex items-start space-x-3">
+                              <RadioGroupItem value="anki" id="export-anki" className="mt-1" />
+                              <div className="flex-1">
+                                <Label htmlFor="export-anki" className="font-medium">
+                                  Anki 卡包 (.apkg)
+                                </Label>
+                                <p className="text-sm text-gray-500">
+                                  正面是单词，背面带释义和你查词时的原句，可直接导入 Anki
+                                </p>
+                              </div>
+                            </div>
                           </div>
                         </RadioGroup>
                       </div>
 
                       {/* 状态筛选（仅对简单格式有效） */}
-                      {(exportFormat === 'txt' || exportFormat === 'json-array') && (
+                      {exportFormat !== 'json' && (
                         <div className="space-y-2">
                           <Label>词汇状态筛选</Label>
                           <Select
@@ -1486,6 +1632,75 @@ export default function Options() {
                         </div>
                       )}
 
+                      {exportFormat === 'anki' && (
+                        <>
+                          <div className="space-y-2">
+                            <Label>卡片背面字段</Label>
+                            <div className="grid grid-cols-2 gap-2">
+                              {ANKI_FIELD_OPTIONS.map((option) => (
+                                <div key={option.value} className="flex items-center space-x-2">
+                                  <Checkbox
+                                    id={`anki-field-${option.value}`}
+                                    checked={ankiFields.includes(option.value)}
+                                    onCheckedChange={(checked) =>
+                                      setAnkiFields((prev) =>
+                                        checked
+                                          ? [...prev, option.value]
+                                          : prev.filter((f) => f !== option.value),
+                                      )
+                                    }
+                                  />
+                                  <Label htmlFor={`anki-field-${option.value}`}>
+                                    {option.label}
+                                  </Label>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                              <Label>词库标签</Label>
+                              <Select value={ankiTag} onValueChange={setAnkiTag}>
+                                <SelectTrigger className="w-full">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="all">全部</SelectItem>
+                                  {presetLists.map((list) => (
+                                    <SelectItem key={list.key} value={list.key}>
+                                      {list.name}
+                                    </SelectItem>
+                                  ))}
+                                  {userLists.map((list) => (
+                                    <SelectItem key={list.id} value={userListTagValue(list.id)}>
+                                      #{list.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div className="space-y-2">
+                              <Label>来源</Label>
+                              <Select
+                                value={ankiImportSource}
+                                onValueChange={(v: any) => setAnkiImportSource(v)}
+                              >
+                                <SelectTrigger className="w-full">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="all">全部</SelectItem>
+                                  <SelectItem value="manual">手动添加</SelectItem>
+                                  <SelectItem value="preset">预设词库</SelectItem>
+                                  <SelectItem value="kindle">Kindle 导入</SelectItem>
+                                  <SelectItem value="placement">词汇量测试</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                        </>
+                      )}
+
                       <Button onClick={exportVocabulary} size="lg" className="w-full">
                         <Download className="mr-2 h-4 w-4" />
                         导出词汇
@@ -1532,37 +1747,32 @@ export default function Options() {
                   </CardContent>
                 </Card>
 
+                <KindleImportCard
+                  file={kindleImport.file}
+                  result={kindleImport.result}
+                  loading={kindleImport.loading}
+                  error={kindleImport.error}
+                  onSelect={kindleImport.preview}
+                  onCommit={kindleImport.commit}
+                  onReset={kindleImport.reset}
+                />
+
+                <PlacementTestCard
+                  session={placementTest.session}
+                  loading={placementTest.loading}
+                  error={placementTest.error}
+                  onStart={placementTest.start}
+                  onAnswer={placementTest.answer}
+                  onApply={placementTest.apply}
+                />
+
                 {/* 快速导入预设词库 */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Book className="h-5 w-5" />
-                      快速导入预设词库
-                    </CardTitle>
-                    <CardDescription>选择预设词库快速添加到你的学习列表</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      <p className="text-sm text-gray-600">
-                        预设词库包含常用的学习词汇集合，导入后会自动标记为"已掌握"状态。
-                      </p>
-                      <div className="flex flex-wrap gap-2">
-                        {presetLists.map((list) => (
-                          <Button
-                            key={list.key}
-                            variant="secondary"
-                            size="lg"
-                            onClick={() => addPresetVocabulary(list.key)}
-                            disabled={loading}
-                            title={list.description}
-                          >
-                            {list.name}
-                          </Button>
-                        ))}
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
+                <PresetListCard
+                  presets={presetLists}
+                  loading={loading}
+                  onImport={addPresetVocabulary}
+                  onRemove={removePresetVocabulary}
+                />
               </div>
             )}
 
@@ -1630,6 +1840,14 @@ export default function Options() {
                   </CardContent>
                 </Card>
 
+                <FamilyOverridesCard
+                  overrides={familyOverrides.overrides}
+                  loading={familyOverrides.loading}
+                  error={familyOverrides.error}
+                  onMerge={familyOverrides.merge}
+                  onReset={familyOverrides.reset}
+                />
+
                 {/* 保存按钮 */}
                 <div className="flex justify-end">
                   <Button onClick={saveSettings} size="lg">
@@ -1753,6 +1971,16 @@ export default function Options() {
                   </CardContent>
                 </Card>
 
+                {/* 词典顺序（ADR 0041），改了立即生效，不走保存按钮 */}
+                {isLoggedIn && (
+                  <DictionarySourcesCard
+                    sources={dictionarySources.sources}
+                    loading={dictionarySources.loading}
+                    error={dictionarySources.error}
+                    onMove={dictionarySources.move}
+                  />
+                )}
+
                 {/* AI 智能功能 */}
                 <Card>
                   <CardHeader>
@@ -1763,6 +1991,13 @@ export default function Options() {
                     <CardDescription>配置 AI 辅助学习功能</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-6">
+                    {/* 今日额度（ADR 0044） */}
+                    {isLoggedIn && (
+                      <div className="pb-6 border-b">
+                        <AiQuotaSummary usage={aiUsage} loading={aiUsageLoading} />
+                      </div>
+                    )}
+
                     {/* AI 模式选择 */}
                     <div>
                       <Label className="font-medium mb-3 block">AI 解析模式</Label>
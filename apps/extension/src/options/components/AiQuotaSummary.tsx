@@ -0,0 +1,68 @@
+import type { AiQuotaMeter, AiUsageResponse } from 'shared-types';
+import { Progress } from '@/components/ui/progress';
+
+interface AiQuotaSummaryProps {
+  usage: AiUsageResponse | null;
+  loading: boolean;
+}
+
+function MeterRow({ label, meter, unit }: { label: string; meter: AiQuotaMeter; unit: string }) {
+  if (meter.limit === null) {
+    return (
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">{label}</span>
+        <span className="text-gray-500">
+          已用 {meter.used.toLocaleString()}
+          {unit} · 不限
+        </span>
+      </div>
+    );
+  }
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-600">{label}</span>
+        <span className="text-gray-500">
+          剩余{' '}
+          <span className="font-semibold text-gray-900">
+            {(meter.remaining ?? 0).toLocaleString()}
+          </span>{' '}
+          / {meter.limit.toLocaleString()}
+          {unit}
+        </span>
+      </div>
+      <Progress value={Math.min(100, (meter.used / meter.limit) * 100)} />
+    </div>
+  );
+}
+
+/**
+ * AI 设置卡片里的今日额度（ADR 0044）。额度按 UTC 自然日重置，重置时间按本地时间显示。
+ */
+export function AiQuotaSummary({ usage, loading }: AiQuotaSummaryProps) {
+  if (!usage) {
+    return (
+      <p className="text-sm text-gray-500">
+        {loading ? '正在读取 AI 用量…' : '暂时无法读取 AI 用量'}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium">今日 AI 额度</span>
+        <span className="text-xs text-gray-500">
+          套餐 {usage.plan} · {new Date(usage.resetAt).toLocaleString()} 重置
+        </span>
+      </div>
+      <MeterRow label="请求次数" meter={usage.requests} unit=" 次" />
+      <MeterRow label="Token" meter={usage.tokens} unit="" />
+      {usage.exhausted && (
+        <p className="text-sm text-amber-700">
+          今日额度已用完，词卡暂时只显示词典释义，重置后自动恢复 AI 解析
+        </p>
+      )}
+    </div>
+  );
+}
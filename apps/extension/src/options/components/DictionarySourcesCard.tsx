@@ -0,0 +1,80 @@
+import type { DictionarySourceInfo } from 'shared-types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowDown, ArrowUp, BookOpen } from 'lucide-react';
+
+interface DictionarySourcesCardProps {
+  sources: DictionarySourceInfo[];
+  loading: boolean;
+  error: string | null;
+  onMove: (index: number, offset: -1 | 1) => void;
+}
+
+/**
+ * 功能配置页的词典顺序卡片：内置词典和导入的第三方词典，排在最前的在词卡上默认选中。
+ * 词典由部署者用脚本导入，这里只调顺序。
+ */
+export function DictionarySourcesCard({
+  sources,
+  loading,
+  error,
+  onMove,
+}: DictionarySourcesCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          词典顺序
+        </CardTitle>
+        <CardDescription>词卡按这个顺序排列各词典的释义，排在最前的默认展开</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {sources.length <= 1 ? (
+          <p className="italic text-gray-500">只有内置词典，暂无可排序的第三方词典</p>
+        ) : (
+          sources.map((source, index) => (
+            <div
+              key={source.key}
+              className="flex items-center justify-between rounded-lg border px-3 py-2 text-sm"
+            >
+              <div className="flex items-center gap-2">
+                <span className="w-5 text-gray-400">{index + 1}</span>
+                <span className="font-medium">{source.name}</span>
+                {source.format === 'builtin' ? (
+                  <Badge variant="secondary">内置</Badge>
+                ) : (
+                  <span className="text-gray-500">
+                    {source.entryCount?.toLocaleString() ?? 0} 个词条
+                  </span>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onMove(index, -1)}
+                  disabled={loading || index === 0}
+                  title="上移"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onMove(index, 1)}
+                  disabled={loading || index === sources.length - 1}
+                  title="下移"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
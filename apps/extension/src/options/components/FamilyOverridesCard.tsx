@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { FamilyOverrideInfo } from 'shared-types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Split } from 'lucide-react';
+
+interface FamilyOverridesCardProps {
+  overrides: FamilyOverrideInfo[];
+  loading: boolean;
+  error: string | null;
+  onMerge: (word: string, into: string) => Promise<boolean>;
+  onReset: (word: string) => void;
+}
+
+/**
+ * 忽略列表页的词族调整卡片：列出拆出 / 合并过的词，可以撤销；也可以把两个词族合并。
+ * 拆出入口在词卡上（"这个词不一样"）。
+ */
+export function FamilyOverridesCard({
+  overrides,
+  loading,
+  error,
+  onMerge,
+  onReset,
+}: FamilyOverridesCardProps) {
+  const [word, setWord] = useState('');
+  const [into, setInto] = useState('');
+
+  const handleMerge = async () => {
+    if (await onMerge(word.trim(), into.trim())) {
+      setWord('');
+      setInto('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Split className="h-5 w-5" />
+          词族调整
+        </CardTitle>
+        <CardDescription>
+          系统词族不合你意时可以调整，只对你自己生效。在词汇卡片中点击"这个词不一样"可以把词拆出来单独标记。
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Input
+            value={word}
+            onChange={(e) => setWord(e.target.value)}
+            placeholder="把这个词所在的词族"
+            className="max-w-48"
+          />
+          <span className="text-sm text-gray-500">并入</span>
+          <Input
+            value={into}
+            onChange={(e) => setInto(e.target.value)}
+            placeholder="这个词所在的词族"
+            className="max-w-48"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleMerge}
+            disabled={loading || !word.trim() || !into.trim()}
+          >
+            {loading && <Loader2 className="mr-1 h-4 w-4 animate-spin" />}
+            合并
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {overrides.length === 0 ? (
+          <p className="italic text-gray-500">暂无调整</p>
+        ) : (
+          <div className="space-y-2">
+            {overrides.map((o) => (
+              <div key={o.word} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{o.kind === 'detached' ? '已拆出' : '已合并'}</Badge>
+                  <span className="font-medium">{o.word}</span>
+                  <span className="text-gray-500">
+                    {o.kind === 'detached'
+                      ? `原属「${o.defaultFamilyRoot}」`
+                      : `「${o.defaultFamilyRoot}」→「${o.familyRoot}」`}
+                  </span>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onReset(o.word)}
+                  disabled={loading}
+                >
+                  撤销
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+import type { KindleImportFamily, KindleImportResponse } from 'shared-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BookOpen, Loader2, Upload } from 'lucide-react';
+
+interface KindleImportCardProps {
+  file: File | null;
+  result: KindleImportResponse | null;
+  loading: boolean;
+  error: string | null;
+  onSelect: (file: File) => void;
+  onCommit: () => void;
+  onReset: () => void;
+}
+
+/** 预览列表最多展示多少个 */
+const SAMPLE_SIZE = 12;
+
+function FamilySamples({ families }: { families: KindleImportFamily[] }) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {families.slice(0, SAMPLE_SIZE).map((f) => (
+        <Badge
+          key={f.familyRoot}
+          variant="secondary"
+          title={[f.books.join(' / '), f.sampleUsage].filter(Boolean).join('\n')}
+        >
+          {f.familyRoot}
+          {f.lookupCount > 1 && <span className="ml-1 text-gray-400">×{f.lookupCount}</span>}
+        </Badge>
+      ))}
+      {families.length > SAMPLE_SIZE && (
+        <span className="text-xs text-gray-400">等 {families.length} 个</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 导入页的 Kindle 卡片：选 vocab.db / My Clippings.txt → 预览匹配情况 → 确认导入。
+ */
+export function KindleImportCard({
+  file,
+  result,
+  loading,
+  error,
+  onSelect,
+  onCommit,
+  onReset,
+}: KindleImportCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />从 Kindle 导入
+        </CardTitle>
+        <CardDescription>
+          导入 Kindle 生词本（vocab.db）或标注文件（My Clippings.txt）
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            vocab.db 在 Kindle 的 system/vocabulary 目录，My Clippings.txt 在 documents
+            目录。查过的词会加入"学习中"，已掌握的词不受影响；生词本里的原句会保存为例句。
+          </p>
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="lg" asChild disabled={loading}>
+              <label className="cursor-pointer">
+                <Upload className="mr-2 h-4 w-4" />
+                选择文件
+                <input
+                  type="file"
+                  accept=".db,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    const selected = e.target.files?.[0];
+                    e.target.value = '';
+                    if (selected) onSelect(selected);
+                  }}
+                />
+              </label>
+            </Button>
+            {file && <span className="truncate text-sm text-gray-500">{file.name}</span>}
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {result && (
+            <div className="space-y-3 rounded-md border p-4">
+              <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+                <span>
+                  查词 <span className="font-medium text-gray-900">{result.totalLookups}</span>
+                </span>
+                <span>
+                  匹配词族{' '}
+                  <span className="font-medium text-gray-900">{result.matched.length}</span>
+                </span>
+                <span>
+                  已掌握{' '}
+                  <span className="font-medium text-gray-900">{result.alreadyKnown.length}</span>
+                </span>
+                <span>
+                  未匹配{' '}
+                  <span className="font-medium text-gray-900">{result.unmatched.length}</span>
+                </span>
+              </div>
+
+              {result.matched.length > 0 && <FamilySamples families={result.matched} />}
+              {result.unmatched.length > 0 && (
+                <p className="text-xs text-gray-400">
+                  未匹配：{result.unmatched.slice(0, SAMPLE_SIZE).join(', ')}
+                  {result.unmatched.length > SAMPLE_SIZE && ' …'}
+                </p>
+              )}
+
+              {result.committed ? (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-green-700">
+                    已导入：新增 {result.addedCount} 个学习中词族，保存 {result.contextCount} 条原句
+                  </p>
+                  <Button variant="ghost" size="sm" onClick={onReset}>
+                    完成
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-600">将新增 {result.addedCount} 个学习中词族</p>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={onReset} disabled={loading}>
+                      取消
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={onCommit}
+                      disabled={loading || result.matched.length === 0}
+                    >
+                      确认导入
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
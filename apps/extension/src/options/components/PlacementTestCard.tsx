@@ -0,0 +1,106 @@
+import type { PlacementSessionDto } from 'shared-types';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Gauge, Loader2 } from 'lucide-react';
+
+interface PlacementTestCardProps {
+  session: PlacementSessionDto | null;
+  loading: boolean;
+  error: string | null;
+  onStart: () => void;
+  onAnswer: (known: boolean) => void;
+  onApply: () => void;
+}
+
+function EstimateLine({ session }: { session: PlacementSessionDto }) {
+  if (!session.estimate) return null;
+  const { size, low, high } = session.estimate;
+  return (
+    <p className="text-sm text-gray-600">
+      估计词汇量约{' '}
+      <span className="text-lg font-semibold text-gray-900">{size.toLocaleString()}</span>
+      <span className="ml-2 text-gray-400">
+        （90% 区间 {low.toLocaleString()} – {high.toLocaleString()}）
+      </span>
+    </p>
+  );
+}
+
+/**
+ * 导入页的词汇量测试卡片：逐题判断认不认识，测完可把估计频段以下的高频词一键标为已掌握。
+ */
+export function PlacementTestCard({
+  session,
+  loading,
+  error,
+  onStart,
+  onAnswer,
+  onApply,
+}: PlacementTestCardProps) {
+  const question = session?.status === 'active' ? session.question : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          词汇量测试
+        </CardTitle>
+        <CardDescription>
+          不确定该导入哪个预设词库？按 COCA 词频逐段抽词测一测，只需判断认不认识
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {session && question ? (
+          <>
+            <div className="flex items-center justify-between text-xs text-gray-500">
+              <span>
+                第 {session.answered + 1} 题 · 第 {question.band} 个千词段
+              </span>
+              <span>最多 {session.maxQuestions} 题，结果稳定后自动结束</span>
+            </div>
+            <Progress value={(session.answered / session.maxQuestions) * 100} className="h-1" />
+            <div className="py-6 text-center text-4xl font-semibold tracking-wide">
+              {question.word}
+            </div>
+            <div className="flex justify-center gap-3">
+              <Button variant="outline" onClick={() => onAnswer(false)} disabled={loading}>
+                不认识
+              </Button>
+              <Button onClick={() => onAnswer(true)} disabled={loading}>
+                认识
+              </Button>
+            </div>
+            <EstimateLine session={session} />
+          </>
+        ) : (
+          <>
+            {session && <EstimateLine session={session} />}
+            {session?.status === 'finished' && session.knownLimit !== null && (
+              <div className="flex items-center justify-between gap-4 rounded-lg bg-gray-50 p-3">
+                <span className="text-sm text-gray-600">
+                  把最常用的前 {session.knownLimit.toLocaleString()}{' '}
+                  个词标为已掌握（测试中答了不认识的除外）
+                </span>
+                <Button size="sm" onClick={onApply} disabled={loading || session.knownLimit === 0}>
+                  一键标记
+                </Button>
+              </div>
+            )}
+            {session?.status === 'applied' && (
+              <p className="text-sm text-green-600">
+                已按测试结果新增 {session.appliedCount ?? 0} 个已掌握词族
+              </p>
+            )}
+            <Button variant={session ? 'outline' : 'default'} onClick={onStart} disabled={loading}>
+              {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {session ? '重新测试' : '开始测试'}
+            </Button>
+          </>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
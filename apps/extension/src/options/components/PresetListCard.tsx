@@ -0,0 +1,103 @@
+import type { PresetListInfo } from 'shared-types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Book, Undo2 } from 'lucide-react';
+
+interface PresetListCardProps {
+  presets: PresetListInfo[];
+  loading: boolean;
+  onImport: (key: string) => void;
+  onRemove: (key: string) => void;
+}
+
+function PresetRow({
+  preset,
+  loading,
+  onImport,
+  onRemove,
+}: { preset: PresetListInfo } & Omit<PresetListCardProps, 'presets'>) {
+  const percent = preset.familyCount > 0 ? (preset.knownCount / preset.familyCount) * 100 : 0;
+  const outdated = preset.importedVersion !== null && preset.importedVersion < preset.version;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{preset.name}</span>
+            <span className="text-xs text-gray-400">v{preset.version}</span>
+            {preset.importedVersion !== null && (
+              <Badge variant={outdated ? 'outline' : 'secondary'}>
+                {outdated ? `已导入 v${preset.importedVersion}，有更新` : '已导入'}
+              </Badge>
+            )}
+          </div>
+          {preset.description && <p className="text-sm text-gray-500">{preset.description}</p>}
+        </div>
+        <div className="flex shrink-0 gap-2">
+          {preset.importedVersion !== null && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRemove(preset.key)}
+              disabled={loading}
+              title="移出导入后没改过的词；改过状态或复习过的保留"
+            >
+              <Undo2 className="mr-1 h-4 w-4" />
+              撤销导入
+            </Button>
+          )}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => onImport(preset.key)}
+            disabled={loading}
+          >
+            {preset.importedVersion === null ? '导入' : '重新导入'}
+          </Button>
+        </div>
+      </div>
+      <Progress value={percent} className="h-2" />
+      <p className="text-xs text-gray-500">
+        已掌握 {preset.knownCount.toLocaleString()} / {preset.familyCount.toLocaleString()} 个词族
+        {preset.learningCount > 0 && `，学习中 ${preset.learningCount.toLocaleString()}`}
+        <span className="ml-2 text-gray-400">共 {preset.wordCount.toLocaleString()} 个词</span>
+      </p>
+    </div>
+  );
+}
+
+/**
+ * 导入页的预设词库卡片：每个词库显示版本、掌握覆盖率，可导入或撤销导入。
+ */
+export function PresetListCard({ presets, loading, onImport, onRemove }: PresetListCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Book className="h-5 w-5" />
+          快速导入预设词库
+        </CardTitle>
+        <CardDescription>选择预设词库快速添加到你的学习列表</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            预设词库包含常用的学习词汇集合，导入后会自动标记为"已掌握"状态。
+          </p>
+          {presets.map((preset) => (
+            <PresetRow
+              key={preset.key}
+              preset={preset}
+              loading={loading}
+              onImport={onImport}
+              onRemove={onRemove}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
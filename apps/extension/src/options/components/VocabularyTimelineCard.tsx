@@ -0,0 +1,78 @@
+import type { VocabularyTimelinePoint } from 'shared-types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Activity, Loader2 } from 'lucide-react';
+
+interface VocabularyTimelineCardProps {
+  points: VocabularyTimelinePoint[];
+  loading: boolean;
+}
+
+const SERIES = [
+  { key: 'learned', label: '新学', color: 'bg-amber-400' },
+  { key: 'mastered', label: '掌握', color: 'bg-green-500' },
+  { key: 'demoted', label: '回退', color: 'bg-red-400' },
+] as const;
+
+/**
+ * 概览页的每日进度柱状图：每天一组三根柱子（新学 / 掌握 / 回退），纯 div 绘制。
+ */
+export function VocabularyTimelineCard({ points, loading }: VocabularyTimelineCardProps) {
+  const max = Math.max(1, ...points.flatMap((p) => [p.learned, p.mastered, p.demoted]));
+  const totals = SERIES.map((s) => ({
+    ...s,
+    total: points.reduce((sum, p) => sum + p[s.key], 0),
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          每日进度
+        </CardTitle>
+        <CardDescription>最近 {points.length || 30} 天的词族状态变化</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && points.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-4 text-sm">
+              {totals.map((s) => (
+                <span key={s.key} className="flex items-center gap-1.5 text-gray-600">
+                  <span className={`inline-block h-2.5 w-2.5 rounded-sm ${s.color}`} />
+                  {s.label} <span className="font-medium text-gray-900">{s.total}</span>
+                </span>
+              ))}
+            </div>
+            <div className="flex h-32 items-end gap-1">
+              {points.map((p) => (
+                <div
+                  key={p.date}
+                  className="flex h-full flex-1 items-end gap-px"
+                  title={`${p.date}  新学 ${p.learned} · 掌握 ${p.mastered} · 回退 ${p.demoted}`}
+                >
+                  {SERIES.map((s) => (
+                    <div
+                      key={s.key}
+                      className={`flex-1 rounded-t-sm ${s.color}`}
+                      style={{ height: `${(p[s.key] / max) * 100}%` }}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+            {points.length > 0 && (
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>{points[0].date}</span>
+                <span>{points[points.length - 1].date}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AiUsageResponse } from 'shared-types';
+import { fetchJsonWithAuth } from '../../background/api/fetchWithAuth';
+import { getApiBaseUrl } from '../../background/api/apiConfig';
+import { clearAiQuotaBlock } from '../../background/aiQuota';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('useAiUsage');
+
+/**
+ * 拉取 /ai/usage（ADR 0044）。还有额度时顺手清掉本地的"额度用完"标记，
+ * 比如当天换了套餐，词卡不用等到第二天才恢复 AI。
+ */
+export function useAiUsage(enabled: boolean) {
+  const [usage, setUsage] = useState<AiUsageResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+
+    setLoading(true);
+    try {
+      const baseUrl = await getApiBaseUrl();
+      const data = await fetchJsonWithAuth<AiUsageResponse>(`${baseUrl}/ai/usage`);
+      setUsage(data);
+      if (!data.exhausted) await clearAiQuotaBlock();
+    } catch (error) {
+      logger.error('Failed to load AI usage', error as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { usage, loading, reload };
+}
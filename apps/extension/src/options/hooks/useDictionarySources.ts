@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from 'react';
+import type {
+  DictionarySourceInfo,
+  DictionarySourceOrderRequest,
+  DictionarySourcesResponse,
+} from 'shared-types';
+import { fetchJsonWithAuth } from '../../background/api/fetchWithAuth';
+import { getApiBaseUrl } from '../../background/api/apiConfig';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('useDictionarySources');
+
+/**
+ * 词典顺序（/dictionary-sources，ADR 0041）。改顺序整体 PUT，返回排好的全量直接覆盖；
+ * 词卡下次查词时按新顺序排 tab。
+ */
+export function useDictionarySources(enabled: boolean) {
+  const [sources, setSources] = useState<DictionarySourceInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const baseUrl = await getApiBaseUrl();
+      const data = await fetchJsonWithAuth<DictionarySourcesResponse>(
+        `${baseUrl}/dictionary-sources${path}`,
+        init,
+      );
+      setSources(data.sources);
+    } catch (err) {
+      logger.error(`Dictionary sources request failed: ${path}`, err as Error);
+      setError((err as Error).message || '请求失败');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) void request('');
+  }, [enabled, request]);
+
+  /** 把第 index 个词典往前（-1）或往后（+1）挪一位 */
+  const move = useCallback(
+    (index: number, offset: -1 | 1) => {
+      const target = index + offset;
+      if (target < 0 || target >= sources.length) return;
+      const order = sources.map((s) => s.key);
+      [order[index], order[target]] = [order[target], order[index]];
+      const body: DictionarySourceOrderRequest = { order };
+      void request('/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    },
+    [sources, request],
+  );
+
+  return { sources, loading, error, move };
+}
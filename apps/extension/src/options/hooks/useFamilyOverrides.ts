@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FamilyMergeRequest, FamilyOverrideInfo, FamilyOverridesResponse } from 'shared-types';
+import { fetchJsonWithAuth } from '../../background/api/fetchWithAuth';
+import { getApiBaseUrl } from '../../background/api/apiConfig';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('useFamilyOverrides');
+
+/**
+ * 词族调整（/vocabulary/family-overrides，ADR 0035）。写接口返回最新全量，直接覆盖；
+ * 本地镜像由服务端推送的 resync 刷新，这里不用管。
+ */
+export function useFamilyOverrides(enabled: boolean) {
+  const [overrides, setOverrides] = useState<FamilyOverrideInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const baseUrl = await getApiBaseUrl();
+      const data = await fetchJsonWithAuth<FamilyOverridesResponse>(
+        `${baseUrl}/vocabulary/family-overrides${path}`,
+        init,
+      );
+      setOverrides(data.overrides);
+      return true;
+    } catch (err) {
+      logger.error(`Family override request failed: ${path}`, err as Error);
+      setError((err as Error).message || '请求失败');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) void request('');
+  }, [enabled, request]);
+
+  const merge = useCallback(
+    (word: string, into: string) => {
+      const body: FamilyMergeRequest = { word, into };
+      return request('/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    },
+    [request],
+  );
+
+  const reset = useCallback(
+    (word: string) => request(`/${encodeURIComponent(word)}`, { method: 'DELETE' }),
+    [request],
+  );
+
+  return { overrides, loading, error, merge, reset };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useState } from 'react';
+import type { KindleImportResponse } from 'shared-types';
+import { fetchJsonWithAuth } from '../../background/api/fetchWithAuth';
+import { getApiBaseUrl } from '../../background/api/apiConfig';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('useKindleImport');
+
+/**
+ * Kindle 导入两步走：选文件先拿预览（不写库），用户确认后带 ?commit=true 重传同一个文件。
+ * 服务端不暂存上传的文件，所以确认时要再传一次。
+ */
+export function useKindleImport(onCommitted: () => void) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<KindleImportResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const upload = useCallback(async (target: File, commit: boolean) => {
+    const formData = new FormData();
+    formData.append('file', target);
+    const baseUrl = await getApiBaseUrl();
+    return fetchJsonWithAuth<KindleImportResponse>(
+      `${baseUrl}/vocabulary/import/kindle${commit ? '?commit=true' : ''}`,
+      { method: 'POST', body: formData },
+    );
+  }, []);
+
+  const preview = useCallback(
+    async (target: File) => {
+      setFile(target);
+      setResult(null);
+      setError(null);
+      setLoading(true);
+      try {
+        setResult(await upload(target, false));
+      } catch (err) {
+        logger.error('Kindle 导入预览失败', err as Error);
+        setError((err as Error).message || '解析失败');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [upload],
+  );
+
+  const commit = useCallback(async () => {
+    if (!file) return;
+    setError(null);
+    setLoading(true);
+    try {
+      setResult(await upload(file, true));
+      onCommitted();
+    } catch (err) {
+      logger.error('Kindle 导入失败', err as Error);
+      setError((err as Error).message || '导入失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [file, upload, onCommitted]);
+
+  const reset = useCallback(() => {
+    setFile(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  return { file, result, loading, error, preview, commit, reset };
+}
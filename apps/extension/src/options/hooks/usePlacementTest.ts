@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { PlacementAnswerRequest, PlacementSessionDto } from 'shared-types';
+import { fetchJsonWithAuth } from '../../background/api/fetchWithAuth';
+import { getApiBaseUrl } from '../../background/api/apiConfig';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('usePlacementTest');
+
+/**
+ * 词汇量测试（/placement）：会话在服务端，打开页面时拉最近一次，进行中的可以接着答。
+ * onApplied 在一键标记完成后调用，用来刷新词汇列表和统计。
+ */
+export function usePlacementTest(enabled: boolean, onApplied: () => void) {
+  const [session, setSession] = useState<PlacementSessionDto | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (path: string, init?: RequestInit) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const baseUrl = await getApiBaseUrl();
+      const data = await fetchJsonWithAuth<PlacementSessionDto>(`${baseUrl}/placement${path}`, {
+        method: 'POST',
+        ...init,
+      });
+      setSession(data);
+      return data;
+    } catch (err) {
+      logger.error(`Placement request failed: ${path}`, err as Error);
+      setError((err as Error).message || '请求失败');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    void (async () => {
+      try {
+        const baseUrl = await getApiBaseUrl();
+        const data = await fetchJsonWithAuth<{ session: PlacementSessionDto | null }>(
+          `${baseUrl}/placement`,
+        );
+        setSession(data.session);
+      } catch (err) {
+        logger.error('Failed to load placement session', err as Error);
+      }
+    })();
+  }, [enabled]);
+
+  const start = useCallback(() => request(''), [request]);
+
+  const answer = useCallback(
+    (known: boolean) => {
+      if (!session?.question) return;
+      const body: PlacementAnswerRequest = { word: session.question.word, known };
+      void request(`/${session.id}/answer`, {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    },
+    [request, session],
+  );
+
+  const apply = useCallback(async () => {
+    if (!session) return;
+    const data = await request(`/${session.id}/apply`);
+    if (data) onApplied();
+  }, [request, session, onApplied]);
+
+  return { session, loading, error, start, answer, apply };
+}
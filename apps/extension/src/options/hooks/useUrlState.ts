@@ -1,10 +1,10 @@
 import { useCallback, useEffect, useState } from 'react';
+import type { VocabularyImportSourceFilter } from 'shared-types';
 import type { ActiveTab } from '../types';
 
 type SortByValue = 'familyRoot' | 'status' | 'lastSeenAt' | 'lookupCount' | 'createdAt';
 type SortOrderValue = 'asc' | 'desc';
 type StatusFilterValue = 'all' | 'unknown' | 'learning' | 'known';
-type ImportSourceFilterValue = 'all' | 'manual' | 'preset';
 
 interface UrlParams {
   tab: string;
@@ -14,6 +14,7 @@ interface UrlParams {
   sortOrder: string;
   status: string;
   importSource: string;
+  tag: string;
   search: string;
 }
 
@@ -25,6 +26,7 @@ const DEFAULTS: UrlParams = {
   sortOrder: 'desc',
   status: 'learning',
   importSource: 'all',
+  tag: 'all',
   search: '',
 };
 
@@ -38,6 +40,7 @@ function readUrlParams(): UrlParams {
     sortOrder: params.get('sortOrder') || DEFAULTS.sortOrder,
     status: params.get('status') || DEFAULTS.status,
     importSource: params.get('importSource') || DEFAULTS.importSource,
+    tag: params.get('tag') || DEFAULTS.tag,
     search: params.get('search') || DEFAULTS.search,
   };
 }
@@ -78,7 +81,8 @@ export function useUrlState() {
     sortBy: (urlParams.sortBy as SortByValue) || 'lastSeenAt',
     sortOrder: (urlParams.sortOrder as SortOrderValue) || 'desc',
     statusFilter: (urlParams.status as StatusFilterValue) || 'learning',
-    importSourceFilter: (urlParams.importSource as ImportSourceFilterValue) || 'all',
+    importSourceFilter: (urlParams.importSource as VocabularyImportSourceFilter) || 'all',
+    tagFilter: urlParams.tag || 'all', // 词表 key 或 list:<词单 id>
     searchTerm: urlParams.search || '',
     activeTab: (urlParams.tab as ActiveTab) || 'overview',
   };
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { UserListDto } from 'shared-types';
+import { fetchJsonWithAuth } from '../../background/api/fetchWithAuth';
+import { getApiBaseUrl } from '../../background/api/apiConfig';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('useUserLists');
+
+/** 词单在 ?tag= 里的写法，和后端 parseVocabularyTagFilter 对应 */
+export function userListTagValue(listId: number): string {
+  return `list:${listId}`;
+}
+
+/**
+ * 拉取当前用户的自建词单（/lists），供词汇列表和 Anki 导出的标签筛选使用。
+ */
+export function useUserLists(enabled: boolean) {
+  const [lists, setLists] = useState<UserListDto[]>([]);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+
+    try {
+      const baseUrl = await getApiBaseUrl();
+      const data = await fetchJsonWithAuth<{ lists: UserListDto[] }>(`${baseUrl}/lists`);
+      setLists(data.lists);
+    } catch (error) {
+      logger.error('Failed to load user lists', error as Error);
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { lists, reload };
+}
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { VocabularyTimelinePoint, VocabularyTimelineResponse } from 'shared-types';
+import { fetchJsonWithAuth } from '../../background/api/fetchWithAuth';
+import { getApiBaseUrl } from '../../background/api/apiConfig';
+import { Logger } from '../../utils/logger';
+
+const logger = new Logger('useVocabularyTimeline');
+
+/**
+ * 拉取 /vocabulary/stats/timeline。时区偏移取浏览器本地，保证"今天"和用户认知一致。
+ */
+export function useVocabularyTimeline(enabled: boolean, days = 30) {
+  const [points, setPoints] = useState<VocabularyTimelinePoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!enabled) return;
+
+    setLoading(true);
+    try {
+      const baseUrl = await getApiBaseUrl();
+      // getTimezoneOffset 是 UTC - 本地，东八区为 -480，后端要的是本地 - UTC
+      const tzOffset = -new Date().getTimezoneOffset();
+      const data = await fetchJsonWithAuth<VocabularyTimelineResponse>(
+        `${baseUrl}/vocabulary/stats/timeline?days=${days}&tzOffset=${tzOffset}`,
+      );
+      setPoints(data.days);
+    } catch (error) {
+      logger.error('Failed to load vocabulary timeline', error as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [enabled, days]);
+
+  useEffect(() => {
+    void reload();
+  }, [reload]);
+
+  return { points, loading, reload };
+}
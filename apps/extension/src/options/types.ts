@@ -9,12 +9,6 @@ export interface VocabularyFamily {
   updatedAt: string;
 }
 
-export interface PresetList {
-  key: string;
-  name: string;
-  description: string;
-}
-
 export interface VocabularyListResponse {
   families: VocabularyFamily[];
   total: number;
@@ -1,8 +1,21 @@
+import { useEffect } from 'react';
 import { Redirect, Stack } from 'expo-router';
 import { useAuthStore } from '../../src/stores/auth';
+import { useVocabularyStore } from '../../src/stores/vocabulary';
+import { connectVocabularyEvents } from '../../src/lib/vocabulary-events';
 
 export default function AppLayout() {
   const phase = useAuthStore((s) => s.phase);
+  const initVocabulary = useVocabularyStore((s) => s.init);
+
+  // 登录态下还原词库镜像并增量同步一次，阅读器高亮优先查本地；
+  // 之后挂一条 SSE 长连接接收其他设备的改动
+  useEffect(() => {
+    if (phase !== 'authed') return;
+    void initVocabulary();
+    return connectVocabularyEvents();
+  }, [phase, initVocabulary]);
+
   if (phase !== 'authed') return <Redirect href="/(auth)/login" />;
   return (
     <Stack
@@ -15,6 +28,7 @@ export default function AppLayout() {
       <Stack.Screen name="upload" options={{ title: '上传文档', presentation: 'modal' }} />
       <Stack.Screen name="reader/[id]" options={{ headerShown: false }} />
       <Stack.Screen name="vocab/index" options={{ title: '生词本' }} />
+      <Stack.Screen name="placement" options={{ title: '词汇量测试' }} />
       <Stack.Screen name="settings" options={{ title: '设置' }} />
     </Stack>
   );
@@ -81,6 +81,9 @@ export default function BookshelfScreen() {
               <Pressable onPress={() => router.push('/(app)/vocab')}>
                 <Text className="text-blue-600 text-sm">生词本</Text>
               </Pressable>
+              <Pressable onPress={() => router.push('/(app)/placement')}>
+                <Text className="text-blue-600 text-sm">测词汇量</Text>
+              </Pressable>
               <Pressable onPress={() => router.push('/(app)/settings')}>
                 <Text className="text-blue-600 text-sm">设置</Text>
               </Pressable>
@@ -0,0 +1,138 @@
+/**
+ * 词汇量测试。逐题判断认不认识，服务端按 COCA 频段自适应出题并给出估计区间；
+ * 测完可以把估计频段以下的高频词一键标为已掌握（词库镜像随后由 SSE resync 刷新）。
+ */
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Pressable, Text, View } from 'react-native';
+import type { PlacementSessionDto } from 'shared-types';
+import { placementApi } from '../../src/lib/api-endpoints';
+
+export default function PlacementScreen() {
+  const [session, setSession] = useState<PlacementSessionDto | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    placementApi
+      .latest()
+      .then(setSession)
+      .catch((err: any) => Alert.alert('加载失败', err?.message ?? '请检查网络'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const run = useCallback(async (action: () => Promise<PlacementSessionDto>) => {
+    setBusy(true);
+    try {
+      setSession(await action());
+    } catch (err: any) {
+      Alert.alert('请求失败', err?.response?.data?.message ?? err?.message ?? '');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  if (loading) {
+    return (
+      <View className="flex-1 items-center justify-center bg-white">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  const question = session?.status === 'active' ? session.question : null;
+
+  return (
+    <View className="flex-1 bg-white px-6 pt-8">
+      {session && question ? (
+        <>
+          <Text className="text-xs text-gray-400">
+            第 {session.answered + 1} 题 · 第 {question.band} 个千词段
+          </Text>
+          <View className="mt-2 h-1 bg-gray-100 rounded-full overflow-hidden">
+            <View
+              className="h-1 bg-blue-500"
+              style={{ width: `${(session.answered / session.maxQuestions) * 100}%` }}
+            />
+          </View>
+          <Text className="text-4xl font-semibold text-center text-gray-900 my-16">
+            {question.word}
+          </Text>
+          <View className="flex-row gap-3">
+            <Pressable
+              disabled={busy}
+              onPress={() =>
+                run(() => placementApi.answer(session.id, { word: question.word, known: false }))
+              }
+              className="flex-1 py-3 rounded-md border border-gray-300"
+            >
+              <Text className="text-center text-gray-700">不认识</Text>
+            </Pressable>
+            <Pressable
+              disabled={busy}
+              onPress={() =>
+                run(() => placementApi.answer(session.id, { word: question.word, known: true }))
+              }
+              className="flex-1 py-3 rounded-md bg-blue-600"
+            >
+              <Text className="text-center text-white">认识</Text>
+            </Pressable>
+          </View>
+          <EstimateLine session={session} />
+        </>
+      ) : (
+        <>
+          <Text className="text-sm text-gray-500 mb-4">
+            按 COCA 词频逐段抽词，只需判断认不认识，结果稳定后自动结束（最多 50 题）。
+          </Text>
+          {session && <EstimateLine session={session} />}
+          {session?.status === 'finished' && session.knownLimit !== null && (
+            <Pressable
+              disabled={busy || session.knownLimit === 0}
+              onPress={() =>
+                Alert.alert(
+                  '一键标记',
+                  `把最常用的前 ${session.knownLimit} 个词标为已掌握？测试中答了不认识的除外。`,
+                  [
+                    { text: '取消', style: 'cancel' },
+                    { text: '标记', onPress: () => void run(() => placementApi.apply(session.id)) },
+                  ],
+                )
+              }
+              className="mt-6 py-3 rounded-md bg-blue-600"
+            >
+              <Text className="text-center text-white">
+                把前 {session.knownLimit} 个高频词标为已掌握
+              </Text>
+            </Pressable>
+          )}
+          {session?.status === 'applied' && (
+            <Text className="mt-6 text-sm text-green-600">
+              已按测试结果新增 {session.appliedCount ?? 0} 个已掌握词族
+            </Text>
+          )}
+          <Pressable
+            disabled={busy}
+            onPress={() => run(() => placementApi.start())}
+            className="mt-6 py-3 rounded-md border border-blue-600"
+          >
+            <Text className="text-center text-blue-600">{session ? '重新测试' : '开始测试'}</Text>
+          </Pressable>
+        </>
+      )}
+      {busy && <ActivityIndicator className="mt-6" />}
+    </View>
+  );
+}
+
+function EstimateLine({ session }: { session: PlacementSessionDto }) {
+  if (!session.estimate) return null;
+  const { size, low, high } = session.estimate;
+  return (
+    <Text className="mt-8 text-sm text-gray-600 text-center">
+      估计词汇量约 <Text className="text-lg font-semibold text-gray-900">{size}</Text>
+      <Text className="text-gray-400">
+        （90% 区间 {low} – {high}）
+      </Text>
+    </Text>
+  );
+}
@@ -3,8 +3,10 @@
  *
  * - 进入时 GET /documents/:id（拿元信息）+ GET /reading-progress/by-document/:id（拿初始位置）
  * - 阅读中事件触发 progressApi.upsert 节流写后端
- * - 单击词 → 弹 WordCard，关闭后清掉
+ * - 单击词 → 弹 WordCard，关闭后清掉；同时记一条查词记录（句子 + 文档 + 当前位置）
  * - 维护一个 familyMap（已遇到过的词族状态），WordCard 改了状态后回写它，TextReader 立即重渲高亮
+ * - 忽略列表直接订阅 useVocabularyStore，其他设备改了忽略列表也会实时生效
+ * - 从词卡"原文例句"跳进来时带 locator 参数：从那里开始读，但不回写进度，免得冲掉真实位置
  */
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
@@ -18,6 +20,7 @@ import {
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import type {
+  ConcordanceExampleDto,
   DocumentMeta,
   ReadingProgressDto,
   WordFamilyInfo,
@@ -30,6 +33,8 @@ import {
 import { TextReader } from '../../../src/reader/TextReader';
 import { EpubReader } from '../../../src/reader/EpubReader';
 import { WordCard } from '../../../src/components/WordCard';
+import { useVocabularyStore } from '../../../src/stores/vocabulary';
+import { onVocabularyChange } from '../../../src/lib/vocabulary-events';
 import { readSecure } from '../../../src/lib/secure-storage';
 import { ACCESS_TOKEN_KEY, getApiBaseUrl } from '../../../src/lib/api';
 import { createLogger } from '../../../src/utils/logger';
@@ -39,9 +44,10 @@ const log = createLogger('Reader');
 const PROGRESS_THROTTLE_MS = 4000;
 
 export default function ReaderScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, locator } = useLocalSearchParams<{ id: string; locator?: string }>();
   const router = useRouter();
   const docId = Number(id);
+  const peek = !!locator;
 
   const [doc, setDoc] = useState<DocumentMeta | null>(null);
   const [progress, setProgress] = useState<ReadingProgressDto | null>(null);
@@ -50,6 +56,7 @@ export default function ReaderScreen() {
   const [loading, setLoading] = useState(true);
 
   const [familyMap, setFamilyMap] = useState<Record<string, WordFamilyInfo>>({});
+  const ignoredWords = useVocabularyStore((s) => s.ignoredWords);
   const [tappedWord, setTappedWord] = useState<{ word: string; sentence: string } | null>(null);
 
   const lastSyncRef = useRef<{ at: number; locator: string } | null>(null);
@@ -115,12 +122,40 @@ export default function ReaderScreen() {
       ),
     );
     if (sample.length === 0) return;
+    // 先用本地镜像立刻铺上已学 / 已掌握的高亮，再让后端补齐生词判定
+    setFamilyMap((prev) => ({ ...useVocabularyStore.getState().lookup(sample), ...prev }));
     vocabularyApi
       .query(sample)
       .then((map) => setFamilyMap((prev) => ({ ...prev, ...map })))
       .catch((err) => log.warn('init familyMap query failed', err));
   }, [txtBody]);
 
+  // 其他设备改了词族状态：只刷新 familyMap 里已有的词，没出现过的词不必关心
+  useEffect(
+    () =>
+      onVocabularyChange((event) => {
+        setFamilyMap((prev) => {
+          const next = { ...prev };
+          let changed = false;
+          for (const [word, info] of Object.entries(prev)) {
+            if (event.family && info.familyRoot === event.family.familyRoot) {
+              next[word] = {
+                familyRoot: event.family.familyRoot,
+                status: event.family.status,
+                familiarityLevel: event.family.familiarityLevel,
+              };
+              changed = true;
+            } else if (info.familyRoot === event.removedFamilyRoot) {
+              next[word] = { ...info, status: 'unknown', familiarityLevel: 0 };
+              changed = true;
+            }
+          }
+          return changed ? next : prev;
+        });
+      }),
+    [],
+  );
+
   const sendProgress = useCallback(
     async (locator: string, percent: number) => {
       try {
@@ -134,6 +169,7 @@ export default function ReaderScreen() {
 
   const onProgress = useCallback(
     (locator: string, percent: number) => {
+      if (peek) return;
       const now = Date.now();
       const last = lastSyncRef.current;
       if (last && last.locator === locator) return;
@@ -152,22 +188,48 @@ export default function ReaderScreen() {
       lastSyncRef.current = { at: now, locator };
       sendProgress(locator, percent);
     },
-    [sendProgress],
+    [peek, sendProgress],
   );
 
+  const startLocator = locator ?? progress?.locator;
+
   const initialCharOffset = useMemo(() => {
-    if (!progress?.locator) return 0;
-    if (progress.locator.includes(':')) {
-      const [, off] = progress.locator.split(':');
+    if (!startLocator) return 0;
+    if (startLocator.includes(':')) {
+      const [, off] = startLocator.split(':');
       const n = Number(off);
       return Number.isFinite(n) ? n : 0;
     }
     return 0;
-  }, [progress]);
+  }, [startLocator]);
 
-  const onWordPress = useCallback((word: string, sentence: string) => {
-    setTappedWord({ word, sentence });
-  }, []);
+  const onWordPress = useCallback(
+    (word: string, sentence: string) => {
+      setTappedWord({ word, sentence });
+      if (useVocabularyStore.getState().ignoredWords.has(word.toLowerCase())) return;
+      vocabularyApi
+        .recordEncounter({
+          word,
+          lemma: familyMap[word.toLowerCase()]?.familyRoot,
+          sentence,
+          documentId: docId,
+          locator: lastSyncRef.current?.locator ?? startLocator,
+        })
+        .catch((err) => log.warn('record encounter failed', err));
+    },
+    [docId, familyMap, startLocator],
+  );
+
+  const onOpenExample = useCallback(
+    (example: ConcordanceExampleDto) => {
+      setTappedWord(null);
+      router.push({
+        pathname: '/(app)/reader/[id]',
+        params: { id: String(example.documentId), locator: example.locator },
+      });
+    },
+    [router],
+  );
 
   const onStatusChanged = useCallback(
     (word: string, family: WordFamilyInfo | null) => {
@@ -211,6 +273,7 @@ export default function ReaderScreen() {
             text={txtBody}
             initialCharOffset={initialCharOffset}
             familyMap={familyMap}
+            ignoredWords={ignoredWords}
             onWordPress={onWordPress}
             onProgressChange={(charOffset, percent) =>
               onProgress(`0:${charOffset}`, percent)
@@ -220,7 +283,7 @@ export default function ReaderScreen() {
         {doc.fileFormat === 'EPUB' && epubUrl && (
           <EpubReader
             src={epubUrl}
-            initialLocation={progress?.locator}
+            initialLocation={startLocator}
             onLocationChange={(cfi, percent) => onProgress(cfi, percent)}
             onWordPress={onWordPress}
           />
@@ -244,6 +307,7 @@ export default function ReaderScreen() {
                 context={tappedWord.sentence}
                 onClose={() => setTappedWord(null)}
                 onStatusChanged={onStatusChanged}
+                onOpenExample={onOpenExample}
               />
             )}
           </Pressable>
@@ -8,9 +8,10 @@ import {
   TextInput,
   View,
 } from 'react-native';
-import type { WordFamiliarityStatus } from 'shared-types';
+import type { VocabularyTimelinePoint, WordFamiliarityStatus } from 'shared-types';
 import { vocabularyApi } from '../../../src/lib/api-endpoints';
 import { FamiliarityBar } from '../../../src/components/FamiliarityBar';
+import { ProgressTimeline } from '../../../src/components/ProgressTimeline';
 
 type StatusFilter = 'all' | WordFamiliarityStatus;
 
@@ -38,6 +39,7 @@ const STATUS_TABS: Array<{ key: StatusFilter; label: string }> = [
 
 export default function VocabListScreen() {
   const [stats, setStats] = useState<Stats | null>(null);
+  const [timeline, setTimeline] = useState<VocabularyTimelinePoint[]>([]);
   const [items, setItems] = useState<Row[]>([]);
   const [filter, setFilter] = useState<StatusFilter>('all');
   const [search, setSearch] = useState('');
@@ -58,6 +60,12 @@ export default function VocabListScreen() {
     } catch {
       /* ignore stats failure，列表还能用 */
     }
+    try {
+      const t = await vocabularyApi.timeline(14);
+      setTimeline(t.days);
+    } catch {
+      /* 同上，时间线失败不影响列表 */
+    }
   }, []);
 
   const fetchPage = useCallback(
@@ -158,6 +166,8 @@ export default function VocabListScreen() {
         <Text className="px-4 pb-2 text-xs text-gray-500">{summary}</Text>
       )}
 
+      <ProgressTimeline points={timeline} />
+
       {loading ? (
         <View className="flex-1 items-center justify-center">
           <ActivityIndicator />
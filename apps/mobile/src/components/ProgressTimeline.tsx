@@ -0,0 +1,50 @@
+import { Text, View } from 'react-native';
+import type { VocabularyTimelinePoint } from 'shared-types';
+
+interface Props {
+  points: VocabularyTimelinePoint[];
+}
+
+const SERIES = [
+  { key: 'learned', label: '新学', color: 'bg-amber-500' },
+  { key: 'mastered', label: '掌握', color: 'bg-green-500' },
+  { key: 'demoted', label: '回退', color: 'bg-red-400' },
+] as const;
+
+/** 词库页顶部的每日进度柱状图，每天一组三根柱子，纯 View 绘制 */
+export function ProgressTimeline({ points }: Props) {
+  if (points.length === 0) return null;
+  const max = Math.max(1, ...points.flatMap((p) => [p.learned, p.mastered, p.demoted]));
+
+  return (
+    <View className="px-4 pb-3">
+      <View className="flex-row gap-3 mb-2">
+        {SERIES.map((s) => (
+          <View key={s.key} className="flex-row items-center gap-1">
+            <View className={`w-2 h-2 rounded-sm ${s.color}`} />
+            <Text className="text-xs text-gray-500">
+              {s.label} {points.reduce((sum, p) => sum + p[s.key], 0)}
+            </Text>
+          </View>
+        ))}
+      </View>
+      <View className="flex-row items-end h-16 gap-px">
+        {points.map((p) => (
+          <View key={p.date} className="flex-1 flex-row items-end h-full">
+            {SERIES.map((s) => (
+              <View
+                key={s.key}
+                className={`flex-1 rounded-t-sm ${s.color}`}
+                style={{ height: `${(p[s.key] / max) * 100}%` }}
+              />
+            ))}
+          </View>
+        ))}
+      </View>
+      <View className="flex-row justify-between mt-1">
+        <Text className="text-[10px] text-gray-400">{points[0].date.slice(5)}</Text>
+        <Text className="text-[10px] text-gray-400">{points[points.length - 1].date.slice(5)}</Text>
+      </View>
+    </View>
+  );
+}
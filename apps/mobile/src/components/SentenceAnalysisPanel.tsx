@@ -0,0 +1,127 @@
+/**
+ * 词卡上的"分析这句"（ADR 0045）：按需请求结构化的长难句分析，
+ * 子句在原句里按类型着色，下面列出主干、语法点和难词。整段结果一次返回，不是流式。
+ */
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Pressable, Text, View } from 'react-native';
+import type { AIClause, AIClauseKind, AISentenceAnalysis } from 'shared-types';
+import { aiApi } from '../lib/api-endpoints';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('SentenceAnalysisPanel');
+
+interface Props {
+  sentence: string;
+}
+
+const CLAUSE_STYLE: Record<AIClauseKind, { label: string; tone: string }> = {
+  main: { label: '主句', tone: 'text-blue-700' },
+  subordinate: { label: '从句', tone: 'text-amber-700' },
+  nonfinite: { label: '非谓语', tone: 'text-green-700' },
+};
+
+export function SentenceAnalysisPanel({ sentence }: Props) {
+  const [analysis, setAnalysis] = useState<AISentenceAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 换了句子就丢掉旧结果
+  useEffect(() => {
+    setAnalysis(null);
+    setError(null);
+  }, [sentence]);
+
+  async function analyze() {
+    if (loading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      setAnalysis(await aiApi.analyzeSentence(sentence));
+    } catch (err: any) {
+      log.warn('sentence analysis failed', err?.message);
+      setError(err?.response?.status === 429 ? '今日 AI 额度已用完' : '分析失败，请稍后再试');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (!analysis) {
+    return (
+      <View className="mt-2">
+        <Pressable onPress={analyze} disabled={loading} hitSlop={8} className="flex-row">
+          <Text className="text-sm text-purple-600">{loading ? '分析中…' : '分析这句'}</Text>
+          {loading && <ActivityIndicator size="small" className="ml-2" />}
+        </Pressable>
+        {error && <Text className="mt-1 text-sm text-red-500">{error}</Text>}
+      </View>
+    );
+  }
+
+  return (
+    <View className="mt-3 p-3 rounded-lg bg-gray-50 border border-gray-200">
+      <Text className="text-xs uppercase tracking-wider text-gray-400 mb-1">句子分析</Text>
+      <HighlightedSentence sentence={analysis.sentence} clauses={analysis.clauses} />
+      <Text className="mt-1 text-base leading-6 text-gray-800">{analysis.translation}</Text>
+
+      <Text className="mt-2 text-sm text-gray-600">
+        主语 <Text className="font-semibold text-gray-900">{analysis.subject}</Text>
+        {'  '}谓语 <Text className="font-semibold text-gray-900">{analysis.predicate}</Text>
+      </Text>
+
+      {analysis.clauses.map((clause, idx) => (
+        <Text key={idx} className="mt-1 text-sm leading-5 text-gray-700">
+          <Text className={CLAUSE_STYLE[clause.kind].tone}>{CLAUSE_STYLE[clause.kind].label}</Text>
+          {'  '}
+          {clause.role}
+        </Text>
+      ))}
+
+      {analysis.grammarPoints.length > 0 && (
+        <View className="mt-2">
+          {analysis.grammarPoints.map((point, idx) => (
+            <Text key={idx} className="text-sm leading-5 text-gray-700">
+              <Text className="font-semibold">{point.title}</Text>：{point.explanation}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {analysis.difficultWords.length > 0 && (
+        <Text className="mt-2 text-sm leading-5 text-gray-500">
+          {analysis.difficultWords.map((w) => `${w.text} ${w.meaning}`).join('；')}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+/**
+ * 按服务端给的 start 给从句和非谓语着色，主句常常包着它们，保持原色。
+ * 重叠的只着色先出现的那段；没有位置的不着色，只在下面的列表里出现。
+ */
+function HighlightedSentence({ sentence, clauses }: { sentence: string; clauses: AIClause[] }) {
+  const parts: Array<{ text: string; kind?: AIClauseKind }> = [];
+  let cursor = 0;
+  for (const clause of clauses) {
+    if (clause.kind === 'main' || clause.start === null || clause.start < cursor) continue;
+    const end = clause.start + clause.text.length;
+    if (clause.start > cursor) parts.push({ text: sentence.slice(cursor, clause.start) });
+    parts.push({ text: sentence.slice(clause.start, end), kind: clause.kind });
+    cursor = end;
+  }
+  if (cursor < sentence.length) parts.push({ text: sentence.slice(cursor) });
+
+  return (
+    <Text className="text-base leading-6 text-gray-800">
+      {parts.map((part, idx) =>
+        part.kind ? (
+          <Text key={idx} className={CLAUSE_STYLE[part.kind].tone}>
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        ),
+      )}
+    </Text>
+  );
+}
@@ -6,10 +6,14 @@
  * 2. 卡片底部按钮：unknown / learning / known 切换 + 熟练度滑块
  * 3. AI 增强按需：用户主动点 "AI" 才发 streamEnrichWord，把 contextual definition /
  *    example / synonym 流式打字机到卡片下半部分
+ * 4. 原文例句（ADR 0037）另发一个请求，不挡释义；点一句跳到那本书的对应位置
+ * 5. AI 解析完以后可以展开"追问 AI"接着问（ADR 0046）
+ * 6. "分析这句"按需拿结构化的句子分析（ADR 0045）
  */
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { ActivityIndicator, Pressable, ScrollView, Text, View } from 'react-native';
 import type {
+  ConcordanceExampleDto,
   DictionaryEntry,
   WordFamilyInfo,
   WordFamiliarityStatus,
@@ -17,6 +21,9 @@ import type {
 import { dictionaryApi, vocabularyApi } from '../lib/api-endpoints';
 import { streamEnrichWord, type AiStreamHandle } from '../lib/ai-stream';
 import { FamiliarityBar } from './FamiliarityBar';
+import { WordChatPanel } from './WordChatPanel';
+import { SentenceAnalysisPanel } from './SentenceAnalysisPanel';
+import { useVocabularyStore } from '../stores/vocabulary';
 import { createLogger } from '../utils/logger';
 
 const log = createLogger('WordCard');
@@ -32,6 +39,8 @@ interface Props {
     word: string,
     family: WordFamilyInfo | null,
   ) => void;
+  /** 点了某条原文例句：父级负责关卡片并跳到阅读器对应位置 */
+  onOpenExample?: (example: ConcordanceExampleDto) => void;
 }
 
 const STATUS_TABS: Array<{ key: WordFamiliarityStatus; label: string; tone: string }> = [
@@ -40,8 +49,15 @@ const STATUS_TABS: Array<{ key: WordFamiliarityStatus; label: string; tone: stri
   { key: 'known', label: '已掌握', tone: 'bg-gray-400' },
 ];
 
-export function WordCard({ word, context, onClose, onStatusChanged }: Props) {
+export function WordCard({
+  word,
+  context,
+  onClose,
+  onStatusChanged,
+  onOpenExample,
+}: Props) {
   const [entry, setEntry] = useState<DictionaryEntry | null>(null);
+  const [examples, setExamples] = useState<ConcordanceExampleDto[]>([]);
   const [familyInfo, setFamilyInfo] = useState<WordFamilyInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
@@ -78,6 +94,20 @@ export function WordCard({ word, context, onClose, onStatusChanged }: Props) {
     };
   }, [lower]);
 
+  useEffect(() => {
+    let cancelled = false;
+    setExamples([]);
+    dictionaryApi
+      .examples(lower)
+      .then((res) => {
+        if (!cancelled) setExamples(res.examples);
+      })
+      .catch((e) => log.warn('examples fetch failed', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [lower]);
+
   async function changeStatus(next: WordFamiliarityStatus) {
     if (updating) return;
     setUpdating(true);
@@ -85,7 +115,9 @@ export function WordCard({ word, context, onClose, onStatusChanged }: Props) {
       const res = await vocabularyApi.update(lower, {
         status: next,
         familiarityLevel: familyInfo?.familiarityLevel ?? defaultFamiliarity(next),
+        source: 'word_card',
       });
+      useVocabularyStore.getState().applyMutation(res);
       if (res.removedFamilyRoot) {
         setFamilyInfo(null);
         onStatusChanged?.(lower, null);
@@ -112,7 +144,9 @@ export function WordCard({ word, context, onClose, onStatusChanged }: Props) {
       const res = await vocabularyApi.update(lower, {
         status: familyInfo?.status ?? 'learning',
         familiarityLevel: level,
+        source: 'word_card',
       });
+      useVocabularyStore.getState().applyMutation(res);
       if (res.family) {
         const fi: WordFamilyInfo = {
           familyRoot: res.family.familyRoot,
@@ -177,6 +211,10 @@ export function WordCard({ word, context, onClose, onStatusChanged }: Props) {
             </Text>
           )}
 
+          {examples.length > 0 && (
+            <ExampleList examples={examples} onOpen={onOpenExample} />
+          )}
+
           {(enrichRunning || enrichText) && (
             <View className="mt-3 p-3 rounded-lg bg-purple-50 border border-purple-100">
               <Text className="text-xs uppercase tracking-wider text-purple-600 mb-1">
@@ -188,6 +226,12 @@ export function WordCard({ word, context, onClose, onStatusChanged }: Props) {
               </Text>
             </View>
           )}
+
+          {!enrichRunning && !!enrichText && (
+            <WordChatPanel word={lower} context={context} />
+          )}
+
+          {!!context && <SentenceAnalysisPanel sentence={context} />}
         </ScrollView>
       )}
 
@@ -249,6 +293,49 @@ function defaultFamiliarity(status: WordFamiliarityStatus): number {
   return 0;
 }
 
+function ExampleList({
+  examples,
+  onOpen,
+}: {
+  examples: ConcordanceExampleDto[];
+  onOpen?: (example: ConcordanceExampleDto) => void;
+}) {
+  return (
+    <View className="mt-2">
+      <Text className="text-xs uppercase tracking-wider text-gray-400 mb-1">
+        原文例句
+      </Text>
+      {examples.map((ex, idx) => {
+        const at = ex.sentence.indexOf(ex.surfaceForm);
+        return (
+          <Pressable
+            key={idx}
+            disabled={!onOpen}
+            onPress={() => onOpen?.(ex)}
+            className="mb-2 pl-2 border-l-2 border-gray-200"
+          >
+            <Text className="text-sm leading-5 text-gray-700">
+              {at < 0 ? (
+                ex.sentence
+              ) : (
+                <>
+                  {ex.sentence.slice(0, at)}
+                  <Text className="font-semibold text-gray-900">{ex.surfaceForm}</Text>
+                  {ex.sentence.slice(at + ex.surfaceForm.length)}
+                </>
+              )}
+            </Text>
+            <Text className="text-xs text-gray-400 mt-0.5">
+              — {ex.documentTitle}
+              {onOpen ? ' ›' : ''}
+            </Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
 function DefinitionList({ entry }: { entry: DictionaryEntry }) {
   return (
     <View>
@@ -263,12 +350,14 @@ function DefinitionList({ entry }: { entry: DictionaryEntry }) {
                 </Text>
               ))}
               {(sense.examples ?? []).slice(0, 1).map((ex, exIdx) => (
-                <Text
-                  key={exIdx}
-                  className="text-sm text-gray-500 italic ml-3 mt-0.5"
-                >
-                  e.g., {ex}
-                </Text>
+                <View key={exIdx} className="ml-3 mt-0.5">
+                  <Text className="text-sm text-gray-500 italic">e.g., {ex}</Text>
+                  {!!sense.exampleTranslations?.[exIdx] && (
+                    <Text className="text-sm text-gray-400">
+                      {sense.exampleTranslations[exIdx]}
+                    </Text>
+                  )}
+                </View>
               ))}
             </View>
           ))}
@@ -0,0 +1,131 @@
+/**
+ * 词卡上的"追问 AI"（ADR 0046）：AI 解析出来以后展开，围绕这个词和这句话多轮对话。
+ * 对话存在后端，第一轮的 SSE 首帧给 threadId，之后的追问带上它；卡片关掉就不再续。
+ */
+import { useEffect, useRef, useState } from 'react';
+import { Pressable, Text, TextInput, View } from 'react-native';
+import { streamTutorChat, type AiStreamHandle } from '../lib/ai-stream';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('WordChatPanel');
+
+interface Props {
+  word: string;
+  context: string;
+}
+
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export function WordChatPanel({ word, context }: Props) {
+  const [open, setOpen] = useState(false);
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [pending, setPending] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const threadRef = useRef<number | undefined>(undefined);
+  const streamRef = useRef<AiStreamHandle | null>(null);
+
+  useEffect(() => () => streamRef.current?.abort(), []);
+
+  const busy = pending !== null;
+
+  async function ask() {
+    const text = question.trim();
+    if (!text || busy) return;
+    setTurns((prev) => [...prev, { role: 'user', content: text }]);
+    setQuestion('');
+    setError(null);
+    setPending('');
+
+    // 流结束时 onDone 可能被调两次（[DONE] 帧 + 连接关闭），只收一次
+    let answer = '';
+    let finished = false;
+    const finish = (err?: Error) => {
+      if (finished) return;
+      finished = true;
+      if (answer.trim()) {
+        setTurns((prev) => [...prev, { role: 'assistant', content: answer.trim() }]);
+      }
+      if (err) {
+        setError(err.message.includes('429') ? '今日 AI 额度已用完' : '追问失败，请稍后再试');
+      }
+      setPending(null);
+    };
+
+    try {
+      streamRef.current = await streamTutorChat(
+        { threadId: threadRef.current, word, context, message: text },
+        {
+          onThread: (id) => {
+            threadRef.current = id;
+          },
+          onChunk: (chunk) => {
+            answer += chunk;
+            setPending(answer);
+          },
+          onDone: () => finish(),
+          onError: (err) => {
+            log.warn('chat stream error', err.message);
+            finish(err);
+          },
+        },
+      );
+    } catch (err) {
+      log.error('chat start failed', err);
+      finish(err as Error);
+    }
+  }
+
+  return (
+    <View className="mt-2">
+      <Pressable onPress={() => setOpen(!open)} hitSlop={8}>
+        <Text className="text-sm text-purple-600">{open ? '收起追问' : '追问 AI'}</Text>
+      </Pressable>
+      {open && (
+        <View className="mt-2 p-3 rounded-lg bg-gray-50 border border-gray-200">
+          {turns.map((turn, idx) => (
+            <Text
+              key={idx}
+              className={`mb-2 text-base leading-6 ${
+                turn.role === 'user' ? 'text-right text-purple-700' : 'text-gray-800'
+              }`}
+            >
+              {turn.content}
+            </Text>
+          ))}
+          {pending !== null && (
+            <Text className="mb-2 text-base leading-6 text-gray-800">
+              {pending}
+              <Text className="text-purple-400">▍</Text>
+            </Text>
+          )}
+          <View className="flex-row gap-2 items-center">
+            <TextInput
+              value={question}
+              onChangeText={setQuestion}
+              onSubmitEditing={ask}
+              maxLength={500}
+              placeholder={`比如：为什么这里用 ${word}？`}
+              autoCapitalize="none"
+              returnKeyType="send"
+              className="flex-1 border border-gray-200 rounded-md px-3 py-2 text-base bg-white"
+            />
+            <Pressable
+              onPress={ask}
+              disabled={busy || !question.trim()}
+              className={`px-3 py-2 rounded-md ${
+                busy || !question.trim() ? 'bg-purple-200' : 'bg-purple-600'
+              }`}
+            >
+              <Text className="text-white font-medium">发送</Text>
+            </Pressable>
+          </View>
+          {error && <Text className="mt-1 text-sm text-red-500">{error}</Text>}
+        </View>
+      )}
+    </View>
+  );
+}
@@ -3,7 +3,9 @@
  *
  * 后端约定（apps/server/src/ai/ai.controller.ts）：
  *   - text/event-stream 响应
- *   - 每帧 `data: {"content": "...partial..."}\n\n` 或 `data: [DONE]`
+ *   - 每帧是 OpenAI 的流式格式 `data: {"choices":[{"delta":{"content":"..."}}]}\n\n`（ADR 0042），
+ *     最后 `data: [DONE]`；早期的 `{"content": "..."}` 也认
+ *   - /ai/chat 新对话的第一帧带 `threadId`（ADR 0046）
  *   - 错误时 `data: {"error": "..."}` 然后 close
  *
  * RN 的 fetch (网址 https://github.com/facebook/react-native/blob/main/packages/react-native/Libraries/Network/fetch.js)
@@ -19,6 +21,8 @@ const log = createLogger('ai-stream');
 
 export interface StreamHandlers {
   onChunk?: (text: string) => void;
+  /** 追问新开的对话 id，只有 /ai/chat 会给 */
+  onThread?: (threadId: number) => void;
   onDone?: () => void;
   onError?: (err: Error) => void;
 }
@@ -28,7 +32,7 @@ export interface AiStreamHandle {
 }
 
 interface StreamRequest {
-  path: '/api/v1/ai/enrich-stream' | '/api/v1/ai/translate-stream';
+  path: '/api/v1/ai/enrich-stream' | '/api/v1/ai/translate-stream' | '/api/v1/ai/chat';
   body: Record<string, unknown>;
   handlers: StreamHandlers;
 }
@@ -68,14 +72,20 @@ export async function streamAi(req: StreamRequest): Promise<AiStreamHandle> {
         try {
           const parsed = JSON.parse(payload) as {
             content?: string;
+            choices?: Array<{ delta?: { content?: string } }>;
+            threadId?: number;
             error?: string;
           };
           if (parsed.error) {
             if (!aborted) req.handlers.onError?.(new Error(parsed.error));
             return;
           }
-          if (typeof parsed.content === 'string') {
-            if (!aborted) req.handlers.onChunk?.(parsed.content);
+          if (typeof parsed.threadId === 'number') {
+            if (!aborted) req.handlers.onThread?.(parsed.threadId);
+          }
+          const content = parsed.choices?.[0]?.delta?.content ?? parsed.content;
+          if (typeof content === 'string' && content) {
+            if (!aborted) req.handlers.onChunk?.(content);
           }
         } catch (err) {
           log.warn('parse SSE frame failed', payload, err);
@@ -163,3 +173,28 @@ export function streamTranslateSentence(
     handlers,
   });
 }
+
+export interface TutorChatInput {
+  /** 追问已有对话时带上；第一轮不带，word / context 必填 */
+  threadId?: number;
+  word: string;
+  context: string;
+  message: string;
+}
+
+/** 词卡追问（ADR 0046），新对话的 id 通过 handlers.onThread 回来 */
+export function streamTutorChat(
+  input: TutorChatInput,
+  handlers: StreamHandlers,
+): Promise<AiStreamHandle> {
+  return streamAi({
+    path: '/api/v1/ai/chat',
+    body: {
+      threadId: input.threadId,
+      word: input.word,
+      context: input.context,
+      message: input.message,
+    },
+    handlers,
+  });
+}
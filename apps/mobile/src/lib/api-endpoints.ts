@@ -11,9 +11,18 @@ import type {
   WordQueryResponse,
   WordMutationResponse,
   WordFamiliarityStatus,
+  StatusChangeSource,
   DictionaryEntry,
+  ConcordanceExamplesResponse,
   AIEnrichmentData,
+  AISentenceAnalysis,
   VocabularySyncResponse,
+  VocabularyTimelineResponse,
+  VocabularyImportSourceFilter,
+  WordEncounterRecordResponse,
+  WordEncounterRequest,
+  PlacementSessionDto,
+  PlacementAnswerRequest,
 } from 'shared-types';
 
 export interface LoginResponse {
@@ -96,6 +105,14 @@ export const dictionaryApi = {
       throw err;
     }
   },
+
+  async examples(word: string, limit = 5): Promise<ConcordanceExamplesResponse> {
+    const { data } = await api.get<ConcordanceExamplesResponse>(
+      `/api/v1/dictionary/${encodeURIComponent(word.toLowerCase())}/examples`,
+      { params: { limit } },
+    );
+    return data;
+  },
 };
 
 export const vocabularyApi = {
@@ -108,7 +125,11 @@ export const vocabularyApi = {
   },
   async update(
     word: string,
-    payload: { status?: WordFamiliarityStatus; familiarityLevel?: number },
+    payload: {
+      status?: WordFamiliarityStatus;
+      familiarityLevel?: number;
+      source?: StatusChangeSource;
+    },
   ): Promise<WordMutationResponse> {
     const { data } = await api.put<WordMutationResponse>(
       `/api/v1/vocabulary/${encodeURIComponent(word)}`,
@@ -129,7 +150,7 @@ export const vocabularyApi = {
     sortOrder?: 'asc' | 'desc';
     status?: WordFamiliarityStatus;
     search?: string;
-    importSource?: 'manual' | 'preset' | 'all';
+    importSource?: VocabularyImportSourceFilter;
   }): Promise<any> {
     const { data } = await api.get('/api/v1/vocabulary/list', { params });
     return data;
@@ -148,8 +169,53 @@ export const vocabularyApi = {
     const { data } = await api.get('/api/v1/vocabulary/stats');
     return data;
   },
-  async sync(): Promise<VocabularySyncResponse> {
-    const { data } = await api.get<VocabularySyncResponse>('/api/v1/vocabulary/sync');
+  /** 不带 since 拉全量；带上次的 syncedAt 只拉增量 + tombstone */
+  async sync(since?: string): Promise<VocabularySyncResponse> {
+    const { data } = await api.get<VocabularySyncResponse>('/api/v1/vocabulary/sync', {
+      params: since ? { since } : undefined,
+    });
+    return data;
+  },
+  /** 每日进度；tzOffset 取设备本地，按用户自己的"今天"切天 */
+  async timeline(days = 30): Promise<VocabularyTimelineResponse> {
+    const { data } = await api.get<VocabularyTimelineResponse>(
+      '/api/v1/vocabulary/stats/timeline',
+      { params: { days, tzOffset: -new Date().getTimezoneOffset() } },
+    );
+    return data;
+  },
+  /** 记录一次查词的上下文句子（个人例句库） */
+  async recordEncounter(payload: WordEncounterRequest): Promise<WordEncounterRecordResponse> {
+    const { data } = await api.post<WordEncounterRecordResponse>(
+      '/api/v1/vocabulary/encounters',
+      payload,
+    );
+    return data;
+  },
+};
+
+/** 词汇量测试，会话在服务端 */
+export const placementApi = {
+  async latest(): Promise<PlacementSessionDto | null> {
+    const { data } = await api.get<{ session: PlacementSessionDto | null }>(
+      '/api/v1/placement',
+    );
+    return data.session;
+  },
+  async start(): Promise<PlacementSessionDto> {
+    const { data } = await api.post<PlacementSessionDto>('/api/v1/placement');
+    return data;
+  },
+  async answer(id: number, payload: PlacementAnswerRequest): Promise<PlacementSessionDto> {
+    const { data } = await api.post<PlacementSessionDto>(
+      `/api/v1/placement/${id}/answer`,
+      payload,
+    );
+    return data;
+  },
+  /** 把估计频段以下的词族标为已掌握 */
+  async apply(id: number): Promise<PlacementSessionDto> {
+    const { data } = await api.post<PlacementSessionDto>(`/api/v1/placement/${id}/apply`);
     return data;
   },
 };
@@ -179,4 +245,11 @@ export const aiApi = {
     });
     return data;
   },
+  /** 结构化的长难句分析：子句、主谓、语法点和难词 */
+  async analyzeSentence(sentence: string): Promise<AISentenceAnalysis> {
+    const { data } = await api.post<AISentenceAnalysis>('/api/v1/ai/sentence-analysis', {
+      sentence,
+    });
+    return data;
+  },
 };
@@ -0,0 +1,130 @@
+/**
+ * 词库变更推送（GET /api/v1/vocabulary/events，SSE）。
+ *
+ * 已登录区域挂一条长连接：收到 change 事件先合进 useVocabularyStore 镜像
+ * （忽略列表变更带的是全量，整体覆盖），再通知 onVocabularyChange 的订阅者（阅读器用它实时刷新 familyMap 高亮）。
+ * 读流方式同 ai-stream：XHR progress，跨设备一致；断线指数退避重连。
+ */
+import type { VocabularyChangeEvent } from 'shared-types';
+import { ACCESS_TOKEN_KEY, getApiBaseUrl } from './api';
+import { readSecure } from './secure-storage';
+import { useVocabularyStore } from '../stores/vocabulary';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('vocab-events');
+
+const INITIAL_RETRY_MS = 1_000;
+const MAX_RETRY_MS = 60_000;
+// XHR 的 responseText 只增不减，长连接攒到这么大就主动重连释放内存
+const MAX_RESPONSE_CHARS = 1_000_000;
+
+type Listener = (event: VocabularyChangeEvent) => void;
+
+const listeners = new Set<Listener>();
+
+export function onVocabularyChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function dispatch(event: VocabularyChangeEvent): void {
+  const store = useVocabularyStore.getState();
+  if (event.resync) {
+    store.sync().catch((err) => log.warn('resync failed', err));
+  } else if (event.ignoredWords) {
+    store.applyIgnoredWords(event.ignoredWords);
+  } else {
+    store.applyMutation({ success: true, message: '', ...event });
+  }
+  for (const listener of listeners) listener(event);
+}
+
+/** 建立连接，返回断开函数。重复调用会建多条连接，调用方负责配对 */
+export function connectVocabularyEvents(): () => void {
+  let closed = false;
+  let xhr: XMLHttpRequest | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryDelay = INITIAL_RETRY_MS;
+
+  function scheduleReconnect(): void {
+    if (closed) return;
+    const delay = retryDelay;
+    retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void open();
+    }, delay);
+  }
+
+  async function open(): Promise<void> {
+    const baseURL = await getApiBaseUrl();
+    const token = await readSecure(ACCESS_TOKEN_KEY);
+    if (closed) return;
+
+    const req = new XMLHttpRequest();
+    xhr = req;
+    let buffered = '';
+    let lastSeenLen = 0;
+
+    function consume(): void {
+      const newPart = req.responseText.slice(lastSeenLen);
+      lastSeenLen = req.responseText.length;
+      if (!newPart) return;
+      buffered += newPart;
+
+      const frames = buffered.split(/\r?\n\r?\n/);
+      buffered = frames.pop() ?? '';
+      for (const frame of frames) {
+        let type = 'message';
+        let data = '';
+        for (const line of frame.split(/\r?\n/)) {
+          if (line.startsWith('event:')) type = line.slice(6).trim();
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        if (type !== 'change' || !data) continue;
+        try {
+          dispatch(JSON.parse(data) as VocabularyChangeEvent);
+        } catch (err) {
+          log.warn('parse vocabulary event failed', data, err);
+        }
+      }
+
+      if (lastSeenLen > MAX_RESPONSE_CHARS) req.abort();
+    }
+
+    req.open('GET', `${baseURL}/api/v1/vocabulary/events`);
+    req.setRequestHeader('Accept', 'text/event-stream');
+    if (token) req.setRequestHeader('Authorization', `Bearer ${token}`);
+
+    req.onreadystatechange = () => {
+      if (req.readyState === 3) {
+        retryDelay = INITIAL_RETRY_MS;
+        consume();
+      } else if (req.readyState === 4) {
+        consume();
+        if (req.status >= 400) log.warn('event stream HTTP', req.status);
+        // 主动 abort 也会走到 DONE；断开时 xhr 已被置空，不再重连
+        if (xhr === req) {
+          xhr = null;
+          scheduleReconnect();
+        }
+      }
+    };
+    req.send();
+  }
+
+  void open().catch((err) => {
+    log.warn('open event stream failed', err);
+    scheduleReconnect();
+  });
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    const current = xhr;
+    xhr = null;
+    current?.abort();
+  };
+}
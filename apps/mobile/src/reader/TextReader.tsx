@@ -30,6 +30,8 @@ interface Props {
   onProgressChange: (charOffset: number, percent: number) => void;
   /** 词族状态变化时父级重渲，本组件订阅以更新高亮 */
   familyMap: Record<string, WordFamilyInfo>;
+  /** 忽略列表（小写），这些词不上色但仍可点击查词 */
+  ignoredWords: Set<string>;
 }
 
 interface Paragraph {
@@ -50,6 +52,7 @@ export function TextReader({
   onWordPress,
   onProgressChange,
   familyMap,
+  ignoredWords,
 }: Props) {
   const paragraphs = useMemo<Paragraph[]>(() => {
     const parts = splitParagraphs(text);
@@ -99,10 +102,11 @@ export function TextReader({
       <ParagraphView
         para={item}
         familyMap={familyMap}
+        ignoredWords={ignoredWords}
         onWordPress={(w) => onWordPress(w, item.text)}
       />
     ),
-    [familyMap, onWordPress],
+    [familyMap, ignoredWords, onWordPress],
   );
 
   if (paragraphs.length === 0) {
@@ -148,10 +152,12 @@ export function TextReader({
 function ParagraphView({
   para,
   familyMap,
+  ignoredWords,
   onWordPress,
 }: {
   para: Paragraph;
   familyMap: Record<string, WordFamilyInfo>;
+  ignoredWords: Set<string>;
   onWordPress: (word: string) => void;
 }) {
   return (
@@ -160,7 +166,8 @@ function ParagraphView({
         if (tok.type !== 'word') {
           return <Text key={i}>{tok.text}</Text>;
         }
-        const fam = familyMap[tok.text.toLowerCase()];
+        const lower = tok.text.toLowerCase();
+        const fam = ignoredWords.has(lower) ? undefined : familyMap[lower];
         const tone = fam ? TONE_BG[fam.status] : '';
         return (
           <Text
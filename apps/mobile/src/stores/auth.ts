@@ -7,6 +7,7 @@ import {
 import { authApi } from '../lib/api-endpoints';
 import { readSecure, writeSecure, deleteSecure } from '../lib/secure-storage';
 import { createLogger } from '../utils/logger';
+import { useVocabularyStore } from './vocabulary';
 
 const log = createLogger('auth-store');
 
@@ -69,10 +70,15 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   async logout() {
     await deleteSecure(ACCESS_TOKEN_KEY);
     await deleteSecure(REFRESH_TOKEN_KEY);
+    await useVocabularyStore.getState().clear();
     set({ phase: 'unauthed', user: null });
   },
 
   hardLogout() {
+    useVocabularyStore
+      .getState()
+      .clear()
+      .catch((err) => log.warn('clear vocabulary mirror failed', err));
     set({ phase: 'unauthed', user: null });
   },
 }));
@@ -0,0 +1,153 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type {
+  VocabularySyncFamily,
+  VocabularySyncResponse,
+  WordFamilyInfo,
+  WordMutationResponse,
+} from 'shared-types';
+import { vocabularyApi } from '../lib/api-endpoints';
+import { createLogger } from '../utils/logger';
+
+const log = createLogger('vocab-store');
+
+const STORAGE_KEY = 'vocabularyMirror';
+
+interface PersistedSnapshot {
+  // 只在和后端同步过后才有值；为空时下次拉全量
+  syncedAt: string | null;
+  families: VocabularySyncFamily[];
+  // 忽略列表全量（ADR 0027）；旧快照没有这个字段
+  ignoredWords?: string[];
+}
+
+interface VocabularyState {
+  /** familyRoot → family */
+  families: Record<string, VocabularySyncFamily>;
+  /** 小写 lemma → 词族状态，阅读器高亮直接查这里 */
+  byLemma: Record<string, WordFamilyInfo>;
+  syncedAt: string | null;
+  /** 忽略列表（小写），以服务端为准，sync / SSE 带来的全量整体覆盖；阅读器不给这些词上色 */
+  ignoredWords: Set<string>;
+  /** 先从本地还原，再按游标增量同步（协议同扩展端 VocabularyMirror） */
+  init: () => Promise<void>;
+  sync: () => Promise<void>;
+  /** 写接口成功后把响应里的 family / removedFamilyRoot 合进镜像 */
+  applyMutation: (res: WordMutationResponse) => void;
+  applyIgnoredWords: (words: string[]) => void;
+  /** 只返回镜像命中的词；未命中的交给 vocabularyApi.query 判断是否生词 */
+  lookup: (words: string[]) => Record<string, WordFamilyInfo>;
+  clear: () => Promise<void>;
+}
+
+function indexLemmas(families: Record<string, VocabularySyncFamily>) {
+  const byLemma: Record<string, WordFamilyInfo> = {};
+  for (const f of Object.values(families)) {
+    const info: WordFamilyInfo = {
+      familyRoot: f.familyRoot,
+      status: f.status,
+      familiarityLevel: f.familiarityLevel,
+    };
+    for (const lemma of f.lemmas) byLemma[lemma.toLowerCase()] = info;
+  }
+  return byLemma;
+}
+
+function mergeSync(
+  current: Record<string, VocabularySyncFamily>,
+  data: VocabularySyncResponse,
+): Record<string, VocabularySyncFamily> {
+  const next = data.incremental ? { ...current } : {};
+  for (const f of data.families) next[f.familyRoot] = f;
+  for (const root of data.removedFamilyRoots ?? []) delete next[root];
+  return next;
+}
+
+async function persist(
+  syncedAt: string | null,
+  families: Record<string, VocabularySyncFamily>,
+  ignoredWords: Set<string>,
+) {
+  const snapshot: PersistedSnapshot = {
+    syncedAt,
+    families: Object.values(families),
+    ignoredWords: [...ignoredWords],
+  };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+}
+
+export const useVocabularyStore = create<VocabularyState>((set, get) => ({
+  families: {},
+  byLemma: {},
+  syncedAt: null,
+  ignoredWords: new Set(),
+
+  async init() {
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        const snapshot = JSON.parse(raw) as PersistedSnapshot;
+        const families: Record<string, VocabularySyncFamily> = {};
+        for (const f of snapshot.families ?? []) families[f.familyRoot] = f;
+        set({
+          families,
+          byLemma: indexLemmas(families),
+          syncedAt: snapshot.syncedAt,
+          ignoredWords: new Set(snapshot.ignoredWords ?? []),
+        });
+      }
+    } catch (err) {
+      log.warn('restore snapshot failed', err);
+    }
+    await get()
+      .sync()
+      .catch((err) => log.warn('sync failed, using cached snapshot', err));
+  },
+
+  async sync() {
+    const data = await vocabularyApi.sync(get().syncedAt ?? undefined);
+    const families = mergeSync(get().families, data);
+    const ignoredWords = data.ignoredWords ? new Set(data.ignoredWords) : get().ignoredWords;
+    set({ families, byLemma: indexLemmas(families), syncedAt: data.syncedAt, ignoredWords });
+    await persist(data.syncedAt, families, ignoredWords);
+    log.info('synced', {
+      incremental: Boolean(data.incremental),
+      changed: data.families.length,
+      removed: data.removedFamilyRoots?.length ?? 0,
+    });
+  },
+
+  applyMutation(res) {
+    if (!res.family && !res.removedFamilyRoot) return;
+    const families = { ...get().families };
+    if (res.family) families[res.family.familyRoot] = res.family;
+    else if (res.removedFamilyRoot) delete families[res.removedFamilyRoot];
+    set({ families, byLemma: indexLemmas(families) });
+    persist(get().syncedAt, families, get().ignoredWords).catch((err) =>
+      log.warn('persist failed', err),
+    );
+  },
+
+  applyIgnoredWords(words) {
+    const ignoredWords = new Set(words);
+    set({ ignoredWords });
+    persist(get().syncedAt, get().families, ignoredWords).catch((err) =>
+      log.warn('persist failed', err),
+    );
+  },
+
+  lookup(words) {
+    const { byLemma } = get();
+    const out: Record<string, WordFamilyInfo> = {};
+    for (const w of words) {
+      const hit = byLemma[w.toLowerCase()];
+      if (hit) out[w] = hit;
+    }
+    return out;
+  },
+
+  async clear() {
+    set({ families: {}, byLemma: {}, syncedAt: null, ignoredWords: new Set() });
+    await AsyncStorage.removeItem(STORAGE_KEY);
+  },
+}));
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."user_family_status" ADD COLUMN     "dueAt" TIMESTAMP(3),
+ADD COLUMN     "easeFactor" DOUBLE PRECISION NOT NULL DEFAULT 2.5,
+ADD COLUMN     "intervalDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lapseCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "repetitions" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "user_family_status_userId_status_dueAt_idx" ON "public"."user_family_status"("userId", "status", "dueAt");
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."StatusChangeSource" AS ENUM ('WORD_CARD', 'BATCH', 'AUTO', 'IMPORT', 'REVIEW', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "public"."status_changes" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "familyId" INTEGER NOT NULL,
+    "oldStatus" "public"."WordFamiliarityStatus",
+    "newStatus" "public"."WordFamiliarityStatus",
+    "oldLevel" SMALLINT,
+    "newLevel" SMALLINT,
+    "source" "public"."StatusChangeSource" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "status_changes_userId_createdAt_idx" ON "public"."status_changes"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "status_changes_userId_familyId_idx" ON "public"."status_changes"("userId", "familyId");
+
+-- AddForeignKey
+ALTER TABLE "public"."status_changes" ADD CONSTRAINT "status_changes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."status_changes" ADD CONSTRAINT "status_changes_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "public"."word_families"("id") ON DELETE CASCADE ON UPDATE CASCADE;
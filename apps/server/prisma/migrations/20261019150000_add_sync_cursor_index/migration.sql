@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "user_family_status_userId_updatedAt_idx" ON "public"."user_family_status"("userId", "updatedAt");
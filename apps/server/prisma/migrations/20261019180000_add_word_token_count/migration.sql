@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."words" ADD COLUMN     "tokenCount" SMALLINT NOT NULL DEFAULT 1;
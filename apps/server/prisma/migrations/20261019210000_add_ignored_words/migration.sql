@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "public"."ignored_words" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ignored_words_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ignored_words_userId_text_key" ON "public"."ignored_words"("userId", "text");
+
+-- AddForeignKey
+ALTER TABLE "public"."ignored_words" ADD CONSTRAINT "ignored_words_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."word_encounters" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "familyId" INTEGER NOT NULL,
+    "surfaceForm" TEXT NOT NULL,
+    "sentence" TEXT NOT NULL,
+    "url" TEXT,
+    "pageTitle" TEXT,
+    "documentId" INTEGER,
+    "locator" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "word_encounters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "word_encounters_userId_familyId_id_idx" ON "public"."word_encounters"("userId", "familyId", "id");
+
+-- AddForeignKey
+ALTER TABLE "public"."word_encounters" ADD CONSTRAINT "word_encounters_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."word_encounters" ADD CONSTRAINT "word_encounters_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "public"."word_families"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."word_encounters" ADD CONSTRAINT "word_encounters_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "public"."documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
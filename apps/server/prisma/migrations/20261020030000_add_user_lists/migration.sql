@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "public"."user_lists" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."_UserListToWordFamily" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_UserListToWordFamily_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_lists_userId_name_key" ON "public"."user_lists"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "_UserListToWordFamily_B_index" ON "public"."_UserListToWordFamily"("B");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_lists" ADD CONSTRAINT "user_lists_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_UserListToWordFamily" ADD CONSTRAINT "_UserListToWordFamily_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."user_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_UserListToWordFamily" ADD CONSTRAINT "_UserListToWordFamily_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."word_families"("id") ON DELETE CASCADE ON UPDATE CASCADE;
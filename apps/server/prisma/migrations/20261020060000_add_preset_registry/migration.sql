@@ -0,0 +1,55 @@
+-- CreateTable
+CREATE TABLE "public"."preset_lists" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "checksum" TEXT NOT NULL,
+    "wordCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "preset_lists_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."user_preset_imports" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "presetId" INTEGER NOT NULL,
+    "version" INTEGER NOT NULL,
+    "familiesAdded" INTEGER NOT NULL,
+    "importedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_preset_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."_PresetListToWordFamily" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL,
+
+    CONSTRAINT "_PresetListToWordFamily_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "preset_lists_key_key" ON "public"."preset_lists"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_preset_imports_userId_presetId_key" ON "public"."user_preset_imports"("userId", "presetId");
+
+-- CreateIndex
+CREATE INDEX "_PresetListToWordFamily_B_index" ON "public"."_PresetListToWordFamily"("B");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_preset_imports" ADD CONSTRAINT "user_preset_imports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_preset_imports" ADD CONSTRAINT "user_preset_imports_presetId_fkey" FOREIGN KEY ("presetId") REFERENCES "public"."preset_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_PresetListToWordFamily" ADD CONSTRAINT "_PresetListToWordFamily_A_fkey" FOREIGN KEY ("A") REFERENCES "public"."preset_lists"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."_PresetListToWordFamily" ADD CONSTRAINT "_PresetListToWordFamily_B_fkey" FOREIGN KEY ("B") REFERENCES "public"."word_families"("id") ON DELETE CASCADE ON UPDATE CASCADE;
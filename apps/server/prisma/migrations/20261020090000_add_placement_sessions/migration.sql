@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."placement_sessions" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "answers" JSONB NOT NULL DEFAULT '[]',
+    "currentWord" TEXT,
+    "currentRank" INTEGER,
+    "finishedAt" TIMESTAMP(3),
+    "appliedAt" TIMESTAMP(3),
+    "appliedCount" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "placement_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "placement_sessions_userId_createdAt_idx" ON "public"."placement_sessions"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."placement_sessions" ADD CONSTRAINT "placement_sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
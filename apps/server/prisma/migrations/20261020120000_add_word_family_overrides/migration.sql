@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."word_family_overrides" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "wordId" INTEGER NOT NULL,
+    "familyId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "word_family_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "word_family_overrides_userId_familyId_idx" ON "public"."word_family_overrides"("userId", "familyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "word_family_overrides_userId_wordId_key" ON "public"."word_family_overrides"("userId", "wordId");
+
+-- AddForeignKey
+ALTER TABLE "public"."word_family_overrides" ADD CONSTRAINT "word_family_overrides_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."word_family_overrides" ADD CONSTRAINT "word_family_overrides_wordId_fkey" FOREIGN KEY ("wordId") REFERENCES "public"."words"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."word_family_overrides" ADD CONSTRAINT "word_family_overrides_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "public"."word_families"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."DictionarySource" AS ENUM ('ECDICT', 'AI', 'USER');
+
+-- AlterTable
+ALTER TABLE "public"."dictionary_entries" ADD COLUMN     "generatedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "source" "public"."DictionarySource" NOT NULL DEFAULT 'ECDICT',
+ADD COLUMN     "sourceModel" TEXT;
+
+-- CreateIndex
+CREATE INDEX "dictionary_entries_source_reviewedAt_idx" ON "public"."dictionary_entries"("source", "reviewedAt");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."documents" ADD COLUMN     "concordanceIndexedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."concordance_examples" (
+    "id" SERIAL NOT NULL,
+    "documentId" INTEGER NOT NULL,
+    "familyId" INTEGER NOT NULL,
+    "surfaceForm" TEXT NOT NULL,
+    "sentence" TEXT NOT NULL,
+    "locator" TEXT NOT NULL,
+    "score" SMALLINT NOT NULL,
+
+    CONSTRAINT "concordance_examples_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "concordance_examples_familyId_score_idx" ON "public"."concordance_examples"("familyId", "score");
+
+-- CreateIndex
+CREATE INDEX "concordance_examples_documentId_idx" ON "public"."concordance_examples"("documentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."concordance_examples" ADD CONSTRAINT "concordance_examples_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "public"."documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."concordance_examples" ADD CONSTRAINT "concordance_examples_familyId_fkey" FOREIGN KEY ("familyId") REFERENCES "public"."word_families"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."senses" ADD COLUMN     "exampleTranslations" TEXT[] DEFAULT ARRAY[]::TEXT[];
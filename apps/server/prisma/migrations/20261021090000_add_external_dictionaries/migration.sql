@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."ExternalDictionaryFormat" AS ENUM ('STARDICT', 'CSV', 'TSV');
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "dictionaryOrder" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."external_dictionaries" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "format" "public"."ExternalDictionaryFormat" NOT NULL,
+    "description" TEXT,
+    "entryCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "external_dictionaries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."external_dictionary_entries" (
+    "id" SERIAL NOT NULL,
+    "dictionaryId" INTEGER NOT NULL,
+    "headword" TEXT NOT NULL,
+    "definition" TEXT NOT NULL,
+
+    CONSTRAINT "external_dictionary_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "external_dictionaries_key_key" ON "public"."external_dictionaries"("key");
+
+-- CreateIndex
+CREATE INDEX "external_dictionary_entries_headword_idx" ON "public"."external_dictionary_entries"("headword");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "external_dictionary_entries_dictionaryId_headword_key" ON "public"."external_dictionary_entries"("dictionaryId", "headword");
+
+-- AddForeignKey
+ALTER TABLE "public"."external_dictionary_entries" ADD CONSTRAINT "external_dictionary_entries_dictionaryId_fkey" FOREIGN KEY ("dictionaryId") REFERENCES "public"."external_dictionaries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."ai_response_cache" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "feature" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastHitAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_response_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_response_cache_key_key" ON "public"."ai_response_cache"("key");
+
+-- CreateIndex
+CREATE INDEX "ai_response_cache_expiresAt_idx" ON "public"."ai_response_cache"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "ai_response_cache_lastHitAt_idx" ON "public"."ai_response_cache"("lastHitAt");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "aiPlan" TEXT NOT NULL DEFAULT 'free';
+
+-- CreateTable
+CREATE TABLE "public"."ai_usage_daily" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "day" DATE NOT NULL,
+    "feature" TEXT NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "cachedRequests" INTEGER NOT NULL DEFAULT 0,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ai_usage_daily_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_usage_daily_userId_day_feature_key" ON "public"."ai_usage_daily"("userId", "day", "feature");
+
+-- AddForeignKey
+ALTER TABLE "public"."ai_usage_daily" ADD CONSTRAINT "ai_usage_daily_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
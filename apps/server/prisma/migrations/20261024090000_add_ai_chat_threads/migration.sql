@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."ai_chat_threads" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "word" TEXT NOT NULL,
+    "context" TEXT NOT NULL,
+    "dictionary" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_chat_threads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ai_chat_messages" (
+    "id" SERIAL NOT NULL,
+    "threadId" INTEGER NOT NULL,
+    "role" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ai_chat_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_chat_threads_userId_updatedAt_idx" ON "public"."ai_chat_threads"("userId", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "ai_chat_messages_threadId_id_idx" ON "public"."ai_chat_messages"("threadId", "id");
+
+-- AddForeignKey
+ALTER TABLE "public"."ai_chat_threads" ADD CONSTRAINT "ai_chat_threads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ai_chat_messages" ADD CONSTRAINT "ai_chat_messages_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "public"."ai_chat_threads"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -10,6 +10,7 @@
  *   5. CET-4 / 高频词专项抽样 — 在 cet_4 / coca20000 前 5000 里随机抽 50 个，
  *      列出 word + chinese_entries_short，由人工 spot check
  *   6. P0 报警 — 关键高频词如果中文释义为空，必须报错
+ *   7. 例句覆盖率 — CET-4 / COCA top 5k 里有例句、有带中文译文例句的比例（ADR 0038）
  *
  * 输出：apps/server/data-build/audit-dictionary.json + 控制台摘要
  */
@@ -32,7 +33,10 @@ interface DictRecord {
   audio: string[];
   forms: string[];
   chinese_entries_short: { pos: string; definitions: string[] }[];
-  entries: { pos: string; senses: { glosses: string[]; examples: string[] }[] }[];
+  entries: {
+    pos: string;
+    senses: { glosses: string[]; examples: string[]; exampleTranslations?: string[] }[];
+  }[];
 }
 
 function pick<T>(arr: T[], n: number): T[] {
@@ -125,6 +129,16 @@ async function main() {
       formsDisjoint: 0,
       mismatchSample: [] as Array<{ word: string; jsonlForms: string[]; familyForms: string[] }>,
     },
+    exampleCoverage: {
+      cet4Total: cet4.size,
+      cet4WithExamples: 0,
+      cet4WithTranslation: 0,
+      cet4Rate: 0,
+      cocaTop5kTotal: cocaTop5k.size,
+      cocaTop5kWithExamples: 0,
+      cocaTop5kWithTranslation: 0,
+      cocaTop5kRate: 0,
+    },
     p0Issues: [] as string[],
   };
 
@@ -151,9 +165,11 @@ async function main() {
     const hasEn = r.entries && r.entries.length > 0 && r.entries[0].senses?.[0]?.glosses?.[0];
     const hasAudio = r.audio && r.audio.length > 0;
     let hasExamples = false;
+    let hasExampleTranslation = false;
     for (const e of r.entries || []) {
       for (const s of e.senses || []) {
         if (s.examples && s.examples.length > 0) hasExamples = true;
+        if (s.exampleTranslations?.some(Boolean)) hasExampleTranslation = true;
       }
     }
 
@@ -163,6 +179,13 @@ async function main() {
     if (hasEn) stats.fieldCompleteness.hasEnglishEntries++;
     if (hasAudio) stats.fieldCompleteness.hasAudio++;
     if (hasExamples) stats.fieldCompleteness.hasExamples++;
+    // 例句覆盖率：分母是整个词表，词典里没收的词也算"没有例句"
+    if (hasExamples && cet4.has(r.word)) stats.exampleCoverage.cet4WithExamples++;
+    if (hasExampleTranslation && cet4.has(r.word)) stats.exampleCoverage.cet4WithTranslation++;
+    if (hasExamples && cocaTop5k.has(r.word)) stats.exampleCoverage.cocaTop5kWithExamples++;
+    if (hasExampleTranslation && cocaTop5k.has(r.word)) {
+      stats.exampleCoverage.cocaTop5kWithTranslation++;
+    }
     if (hasZh && hasEn) stats.fieldCompleteness.bothChineseAndEnglish++;
     else if (hasZh) stats.fieldCompleteness.onlyChinese++;
     else if (hasEn) stats.fieldCompleteness.onlyEnglish++;
@@ -239,6 +262,16 @@ async function main() {
     100
   ).toFixed(2);
 
+  stats.exampleCoverage.cet4Rate = +(
+    (stats.exampleCoverage.cet4WithExamples / Math.max(1, stats.exampleCoverage.cet4Total)) *
+    100
+  ).toFixed(2);
+  stats.exampleCoverage.cocaTop5kRate = +(
+    (stats.exampleCoverage.cocaTop5kWithExamples /
+      Math.max(1, stats.exampleCoverage.cocaTop5kTotal)) *
+    100
+  ).toFixed(2);
+
   stats.glossLength.chineseAvg = +(chineseTotalLen / Math.max(1, chineseLenCount)).toFixed(2);
   stats.glossLength.englishAvg = +(englishTotalLen / Math.max(1, englishLenCount)).toFixed(2);
   stats.sensesPerEntry.chineseAvgPos = +(chinesePosTotal / Math.max(1, records.length)).toFixed(2);
@@ -336,6 +369,15 @@ async function main() {
   console.log(`  仅英文:         ${stats.fieldCompleteness.onlyEnglish} (${pct(stats.fieldCompleteness.onlyEnglish, T)}%)`);
   console.log(`  都没有:         ${stats.fieldCompleteness.neither} (${pct(stats.fieldCompleteness.neither, T)}%)`);
 
+  console.log('\n[例句覆盖率]');
+  const ec = stats.exampleCoverage;
+  console.log(
+    `  CET-4: ${ec.cet4WithExamples}/${ec.cet4Total} = ${ec.cet4Rate}%（带中文 ${ec.cet4WithTranslation}）`,
+  );
+  console.log(
+    `  COCA top 5k: ${ec.cocaTop5kWithExamples}/${ec.cocaTop5kTotal} = ${ec.cocaTop5kRate}%（带中文 ${ec.cocaTop5kWithTranslation}）`,
+  );
+
   console.log('\n[POS 分布（中文 chinese_entries_short）]');
   const posSorted = Object.entries(stats.posDistribution).sort((a, b) => b[1] - a[1]);
   for (const [pos, n] of posSorted.slice(0, 12)) {
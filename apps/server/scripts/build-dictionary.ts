@@ -14,18 +14,70 @@
  *   - translation → chinese_entries_short: 按 POS 行切分（"n. 书, 书籍" → {pos:"n.", definitions:["书","书籍"]}）
  *   - definition → entries: 同样按 POS 行切分，做英文 fallback 释义
  *
- * 用法：pnpm exec ts-node scripts/build-dictionary.ts
+ * 可选例句语料（ADR 0038，全部离线读 data-build/raw/ 下的文件）：
+ *   --tatoeba <file>       Tatoeba 英中句对 TSV，带中文译文
+ *   --wiktextract <file>   Wiktextract 英语 JSONL，带词性
+ *   --max-examples <n>     每个词最多挂几句，默认 3
+ * 挑短句、除目标词外基本都是 COCA 前 5000 / CET-4 词的句子，挂到 Sense.examples，
+ * 中文译文按下标对齐放进 Sense.exampleTranslations。
+ *
+ * 用法：pnpm exec ts-node scripts/build-dictionary.ts [--tatoeba eng-cmn.tsv] [--wiktextract en.jsonl]
  */
 
 import fs from 'node:fs';
 import path from 'node:path';
 import readline from 'node:readline';
+import {
+  DEFAULT_EXAMPLES_PER_WORD,
+  attachExamples,
+  parseTatoebaLine,
+  parseWiktextractLine,
+  pickExamples,
+  pushCandidate,
+  scoreExample,
+  type CorpusExample,
+  type ScoredExample,
+} from '../src/dictionary-examples';
+import { normalizeForm, sentenceForms } from '../src/documents/concordance';
 
 const ROOT = path.resolve(__dirname, '..');
 const RAW_CSV = path.join(ROOT, 'data-build/raw/ecdict.csv');
 const WHITELIST_JSON = path.join(ROOT, 'src/data/dictionary-whitelist.json');
 const OUT_JSONL = path.join(ROOT, 'src/data/dictionary-structured.jsonl');
 const STATS_JSON = path.join(ROOT, 'data-build/build-dictionary-stats.json');
+const RAW_DIR = path.join(ROOT, 'data-build/raw');
+const CET4_JSON = path.join(ROOT, 'src/data/cet_4.json');
+const COCA_JSON = path.join(ROOT, 'src/data/coca20000.json');
+
+interface DictRecord {
+  word: string;
+  phonetics: string[];
+  audio: string[];
+  forms: string[];
+  chinese_entries_short: PosBlock[];
+  entries: {
+    pos: string;
+    senses: { glosses: string[]; examples: string[]; exampleTranslations?: string[] }[];
+  }[];
+}
+
+// ---------- args ----------
+function flagValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+/** 语料路径：相对路径按 data-build/raw 解析，保证整条流水线只读本地文件 */
+function corpusPath(args: string[], flag: string): string | undefined {
+  const value = flagValue(args, flag);
+  if (!value) return undefined;
+  const full = path.isAbsolute(value) ? value : path.join(RAW_DIR, value);
+  if (!fs.existsSync(full)) {
+    console.error(`[ERROR] 找不到 ${flag} 语料: ${full}`);
+    process.exit(1);
+  }
+  return full;
+}
 
 // ---------- CSV ----------
 // ECDICT 的 CSV：双引号包含逗号字段，"\n" 是字面 \n 不是真换行，所以可以按行读。
@@ -181,8 +233,123 @@ function parseExchange(raw: string): string[] {
   return Array.from(forms).filter(Boolean);
 }
 
+// ---------- examples ----------
+interface ExampleStats {
+  tatoebaLines: number;
+  wiktextractEntries: number;
+  wordsWithExamples: number;
+  examplesAttached: number;
+  withTranslation: number;
+}
+
+/**
+ * "简单词表"：COCA 前 5000 ∪ CET-4，连同这些词在词典里的变形。
+ * 例句里除了目标词，其余词基本都得在这里面。
+ */
+function loadKnownWords(byWord: Map<string, DictRecord>): Set<string> {
+  const coca = (JSON.parse(fs.readFileSync(COCA_JSON, 'utf8')) as { words: string[] }).words;
+  const cet4 = (JSON.parse(fs.readFileSync(CET4_JSON, 'utf8')) as { words: string[] }).words;
+  const known = new Set<string>();
+  for (const w of [...coca.slice(0, 5000), ...cet4]) {
+    const key = normalizeForm(w);
+    known.add(key);
+    for (const f of byWord.get(key)?.forms ?? []) known.add(normalizeForm(f));
+  }
+  return known;
+}
+
+async function* readLines(file: string): AsyncGenerator<string> {
+  const rl = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+  for await (const line of rl) if (line.trim()) yield line;
+}
+
+async function addCorpusExamples(
+  records: DictRecord[],
+  corpora: { tatoeba?: string; wiktextract?: string },
+  maxPerWord: number,
+): Promise<ExampleStats> {
+  const byWord = new Map(records.map((r) => [r.word, r]));
+  const known = loadKnownWords(byWord);
+  console.log(`[INFO] 简单词表（含变形）${known.size} 个`);
+
+  // 词形 → 词条：句子里出现任一变形就算这个词的候选例句
+  const headForms = new Map<string, Set<string>>();
+  const formToWords = new Map<string, string[]>();
+  for (const r of records) {
+    const forms = new Set([r.word, ...r.forms.map(normalizeForm)]);
+    headForms.set(r.word, forms);
+    for (const f of forms) {
+      const list = formToWords.get(f) ?? [];
+      list.push(r.word);
+      formToWords.set(f, list);
+    }
+  }
+
+  const pools = new Map<string, ScoredExample[]>();
+  const offer = (word: string, ex: CorpusExample) => {
+    const score = scoreExample(ex.text, headForms.get(word)!, known);
+    if (score === 0) return;
+    const pool = pools.get(word) ?? [];
+    pushCandidate(pool, { ...ex, score }, maxPerWord * 4);
+    pools.set(word, pool);
+  };
+
+  const stats: ExampleStats = {
+    tatoebaLines: 0,
+    wiktextractEntries: 0,
+    wordsWithExamples: 0,
+    examplesAttached: 0,
+    withTranslation: 0,
+  };
+
+  if (corpora.tatoeba) {
+    for await (const line of readLines(corpora.tatoeba)) {
+      const ex = parseTatoebaLine(line);
+      if (!ex) continue;
+      stats.tatoebaLines++;
+      const words = new Set(sentenceForms(ex.text).flatMap((f) => formToWords.get(f) ?? []));
+      for (const w of words) offer(w, ex);
+    }
+    console.log(`[INFO] Tatoeba 句对 ${stats.tatoebaLines} 行`);
+  }
+
+  if (corpora.wiktextract) {
+    for await (const line of readLines(corpora.wiktextract)) {
+      // 绝大多数行没有例句，先做字符串预筛，省掉 JSON.parse
+      if (!line.includes('"examples"')) continue;
+      const parsed = parseWiktextractLine(line);
+      if (!parsed || !byWord.has(parsed.word)) continue;
+      stats.wiktextractEntries++;
+      for (const ex of parsed.examples) offer(parsed.word, ex);
+    }
+    console.log(`[INFO] Wiktextract 命中词条 ${stats.wiktextractEntries} 个`);
+  }
+
+  for (const r of records) {
+    const pool = pools.get(r.word);
+    if (!pool) continue;
+    const picked = pickExamples(pool, maxPerWord);
+    r.entries = attachExamples(r.entries, picked);
+    stats.wordsWithExamples++;
+    stats.examplesAttached += picked.length;
+    stats.withTranslation += picked.filter((p) => p.translation).length;
+  }
+  return stats;
+}
+
 // ---------- main ----------
 async function main() {
+  const args = process.argv.slice(2);
+  const corpora = {
+    tatoeba: corpusPath(args, '--tatoeba'),
+    wiktextract: corpusPath(args, '--wiktextract'),
+  };
+  const maxExamples = Number(flagValue(args, '--max-examples') ?? DEFAULT_EXAMPLES_PER_WORD);
+  if (!Number.isInteger(maxExamples) || maxExamples < 1) {
+    console.error(`[ERROR] --max-examples 需要正整数`);
+    process.exit(1);
+  }
+
   if (!fs.existsSync(RAW_CSV)) {
     console.error(`[ERROR] 找不到 ECDICT CSV: ${RAW_CSV}`);
     process.exit(1);
@@ -206,7 +373,7 @@ async function main() {
   // 准备输出
   fs.mkdirSync(path.dirname(OUT_JSONL), { recursive: true });
   fs.mkdirSync(path.dirname(STATS_JSON), { recursive: true });
-  const out = fs.createWriteStream(OUT_JSONL, { encoding: 'utf8' });
+  const records: DictRecord[] = [];
 
   const stats = {
     csvRows: 0,
@@ -311,7 +478,7 @@ async function main() {
       continue;
     }
 
-    const record = {
+    const record: DictRecord = {
       word: key, // 统一小写
       phonetics: phonetic ? [phonetic] : [],
       audio: [], // ECDICT 的 audio 列基本空，先空
@@ -329,14 +496,22 @@ async function main() {
       ],
     };
 
-    out.write(JSON.stringify(record) + '\n');
+    records.push(record);
     stats.written++;
 
     if (stats.written % 5000 === 0) {
-      console.log(`[INFO] 已写入 ${stats.written} 条`);
+      console.log(`[INFO] 已解析 ${stats.written} 条`);
     }
   }
 
+  // 例句要等所有词条（及其变形）都读完才能按词形反查，所以先攒在内存里再统一写
+  const exampleStats =
+    corpora.tatoeba || corpora.wiktextract
+      ? await addCorpusExamples(records, corpora, maxExamples)
+      : null;
+
+  const out = fs.createWriteStream(OUT_JSONL, { encoding: 'utf8' });
+  for (const record of records) out.write(JSON.stringify(record) + '\n');
   out.end();
   await new Promise<void>((res) => out.on('close', () => res()));
 
@@ -358,6 +533,7 @@ async function main() {
         targetSize: targetSet.size,
         missingCount: missing.length,
         missingSample: missing.slice(0, 50),
+        examples: exampleStats,
       },
       null,
       2,
@@ -375,6 +551,11 @@ async function main() {
   console.log(`空英文释义: ${stats.emptyDefinition}`);
   console.log(`空音标: ${stats.emptyPhonetic}`);
   console.log(`空 exchange: ${stats.emptyExchange}`);
+  if (exampleStats) {
+    console.log(
+      `例句: ${exampleStats.wordsWithExamples} 词 / ${exampleStats.examplesAttached} 句（带中文 ${exampleStats.withTranslation}）`,
+    );
+  }
   console.log(`\n输出: ${OUT_JSONL}`);
   console.log(`漏网词列表: data-build/missing-from-ecdict.txt`);
   console.log(`统计: ${STATS_JSON}`);
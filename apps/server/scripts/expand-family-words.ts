@@ -22,7 +22,9 @@ async function main() {
 
   console.log(`[expand-family-words] ${dryRun ? '🔍 dry-run' : '✏️  写库'} 开始`);
 
+  // 跳过没有 Word 行的词族：那是用户拆出的个人词族（ADR 0035），不该补系统词形
   const families = await prisma.wordFamily.findMany({
+    where: { words: { some: {} } },
     include: { words: { select: { text: true } } },
   });
 
@@ -0,0 +1,205 @@
+/**
+ * 导入第三方词典（ADR 0041），查词时作为词卡上的额外 tab。
+ *
+ * 支持本地的 StarDict（.ifo + .idx[.gz] + .dict[.dz]）和简单的 CSV / TSV 词汇表
+ * （第一列词头，其余列是释义，释义里的字面量 \n 当换行，# 开头的行是注释）。
+ * 同一个 key 重新导入会整本替换。ECDICT 不走这里，它仍然由 build-dictionary + seed 灌入。
+ *
+ * 用法（apps/server 下，需要 .env 里的 DATABASE_URL）：
+ *   pnpm import:dictionary list                                        列出已导入的词典
+ *   pnpm import:dictionary add <key> <path/to/dict.ifo> [--name 名字]  导入 StarDict
+ *   pnpm import:dictionary add <key> <path/to/gloss.csv|.tsv> [--name 名字] [--description 说明]
+ *   pnpm import:dictionary remove <key>                                删除整本词典
+ *
+ * key 只能用小写字母、数字、- 和 _，"ecdict" 保留给内置词典。
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { PrismaClient } from '../generated/prisma';
+import {
+  BUILTIN_SOURCE_KEY,
+  SOURCE_KEY_PATTERN,
+  mergeGlossary,
+  normalizeHeadword,
+  parseGlossaryLine,
+  parseStarDictIdx,
+  parseStarDictIfo,
+  readStarDictDefinition,
+  type GlossaryEntry,
+} from '../src/external-dictionary';
+
+const BATCH_SIZE = 5_000;
+
+const prisma = new PrismaClient();
+
+type Format = 'STARDICT' | 'CSV' | 'TSV';
+
+interface ParsedDictionary {
+  format: Format;
+  name: string;
+  description?: string;
+  entries: GlossaryEntry[];
+}
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--name' || args[i] === '--description') i++;
+    else if (!args[i].startsWith('--')) out.push(args[i]);
+  }
+  return out;
+}
+
+/** 找 .ifo 旁边的同名文件，压缩版（.gz / .dz，都是 gzip）也认 */
+function readSibling(ifoPath: string, ext: string, compressedExt: string): Buffer {
+  const base = ifoPath.replace(/\.ifo$/i, '');
+  if (fs.existsSync(`${base}${ext}`)) return fs.readFileSync(`${base}${ext}`);
+  if (fs.existsSync(`${base}${ext}${compressedExt}`)) {
+    return gunzipSync(fs.readFileSync(`${base}${ext}${compressedExt}`));
+  }
+  throw new Error(`找不到 ${base}${ext}（或 ${ext}${compressedExt}）`);
+}
+
+function parseStarDict(ifoPath: string): ParsedDictionary {
+  const info = parseStarDictIfo(fs.readFileSync(ifoPath, 'utf8'));
+  const idx = parseStarDictIdx(
+    readSibling(ifoPath, '.idx', '.gz'),
+    info.idxoffsetbits === '64' ? 64 : 32,
+  );
+  const dict = readSibling(ifoPath, '.dict', '.dz');
+  const sameTypeSequence = info.sametypesequence || undefined;
+
+  const entries: GlossaryEntry[] = [];
+  for (const item of idx) {
+    const headword = normalizeHeadword(item.headword);
+    if (!headword) continue;
+    const definition = readStarDictDefinition(dict, item, sameTypeSequence);
+    if (definition) entries.push({ headword, definition });
+  }
+  if (info.wordcount && Number(info.wordcount) !== idx.length) {
+    console.warn(`[WARN] .ifo 声明 ${info.wordcount} 条，.idx 实际解析出 ${idx.length} 条`);
+  }
+  return {
+    format: 'STARDICT',
+    name: info.bookname || path.basename(ifoPath, '.ifo'),
+    description: info.description ? info.description.replace(/<br\s*\/?>/gi, '\n') : undefined,
+    entries,
+  };
+}
+
+function parseGlossary(file: string, format: 'csv' | 'tsv'): ParsedDictionary {
+  const entries: GlossaryEntry[] = [];
+  const lines = fs.readFileSync(file, 'utf8').replace(/^﻿/, '').split(/\r?\n/);
+  lines.forEach((line, i) => {
+    const parsed = parseGlossaryLine(line, format);
+    // 第一行是表头（word / headword）时跳过
+    if (i === 0 && parsed && ['word', 'headword', 'term'].includes(parsed.headword)) return;
+    if (parsed) entries.push(parsed);
+  });
+  return {
+    format: format === 'csv' ? 'CSV' : 'TSV',
+    name: path.basename(file, path.extname(file)),
+    entries,
+  };
+}
+
+function parseFile(file: string): ParsedDictionary {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === '.ifo') return parseStarDict(file);
+  if (ext === '.csv') return parseGlossary(file, 'csv');
+  if (ext === '.tsv' || ext === '.txt') return parseGlossary(file, 'tsv');
+  if (ext === '.mdx') {
+    throw new Error('暂不支持 MDX，请先用 mdict-utils 等工具转成 StarDict 或 TSV 再导入');
+  }
+  throw new Error(`不认识的文件类型: ${ext}（可用：.ifo / .csv / .tsv / .txt）`);
+}
+
+async function add(args: string[]) {
+  const [key, file] = positional(args);
+  if (!key || !file) throw new Error('add 需要 <key> <文件路径>');
+  if (!SOURCE_KEY_PATTERN.test(key) || key === BUILTIN_SOURCE_KEY) {
+    throw new Error(`key 不合法: ${key}`);
+  }
+
+  const parsed = parseFile(path.resolve(file));
+  const entries = mergeGlossary(parsed.entries);
+  if (entries.length === 0) throw new Error('没有解析出任何词条');
+
+  const name = flagValue(args, '--name') ?? parsed.name;
+  const description = flagValue(args, '--description') ?? parsed.description;
+
+  const dictionary = await prisma.externalDictionary.upsert({
+    where: { key },
+    create: { key, name, format: parsed.format, description, entryCount: 0 },
+    update: { name, format: parsed.format, description },
+  });
+
+  // 整本替换：先删后插；中途失败 entryCount 仍是旧值，重跑即可
+  await prisma.externalDictionaryEntry.deleteMany({ where: { dictionaryId: dictionary.id } });
+  for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+    await prisma.externalDictionaryEntry.createMany({
+      data: entries.slice(i, i + BATCH_SIZE).map((e) => ({ dictionaryId: dictionary.id, ...e })),
+      skipDuplicates: true,
+    });
+    process.stdout.write(
+      `\r  已写入 ${Math.min(i + BATCH_SIZE, entries.length)}/${entries.length}`,
+    );
+  }
+  process.stdout.write('\n');
+
+  await prisma.externalDictionary.update({
+    where: { id: dictionary.id },
+    data: { entryCount: entries.length },
+  });
+  console.log(
+    `[OK] ${key}（${name}，${parsed.format}）：${entries.length} 个词头（原始 ${parsed.entries.length} 条）`,
+  );
+}
+
+async function remove(args: string[]) {
+  const [key] = positional(args);
+  if (!key) throw new Error('remove 需要 <key>');
+  // cascade 会带走词条；用户词典顺序里残留的 key 查词时自动忽略
+  const { count } = await prisma.externalDictionary.deleteMany({ where: { key } });
+  console.log(count > 0 ? `[OK] 已删除 ${key}` : `[SKIP] 没有 ${key} 这本词典`);
+}
+
+async function list() {
+  const rows = await prisma.externalDictionary.findMany({ orderBy: { createdAt: 'asc' } });
+  console.log(`\n========== 第三方词典 ==========`);
+  for (const r of rows) {
+    console.log(
+      `${r.key.padEnd(16)} ${r.format.padEnd(9)} ${String(r.entryCount).padStart(8)}  ${r.name}`,
+    );
+  }
+  console.log(`\n共 ${rows.length} 本（另有内置 ${BUILTIN_SOURCE_KEY}）`);
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  switch (command) {
+    case 'add':
+      return add(rest);
+    case 'remove':
+      return remove(rest);
+    case undefined:
+    case 'list':
+      return list();
+    default:
+      throw new Error(`未知命令: ${command}（可用：list / add / remove）`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
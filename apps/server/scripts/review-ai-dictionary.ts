@@ -0,0 +1,137 @@
+/**
+ * AI 兜底词条审核队列（ADR 0036）。
+ *
+ * 查词未命中时 AI 生成的释义会落库（source = AI），这个脚本列出它们供人工核对，
+ * 核对过的标记 reviewedAt 移出队列，错的直接删掉（下次查词会重新走 AI）。
+ * 只动 source = AI 的行，ECDICT / USER 词条不受影响。
+ *
+ * 用法（apps/server 下，需要 .env 里的 DATABASE_URL）：
+ *   pnpm review:ai-dictionary                          列出待审核词条
+ *   pnpm review:ai-dictionary --all                    连同已审核的一起列
+ *   pnpm review:ai-dictionary approve <word...>        标记为已审核
+ *   pnpm review:ai-dictionary purge <word...>          删除指定词条
+ *   pnpm review:ai-dictionary purge --unreviewed [--before 2026-10-01]
+ *                                                      批量删除未审核的（可限定生成时间）
+ *
+ * 输出：apps/server/data-build/review-ai-dictionary.json + 控制台摘要
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { PrismaClient } from '../generated/prisma';
+
+const ROOT = path.resolve(__dirname, '..');
+const OUT = path.join(ROOT, 'data-build/review-ai-dictionary.json');
+
+const prisma = new PrismaClient();
+
+interface ChineseShortBlock {
+  pos: string;
+  definitions: string[];
+}
+
+function flagValue(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function positional(args: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--before') i++;
+    else if (!args[i].startsWith('--')) out.push(args[i].toLowerCase());
+  }
+  return out;
+}
+
+async function list(args: string[]) {
+  const includeReviewed = args.includes('--all');
+  const rows = await prisma.dictionaryEntry.findMany({
+    where: { source: 'AI', ...(includeReviewed ? {} : { reviewedAt: null }) },
+    orderBy: { generatedAt: 'asc' },
+    select: {
+      word: true,
+      chineseEntriesShort: true,
+      sourceModel: true,
+      generatedAt: true,
+      reviewedAt: true,
+    },
+  });
+
+  fs.mkdirSync(path.dirname(OUT), { recursive: true });
+  fs.writeFileSync(OUT, JSON.stringify(rows, null, 2));
+
+  console.log(`\n========== AI 词条${includeReviewed ? '' : '待审核'}列表 ==========`);
+  const byModel = new Map<string, number>();
+  for (const r of rows) {
+    const model = r.sourceModel ?? 'unknown';
+    byModel.set(model, (byModel.get(model) ?? 0) + 1);
+    const zh = ((r.chineseEntriesShort ?? []) as unknown as ChineseShortBlock[])
+      .map((b) => `${b.pos} ${b.definitions.join('；')}`)
+      .join(' | ');
+    const mark = r.reviewedAt ? '✅' : '  ';
+    console.log(`${mark} ${r.word.padEnd(20)} ${zh}`);
+  }
+  console.log(`\n共 ${rows.length} 条`);
+  for (const [model, n] of byModel) console.log(`  ${model}: ${n}`);
+  console.log(`\n完整列表已写入 ${OUT}`);
+}
+
+async function approve(args: string[]) {
+  const words = positional(args);
+  if (words.length === 0) throw new Error('approve 需要至少一个词');
+  const { count } = await prisma.dictionaryEntry.updateMany({
+    where: { source: 'AI', word: { in: words } },
+    data: { reviewedAt: new Date() },
+  });
+  console.log(`[OK] 已审核 ${count}/${words.length} 条`);
+}
+
+async function purge(args: string[]) {
+  const words = positional(args);
+  const before = flagValue(args, '--before');
+  let where: Record<string, unknown>;
+  if (args.includes('--unreviewed')) {
+    const beforeDate = before ? new Date(before) : undefined;
+    if (beforeDate && Number.isNaN(beforeDate.getTime())) {
+      throw new Error(`--before 不是合法日期: ${before}`);
+    }
+    where = {
+      source: 'AI',
+      reviewedAt: null,
+      ...(beforeDate ? { generatedAt: { lt: beforeDate } } : {}),
+    };
+  } else if (words.length > 0) {
+    where = { source: 'AI', word: { in: words } };
+  } else {
+    throw new Error('purge 需要词列表或 --unreviewed');
+  }
+
+  // cascade 会带走 DefinitionEntry / Sense
+  const { count } = await prisma.dictionaryEntry.deleteMany({ where });
+  console.log(`[OK] 已删除 ${count} 条 AI 词条`);
+}
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  switch (command) {
+    case 'approve':
+      return approve(rest);
+    case 'purge':
+      return purge(rest);
+    case undefined:
+    case 'list':
+      return list(rest);
+    default:
+      // 只带 --all 之类的参数时当作 list
+      if (command.startsWith('--')) return list([command, ...rest]);
+      throw new Error(`未知命令: ${command}（可用：list / approve / purge）`);
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
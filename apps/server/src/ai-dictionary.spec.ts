@@ -0,0 +1,53 @@
+import {
+  MAX_AI_DEFINITION_LENGTH,
+  MAX_AI_DEFINITIONS_PER_POS,
+  MAX_AI_ENTRY_WORD_LENGTH,
+  normalizeAiEntryWord,
+  sanitizeAiChineseEntries,
+} from './ai-dictionary';
+
+describe('normalizeAiEntryWord', () => {
+  it('小写、弯撇号转直撇号、空白折叠', () => {
+    expect(normalizeAiEntryWord('  Rizz ')).toBe('rizz');
+    expect(normalizeAiEntryWord('Ain’t')).toBe("ain't");
+    expect(normalizeAiEntryWord('Well-Known')).toBe('well-known');
+    expect(normalizeAiEntryWord('give  up')).toBe('give up');
+  });
+
+  it('数字、符号、超长串不落库', () => {
+    expect(normalizeAiEntryWord('')).toBeNull();
+    expect(normalizeAiEntryWord('covid19')).toBeNull();
+    expect(normalizeAiEntryWord('<script>')).toBeNull();
+    expect(normalizeAiEntryWord('-ing')).toBeNull();
+    expect(normalizeAiEntryWord('a'.repeat(MAX_AI_ENTRY_WORD_LENGTH + 1))).toBeNull();
+  });
+});
+
+describe('sanitizeAiChineseEntries', () => {
+  it('去空白、去重，合并同词性的块', () => {
+    expect(
+      sanitizeAiChineseEntries([
+        { pos: 'n.', definitions: [' 魅力 ', '魅力', ''] },
+        { pos: 'v.', definitions: ['撩'] },
+        { pos: 'n.', definitions: ['吸引力'] },
+      ]),
+    ).toEqual([
+      { pos: 'n.', definitions: ['魅力', '吸引力'] },
+      { pos: 'v.', definitions: ['撩'] },
+    ]);
+  });
+
+  it('丢掉超长释义和非字符串，单词性条数有上限', () => {
+    const many = Array.from({ length: MAX_AI_DEFINITIONS_PER_POS + 2 }, (_, i) => `义${i}`);
+    const result = sanitizeAiChineseEntries([
+      { pos: 'n.', definitions: ['长'.repeat(MAX_AI_DEFINITION_LENGTH + 1), 42, ...many] },
+    ]);
+    expect(result).toEqual([{ pos: 'n.', definitions: many.slice(0, MAX_AI_DEFINITIONS_PER_POS) }]);
+  });
+
+  it('结构不对或清完为空时返回空数组', () => {
+    expect(sanitizeAiChineseEntries(undefined)).toEqual([]);
+    expect(sanitizeAiChineseEntries([{ pos: 'n.' }, null, 'x'])).toEqual([]);
+    expect(sanitizeAiChineseEntries([{ pos: 'n.', definitions: ['  '] }])).toEqual([]);
+  });
+});
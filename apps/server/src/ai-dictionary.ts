@@ -0,0 +1,60 @@
+/**
+ * AI 兜底词条落库前的规整（ADR 0036）。
+ *
+ * 模型偶尔会返回空词性、重复释义、整段说明文字，这些不能原样进词典；
+ * 查词参数又来自 URL，随手一串字符都可能走到 AI，不合法的词不落库。
+ */
+
+/** 落库的词最长字符数，和忽略列表一致 */
+export const MAX_AI_ENTRY_WORD_LENGTH = 64;
+
+/** 每个词性最多保留几条释义 / 最多保留几个词性 */
+export const MAX_AI_DEFINITIONS_PER_POS = 5;
+export const MAX_AI_POS_BLOCKS = 4;
+
+/** 单条释义超过这个长度多半是模型在解释而不是释义，丢掉 */
+export const MAX_AI_DEFINITION_LENGTH = 40;
+
+export interface ChineseShortBlock {
+  pos: string;
+  definitions: string[];
+}
+
+/**
+ * 只接受英文单词 / 连字符复合词 / 带撇号的词（含短语的空格）。
+ * 不合法时返回 null：仍可以把 AI 结果临时返回给前端，只是不落库。
+ */
+export function normalizeAiEntryWord(raw: string): string | null {
+  const word = raw.trim().toLowerCase().replace(/’/g, "'").replace(/\s+/g, ' ');
+  if (!word || word.length > MAX_AI_ENTRY_WORD_LENGTH) return null;
+  return /^[a-z]+(?:['\- ][a-z]+)*$/.test(word) ? word : null;
+}
+
+/**
+ * 清洗 AI 返回的 chinese_entries_short：去首尾空白、去重、丢空串和超长释义，
+ * 合并同词性的块；清完没有任何释义时返回空数组，调用方按"AI 也没查到"处理。
+ */
+export function sanitizeAiChineseEntries(input: unknown): ChineseShortBlock[] {
+  if (!Array.isArray(input)) return [];
+
+  const byPos = new Map<string, string[]>();
+  for (const block of input) {
+    if (!block || typeof block !== 'object') continue;
+    const { pos, definitions } = block as { pos?: unknown; definitions?: unknown };
+    if (!Array.isArray(definitions)) continue;
+
+    const key = typeof pos === 'string' ? pos.trim() : '';
+    const list = byPos.get(key) ?? [];
+    for (const raw of definitions) {
+      if (typeof raw !== 'string') continue;
+      const def = raw.trim();
+      if (!def || def.length > MAX_AI_DEFINITION_LENGTH || list.includes(def)) continue;
+      if (list.length < MAX_AI_DEFINITIONS_PER_POS) list.push(def);
+    }
+    byPos.set(key, list);
+  }
+
+  return Array.from(byPos, ([pos, definitions]) => ({ pos, definitions }))
+    .filter((b) => b.definitions.length > 0)
+    .slice(0, MAX_AI_POS_BLOCKS);
+}
@@ -0,0 +1,149 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma.service';
+import {
+  AiCacheCounters,
+  resolveAiCacheConfig,
+  type AiCacheConfig,
+  type AiCacheStats,
+} from './ai-cache';
+import type { AiFeature } from './llm-provider';
+
+/** 每写入这么多条做一次过期清理和超量淘汰 */
+const PRUNE_EVERY_WRITES = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CachedAnswer {
+  content: string;
+  model: string;
+}
+
+/**
+ * AI 应答缓存（ADR 0043），存在 ai_response_cache 表里，跨用户、跨进程重启共享。
+ * 缓存出错只记日志，绝不影响正常的 AI 调用。
+ */
+@Injectable()
+export class AiCacheService implements OnModuleInit {
+  private readonly logger = new Logger(AiCacheService.name);
+  private readonly config: AiCacheConfig;
+  private readonly counters = new AiCacheCounters();
+  private writesSincePrune = 0;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.config = resolveAiCacheConfig((key) => configService.get<string>(key));
+  }
+
+  onModuleInit(): void {
+    if (!this.config.enabled) {
+      this.logger.log('AI 应答缓存已关闭（AI_CACHE_ENABLED=false）');
+      return;
+    }
+    void this.prune();
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  async get(feature: AiFeature, key: string): Promise<CachedAnswer | null> {
+    if (!this.config.enabled) return null;
+    try {
+      const row: { id: number; content: string; model: string; expiresAt: Date } | null =
+        await this.prisma.aiResponseCache.findUnique({
+          where: { key },
+          select: { id: true, content: true, model: true, expiresAt: true },
+        });
+      if (!row || row.expiresAt.getTime() <= Date.now()) {
+        this.counters.record(feature, 'misses');
+        return null;
+      }
+      this.counters.record(feature, 'hits');
+      // 命中计数不等它写完
+      this.prisma.aiResponseCache
+        .update({
+          where: { id: row.id },
+          data: { hits: { increment: 1 }, lastHitAt: new Date() },
+        })
+        .catch((error: Error) => this.logger.warn(`更新缓存命中失败：${error.message}`));
+      return { content: row.content, model: row.model };
+    } catch (error) {
+      this.logger.warn(`读取 AI 缓存失败：${error.message}`);
+      this.counters.record(feature, 'misses');
+      return null;
+    }
+  }
+
+  async set(feature: AiFeature, key: string, answer: CachedAnswer): Promise<void> {
+    if (!this.config.enabled) return;
+    if (!answer.content || answer.content.length > this.config.maxContentChars) return;
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + this.config.ttlDays[feature] * DAY_MS);
+    try {
+      await this.prisma.aiResponseCache.upsert({
+        where: { key },
+        create: { key, feature, model: answer.model, content: answer.content, expiresAt },
+        update: {
+          model: answer.model,
+          content: answer.content,
+          createdAt: now,
+          lastHitAt: now,
+          expiresAt,
+        },
+      });
+      this.counters.record(feature, 'writes');
+    } catch (error) {
+      this.logger.warn(`写入 AI 缓存失败：${error.message}`);
+      return;
+    }
+
+    this.writesSincePrune += 1;
+    if (this.writesSincePrune >= PRUNE_EVERY_WRITES) {
+      this.writesSincePrune = 0;
+      void this.prune();
+    }
+  }
+
+  async stats(): Promise<AiCacheStats> {
+    const entries: number = this.config.enabled ? await this.prisma.aiResponseCache.count() : 0;
+    return {
+      enabled: this.config.enabled,
+      since: this.counters.since.toISOString(),
+      entries,
+      maxEntries: this.config.maxEntries,
+      evictions: this.counters.evictions,
+      features: this.counters.snapshot(),
+    };
+  }
+
+  /** 删掉过期的，再按最近命中时间淘汰超出上限的部分 */
+  private async prune(): Promise<void> {
+    try {
+      const expired: { count: number } = await this.prisma.aiResponseCache.deleteMany({
+        where: { expiresAt: { lte: new Date() } },
+      });
+      let evicted = 0;
+      const total: number = await this.prisma.aiResponseCache.count();
+      if (total > this.config.maxEntries) {
+        const victims: Array<{ id: number }> = await this.prisma.aiResponseCache.findMany({
+          orderBy: { lastHitAt: 'asc' },
+          take: total - this.config.maxEntries,
+          select: { id: true },
+        });
+        const result: { count: number } = await this.prisma.aiResponseCache.deleteMany({
+          where: { id: { in: victims.map((v) => v.id) } },
+        });
+        evicted = result.count;
+      }
+      this.counters.evictions += expired.count + evicted;
+      if (expired.count || evicted) {
+        this.logger.log(`AI 缓存清理：过期 ${expired.count} 条，超量淘汰 ${evicted} 条`);
+      }
+    } catch (error) {
+      this.logger.warn(`AI 缓存清理失败：${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  AiCacheCounters,
+  aiCacheKey,
+  resolveAiCacheConfig,
+  splitForReplay,
+  type AiCacheKeyParts,
+} from './ai-cache';
+
+const base: AiCacheKeyParts = {
+  feature: 'enrich',
+  variant: 'plain',
+  version: 1,
+  model: 'qwen-flash',
+  inputs: ['bank', 'He sat on the bank of the river.'],
+};
+
+describe('aiCacheKey', () => {
+  it('空白和弯引号不同的同一输入落到同一个 key', () => {
+    const a = aiCacheKey(base);
+    const b = aiCacheKey({
+      ...base,
+      inputs: ['bank', '  He sat on the\n bank  of the river. '],
+    });
+    expect(a).toBe(b);
+    expect(aiCacheKey({ ...base, inputs: ['it’s', 'x'] })).toBe(
+      aiCacheKey({ ...base, inputs: ["it's", 'x'] }),
+    );
+  });
+
+  it('prompt 版本、模型、分支、功能任一不同都换 key', () => {
+    const a = aiCacheKey(base);
+    expect(aiCacheKey({ ...base, version: 2 })).not.toBe(a);
+    expect(aiCacheKey({ ...base, model: 'qwen-plus' })).not.toBe(a);
+    expect(aiCacheKey({ ...base, variant: 'phrase' })).not.toBe(a);
+    expect(aiCacheKey({ ...base, feature: 'translate' })).not.toBe(a);
+  });
+
+  it('输入拆分位置不同不会撞 key', () => {
+    expect(aiCacheKey({ ...base, inputs: ['a b', 'c'] })).not.toBe(
+      aiCacheKey({ ...base, inputs: ['a', 'b c'] }),
+    );
+  });
+});
+
+describe('splitForReplay', () => {
+  it('切片拼回来和原文一致', () => {
+    const content = '**bank**: 河岸；银行。'.repeat(5);
+    const chunks = splitForReplay(content);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.map((c) => c.content).join('')).toBe(content);
+    expect(splitForReplay('')).toEqual([]);
+  });
+});
+
+describe('resolveAiCacheConfig', () => {
+  const env = (values: Record<string, string>) => (key: string) => values[key];
+
+  it('默认开启，30 天，按功能覆盖 TTL', () => {
+    const config = resolveAiCacheConfig(env({ AI_DEFINITION_CACHE_TTL_DAYS: '365' }));
+    expect(config.enabled).toBe(true);
+    expect(config.ttlDays).toEqual({ enrich: 30, translate: 30, definition: 365, chat: 30 });
+    expect(config.maxEntries).toBe(100_000);
+  });
+
+  it('可以关掉；数值写错直接报错', () => {
+    expect(resolveAiCacheConfig(env({ AI_CACHE_ENABLED: 'false' })).enabled).toBe(false);
+    expect(() => resolveAiCacheConfig(env({ AI_CACHE_MAX_ENTRIES: '-1' }))).toThrow(
+      /AI_CACHE_MAX_ENTRIES/,
+    );
+  });
+});
+
+describe('AiCacheCounters', () => {
+  it('按功能统计命中率，没有请求时为 null', () => {
+    const counters = new AiCacheCounters();
+    counters.record('enrich', 'hits');
+    counters.record('enrich', 'misses');
+    counters.record('enrich', 'misses');
+    counters.record('enrich', 'writes');
+    const stats = counters.snapshot();
+    expect(stats.enrich).toEqual({ hits: 1, misses: 2, writes: 1, hitRate: 1 / 3 });
+    expect(stats.translate.hitRate).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { AI_FEATURES, type AiFeature, type LlmStreamChunk } from './llm-provider';
+import { type EnvReader, positiveInt } from './llm-config';
+
+/**
+ * AI 应答缓存（ADR 0043）的 key、配置、流式回放和命中统计。
+ */
+
+/** 缓存命中时按这个长度切片回放成 SSE，客户端看到的和真流式一样是一段段到达 */
+const REPLAY_CHUNK_CHARS = 16;
+
+export interface AiCacheKeyParts {
+  feature: AiFeature;
+  /** 同一功能下 prompt 的分支，如 enrich 的 plain / phrase */
+  variant: string;
+  /** prompt 版本，改 prompt 时加一，旧缓存自然不再命中 */
+  version: number;
+  model: string;
+  /** 进 prompt 的原始输入，算 key 前统一规范化 */
+  inputs: string[];
+}
+
+/** 折叠空白、统一弯引号；大小写保留，句子里的大小写可能影响理解 */
+export function normalizeCacheText(text: string): string {
+  return text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/\s+/g, ' ').trim();
+}
+
+export function aiCacheKey(parts: AiCacheKeyParts): string {
+  const payload = JSON.stringify([
+    parts.feature,
+    parts.variant,
+    parts.version,
+    parts.model,
+    ...parts.inputs.map(normalizeCacheText),
+  ]);
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+export function splitForReplay(content: string): LlmStreamChunk[] {
+  const chunks: LlmStreamChunk[] = [];
+  for (let i = 0; i < content.length; i += REPLAY_CHUNK_CHARS) {
+    chunks.push({ content: content.slice(i, i + REPLAY_CHUNK_CHARS) });
+  }
+  return chunks;
+}
+
+export interface AiCacheConfig {
+  enabled: boolean;
+  ttlDays: Record<AiFeature, number>;
+  /** 全表条数上限，超出时按最近命中时间淘汰 */
+  maxEntries: number;
+  /** 单条应答超过这个字符数不缓存，防止个别超长应答占满空间 */
+  maxContentChars: number;
+}
+
+/**
+ * - AI_CACHE_ENABLED：设成 false 关掉缓存
+ * - AI_CACHE_TTL_DAYS：默认 30 天；AI_<FEATURE>_CACHE_TTL_DAYS 按功能覆盖
+ * - AI_CACHE_MAX_ENTRIES：默认 100000 条
+ * - AI_CACHE_MAX_CONTENT_CHARS：默认 4000
+ */
+export function resolveAiCacheConfig(env: EnvReader): AiCacheConfig {
+  const defaultTtl = positiveInt(env, 'AI_CACHE_TTL_DAYS', 30);
+  const ttlDays = {} as Record<AiFeature, number>;
+  for (const feature of AI_FEATURES) {
+    ttlDays[feature] = positiveInt(env, `AI_${feature.toUpperCase()}_CACHE_TTL_DAYS`, defaultTtl);
+  }
+  return {
+    enabled: env('AI_CACHE_ENABLED')?.trim().toLowerCase() !== 'false',
+    ttlDays,
+    maxEntries: positiveInt(env, 'AI_CACHE_MAX_ENTRIES', 100_000),
+    maxContentChars: positiveInt(env, 'AI_CACHE_MAX_CONTENT_CHARS', 4000),
+  };
+}
+
+export interface AiCacheFeatureStats {
+  hits: number;
+  misses: number;
+  writes: number;
+  /** hits / (hits + misses)，还没有请求时为 null */
+  hitRate: number | null;
+}
+
+export interface AiCacheStats {
+  enabled: boolean;
+  /** 计数从这个时间（进程启动）开始，重启清零 */
+  since: string;
+  entries: number;
+  maxEntries: number;
+  evictions: number;
+  features: Record<AiFeature, AiCacheFeatureStats>;
+}
+
+/** 进程内的命中计数 */
+export class AiCacheCounters {
+  readonly since = new Date();
+  evictions = 0;
+  private readonly counts = new Map<AiFeature, { hits: number; misses: number; writes: number }>();
+
+  record(feature: AiFeature, event: 'hits' | 'misses' | 'writes'): void {
+    const count = this.counts.get(feature) ?? { hits: 0, misses: 0, writes: 0 };
+    count[event] += 1;
+    this.counts.set(feature, count);
+  }
+
+  snapshot(): Record<AiFeature, AiCacheFeatureStats> {
+    const features = {} as Record<AiFeature, AiCacheFeatureStats>;
+    for (const feature of AI_FEATURES) {
+      const { hits, misses, writes } = this.counts.get(feature) ?? {
+        hits: 0,
+        misses: 0,
+        writes: 0,
+      };
+      const total = hits + misses;
+      features[feature] = { hits, misses, writes, hitRate: total ? hits / total : null };
+    }
+    return features;
+  }
+}
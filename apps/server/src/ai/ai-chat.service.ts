@@ -0,0 +1,138 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { AiChatMessageDto, AiChatThreadDto } from 'shared-types';
+import { PrismaService } from '../prisma.service';
+import { AiService } from './ai.service';
+import {
+  formatDictionarySeed,
+  resolveAiChatConfig,
+  trimChatHistory,
+  type AiChatConfig,
+  type DictionarySeedSource,
+} from './ai-chat';
+import type { LlmMessage, LlmStreamChunk } from './llm-provider';
+import type { ChatDto } from './dto/chat.dto';
+
+export interface AiChatThreadRow {
+  id: number;
+  word: string;
+  context: string;
+  dictionary: string;
+}
+
+/**
+ * 词卡追问的对话（ADR 0046）。每轮先存提问，流完再存回答；
+ * 发给模型的历史按 AI_CHAT_HISTORY_* 裁剪，库里的记录不动。
+ */
+@Injectable()
+export class AiChatService {
+  private readonly logger = new Logger(AiChatService.name);
+  private readonly config: AiChatConfig;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ai: AiService,
+    configService: ConfigService,
+  ) {
+    this.config = resolveAiChatConfig((key) => configService.get<string>(key));
+  }
+
+  /**
+   * 带 threadId 时取出自己的对话，否则用 word / context 新开一个，开场带上词典释义。
+   * 在写 SSE 头之前调用，找不到或参数不全时照常返回 404 / 400。
+   */
+  async openThread(userId: number, dto: ChatDto): Promise<AiChatThreadRow> {
+    if (dto.threadId !== undefined) {
+      const thread: AiChatThreadRow | null = await this.prisma.aiChatThread.findFirst({
+        where: { id: dto.threadId, userId },
+        select: { id: true, word: true, context: true, dictionary: true },
+      });
+      if (!thread) throw new NotFoundException('对话不存在');
+      return thread;
+    }
+
+    const word = dto.word?.trim();
+    const context = dto.context?.trim();
+    if (!word || !context) {
+      throw new BadRequestException('新对话需要 word 和 context');
+    }
+    const entry: DictionarySeedSource | null = await this.prisma.dictionaryEntry.findUnique({
+      where: { word: word.toLowerCase() },
+      select: {
+        chineseEntriesShort: true,
+        entries: { select: { pos: true, senses: { select: { glosses: true } } } },
+      },
+    });
+    return this.prisma.aiChatThread.create({
+      data: { userId, word, context, dictionary: formatDictionarySeed(entry) },
+      select: { id: true, word: true, context: true, dictionary: true },
+    });
+  }
+
+  /** 存下提问，带着裁剪后的历史流式回答；回答有内容就存，客户端中途断开的也存已经收到的部分 */
+  async *reply(
+    userId: number,
+    thread: AiChatThreadRow,
+    question: string,
+    signal?: AbortSignal,
+  ): AsyncIterable<LlmStreamChunk> {
+    await this.prisma.aiChatMessage.create({
+      data: { threadId: thread.id, role: 'user', content: question },
+    });
+    const rows = await this.prisma.aiChatMessage.findMany({
+      where: { threadId: thread.id },
+      orderBy: { id: 'asc' },
+      select: { role: true, content: true },
+    });
+    const history = trimChatHistory(
+      rows.map(
+        (m): LlmMessage => ({
+          role: m.role === 'assistant' ? 'assistant' : 'user',
+          content: m.content,
+        }),
+      ),
+      this.config,
+    );
+
+    let answer = '';
+    try {
+      for await (const chunk of this.ai.getTutorReplyStream(userId, thread, history, signal)) {
+        answer += chunk.content;
+        yield chunk;
+      }
+    } finally {
+      if (answer.trim()) {
+        await this.prisma.aiChatMessage
+          .create({ data: { threadId: thread.id, role: 'assistant', content: answer } })
+          .catch((error) =>
+            this.logger.error(`Failed to save chat reply for thread ${thread.id}:`, error.message),
+          );
+      }
+      // 按最近活跃排序用
+      await this.prisma.aiChatThread
+        .update({ where: { id: thread.id }, data: { updatedAt: new Date() } })
+        .catch(() => undefined);
+    }
+  }
+
+  async getThread(userId: number, threadId: number): Promise<AiChatThreadDto> {
+    const thread = await this.prisma.aiChatThread.findFirst({
+      where: { id: threadId, userId },
+      include: { messages: { orderBy: { id: 'asc' } } },
+    });
+    if (!thread) throw new NotFoundException('对话不存在');
+    return {
+      id: thread.id,
+      word: thread.word,
+      context: thread.context,
+      messages: thread.messages.map(
+        (m): AiChatMessageDto => ({
+          id: m.id,
+          role: m.role === 'assistant' ? 'assistant' : 'user',
+          content: m.content,
+          createdAt: m.createdAt.toISOString(),
+        }),
+      ),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { formatDictionarySeed, resolveAiChatConfig, trimChatHistory } from './ai-chat';
+import type { LlmMessage } from './llm-provider';
+
+const env = (values: Record<string, string>) => (key: string) => values[key];
+
+const user = (content: string): LlmMessage => ({ role: 'user', content });
+const assistant = (content: string): LlmMessage => ({ role: 'assistant', content });
+
+describe('resolveAiChatConfig', () => {
+  it('默认 12 条、6000 字，可以覆盖，写错时启动就报错', () => {
+    expect(resolveAiChatConfig(env({}))).toEqual({ historyMessages: 12, historyChars: 6000 });
+    expect(resolveAiChatConfig(env({ AI_CHAT_HISTORY_MESSAGES: '4' })).historyMessages).toBe(4);
+    expect(() => resolveAiChatConfig(env({ AI_CHAT_HISTORY_CHARS: '0' }))).toThrow(
+      /AI_CHAT_HISTORY_CHARS/,
+    );
+  });
+});
+
+describe('trimChatHistory', () => {
+  const history = [
+    user('why not affect?'),
+    assistant('affect 是动词'),
+    user('more examples'),
+    assistant('1. ... 2. ...'),
+    user('and effective?'),
+  ];
+
+  it('没超限时原样保留', () => {
+    expect(trimChatHistory(history, { historyMessages: 12, historyChars: 6000 })).toEqual(history);
+  });
+
+  it('按条数从最早的丢，丢完以 assistant 开头的再丢一条', () => {
+    expect(trimChatHistory(history, { historyMessages: 4, historyChars: 6000 })).toEqual([
+      user('more examples'),
+      assistant('1. ... 2. ...'),
+      user('and effective?'),
+    ]);
+  });
+
+  it('按字数裁剪，最新的提问再长也保留', () => {
+    const long = user('x'.repeat(100));
+    expect(
+      trimChatHistory([...history, assistant('ok'), long], {
+        historyMessages: 12,
+        historyChars: 50,
+      }),
+    ).toEqual([long]);
+    expect(trimChatHistory(history, { historyMessages: 12, historyChars: 30 })).toEqual([
+      user('and effective?'),
+    ]);
+  });
+});
+
+describe('formatDictionarySeed', () => {
+  it('优先用简明中文释义，每个词性最多三条', () => {
+    expect(
+      formatDictionarySeed({
+        chineseEntriesShort: [
+          { pos: 'n.', definitions: ['效果', '影响', '结果', '印象'] },
+          { pos: 'v.', definitions: ['实现', ' '] },
+          { pos: 'adj.', definitions: [] },
+          'broken',
+        ],
+        entries: [{ pos: 'noun', senses: [{ glosses: ['a result'] }] }],
+      }),
+    ).toBe('n. 效果；影响；结果\nv. 实现');
+  });
+
+  it('没有中文释义时用义项；词典里没有返回空串', () => {
+    expect(
+      formatDictionarySeed({
+        chineseEntriesShort: null,
+        entries: [
+          { pos: 'verb', senses: [{ glosses: ['to influence'] }, { glosses: ['to pretend'] }] },
+          { pos: 'noun', senses: [{ glosses: [] }] },
+        ],
+      }),
+    ).toBe('verb to influence；to pretend');
+    expect(formatDictionarySeed(null)).toBe('');
+  });
+});
@@ -0,0 +1,91 @@
+import { type EnvReader, positiveInt } from './llm-config';
+import type { LlmMessage } from './llm-provider';
+
+/**
+ * 词卡追问（ADR 0046）的历史裁剪和开场的词典释义摘要。
+ */
+
+export interface AiChatConfig {
+  /** 每次发给模型的历史最多几条（user 和 assistant 各算一条） */
+  historyMessages: number;
+  /** 历史的总字数上限，超了从最早的开始丢 */
+  historyChars: number;
+}
+
+/**
+ * - AI_CHAT_HISTORY_MESSAGES：默认 12 条
+ * - AI_CHAT_HISTORY_CHARS：默认 6000 字
+ */
+export function resolveAiChatConfig(env: EnvReader): AiChatConfig {
+  return {
+    historyMessages: positiveInt(env, 'AI_CHAT_HISTORY_MESSAGES', 12),
+    historyChars: positiveInt(env, 'AI_CHAT_HISTORY_CHARS', 6000),
+  };
+}
+
+/**
+ * 从最新的一条往前取，条数和字数都不超上限；最新一条（这轮的提问）无论多长都保留。
+ * 裁完如果以 assistant 开头就再丢掉，保证发给模型的历史从提问开始。
+ */
+export function trimChatHistory(history: LlmMessage[], config: AiChatConfig): LlmMessage[] {
+  const kept: LlmMessage[] = [];
+  let chars = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    if (kept.length > 0) {
+      if (kept.length >= config.historyMessages) break;
+      if (chars + message.content.length > config.historyChars) break;
+    }
+    kept.unshift(message);
+    chars += message.content.length;
+  }
+  while (kept.length > 1 && kept[0].role === 'assistant') kept.shift();
+  return kept;
+}
+
+/** 开场摘要里每个词性最多几条释义、最多几个词性 */
+const SEED_MAX_POS = 4;
+const SEED_MAX_GLOSSES = 3;
+
+export interface DictionarySeedSource {
+  /** dictionary_entries.chineseEntriesShort：[{ pos, definitions }] */
+  chineseEntriesShort?: unknown;
+  entries?: Array<{ pos: string; senses: Array<{ glosses: string[] }> }>;
+}
+
+function seedLine(pos: string, glosses: string[]): string | null {
+  const picked = glosses
+    .map((g) => g.trim())
+    .filter(Boolean)
+    .slice(0, SEED_MAX_GLOSSES);
+  return picked.length ? `${pos.trim() || '-'} ${picked.join('；')}` : null;
+}
+
+/**
+ * 词典释义压成几行 "词性 释义；释义"，放进对话开场。优先用简明中文释义，没有再用义项。
+ * 词典里没有这个词返回空串。
+ */
+export function formatDictionarySeed(entry: DictionarySeedSource | null): string {
+  if (!entry) return '';
+  const lines: string[] = [];
+  if (Array.isArray(entry.chineseEntriesShort)) {
+    for (const item of entry.chineseEntriesShort as Array<Record<string, unknown>>) {
+      if (!item || typeof item.pos !== 'string' || !Array.isArray(item.definitions)) continue;
+      const line = seedLine(
+        item.pos,
+        item.definitions.filter((d): d is string => typeof d === 'string'),
+      );
+      if (line) lines.push(line);
+    }
+  }
+  if (!lines.length) {
+    for (const def of entry.entries ?? []) {
+      const line = seedLine(
+        def.pos,
+        def.senses.flatMap((s) => s.glosses),
+      );
+      if (line) lines.push(line);
+    }
+  }
+  return lines.slice(0, SEED_MAX_POS).join('\n');
+}
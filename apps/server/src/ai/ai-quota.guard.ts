@@ -0,0 +1,36 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import type { AiQuotaErrorBody } from 'shared-types';
+import { AiUsageService } from './ai-usage.service';
+
+/**
+ * 挂在 /ai/* 的调用接口上，排在 JwtAuthGuard 之后（ADR 0044）。
+ * 限流或当天额度用完时直接 429 + Retry-After，流式接口也在写 SSE 头之前就拦下。
+ */
+@Injectable()
+export class AiQuotaGuard implements CanActivate {
+  constructor(private readonly usage: AiUsageService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const userId: number = http.getRequest().user.id;
+    const decision = await this.usage.check(userId);
+    if (decision.allowed) return true;
+
+    http.getResponse<Response>().setHeader('Retry-After', String(decision.retryAfter));
+    const body: AiQuotaErrorBody = {
+      statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      message: decision.message,
+      error: 'Too Many Requests',
+      reason: decision.reason,
+      retryAfter: decision.retryAfter,
+    };
+    throw new HttpException(body, HttpStatus.TOO_MANY_REQUESTS);
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  isExhausted,
+  meter,
+  nextReset,
+  resolveAiQuotaConfig,
+  secondsUntilReset,
+  SlidingWindowLimiter,
+  utcDayStart,
+} from './ai-quota';
+
+const env = (values: Record<string, string>) => (key: string) => values[key];
+
+describe('resolveAiQuotaConfig', () => {
+  it('默认 free / pro 两档，free 是默认套餐，每分钟 20 次', () => {
+    const config = resolveAiQuotaConfig(env({}));
+    expect(config.defaultPlan).toBe('free');
+    expect(config.plans.free).toEqual({ dailyRequests: 200, dailyTokens: 200_000 });
+    expect(config.plans.pro).toEqual({ dailyRequests: 2000, dailyTokens: 2_000_000 });
+    expect(config.ratePerMinute).toBe(20);
+  });
+
+  it('环境变量覆盖内置值，0 表示不限', () => {
+    const config = resolveAiQuotaConfig(
+      env({
+        AI_QUOTA_PLANS: 'free,team',
+        AI_QUOTA_FREE_DAILY_TOKENS: '0',
+        AI_QUOTA_TEAM_DAILY_REQUESTS: '5000',
+        AI_QUOTA_TEAM_DAILY_TOKENS: '0',
+        AI_RATE_LIMIT_PER_MINUTE: '0',
+      }),
+    );
+    expect(config.plans).toEqual({
+      free: { dailyRequests: 200, dailyTokens: null },
+      team: { dailyRequests: 5000, dailyTokens: null },
+    });
+    expect(config.ratePerMinute).toBeNull();
+  });
+
+  it('自定义套餐缺配置、数值写错时启动就报错', () => {
+    expect(() => resolveAiQuotaConfig(env({ AI_QUOTA_PLANS: 'team' }))).toThrow(/team/);
+    expect(() => resolveAiQuotaConfig(env({ AI_RATE_LIMIT_PER_MINUTE: 'many' }))).toThrow(
+      /AI_RATE_LIMIT_PER_MINUTE/,
+    );
+  });
+});
+
+describe('按 UTC 自然日重置', () => {
+  it('归到当天 UTC 零点，Retry-After 是到下一个零点的秒数', () => {
+    const now = new Date('2026-10-19T23:59:30.500Z');
+    expect(utcDayStart(now).toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    expect(nextReset(now).toISOString()).toBe('2026-10-20T00:00:00.000Z');
+    expect(secondsUntilReset(now)).toBe(30);
+  });
+});
+
+describe('meter', () => {
+  it('算剩余额度，不限时 remaining 为 null，用超了按 0 算', () => {
+    expect(meter(50, 200)).toEqual({ used: 50, limit: 200, remaining: 150 });
+    expect(meter(50, null)).toEqual({ used: 50, limit: null, remaining: null });
+    expect(meter(250, 200).remaining).toBe(0);
+    expect(isExhausted(meter(10, 200), meter(250, 200))).toBe(true);
+    expect(isExhausted(meter(10, null))).toBe(false);
+  });
+});
+
+describe('SlidingWindowLimiter', () => {
+  it('窗口内超过次数就拒绝，最早一次滑出窗口后放行', () => {
+    const limiter = new SlidingWindowLimiter(2, 60_000);
+    expect(limiter.hit(1, 0)).toEqual({ allowed: true });
+    expect(limiter.hit(1, 10_000)).toEqual({ allowed: true });
+    expect(limiter.hit(1, 20_000)).toEqual({ allowed: false, retryAfter: 40 });
+    // 别的用户不受影响
+    expect(limiter.hit(2, 20_000)).toEqual({ allowed: true });
+    expect(limiter.hit(1, 60_000)).toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,127 @@
+import type { AiQuotaMeter } from 'shared-types';
+import type { EnvReader } from './llm-config';
+
+/**
+ * AI 用量配额（ADR 0044）：按套餐解析每日额度，按 UTC 自然日计数，每分钟限流。
+ */
+
+export interface AiPlanQuota {
+  /** 每天请求次数上限，null 表示不限 */
+  dailyRequests: number | null;
+  /** 每天 token 上限（provider 报的 prompt + completion），null 表示不限 */
+  dailyTokens: number | null;
+}
+
+export interface AiQuotaConfig {
+  plans: Record<string, AiPlanQuota>;
+  /** 用户的套餐不在 plans 里时按这个算 */
+  defaultPlan: string;
+  /** 每个用户每分钟最多请求几次，null 表示不限流 */
+  ratePerMinute: number | null;
+}
+
+/** 内置套餐的默认值，可以用环境变量覆盖 */
+const BUILTIN_PLANS: Record<string, { dailyRequests: number; dailyTokens: number }> = {
+  free: { dailyRequests: 200, dailyTokens: 200_000 },
+  pro: { dailyRequests: 2000, dailyTokens: 2_000_000 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** 0 表示不限，返回 null；没配返回 undefined */
+function limit(env: EnvReader, key: string): number | null | undefined {
+  const raw = env(key)?.trim();
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${key} must be a non-negative integer, got "${raw}"`);
+  }
+  return value === 0 ? null : value;
+}
+
+/**
+ * - AI_QUOTA_PLANS：套餐列表，逗号分隔，第一个是默认套餐；不填是 free,pro
+ * - AI_QUOTA_<PLAN>_DAILY_REQUESTS / AI_QUOTA_<PLAN>_DAILY_TOKENS：0 表示不限；
+ *   free / pro 有默认值，自定义套餐必须两个都配
+ * - AI_RATE_LIMIT_PER_MINUTE：默认 20，0 表示不限流
+ */
+export function resolveAiQuotaConfig(env: EnvReader): AiQuotaConfig {
+  const names = (env('AI_QUOTA_PLANS') ?? 'free,pro')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+  if (names.length === 0) {
+    throw new Error('AI_QUOTA_PLANS must list at least one plan');
+  }
+
+  const plans: Record<string, AiPlanQuota> = {};
+  for (const name of names) {
+    const prefix = `AI_QUOTA_${name.toUpperCase()}`;
+    const requests = limit(env, `${prefix}_DAILY_REQUESTS`);
+    const tokens = limit(env, `${prefix}_DAILY_TOKENS`);
+    const builtin = BUILTIN_PLANS[name];
+    if (!builtin && (requests === undefined || tokens === undefined)) {
+      throw new Error(
+        `AI plan "${name}" needs ${prefix}_DAILY_REQUESTS and ${prefix}_DAILY_TOKENS`,
+      );
+    }
+    plans[name] = {
+      dailyRequests: requests === undefined ? builtin.dailyRequests : requests,
+      dailyTokens: tokens === undefined ? builtin.dailyTokens : tokens,
+    };
+  }
+
+  const rate = limit(env, 'AI_RATE_LIMIT_PER_MINUTE');
+  return { plans, defaultPlan: names[0], ratePerMinute: rate === undefined ? 20 : rate };
+}
+
+/** 当天 UTC 零点；用量按 UTC 自然日归档 */
+export function utcDayStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/** 下一个 UTC 零点，额度在这时重置 */
+export function nextReset(now: Date): Date {
+  return new Date(utcDayStart(now).getTime() + DAY_MS);
+}
+
+/** 到重置还有几秒，至少 1 秒，用作 Retry-After */
+export function secondsUntilReset(now: Date): number {
+  return Math.max(1, Math.ceil((nextReset(now).getTime() - now.getTime()) / 1000));
+}
+
+export function meter(used: number, max: number | null): AiQuotaMeter {
+  return { used, limit: max, remaining: max === null ? null : Math.max(0, max - used) };
+}
+
+export function isExhausted(...meters: AiQuotaMeter[]): boolean {
+  return meters.some((m) => m.remaining === 0);
+}
+
+/**
+ * 每个用户一个滑动窗口，只在内存里：挡住内容脚本死循环这类短时间的突发，
+ * 多实例部署时各算各的，长期用量靠每日配额兜住。
+ */
+export class SlidingWindowLimiter {
+  private readonly hits = new Map<number, number[]>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs = 60_000,
+  ) {}
+
+  /** 记一次请求；超限时不记，返回还要等几秒 */
+  hit(key: number, now = Date.now()): { allowed: true } | { allowed: false; retryAfter: number } {
+    const recent = (this.hits.get(key) ?? []).filter((t) => now - t < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return {
+        allowed: false,
+        retryAfter: Math.max(1, Math.ceil((recent[0] + this.windowMs - now) / 1000)),
+      };
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true };
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { AiFeatureUsage, AiUsageResponse } from 'shared-types';
+import { PrismaService } from '../prisma.service';
+import {
+  isExhausted,
+  meter,
+  nextReset,
+  resolveAiQuotaConfig,
+  secondsUntilReset,
+  SlidingWindowLimiter,
+  utcDayStart,
+  type AiPlanQuota,
+  type AiQuotaConfig,
+} from './ai-quota';
+import type { AiFeature, LlmUsage } from './llm-provider';
+
+export type AiQuotaDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'quota' | 'rate'; retryAfter: number; message: string };
+
+interface UsageRow {
+  feature: string;
+  requests: number;
+  cachedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * AI 用量计量和配额（ADR 0044）。调用前 check，调用后 record；
+ * 计量出错只记日志，不影响这次 AI 调用。
+ */
+@Injectable()
+export class AiUsageService {
+  private readonly logger = new Logger(AiUsageService.name);
+  private readonly config: AiQuotaConfig;
+  private readonly limiter: SlidingWindowLimiter | null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.config = resolveAiQuotaConfig((key) => configService.get<string>(key));
+    this.limiter = this.config.ratePerMinute
+      ? new SlidingWindowLimiter(this.config.ratePerMinute)
+      : null;
+  }
+
+  /** 这次能不能调 AI；放行时顺带占一个限流名额 */
+  async check(userId: number): Promise<AiQuotaDecision> {
+    const rate = this.limiter?.hit(userId);
+    if (rate && !rate.allowed) {
+      return {
+        allowed: false,
+        reason: 'rate',
+        retryAfter: rate.retryAfter,
+        message: `AI 请求太频繁，请 ${rate.retryAfter} 秒后再试`,
+      };
+    }
+
+    const usage = await this.getUsage(userId);
+    if (usage.exhausted) {
+      return {
+        allowed: false,
+        reason: 'quota',
+        retryAfter: secondsUntilReset(new Date()),
+        message: '今日 AI 额度已用完，明天 0 点（UTC）恢复',
+      };
+    }
+    return { allowed: true };
+  }
+
+  async record(
+    userId: number,
+    feature: AiFeature,
+    { usage, cached = false }: { usage?: LlmUsage; cached?: boolean },
+  ): Promise<void> {
+    const promptTokens = usage?.promptTokens ?? 0;
+    const completionTokens = usage?.completionTokens ?? 0;
+    const day = utcDayStart(new Date());
+    try {
+      await this.prisma.aiUsageDaily.upsert({
+        where: { userId_day_feature: { userId, day, feature } },
+        create: {
+          userId,
+          day,
+          feature,
+          requests: 1,
+          cachedRequests: cached ? 1 : 0,
+          promptTokens,
+          completionTokens,
+        },
+        update: {
+          requests: { increment: 1 },
+          cachedRequests: { increment: cached ? 1 : 0 },
+          promptTokens: { increment: promptTokens },
+          completionTokens: { increment: completionTokens },
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`记录 AI 用量失败（user ${userId}, ${feature}）：${error.message}`);
+    }
+  }
+
+  async getUsage(userId: number): Promise<AiUsageResponse> {
+    const now = new Date();
+    const day = utcDayStart(now);
+    const [user, rows]: [{ aiPlan: string } | null, UsageRow[]] = await Promise.all([
+      this.prisma.user.findUnique({ where: { id: userId }, select: { aiPlan: true } }),
+      this.prisma.aiUsageDaily.findMany({
+        where: { userId, day },
+        select: {
+          feature: true,
+          requests: true,
+          cachedRequests: true,
+          promptTokens: true,
+          completionTokens: true,
+        },
+      }),
+    ]);
+
+    const { plan, quota } = this.planFor(user?.aiPlan);
+    const features: Record<string, AiFeatureUsage> = {};
+    let requests = 0;
+    let tokens = 0;
+    for (const row of rows) {
+      const { feature, ...usage } = row;
+      features[feature] = usage;
+      requests += row.requests;
+      tokens += row.promptTokens + row.completionTokens;
+    }
+
+    const requestMeter = meter(requests, quota.dailyRequests);
+    const tokenMeter = meter(tokens, quota.dailyTokens);
+    return {
+      plan,
+      day: day.toISOString().slice(0, 10),
+      resetAt: nextReset(now).toISOString(),
+      requests: requestMeter,
+      tokens: tokenMeter,
+      exhausted: isExhausted(requestMeter, tokenMeter),
+      features,
+    };
+  }
+
+  private planFor(name: string | undefined): { plan: string; quota: AiPlanQuota } {
+    if (name && this.config.plans[name]) {
+      return { plan: name, quota: this.config.plans[name] };
+    }
+    if (name) {
+      this.logger.warn(`未知的 AI 套餐 "${name}"，按 ${this.config.defaultPlan} 计算`);
+    }
+    const plan = this.config.defaultPlan;
+    return { plan, quota: this.config.plans[plan] };
+  }
+}
@@ -1,5 +1,6 @@
 import {
   Controller,
+  Get,
   Post,
   Body,
   UseGuards,
@@ -8,27 +9,55 @@ import {
   HttpStatus,
   Res,
   Req,
+  Param,
+  ParseIntPipe,
 } from '@nestjs/common';
 import type { Response, Request } from 'express';
 import { AiService } from './ai.service';
+import { AiCacheService } from './ai-cache.service';
+import { AiUsageService } from './ai-usage.service';
+import { AiChatService } from './ai-chat.service';
+import { AiQuotaGuard } from './ai-quota.guard';
 import { JwtAuthGuard } from '../auth/guards';
 import { EnrichDto } from './dto/enrich.dto';
 import { TranslateDto } from './dto/translate.dto';
+import { SentenceAnalysisDto } from './dto/sentence-analysis.dto';
+import { ChatDto } from './dto/chat.dto';
+import { toClientChunk, type LlmStreamChunk } from './llm-provider';
 
 @Controller('api/v1/ai')
 @UseGuards(JwtAuthGuard)
 export class AiController {
   private readonly logger = new Logger(AiController.name);
 
-  constructor(private readonly aiService: AiService) {}
+  constructor(
+    private readonly aiService: AiService,
+    private readonly aiCache: AiCacheService,
+    private readonly aiUsage: AiUsageService,
+    private readonly aiChat: AiChatService,
+  ) {}
+
+  /** 当前用户今天（UTC）的 AI 用量和剩余额度（ADR 0044） */
+  @Get('usage')
+  usage(@Req() req: Request) {
+    return this.aiUsage.getUsage(userIdOf(req));
+  }
+
+  /** 缓存命中率等计数（ADR 0043），进程重启清零 */
+  @Get('cache/stats')
+  cacheStats() {
+    return this.aiCache.stats();
+  }
 
   @Post('enrich')
-  async enrichWord(@Body() body: EnrichDto) {
+  @UseGuards(AiQuotaGuard)
+  async enrichWord(@Body() body: EnrichDto, @Req() req: Request) {
     try {
       this.logger.log(
         `Enriching word "${body.word}" with context: ${body.context.substring(0, 50)}... (enhanced: ${body.enhancedPhraseDetection || false})`,
       );
       const result = await this.aiService.getEnrichedDefinition(
+        userIdOf(req),
         body.word,
         body.context,
         body.enhancedPhraseDetection,
@@ -48,10 +77,12 @@ export class AiController {
   }
 
   @Post('translate')
-  async translateSentence(@Body() body: TranslateDto) {
+  @UseGuards(AiQuotaGuard)
+  async translateSentence(@Body() body: TranslateDto, @Req() req: Request) {
     try {
       this.logger.log(`Translating sentence: ${body.sentence.substring(0, 50)}...`);
       const result = await this.aiService.getTranslation(
+        userIdOf(req),
         body.sentence,
         body.targetSentence,
         body.sentenceAnalysisMode || 'off',
@@ -70,162 +101,152 @@ export class AiController {
     }
   }
 
-  @Post('enrich-stream')
-  async enrichWordStream(@Body() body: EnrichDto, @Res() res: Response, @Req() req: Request) {
+  /** 结构化 JSON 的单词增强（ADR 0045） */
+  @Post('enrich-structured')
+  @UseGuards(AiQuotaGuard)
+  async enrichWordStructured(@Body() body: EnrichDto, @Req() req: Request) {
     try {
-      this.logger.log(
-        `Starting stream for word "${body.word}" with context: ${body.context.substring(0, 50)}...`,
+      this.logger.log(`Structured enrichment for word "${body.word}"`);
+      return await this.aiService.getStructuredEnrichment(userIdOf(req), body.word, body.context);
+    } catch (error) {
+      this.logger.error(`Failed to enrich word "${body.word}" (structured):`, error.message);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Failed to enrich word',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
       );
+    }
+  }
 
-      // 设置 SSE 响应头
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.setHeader('X-Accel-Buffering', 'no'); // 禁用 Nginx 缓冲
+  /** 结构化 JSON 的长难句分析（ADR 0045） */
+  @Post('sentence-analysis')
+  @UseGuards(AiQuotaGuard)
+  async analyzeSentence(@Body() body: SentenceAnalysisDto, @Req() req: Request) {
+    try {
+      this.logger.log(`Analyzing sentence: ${body.sentence.substring(0, 50)}...`);
+      return await this.aiService.getSentenceAnalysis(userIdOf(req), body.sentence);
+    } catch (error) {
+      this.logger.error(`Failed to analyze sentence:`, error.message);
+      throw new HttpException(
+        {
+          statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+          message: error.message || 'Failed to analyze sentence',
+          error: 'Internal Server Error',
+        },
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
 
-      const streamObservable = await this.aiService.getEnrichedDefinitionStream(
+  @Post('enrich-stream')
+  @UseGuards(AiQuotaGuard)
+  async enrichWordStream(@Body() body: EnrichDto, @Res() res: Response, @Req() req: Request) {
+    this.logger.log(
+      `Starting stream for word "${body.word}" with context: ${body.context.substring(0, 50)}...`,
+    );
+    await this.pipeToSse(res, 'Enrich', (signal) =>
+      this.aiService.getEnrichedDefinitionStream(
+        userIdOf(req),
         body.word,
         body.context,
         body.enhancedPhraseDetection,
-      );
-
-      streamObservable.subscribe({
-        next: (response) => {
-          const stream = response.data;
-
-          stream.on('data', (chunk: Buffer) => {
-            const lines = chunk
-              .toString()
-              .split('\n')
-              .filter((line) => line.trim() !== '');
-
-            for (const line of lines) {
-              if (line.startsWith('data:')) {
-                const data = line.slice(5).trim();
-
-                // 忽略 [DONE] 标记
-                if (data === '[DONE]') {
-                  res.write('data: [DONE]\n\n');
-                  res.end();
-                  return;
-                }
-
-                try {
-                  // 转发数据到客户端
-                  res.write(`data: ${data}\n\n`);
-                } catch (err) {
-                  this.logger.error('Error parsing chunk:', err);
-                }
-              }
-            }
-          });
-
-          stream.on('end', () => {
-            this.logger.debug('Stream ended');
-            res.end();
-          });
-
-          stream.on('error', (error: Error) => {
-            this.logger.error('Stream error:', error);
-            res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-            res.end();
-          });
-        },
-        error: (error) => {
-          this.logger.error('Observable error:', error);
-          res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-          res.end();
-        },
-      });
-
-      // 处理客户端断开连接
-      req.on('close', () => {
-        this.logger.debug('Client disconnected');
-        res.end();
-      });
-    } catch (error) {
-      this.logger.error(`Failed to start enrich stream:`, error.message);
-      res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-      res.end();
-    }
+        signal,
+      ),
+    );
   }
 
   @Post('translate-stream')
+  @UseGuards(AiQuotaGuard)
   async translateSentenceStream(
     @Body() body: TranslateDto,
     @Res() res: Response,
     @Req() req: Request,
   ) {
-    try {
-      this.logger.log(`Starting translation stream: ${body.sentence.substring(0, 50)}...`);
-
-      // 设置 SSE 响应头
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.setHeader('X-Accel-Buffering', 'no');
-
-      const streamObservable = await this.aiService.getTranslationStream(
+    this.logger.log(`Starting translation stream: ${body.sentence.substring(0, 50)}...`);
+    await this.pipeToSse(res, 'Translation', (signal) =>
+      this.aiService.getTranslationStream(
+        userIdOf(req),
         body.sentence,
         body.targetSentence,
         body.sentenceAnalysisMode || 'off',
-      );
+        signal,
+      ),
+    );
+  }
 
-      streamObservable.subscribe({
-        next: (response) => {
-          const stream = response.data;
-
-          stream.on('data', (chunk: Buffer) => {
-            const lines = chunk
-              .toString()
-              .split('\n')
-              .filter((line) => line.trim() !== '');
-
-            for (const line of lines) {
-              if (line.startsWith('data:')) {
-                const data = line.slice(5).trim();
-
-                if (data === '[DONE]') {
-                  res.write('data: [DONE]\n\n');
-                  res.end();
-                  return;
-                }
-
-                try {
-                  res.write(`data: ${data}\n\n`);
-                } catch (err) {
-                  this.logger.error('Error parsing chunk:', err);
-                }
-              }
-            }
-          });
-
-          stream.on('end', () => {
-            this.logger.debug('Translation stream ended');
-            res.end();
-          });
-
-          stream.on('error', (error: Error) => {
-            this.logger.error('Translation stream error:', error);
-            res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-            res.end();
-          });
-        },
-        error: (error) => {
-          this.logger.error('Translation observable error:', error);
-          res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-          res.end();
-        },
-      });
+  /**
+   * 词卡追问（ADR 0046）。对话在写 SSE 头之前就取出或建好，找不到时照常 404；
+   * 第一帧带上 threadId，客户端下一轮追问时带回来。
+   */
+  @Post('chat')
+  @UseGuards(AiQuotaGuard)
+  async chat(@Body() body: ChatDto, @Res() res: Response, @Req() req: Request) {
+    const userId = userIdOf(req);
+    const thread = await this.aiChat.openThread(userId, body);
+    this.logger.log(`Chat turn on thread ${thread.id} for word "${thread.word}"`);
+    await this.pipeToSse(
+      res,
+      'Chat',
+      (signal) => this.aiChat.reply(userId, thread, body.message, signal),
+      { threadId: thread.id },
+    );
+  }
 
-      req.on('close', () => {
-        this.logger.debug('Translation client disconnected');
-        res.end();
-      });
+  @Get('chat/:threadId')
+  chatThread(@Param('threadId', ParseIntPipe) threadId: number, @Req() req: Request) {
+    return this.aiChat.getThread(userIdOf(req), threadId);
+  }
+
+  /**
+   * 把 provider 的增量文本转成 SSE 发给客户端（ADR 0042）。
+   * 输出保持 OpenAI 的流式格式，客户端不用关心后面接的是哪个 provider；
+   * 客户端断开时中止上游请求，不再白白消耗 token。
+   */
+  private async pipeToSse(
+    res: Response,
+    label: string,
+    open: (signal: AbortSignal) => AsyncIterable<LlmStreamChunk>,
+    preamble?: Record<string, unknown>,
+  ): Promise<void> {
+    // 设置 SSE 响应头
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // 禁用 Nginx 缓冲
+
+    const abort = new AbortController();
+    // 守卫是异步的，到这里请求体早已读完，req 的 close 不会再触发；以响应的 close 为准，
+    // 自己 end 之后也会触发，所以只在没写完时算客户端断开
+    res.on('close', () => {
+      if (res.writableEnded) return;
+      this.logger.debug(`${label} client disconnected`);
+      abort.abort();
+    });
+
+    try {
+      // 额外信息放在不带内容的第一帧里，只认 choices 的客户端会直接跳过
+      if (preamble) res.write(`data: ${JSON.stringify({ ...preamble, choices: [] })}\n\n`);
+      for await (const chunk of open(abort.signal)) {
+        if (abort.signal.aborted) break;
+        res.write(`data: ${toClientChunk(chunk)}\n\n`);
+      }
+      if (!abort.signal.aborted) res.write('data: [DONE]\n\n');
+      this.logger.debug(`${label} stream ended`);
     } catch (error) {
-      this.logger.error(`Failed to start translation stream:`, error.message);
-      res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+      if (!abort.signal.aborted) {
+        this.logger.error(`${label} stream error:`, error.message);
+        res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+      }
+    } finally {
       res.end();
     }
   }
 }
+
+/** JwtAuthGuard 挂上的当前用户 */
+function userIdOf(req: Request): number {
+  return (req.user as { id: number }).id;
+}
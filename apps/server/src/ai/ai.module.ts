@@ -2,11 +2,25 @@ import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { AiService } from './ai.service';
 import { AiController } from './ai.controller';
+import { LlmProviderRegistry } from './llm-registry.service';
+import { AiCacheService } from './ai-cache.service';
+import { AiUsageService } from './ai-usage.service';
+import { AiQuotaGuard } from './ai-quota.guard';
+import { AiChatService } from './ai-chat.service';
+import { PrismaService } from '../prisma.service';
 
 @Module({
   imports: [HttpModule],
-  providers: [AiService],
+  providers: [
+    AiService,
+    LlmProviderRegistry,
+    AiCacheService,
+    AiUsageService,
+    AiQuotaGuard,
+    AiChatService,
+    PrismaService,
+  ],
   controllers: [AiController],
-  exports: [AiService], // 导出 AiService 以便在其他模块中使用
+  exports: [AiService, AiUsageService], // 导出 AiService 以便在其他模块中使用；查词的 AI 兜底也要过配额
 })
 export class AiModule {}
@@ -1,7 +1,22 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { firstValueFrom, Observable } from 'rxjs';
-import { AxiosResponse } from 'axios';
+import { LlmProviderRegistry } from './llm-registry.service';
+import { AiCacheService } from './ai-cache.service';
+import { AiUsageService } from './ai-usage.service';
+import { aiCacheKey, splitForReplay } from './ai-cache';
+import {
+  parseModelJson,
+  validateSentenceAnalysis,
+  validateStructuredEnrichment,
+  type Validation,
+} from './structured-output';
+import type { AISentenceAnalysis, AIStructuredEnrichment } from 'shared-types';
+import type {
+  AiFeature,
+  LlmChatResult,
+  LlmMessage,
+  LlmStreamChunk,
+  LlmUsage,
+} from './llm-provider';
 
 export interface AIEnrichmentResponse {
   contextualDefinitions: string[]; // 改为数组以支持多行显示
@@ -19,36 +34,175 @@ export interface AIDefinitionResponse {
     pos: string;
     definitions: string[];
   }>;
+  model?: string; // 实际应答的模型，落库时记作来源
 }
 
+/**
+ * prompt 版本，参与缓存 key（ADR 0043）。改了某个功能的 prompt 就把它加一，旧缓存不再命中。
+ */
+export const AI_PROMPT_VERSIONS: Record<AiFeature, number> = {
+  enrich: 1,
+  translate: 1,
+  definition: 1,
+  chat: 1,
+};
+
+/** 结构化输出校验不过时最多调几次模型（含第一次） */
+const STRUCTURED_MAX_ATTEMPTS = 2;
+
+/** 缓存 key 里除功能、版本、模型以外的部分 */
+interface CacheScope {
+  variant: string;
+  inputs: string[];
+  /** 返回 false 的应答不缓存，比如解析不了的 JSON */
+  accept?: (content: string) => boolean;
+}
+
+/**
+ * AI 功能的 prompt 都在这里；发给哪个 provider / 模型由 LlmProviderRegistry 按功能决定（ADR 0042），
+ * 同样的输入先查 AiCacheService（ADR 0043），每次调用按用户记用量（ADR 0044）。
+ */
 @Injectable()
 export class AiService {
   private readonly logger = new Logger(AiService.name);
-  private readonly apiKey = process.env.DASHSCOPE_API_KEY;
-  private readonly apiUrl = 'https://dashscope.aliyuncs.com/compatible-mode/v1/chat/completions';
 
-  constructor(private readonly httpService: HttpService) {
-    if (!this.apiKey) {
-      this.logger.error(
-        '[ERROR] DASHSCOPE_API_KEY is not set! Please create .env file in apps/server/',
+  constructor(
+    private readonly llm: LlmProviderRegistry,
+    private readonly cache: AiCacheService,
+    private readonly usage: AiUsageService,
+  ) {}
+
+  private cacheKey(feature: AiFeature, model: string, scope?: CacheScope): string | null {
+    if (!scope || !this.cache.enabled) return null;
+    return aiCacheKey({
+      feature,
+      model,
+      version: AI_PROMPT_VERSIONS[feature],
+      variant: scope.variant,
+      inputs: scope.inputs,
+    });
+  }
+
+  private async complete(
+    userId: number,
+    feature: AiFeature,
+    messages: LlmMessage[],
+    options: { maxTokens?: number; jsonMode?: boolean } = {},
+    scope?: CacheScope,
+  ): Promise<LlmChatResult> {
+    const { provider, model } = this.llm.route(feature);
+    const key = this.cacheKey(feature, model, scope);
+    if (key) {
+      const cached = await this.cache.get(feature, key);
+      if (cached) {
+        void this.usage.record(userId, feature, { cached: true });
+        return cached;
+      }
+    }
+
+    const result = await provider.chat({ feature, model, messages, ...options });
+    void this.usage.record(userId, feature, { usage: result.usage });
+    if (key && (scope?.accept?.(result.content) ?? true)) {
+      void this.cache.set(feature, key, { content: result.content, model: result.model });
+    }
+    return result;
+  }
+
+  /**
+   * 命中缓存时把整段应答切片回放，调用方（SSE 接口）分不出来；
+   * 没命中时边转发边攒全文，只有完整收完才写缓存，客户端中途断开的不写。
+   */
+  private async *stream(
+    userId: number,
+    feature: AiFeature,
+    messages: LlmMessage[],
+    options: { maxTokens?: number; signal?: AbortSignal } = {},
+    scope?: CacheScope,
+  ): AsyncIterable<LlmStreamChunk> {
+    const { provider, model } = this.llm.route(feature);
+    const key = this.cacheKey(feature, model, scope);
+    if (key) {
+      const cached = await this.cache.get(feature, key);
+      if (cached) {
+        void this.usage.record(userId, feature, { cached: true });
+        yield* splitForReplay(cached.content);
+        return;
+      }
+    }
+
+    let content = '';
+    let usage: LlmUsage | undefined;
+    try {
+      for await (const chunk of provider.chatStream(
+        { feature, model, messages, maxTokens: options.maxTokens },
+        options.signal,
+      )) {
+        content += chunk.content;
+        usage = chunk.usage ?? usage;
+        yield chunk;
+      }
+      if (key && !options.signal?.aborted) {
+        void this.cache.set(feature, key, { content, model });
+      }
+    } finally {
+      // 中途断开的也记一次；用量只在最后一段，断开时多半拿不到
+      if (content) void this.usage.record(userId, feature, { usage });
+    }
+  }
+
+  /**
+   * JSON 模式调用 + 校验（ADR 0045）。校验不过时把模型的输出和错误列表追加进对话再要一次，
+   * 还不过就报错；只有校验通过的应答进缓存，重试用的也是同一个缓存 key。
+   */
+  private async completeStructured<T>(
+    userId: number,
+    feature: AiFeature,
+    messages: LlmMessage[],
+    maxTokens: number,
+    scope: Omit<CacheScope, 'accept'>,
+    validate: (raw: unknown) => Validation<T>,
+  ): Promise<T> {
+    const check = (content: string) => validate(parseModelJson(content));
+    const conversation = [...messages];
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= STRUCTURED_MAX_ATTEMPTS; attempt++) {
+      const { content } = await this.complete(
+        userId,
+        feature,
+        conversation,
+        { maxTokens, jsonMode: true },
+        { ...scope, accept: (text) => check(text).ok },
+      );
+      const result = check(content);
+      if (result.ok) return result.value;
+
+      errors = result.errors;
+      this.logger.warn(
+        `Structured ${feature} output invalid (attempt ${attempt}): ${errors.join('; ')}`,
+      );
+      conversation.push(
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `上面的 JSON 不符合要求：\n- ${errors.join('\n- ')}\n请修正后重新输出完整的 JSON 对象，不要附加任何说明。`,
+        },
       );
-      this.logger.error('        Add this line: DASHSCOPE_API_KEY="your-api-key-here"');
-    } else {
-      this.logger.log(`[OK] DashScope API initialized with key: ${this.apiKey.substring(0, 8)}...`);
     }
+    throw new Error(`AI returned invalid structured output: ${errors.join('; ')}`);
+  }
+
+  /** 非流式和流式的增强释义 prompt 一样，共用一份缓存 */
+  private enrichScope(word: string, context: string, enhanced: boolean): CacheScope {
+    return { variant: enhanced ? 'phrase' : 'plain', inputs: [word.toLowerCase(), context] };
   }
 
   async getEnrichedDefinition(
+    userId: number,
     word: string,
     context: string,
     enhancedPhraseDetection: boolean = false,
   ): Promise<AIEnrichmentResponse> {
-    // 检查 API Key
-    if (!this.apiKey) {
-      this.logger.error('Cannot call AI service: DASHSCOPE_API_KEY is not set');
-      throw new Error('AI service is not configured. Please set DASHSCOPE_API_KEY in .env file.');
-    }
-
     // 根据是否开启增强检测来构建不同的prompt
     let prompt: string;
     if (enhancedPhraseDetection) {
@@ -79,31 +233,27 @@ export class AiService {
 直接返回 Markdown 文本，不要使用 JSON 格式。`;
     }
 
-    const payload = {
-      model: 'qwen-flash',
-      messages: [
-        {
-          role: 'system',
-          content: '你是一位友好且高效的助手，直接返回简洁的 Markdown 格式内容。',
-        },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: enhancedPhraseDetection ? 150 : 100, // 增强模式需要更多tokens
-    };
-
-    const headers = {
-      Authorization: `Bearer ${this.apiKey}`,
-      'Content-Type': 'application/json',
-    };
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: '你是一位友好且高效的助手，直接返回简洁的 Markdown 格式内容。',
+      },
+      { role: 'user', content: prompt },
+    ];
 
     try {
       this.logger.debug(`Calling AI service for word: ${word}`);
-      const response = await firstValueFrom(
-        this.httpService.post(this.apiUrl, payload, { headers }),
+      const { content } = await this.complete(
+        userId,
+        'enrich',
+        messages,
+        {
+          maxTokens: enhancedPhraseDetection ? 150 : 100, // 增强模式需要更多tokens
+        },
+        this.enrichScope(word, context, enhancedPhraseDetection),
       );
 
       // 直接获取 Markdown 内容
-      const content = response.data.choices[0].message.content.trim();
       this.logger.debug(`AI service response received for word: ${word}`);
 
       // 为了保持接口兼容，包装成数组
@@ -113,35 +263,18 @@ export class AiService {
         synonym: '', // 保持接口兼容
       };
     } catch (error) {
-      this.logger.error(
-        `AI Service Error for word "${word}":`,
-        error.response?.data || error.message,
-      );
-
-      // 提供更友好的错误信息
-      if (error.response?.data?.error?.code === 'invalid_api_key') {
-        throw new Error(
-          'Invalid DashScope API key. Please check your DASHSCOPE_API_KEY in .env file.',
-        );
-      }
-
-      throw new Error(
-        `Failed to get AI enrichment: ${error.response?.data?.error?.message || error.message}`,
-      );
+      // provider 已经把网络错误整理成带原因的 Error
+      this.logger.error(`AI Service Error for word "${word}":`, error.message);
+      throw new Error(`Failed to get AI enrichment: ${error.message}`);
     }
   }
 
   async getTranslation(
+    userId: number,
     sentence: string,
     targetSentence?: string,
     sentenceAnalysisMode: 'always' | 'smart' | 'off' = 'off',
   ): Promise<AITranslationResponse> {
-    // 检查 API Key
-    if (!this.apiKey) {
-      this.logger.error('Cannot call AI service: DASHSCOPE_API_KEY is not set');
-      throw new Error('AI service is not configured. Please set DASHSCOPE_API_KEY in .env file.');
-    }
-
     // 根据长难句分析模式构建不同的 Prompt
     let prompt: string;
     let maxTokens = 200;
@@ -199,30 +332,24 @@ export class AiService {
 直接返回翻译后的中文文本，不要添加任何额外说明。`;
     }
 
-    const payload = {
-      model: 'qwen-flash',
-      messages: [
-        {
-          role: 'system',
-          content: '你是一个专业的翻译助手，直接返回简洁的翻译内容。',
-        },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: maxTokens,
-    };
-
-    const headers = {
-      Authorization: `Bearer ${this.apiKey}`,
-      'Content-Type': 'application/json',
-    };
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: '你是一个专业的翻译助手，直接返回简洁的翻译内容。',
+      },
+      { role: 'user', content: prompt },
+    ];
 
     try {
       this.logger.debug(`Calling AI service for translation: ${sentence.substring(0, 30)}...`);
-      const response = await firstValueFrom(
-        this.httpService.post(this.apiUrl, payload, { headers }),
+      const { content } = await this.complete(
+        userId,
+        'translate',
+        messages,
+        { maxTokens },
+        // 非流式的 prompt 和流式的不同，variant 分开
+        { variant: `json:${sentenceAnalysisMode}`, inputs: [sentence, targetSentence ?? ''] },
       );
-
-      const content = response.data.choices[0].message.content.trim();
       this.logger.debug(`AI translation received.`);
 
       // 解析内容
@@ -241,38 +368,27 @@ export class AiService {
         };
       }
     } catch (error) {
-      this.logger.error(`AI Translation Error:`, error.response?.data || error.message);
-
-      // 提供更友好的错误信息
-      if (error.response?.data?.error?.code === 'invalid_api_key') {
-        throw new Error(
-          'Invalid DashScope API key. Please check your DASHSCOPE_API_KEY in .env file.',
-        );
-      }
-
-      throw new Error(
-        `Failed to get AI translation: ${error.response?.data?.error?.message || error.message}`,
-      );
+      this.logger.error(`AI Translation Error:`, error.message);
+      throw new Error(`Failed to get AI translation: ${error.message}`);
     }
   }
 
   /**
    * 流式获取 AI 增强定义
+   * @param userId 记用量的用户
    * @param word 单词
    * @param context 上下文句子
    * @param enhancedPhraseDetection 是否启用增强短语检测
-   * @returns Observable 流式响应
+   * @param signal 客户端断开时中止上游请求
+   * @returns 增量文本流
    */
-  async getEnrichedDefinitionStream(
+  getEnrichedDefinitionStream(
+    userId: number,
     word: string,
     context: string,
     enhancedPhraseDetection: boolean = false,
-  ): Promise<Observable<AxiosResponse<any>>> {
-    if (!this.apiKey) {
-      this.logger.error('Cannot call AI service: DASHSCOPE_API_KEY is not set');
-      throw new Error('AI service is not configured. Please set DASHSCOPE_API_KEY in .env file.');
-    }
-
+    signal?: AbortSignal,
+  ): AsyncIterable<LlmStreamChunk> {
     let prompt: string;
     if (enhancedPhraseDetection) {
       prompt = `你是一位专业的英语辅导老师。给定句子"${context}"，需要使用中文解释单词"${word}"。
@@ -302,50 +418,44 @@ export class AiService {
 直接返回 Markdown 文本，不要使用 JSON 格式。`;
     }
 
-    const payload = {
-      model: 'qwen-flash',
-      messages: [
-        {
-          role: 'system',
-          content: '你是一位友好且高效的助手，直接返回简洁的 Markdown 格式内容。',
-        },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: enhancedPhraseDetection ? 150 : 100,
-      stream: true, // 启用流式输出
-      stream_options: { include_usage: true }, // 包含 token 使用信息
-    };
-
-    const headers = {
-      Authorization: `Bearer ${this.apiKey}`,
-      'Content-Type': 'application/json',
-    };
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: '你是一位友好且高效的助手，直接返回简洁的 Markdown 格式内容。',
+      },
+      { role: 'user', content: prompt },
+    ];
 
     this.logger.debug(`Starting stream for word: ${word}`);
 
-    return this.httpService.post(this.apiUrl, payload, {
-      headers,
-      responseType: 'stream',
-    });
+    return this.stream(
+      userId,
+      'enrich',
+      messages,
+      {
+        maxTokens: enhancedPhraseDetection ? 150 : 100,
+        signal,
+      },
+      this.enrichScope(word, context, enhancedPhraseDetection),
+    );
   }
 
   /**
    * 流式获取翻译
+   * @param userId 记用量的用户
    * @param sentence 要翻译的句子/段落
    * @param targetSentence 目标句子（用于长难句分析）
    * @param sentenceAnalysisMode 长难句分析模式：always/smart/off
-   * @returns Observable 流式响应
+   * @param signal 客户端断开时中止上游请求
+   * @returns 增量文本流
    */
-  async getTranslationStream(
+  getTranslationStream(
+    userId: number,
     sentence: string,
     targetSentence?: string,
     sentenceAnalysisMode: 'always' | 'smart' | 'off' = 'off',
-  ): Promise<Observable<AxiosResponse<any>>> {
-    if (!this.apiKey) {
-      this.logger.error('Cannot call AI service: DASHSCOPE_API_KEY is not set');
-      throw new Error('AI service is not configured. Please set DASHSCOPE_API_KEY in .env file.');
-    }
-
+    signal?: AbortSignal,
+  ): AsyncIterable<LlmStreamChunk> {
     console.log('长难句分析模式：', sentenceAnalysisMode);
     let prompt: string;
     let maxTokens = 200;
@@ -409,75 +519,88 @@ export class AiService {
 直接返回翻译后的中文文本，不要添加任何额外说明。`;
     }
 
-    const payload = {
-      model: 'qwen-flash',
-      messages: [
-        {
-          role: 'system',
-          content: '你是一个专业的翻译助手，直接返回简洁的翻译内容。',
-        },
-        { role: 'user', content: prompt },
-      ],
-      max_tokens: maxTokens,
-      stream: true, // 启用流式输出
-      stream_options: { include_usage: true }, // 包含 token 使用信息
-    };
-
-    const headers = {
-      Authorization: `Bearer ${this.apiKey}`,
-      'Content-Type': 'application/json',
-    };
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: '你是一个专业的翻译助手，直接返回简洁的翻译内容。',
+      },
+      { role: 'user', content: prompt },
+    ];
 
     this.logger.debug(`Starting translation stream: ${sentence.substring(0, 30)}...`);
 
-    return this.httpService.post(this.apiUrl, payload, {
-      headers,
-      responseType: 'stream',
-    });
+    return this.stream(
+      userId,
+      'translate',
+      messages,
+      { maxTokens, signal },
+      { variant: `stream:${sentenceAnalysisMode}`, inputs: [sentence, targetSentence ?? ''] },
+    );
+  }
+
+  /**
+   * 词卡追问（ADR 0046）：开场信息放在 system 里，history 是裁剪过的对话，最后一条是这轮的提问。
+   * 对话每轮都不一样，不走缓存。
+   * @param userId 记用量的用户
+   * @param seed 单词、语境句和词典释义摘要
+   * @param history 按时间顺序的 user / assistant 消息
+   * @param signal 客户端断开时中止上游请求
+   * @returns 增量文本流
+   */
+  getTutorReplyStream(
+    userId: number,
+    seed: { word: string; context: string; dictionary: string },
+    history: LlmMessage[],
+    signal?: AbortSignal,
+  ): AsyncIterable<LlmStreamChunk> {
+    const system = `你是一位耐心的英语辅导老师，正在和一位中文母语的英语学习者讨论一个单词。
+单词："${seed.word}"
+出现的句子："${seed.context}"
+${seed.dictionary ? `词典释义：\n${seed.dictionary}\n` : ''}
+请围绕这个单词和这个句子回答学习者的追问，比如近义词辨析、为什么这样用、更多例句。
+用中文回答，英文例句保留原文；使用 Markdown，回答简洁，一般不超过150字。
+和英语学习无关的问题，礼貌地引导回这个单词。`;
+
+    const messages: LlmMessage[] = [{ role: 'system', content: system }, ...history];
+
+    this.logger.debug(`Starting tutor stream for word: ${seed.word}`);
+
+    return this.stream(userId, 'chat', messages, { maxTokens: 400, signal });
   }
 
   /**
    * 使用 AI 为单个单词生成中文释义
+   * @param userId 记用量的用户
    * @param word 要查询的单词
    * @returns 符合 chinese_entries_short 格式的对象
    */
-  async getDefinitionForWord(word: string): Promise<AIDefinitionResponse> {
-    if (!this.apiKey) {
-      this.logger.error('Cannot call AI service: DASHSCOPE_API_KEY is not set');
-      throw new Error('AI service is not configured.');
-    }
-
+  async getDefinitionForWord(userId: number, word: string): Promise<AIDefinitionResponse> {
     const prompt = `你是一个专业的英汉词典编纂者。请为单词 "${word}" 提供简洁的中文释义。
     你的回答必须是一个符合 TypeScript 接口AIDefinitionResponse的 JSON 对象，具体格式如下：
     { "chinese_entries_short": [ { "pos": "词性", "definitions": ["释义1", "释义2"] } ] }
     请只提供最常见的1到2个词性和对应的释义。如果单词拼写错误或不存在，返回一个空的 chinese_entries_short 数组。`;
 
-    const payload = {
-      model: 'qwen-flash',
-      messages: [
-        {
-          role: 'system',
-          content: '你是一个专业的词典助手，始终以结构化的 JSON 格式提供精准的回答。',
-        },
-        { role: 'user', content: prompt },
-      ],
-      response_format: { type: 'json_object' },
-      max_tokens: 150, // 限制 token 数量，加快响应
-    };
-
-    const headers = {
-      Authorization: `Bearer ${this.apiKey}`,
-      'Content-Type': 'application/json',
-    };
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: '你是一个专业的词典助手，始终以结构化的 JSON 格式提供精准的回答。',
+      },
+      { role: 'user', content: prompt },
+    ];
 
     try {
       this.logger.debug(`Calling AI service for dictionary definition: ${word}`);
-      const response = await firstValueFrom(
-        this.httpService.post(this.apiUrl, payload, { headers }),
+      const { content, model } = await this.complete(
+        userId,
+        'definition',
+        messages,
+        {
+          jsonMode: true,
+          maxTokens: 150, // 限制 token 数量，加快响应
+        },
+        { variant: 'json', inputs: [word.toLowerCase()], accept: isDefinitionJson },
       );
 
-      const content = response.data.choices[0].message.content;
-
       // 增加健壮性：处理 AI 可能返回的非 JSON 或错误格式
       try {
         const result = JSON.parse(content) as AIDefinitionResponse;
@@ -485,7 +608,7 @@ export class AiService {
 
         // 验证返回的结构是否正确
         if (result && Array.isArray(result.chinese_entries_short)) {
-          return result;
+          return { chinese_entries_short: result.chinese_entries_short, model };
         } else {
           throw new Error('AI returned invalid JSON structure');
         }
@@ -494,16 +617,112 @@ export class AiService {
           content,
         });
         // 返回一个空的有效结构
-        return { chinese_entries_short: [] };
+        return { chinese_entries_short: [], model };
       }
     } catch (error) {
-      this.logger.error(
-        `AI Service Error for definition of "${word}":`,
-        error.response?.data || error.message,
+      this.logger.error(`AI Service Error for definition of "${word}":`, error.message);
+      throw new Error(`Failed to get AI definition: ${error.message}`);
+    }
+  }
+
+  /**
+   * 结构化的单词增强（ADR 0045）：语境义、语境中的词性、所在短语和常见搭配
+   * @param userId 记用量的用户
+   * @param word 单词
+   * @param context 上下文句子
+   */
+  async getStructuredEnrichment(
+    userId: number,
+    word: string,
+    context: string,
+  ): Promise<AIStructuredEnrichment> {
+    const prompt = `你是一位专业的英语辅导老师。给定句子"${context}"，分析其中的单词"${word}"。
+你的回答必须是一个 JSON 对象，格式如下：
+{
+  "lemma": "单词原形",
+  "partOfSpeech": "该词在这个句子里的词性，用英文缩写，如 n. / v. / adj.",
+  "contextualSense": "该词在这个句子里的中文含义，不超过30字",
+  "phrase": { "text": "句子中包含该词的固定短语或多词表达", "meaning": "短语的中文含义" },
+  "collocations": [ { "text": "该词的常见搭配", "meaning": "中文含义" } ]
+}
+如果句子里没有包含该词的短语，phrase 为 null。collocations 最多 5 个，可以为空数组。`;
+
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: '你是一个专业的英语学习助手，始终以结构化的 JSON 格式提供精准的回答。',
+      },
+      { role: 'user', content: prompt },
+    ];
+
+    try {
+      this.logger.debug(`Calling AI service for structured enrichment: ${word}`);
+      return await this.completeStructured(
+        userId,
+        'enrich',
+        messages,
+        300,
+        { variant: 'structured', inputs: [word.toLowerCase(), context] },
+        (raw) => validateStructuredEnrichment(raw, word),
+      );
+    } catch (error) {
+      this.logger.error(`AI Service Error for structured enrichment of "${word}":`, error.message);
+      throw new Error(`Failed to get AI structured enrichment: ${error.message}`);
+    }
+  }
+
+  /**
+   * 结构化的长难句分析（ADR 0045）：子句切分、主谓、语法点和难词
+   * @param userId 记用量的用户
+   * @param sentence 要分析的句子
+   */
+  async getSentenceAnalysis(userId: number, sentence: string): Promise<AISentenceAnalysis> {
+    const prompt = `你是一位专业的英语教师。请分析下面这个英文句子的结构，帮助英语学习者理解。
+句子："${sentence}"
+
+你的回答必须是一个 JSON 对象，格式如下：
+{
+  "translation": "整句的中文翻译",
+  "subject": "句子主干的主语（原文）",
+  "predicate": "句子主干的谓语（原文）",
+  "clauses": [ { "text": "子句原文，必须是句子中连续的一段", "kind": "main | subordinate | nonfinite", "role": "该子句的作用，如 主句 / 定语从句，修饰 xxx" } ],
+  "grammarPoints": [ { "title": "语法点名称", "explanation": "简短的中文说明" } ],
+  "difficultWords": [ { "text": "句中的难词或短语", "meaning": "在本句中的中文含义" } ]
+}
+clauses 按在句中出现的顺序给出，至少包含一个 kind 为 main 的主句；nonfinite 表示非谓语结构（不定式、分词短语等）。
+grammarPoints 最多 6 个，difficultWords 最多 10 个，说明都用中文，简洁清晰。`;
+
+    const messages: LlmMessage[] = [
+      {
+        role: 'system',
+        content: '你是一个专业的英语学习助手，始终以结构化的 JSON 格式提供精准的回答。',
+      },
+      { role: 'user', content: prompt },
+    ];
+
+    try {
+      this.logger.debug(
+        `Calling AI service for sentence analysis: ${sentence.substring(0, 30)}...`,
       );
-      throw new Error(
-        `Failed to get AI definition: ${error.response?.data?.error?.message || error.message}`,
+      return await this.completeStructured(
+        userId,
+        'translate',
+        messages,
+        900,
+        { variant: 'analysis', inputs: [sentence] },
+        (raw) => validateSentenceAnalysis(raw, sentence),
       );
+    } catch (error) {
+      this.logger.error(`AI Sentence Analysis Error:`, error.message);
+      throw new Error(`Failed to get AI sentence analysis: ${error.message}`);
     }
   }
 }
+
+function isDefinitionJson(content: string): boolean {
+  try {
+    return Array.isArray(JSON.parse(content)?.chinese_entries_short);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,24 @@
+import { IsString, IsNotEmpty, IsOptional, IsInt, MaxLength } from 'class-validator';
+
+export class ChatDto {
+  /** 追问已有对话时带上；不带时新开一个，word / context 必填 */
+  @IsInt()
+  @IsOptional()
+  threadId?: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  word?: string;
+
+  /** 语境句每轮都进 system prompt，限长防止一段长文被反复计费 */
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  context?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  message: string;
+}
@@ -0,0 +1,7 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class SentenceAnalysisDto {
+  @IsString()
+  @IsNotEmpty()
+  sentence: string;
+}
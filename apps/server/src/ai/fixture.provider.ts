@@ -0,0 +1,67 @@
+import type {
+  AiFeature,
+  LlmChatRequest,
+  LlmChatResult,
+  LlmProvider,
+  LlmStreamChunk,
+} from './llm-provider';
+
+export interface LlmFixture {
+  /** 只匹配这个功能；不填匹配所有功能 */
+  feature?: AiFeature;
+  /** 最后一条 user 消息里包含这段文字才匹配；不填总是匹配 */
+  match?: string;
+  content: string;
+}
+
+/** 流式回放时每段的字符数，固定值保证每次切出来的分片一样 */
+const STREAM_CHUNK_CHARS = 8;
+
+/**
+ * 回放预先写好的应答，不发网络请求，结果完全确定：给测试、CI 和离线开发用。
+ * 按顺序取第一条匹配的 fixture；都不匹配时 strict 模式报错（方便发现漏写的 fixture），
+ * 否则返回一个占位应答（JSON 模式下是 {}）。
+ */
+export class FixtureReplayProvider implements LlmProvider {
+  readonly name = 'fixture';
+
+  constructor(
+    private readonly fixtures: LlmFixture[],
+    private readonly strict = false,
+  ) {}
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    return { content: this.resolve(request), model: `fixture:${request.model}`, usage: undefined };
+  }
+
+  async *chatStream(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+    const content = this.resolve(request);
+    for (let i = 0; i < content.length; i += STREAM_CHUNK_CHARS) {
+      yield { content: content.slice(i, i + STREAM_CHUNK_CHARS) };
+    }
+  }
+
+  private resolve(request: LlmChatRequest): string {
+    const prompt = [...request.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+    const hit = this.fixtures.find(
+      (f) =>
+        (!f.feature || f.feature === request.feature) && (!f.match || prompt.includes(f.match)),
+    );
+    if (hit) return hit.content;
+    if (this.strict) {
+      throw new Error(`No AI fixture matches feature "${request.feature}": ${prompt.slice(0, 80)}`);
+    }
+    return request.jsonMode ? '{}' : `[fixture:${request.feature}] ${prompt.slice(0, 40)}`;
+  }
+}
+
+/** fixture 文件：数组，或者 { fixtures: [...] } */
+export function parseFixtureFile(json: unknown): LlmFixture[] {
+  const list = Array.isArray(json) ? json : (json as { fixtures?: unknown })?.fixtures;
+  if (!Array.isArray(list)) {
+    throw new Error('AI fixture file must be an array or { "fixtures": [...] }');
+  }
+  return list.filter(
+    (f): f is LlmFixture => !!f && typeof f === 'object' && typeof f.content === 'string',
+  );
+}
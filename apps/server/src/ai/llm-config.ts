@@ -0,0 +1,125 @@
+import { AI_FEATURES, type AiFeature } from './llm-provider';
+
+/**
+ * 从环境变量解析出每个 provider 的连接参数和每个功能的路由（ADR 0042）。
+ *
+ * - AI_PROVIDER：默认 provider，不填是 dashscope（兼容以前只配 DASHSCOPE_API_KEY 的部署）
+ * - AI_MODEL：默认模型，不填用 provider 自己的默认模型
+ * - AI_<FEATURE>_PROVIDER / AI_<FEATURE>_MODEL：按功能覆盖，FEATURE 是 ENRICH / TRANSLATE / DEFINITION
+ */
+
+export const LLM_PROVIDER_NAMES = ['dashscope', 'openai', 'ollama', 'fixture'] as const;
+export type LlmProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+export type LlmProviderConfig =
+  | {
+      kind: 'openai-compatible';
+      baseUrl: string;
+      apiKey?: string;
+      defaultModel: string;
+      /** 缺了哪个环境变量；有值时这个 provider 不可用 */
+      missing?: string;
+    }
+  | {
+      kind: 'fixture';
+      fixturesPath?: string;
+      strict: boolean;
+      defaultModel: string;
+    };
+
+export interface LlmRoute {
+  provider: LlmProviderName;
+  model: string;
+}
+
+export interface LlmConfig {
+  providers: Record<LlmProviderName, LlmProviderConfig>;
+  routes: Record<AiFeature, LlmRoute>;
+}
+
+export type EnvReader = (key: string) => string | undefined;
+
+const DASHSCOPE_BASE_URL = 'https://dashscope.aliyuncs.com/compatible-mode/v1';
+const OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+function read(env: EnvReader, key: string): string | undefined {
+  const value = env(key)?.trim();
+  return value ? value : undefined;
+}
+
+/** 没填用默认值，填了就必须是正整数 */
+export function positiveInt(env: EnvReader, key: string, fallback: number): number {
+  const raw = env(key)?.trim();
+  if (!raw) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`${key} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+function providerName(value: string, key: string): LlmProviderName {
+  const name = value.toLowerCase();
+  if (!(LLM_PROVIDER_NAMES as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown AI provider "${value}" in ${key} (expected ${LLM_PROVIDER_NAMES.join(' / ')})`,
+    );
+  }
+  return name as LlmProviderName;
+}
+
+export function resolveLlmConfig(env: EnvReader): LlmConfig {
+  const dashscopeKey = read(env, 'DASHSCOPE_API_KEY');
+  const openaiBaseUrl = read(env, 'OPENAI_BASE_URL');
+
+  const providers: Record<LlmProviderName, LlmProviderConfig> = {
+    dashscope: {
+      kind: 'openai-compatible',
+      baseUrl: DASHSCOPE_BASE_URL,
+      apiKey: dashscopeKey,
+      defaultModel: 'qwen-flash',
+      ...(dashscopeKey ? {} : { missing: 'DASHSCOPE_API_KEY' }),
+    },
+    openai: {
+      kind: 'openai-compatible',
+      baseUrl: openaiBaseUrl ?? '',
+      apiKey: read(env, 'OPENAI_API_KEY'),
+      defaultModel: read(env, 'OPENAI_MODEL') ?? 'gpt-4o-mini',
+      ...(openaiBaseUrl ? {} : { missing: 'OPENAI_BASE_URL' }),
+    },
+    ollama: {
+      kind: 'openai-compatible',
+      baseUrl: read(env, 'OLLAMA_BASE_URL') ?? OLLAMA_BASE_URL,
+      defaultModel: read(env, 'OLLAMA_MODEL') ?? 'qwen2.5:7b',
+    },
+    fixture: {
+      kind: 'fixture',
+      fixturesPath: read(env, 'AI_FIXTURES_PATH'),
+      strict: read(env, 'AI_FIXTURES_STRICT') === 'true',
+      defaultModel: 'fixture',
+    },
+  };
+
+  const defaultProviderValue = read(env, 'AI_PROVIDER');
+  const defaultProvider = defaultProviderValue
+    ? providerName(defaultProviderValue, 'AI_PROVIDER')
+    : 'dashscope';
+  const defaultModel = read(env, 'AI_MODEL');
+
+  const routes = {} as Record<AiFeature, LlmRoute>;
+  for (const feature of AI_FEATURES) {
+    const prefix = `AI_${feature.toUpperCase()}`;
+    const providerValue = read(env, `${prefix}_PROVIDER`);
+    const provider = providerValue
+      ? providerName(providerValue, `${prefix}_PROVIDER`)
+      : defaultProvider;
+    // 功能单独换了 provider 时，不沿用给默认 provider 配的 AI_MODEL
+    const inheritedModel = provider === defaultProvider ? defaultModel : undefined;
+    routes[feature] = {
+      provider,
+      model: read(env, `${prefix}_MODEL`) ?? inheritedModel ?? providers[provider].defaultModel,
+    };
+  }
+
+  return { providers, routes };
+}
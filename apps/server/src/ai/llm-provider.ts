@@ -0,0 +1,136 @@
+/**
+ * 大模型调用的抽象层（ADR 0042）。AiService 只管拼 prompt，具体发给谁由 LlmProviderRegistry
+ * 按功能（enrich / translate / definition / chat）从配置里选出 provider 和模型。
+ *
+ * 这里放接口和不碰 IO 的小工具；各 provider 的实现在同目录的 *.provider.ts。
+ */
+
+/** 按功能选 provider 和模型；以后加新功能在这里登记 */
+export const AI_FEATURES = ['enrich', 'translate', 'definition', 'chat'] as const;
+export type AiFeature = (typeof AI_FEATURES)[number];
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmChatRequest {
+  feature: AiFeature;
+  model: string;
+  messages: LlmMessage[];
+  maxTokens?: number;
+  /** 要求模型只输出一个 JSON 对象（OpenAI 的 response_format: json_object） */
+  jsonMode?: boolean;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmChatResult {
+  content: string;
+  /** 实际应答的模型，可能和请求的不同（比如服务端做了别名映射） */
+  model: string;
+  usage?: LlmUsage;
+}
+
+/** 流式输出的一段：content 是增量文本；usage 一般只在最后一段出现 */
+export interface LlmStreamChunk {
+  content: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResult>;
+  chatStream(request: LlmChatRequest, signal?: AbortSignal): AsyncIterable<LlmStreamChunk>;
+}
+
+/**
+ * SSE 按行切分。网络分包不按行对齐，一行可能被切成两半，
+ * 没收完的半行留在缓冲区里等下一个分片。返回每个 data: 行的内容。
+ */
+export function createSseLineParser(): (chunk: string) => string[] {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    return lines
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trim());
+  };
+}
+
+function asObject(value: unknown): Record<string, unknown> | undefined {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : undefined;
+}
+
+function firstChoice(data: unknown): Record<string, unknown> | undefined {
+  const choices = asObject(data)?.choices;
+  return Array.isArray(choices) ? asObject(choices[0]) : undefined;
+}
+
+function toUsage(value: unknown): LlmUsage | undefined {
+  const raw = asObject(value);
+  if (!raw) return undefined;
+  const promptTokens = Number(raw.prompt_tokens) || 0;
+  const completionTokens = Number(raw.completion_tokens) || 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: Number(raw.total_tokens) || promptTokens + completionTokens,
+  };
+}
+
+/** OpenAI 兼容接口的一个流式 data 行 → 增量；[DONE] 和解析不了的行返回 null */
+export function parseCompletionChunk(data: string): LlmStreamChunk | null {
+  if (!data || data === '[DONE]') return null;
+  try {
+    const json: unknown = JSON.parse(data);
+    const delta = asObject(firstChoice(json)?.delta)?.content;
+    const content = typeof delta === 'string' ? delta : '';
+    const usage = toUsage(asObject(json)?.usage);
+    if (!content && !usage) return null;
+    return usage ? { content, usage } : { content };
+  } catch {
+    return null;
+  }
+}
+
+/** OpenAI 兼容接口的非流式响应 → 结果 */
+export function parseCompletion(data: unknown, requestedModel: string): LlmChatResult {
+  const content = asObject(firstChoice(data)?.message)?.content;
+  if (typeof content !== 'string') {
+    throw new Error('AI provider returned no message content');
+  }
+  const body = asObject(data);
+  const usage = toUsage(body?.usage);
+  return {
+    content: content.trim(),
+    model: typeof body?.model === 'string' && body.model ? body.model : requestedModel,
+    ...(usage ? { usage } : {}),
+  };
+}
+
+/**
+ * 发给客户端的 SSE 行。保持 OpenAI 流式格式（choices[0].delta.content），
+ * 扩展和移动端不用关心后面接的是哪个 provider。
+ */
+export function toClientChunk(chunk: LlmStreamChunk): string {
+  return JSON.stringify({
+    choices: chunk.content ? [{ delta: { content: chunk.content } }] : [],
+    ...(chunk.usage
+      ? {
+          usage: {
+            prompt_tokens: chunk.usage.promptTokens,
+            completion_tokens: chunk.usage.completionTokens,
+            total_tokens: chunk.usage.totalTokens,
+          },
+        }
+      : {}),
+  });
+}
@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { FixtureReplayProvider, parseFixtureFile } from './fixture.provider';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { resolveLlmConfig, type LlmConfig, type LlmProviderName } from './llm-config';
+import type { AiFeature, LlmProvider } from './llm-provider';
+
+/**
+ * 按功能选 provider 和模型（ADR 0042）。配置启动时解析一次，provider 第一次用到时才创建。
+ */
+@Injectable()
+export class LlmProviderRegistry {
+  private readonly logger = new Logger(LlmProviderRegistry.name);
+  private readonly config: LlmConfig;
+  private readonly providers = new Map<LlmProviderName, LlmProvider>();
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.config = resolveLlmConfig((key) => configService.get<string>(key));
+
+    for (const [feature, route] of Object.entries(this.config.routes)) {
+      const provider = this.config.providers[route.provider];
+      if (provider.kind === 'openai-compatible' && provider.missing) {
+        this.logger.error(
+          `[ERROR] AI feature "${feature}" uses provider "${route.provider}" but ${provider.missing} is not set! Please check apps/server/.env`,
+        );
+      } else {
+        this.logger.log(`[OK] AI feature "${feature}" → ${route.provider} / ${route.model}`);
+      }
+    }
+  }
+
+  /** 功能对应的 provider 和模型；provider 没配好时抛错，调用方照常按 AI 不可用处理 */
+  route(feature: AiFeature): { provider: LlmProvider; model: string } {
+    const route = this.config.routes[feature];
+    return { provider: this.getProvider(route.provider), model: route.model };
+  }
+
+  private getProvider(name: LlmProviderName): LlmProvider {
+    const existing = this.providers.get(name);
+    if (existing) return existing;
+
+    const config = this.config.providers[name];
+    let provider: LlmProvider;
+    if (config.kind === 'fixture') {
+      const fixtures = config.fixturesPath
+        ? parseFixtureFile(JSON.parse(readFileSync(resolve(config.fixturesPath), 'utf-8')))
+        : [];
+      provider = new FixtureReplayProvider(fixtures, config.strict);
+    } else {
+      if (config.missing) {
+        throw new Error(`AI service is not configured. Please set ${config.missing} in .env file.`);
+      }
+      provider = new OpenAiCompatibleProvider(
+        name,
+        { baseUrl: config.baseUrl, apiKey: config.apiKey },
+        this.httpService,
+      );
+    }
+    this.providers.set(name, provider);
+    return provider;
+  }
+}
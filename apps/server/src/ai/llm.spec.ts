@@ -0,0 +1,132 @@
+import { FixtureReplayProvider, parseFixtureFile } from './fixture.provider';
+import { resolveLlmConfig } from './llm-config';
+import {
+  createSseLineParser,
+  parseCompletion,
+  parseCompletionChunk,
+  toClientChunk,
+  type LlmChatRequest,
+} from './llm-provider';
+
+function env(values: Record<string, string>) {
+  return (key: string) => values[key];
+}
+
+function request(overrides: Partial<LlmChatRequest> = {}): LlmChatRequest {
+  return {
+    feature: 'enrich',
+    model: 'm',
+    messages: [
+      { role: 'system', content: 'sys' },
+      { role: 'user', content: '请解释单词"bank"' },
+    ],
+    ...overrides,
+  };
+}
+
+async function collect(stream: AsyncIterable<{ content: string }>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const chunk of stream) out.push(chunk.content);
+  return out;
+}
+
+describe('resolveLlmConfig', () => {
+  it('什么都不配时沿用 DashScope + qwen-flash，并标出缺的 key', () => {
+    const config = resolveLlmConfig(env({}));
+    expect(config.routes.enrich).toEqual({ provider: 'dashscope', model: 'qwen-flash' });
+    expect(config.providers.dashscope).toMatchObject({ missing: 'DASHSCOPE_API_KEY' });
+  });
+
+  it('按功能覆盖 provider 和模型；换了 provider 的功能不继承 AI_MODEL', () => {
+    const config = resolveLlmConfig(
+      env({
+        DASHSCOPE_API_KEY: 'sk-x',
+        AI_MODEL: 'qwen-plus',
+        AI_TRANSLATE_MODEL: 'qwen-max',
+        AI_DEFINITION_PROVIDER: 'Ollama',
+        OLLAMA_MODEL: 'llama3.1',
+      }),
+    );
+    expect(config.routes).toEqual({
+      enrich: { provider: 'dashscope', model: 'qwen-plus' },
+      translate: { provider: 'dashscope', model: 'qwen-max' },
+      definition: { provider: 'ollama', model: 'llama3.1' },
+      chat: { provider: 'dashscope', model: 'qwen-plus' },
+    });
+    expect(config.providers.dashscope).not.toHaveProperty('missing');
+  });
+
+  it('不认识的 provider 启动时直接报错', () => {
+    expect(() => resolveLlmConfig(env({ AI_PROVIDER: 'gemini' }))).toThrow(/Unknown AI provider/);
+  });
+});
+
+describe('OpenAI 兼容流式解析', () => {
+  it('跨分片的半行留到下一片再解析', () => {
+    const parse = createSseLineParser();
+    expect(parse('data: {"choices":[{"delta":{"content":"he')).toEqual([]);
+    expect(parse('llo"}}]}\n\ndata: [DONE]\n')).toEqual([
+      '{"choices":[{"delta":{"content":"hello"}}]}',
+      '[DONE]',
+    ]);
+  });
+
+  it('parseCompletionChunk 取增量和用量，忽略 [DONE] 和坏数据', () => {
+    expect(parseCompletionChunk('{"choices":[{"delta":{"content":"hi"}}]}')).toEqual({
+      content: 'hi',
+    });
+    expect(
+      parseCompletionChunk('{"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":5}}'),
+    ).toEqual({ content: '', usage: { promptTokens: 3, completionTokens: 5, totalTokens: 8 } });
+    expect(parseCompletionChunk('[DONE]')).toBeNull();
+    expect(parseCompletionChunk('not json')).toBeNull();
+  });
+
+  it('parseCompletion 取应答模型，缺内容时报错', () => {
+    expect(
+      parseCompletion(
+        { model: 'qwen-flash-2025', choices: [{ message: { content: ' ok ' } }] },
+        'm',
+      ),
+    ).toEqual({ content: 'ok', model: 'qwen-flash-2025' });
+    expect(() => parseCompletion({ choices: [] }, 'm')).toThrow();
+  });
+
+  it('toClientChunk 输出 OpenAI 格式，客户端按 choices[0].delta.content 取', () => {
+    expect(JSON.parse(toClientChunk({ content: 'hi' }))).toEqual({
+      choices: [{ delta: { content: 'hi' } }],
+    });
+  });
+});
+
+describe('FixtureReplayProvider', () => {
+  const fixtures = parseFixtureFile({
+    fixtures: [
+      { feature: 'definition', content: '{"chinese_entries_short":[]}' },
+      { match: 'bank', content: '**bank**: 河岸' },
+      { content: 42 },
+    ],
+  });
+
+  it('按功能和 prompt 片段匹配，流式回放切片固定', async () => {
+    const provider = new FixtureReplayProvider(fixtures);
+    await expect(provider.chat(request())).resolves.toMatchObject({ content: '**bank**: 河岸' });
+    await expect(
+      provider.chat(request({ feature: 'definition', jsonMode: true })),
+    ).resolves.toMatchObject({ content: '{"chinese_entries_short":[]}' });
+    const chunks = await collect(provider.chatStream(request()));
+    expect(chunks.join('')).toBe('**bank**: 河岸');
+    expect(await collect(provider.chatStream(request()))).toEqual(chunks);
+  });
+
+  it('没有匹配时给占位应答，strict 模式报错', async () => {
+    const miss = request({ messages: [{ role: 'user', content: 'apple' }] });
+    await expect(new FixtureReplayProvider(fixtures).chat(miss)).resolves.toMatchObject({
+      content: '[fixture:enrich] apple',
+    });
+    await expect(
+      new FixtureReplayProvider([]).chat({ ...miss, jsonMode: true }),
+    ).resolves.toMatchObject({ content: '{}' });
+    await expect(new FixtureReplayProvider(fixtures, true).chat(miss)).rejects.toThrow(/fixture/);
+  });
+});
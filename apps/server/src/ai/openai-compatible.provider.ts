@@ -0,0 +1,103 @@
+import { HttpService } from '@nestjs/axios';
+import { isAxiosError } from 'axios';
+import { firstValueFrom } from 'rxjs';
+import type { Readable } from 'stream';
+import {
+  createSseLineParser,
+  parseCompletion,
+  parseCompletionChunk,
+  type LlmChatRequest,
+  type LlmChatResult,
+  type LlmProvider,
+  type LlmStreamChunk,
+} from './llm-provider';
+
+export interface OpenAiCompatibleOptions {
+  /** 到 /v1 为止，不含 /chat/completions，如 http://localhost:11434/v1 */
+  baseUrl: string;
+  /** 本地 Ollama / llama.cpp 一般不需要 */
+  apiKey?: string;
+}
+
+/**
+ * 任何 OpenAI 兼容的 /chat/completions：DashScope 兼容模式、Ollama、vLLM、llama.cpp server 等。
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  private readonly url: string;
+
+  constructor(
+    readonly name: string,
+    private readonly options: OpenAiCompatibleOptions,
+    private readonly httpService: HttpService,
+  ) {
+    this.url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(this.url, this.payload(request, false), { headers: this.headers() }),
+      );
+      return parseCompletion(response.data, request.model);
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+  }
+
+  async *chatStream(request: LlmChatRequest, signal?: AbortSignal): AsyncIterable<LlmStreamChunk> {
+    let stream: Readable;
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(this.url, this.payload(request, true), {
+          headers: this.headers(),
+          responseType: 'stream',
+          signal,
+        }),
+      );
+      stream = response.data;
+    } catch (error) {
+      throw this.wrapError(error);
+    }
+
+    const parse = createSseLineParser();
+    for await (const chunk of stream) {
+      for (const data of parse(chunk.toString())) {
+        if (data === '[DONE]') return;
+        const parsed = parseCompletionChunk(data);
+        if (parsed) yield parsed;
+      }
+    }
+  }
+
+  private payload(request: LlmChatRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+      ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      // include_usage 让最后一段带上 token 用量
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+    };
+  }
+
+  /** axios 错误 → 带上 provider 名字和服务端错误信息的 Error */
+  private wrapError(error: unknown): Error {
+    const remote = isAxiosError<{ error?: { code?: string; message?: string } }>(error)
+      ? error.response?.data?.error
+      : undefined;
+    if (remote?.code === 'invalid_api_key') {
+      return new Error(
+        `Invalid API key for AI provider "${this.name}". Please check your .env file.`,
+      );
+    }
+    const message = remote?.message || (error instanceof Error ? error.message : '');
+    return new Error(`[${this.name}] ${message || 'request failed'}`);
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  locateClause,
+  parseModelJson,
+  validateSentenceAnalysis,
+  validateStructuredEnrichment,
+} from './structured-output';
+
+describe('parseModelJson', () => {
+  it('容忍代码块和前后的说明文字，取不出来返回 null', () => {
+    expect(parseModelJson('{"a":1}')).toEqual({ a: 1 });
+    expect(parseModelJson('好的：\n```json\n{"a": [1, 2]}\n```\n希望有帮助')).toEqual({
+      a: [1, 2],
+    });
+    expect(parseModelJson('结果是 {"a": "b"} 。')).toEqual({ a: 'b' });
+    expect(parseModelJson('没有 JSON')).toBeNull();
+    expect(parseModelJson('{"a": ')).toBeNull();
+  });
+});
+
+describe('validateStructuredEnrichment', () => {
+  it('规整字段，搭配去重并限制数量', () => {
+    const result = validateStructuredEnrichment(
+      {
+        lemma: 'run',
+        partOfSpeech: ' v. ',
+        contextualSense: '经营',
+        phrase: { text: 'run a business', meaning: '经营企业' },
+        collocations: [
+          { text: 'run out', meaning: '用完' },
+          { text: 'Run out', meaning: '重复' },
+          { text: 'run into' },
+          ...Array.from({ length: 8 }, (_, i) => ({ text: `run ${i}`, meaning: `${i}` })),
+        ],
+      },
+      'runs',
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value).toMatchObject({
+      word: 'runs',
+      lemma: 'run',
+      partOfSpeech: 'v.',
+      phrase: { text: 'run a business', meaning: '经营企业' },
+    });
+    expect(result.value.collocations).toHaveLength(5);
+    expect(result.value.collocations[0]).toEqual({ text: 'run out', meaning: '用完' });
+    expect(result.value.collocations[1].text).toBe('run 0');
+  });
+
+  it('短语就是单词本身时当作没有短语；lemma 缺省用小写的单词', () => {
+    const result = validateStructuredEnrichment(
+      {
+        partOfSpeech: 'n.',
+        contextualSense: '银行',
+        phrase: { text: 'Bank', meaning: '银行' },
+      },
+      'Bank',
+    );
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        word: 'Bank',
+        lemma: 'bank',
+        partOfSpeech: 'n.',
+        contextualSense: '银行',
+        phrase: null,
+        collocations: [],
+      },
+    });
+  });
+
+  it('缺必填字段、短语格式不对时列出所有错误', () => {
+    const result = validateStructuredEnrichment(
+      { partOfSpeech: '', phrase: 'take off', collocations: 'x' },
+      'take',
+    );
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toEqual([
+      'partOfSpeech 必须是非空字符串',
+      'contextualSense 必须是非空字符串',
+      'phrase 必须是 null 或 { text, meaning }',
+      'collocations 必须是数组',
+    ]);
+    expect(validateStructuredEnrichment([], 'take')).toEqual({
+      ok: false,
+      errors: ['输出必须是一个 JSON 对象'],
+    });
+  });
+});
+
+describe('validateSentenceAnalysis', () => {
+  const sentence = 'The book that I bought yesterday is very interesting.';
+  const base = {
+    translation: '我昨天买的那本书很有意思。',
+    subject: 'The book',
+    predicate: 'is',
+    grammarPoints: [{ title: '定语从句', explanation: 'that 引导，修饰 book' }, { title: '' }],
+    difficultWords: [{ text: 'interesting', meaning: '有趣的' }],
+  };
+
+  it('算出子句在原句中的位置，按出现顺序排，找不到的放最后', () => {
+    const result = validateSentenceAnalysis(
+      {
+        ...base,
+        clauses: [
+          { text: 'is very interesting', kind: 'Main', role: '主句谓语部分' },
+          { text: 'something else', kind: 'nonfinite', role: '对不上原文' },
+          { text: 'that I  bought yesterday', kind: 'subordinate', role: '定语从句' },
+        ],
+      },
+      sentence,
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.clauses).toEqual([
+      { text: 'that I  bought yesterday', kind: 'subordinate', role: '定语从句', start: 9 },
+      { text: 'is very interesting', kind: 'main', role: '主句谓语部分', start: 33 },
+      { text: 'something else', kind: 'nonfinite', role: '对不上原文', start: null },
+    ]);
+    expect(result.value.grammarPoints).toEqual([
+      { title: '定语从句', explanation: 'that 引导，修饰 book' },
+    ]);
+    expect(result.value.difficultWords).toEqual([{ text: 'interesting', meaning: '有趣的' }]);
+  });
+
+  it('子句类型不认识、没有主句时失败', () => {
+    expect(
+      validateSentenceAnalysis(
+        { ...base, clauses: [{ text: 'The book', kind: 'phrase', role: '主语' }] },
+        sentence,
+      ),
+    ).toEqual({
+      ok: false,
+      errors: ['clauses[0].kind 必须是 main / subordinate / nonfinite 之一'],
+    });
+    expect(
+      validateSentenceAnalysis(
+        { ...base, clauses: [{ text: 'that I bought', kind: 'subordinate', role: '定语从句' }] },
+        sentence,
+      ),
+    ).toEqual({ ok: false, errors: ['clauses 里至少要有一个 kind 为 main 的主句'] });
+  });
+});
+
+describe('locateClause', () => {
+  it('先精确找，再忽略大小写和多余空白', () => {
+    expect(locateClause('He said that it rained.', 'that it rained')).toBe(8);
+    expect(locateClause('He said that it rained.', 'That  it rained')).toBe(8);
+    expect(locateClause('He  said that it rained.', 'That it rained')).toBeNull();
+  });
+});
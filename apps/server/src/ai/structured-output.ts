@@ -0,0 +1,205 @@
+import type {
+  AIClause,
+  AIClauseKind,
+  AIGlossItem,
+  AIGrammarPoint,
+  AISentenceAnalysis,
+  AIStructuredEnrichment,
+} from 'shared-types';
+
+/**
+ * 结构化输出的解析和校验（ADR 0045）。errors 会原样回给模型重试，措辞要让模型看得懂。
+ *
+ * 和 ai-dictionary.ts 的思路一样：能规整的就规整（去空白、截断、去重），
+ * 缺必填字段、类型不对才算失败。
+ */
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export const CLAUSE_KINDS: readonly AIClauseKind[] = ['main', 'subordinate', 'nonfinite'];
+
+/** 列表字段最多保留几项，多出来的多半是模型在凑数 */
+const MAX_COLLOCATIONS = 5;
+const MAX_CLAUSES = 12;
+const MAX_GRAMMAR_POINTS = 6;
+const MAX_DIFFICULT_WORDS = 10;
+
+/**
+ * 从模型输出里取出 JSON 对象：容忍 ```json 代码块和前后的说明文字。
+ * 取不出来返回 null。
+ */
+export function parseModelJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+class FieldReader {
+  readonly errors: string[] = [];
+
+  constructor(private readonly obj: Record<string, unknown>) {}
+
+  string(key: string, path = key): string {
+    const value = this.obj[key];
+    if (typeof value !== 'string' || !value.trim()) {
+      this.errors.push(`${path} 必须是非空字符串`);
+      return '';
+    }
+    return value.trim();
+  }
+
+  optionalString(key: string): string | null {
+    const value = this.obj[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+  }
+
+  list(key: string, path = key): unknown[] {
+    const value = this.obj[key];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      this.errors.push(`${path} 必须是数组`);
+      return [];
+    }
+    return value;
+  }
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+/** { text, meaning } 列表：丢掉缺字段的项，按 text 去重 */
+function glossList(items: unknown[], max: number): AIGlossItem[] {
+  const out: AIGlossItem[] = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    const obj = asObject(item);
+    if (!obj) continue;
+    const reader = new FieldReader(obj);
+    const text = reader.optionalString('text');
+    const meaning = reader.optionalString('meaning');
+    if (!text || !meaning || seen.has(text.toLowerCase())) continue;
+    seen.add(text.toLowerCase());
+    out.push({ text, meaning });
+    if (out.length >= max) break;
+  }
+  return out;
+}
+
+export function validateStructuredEnrichment(
+  raw: unknown,
+  word: string,
+): Validation<AIStructuredEnrichment> {
+  const obj = asObject(raw);
+  if (!obj) return { ok: false, errors: ['输出必须是一个 JSON 对象'] };
+
+  const reader = new FieldReader(obj);
+  const partOfSpeech = reader.string('partOfSpeech');
+  const contextualSense = reader.string('contextualSense');
+  const lemma = reader.optionalString('lemma') ?? word.toLowerCase();
+
+  let phrase: AIGlossItem | null = null;
+  if (obj.phrase !== undefined && obj.phrase !== null) {
+    const phraseObj = asObject(obj.phrase);
+    const phraseReader = phraseObj ? new FieldReader(phraseObj) : null;
+    const text = phraseReader?.optionalString('text');
+    const meaning = phraseReader?.optionalString('meaning');
+    if (!text || !meaning) {
+      reader.errors.push('phrase 必须是 null 或 { text, meaning }');
+    } else if (text.toLowerCase() !== word.toLowerCase()) {
+      // 模型常把单词本身当成"完整表达"，这种不算
+      phrase = { text, meaning };
+    }
+  }
+
+  const collocations = glossList(reader.list('collocations'), MAX_COLLOCATIONS);
+
+  if (reader.errors.length) return { ok: false, errors: reader.errors };
+  return {
+    ok: true,
+    value: { word, lemma, partOfSpeech, contextualSense, phrase, collocations },
+  };
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+/** 子句在原句里的下标；先精确找，再忽略大小写和多余空白找 */
+export function locateClause(sentence: string, text: string): number | null {
+  const exact = sentence.indexOf(text);
+  if (exact !== -1) return exact;
+  // 原句本身有多余空白时，规整后的下标对不上原句，干脆不给
+  if (normalizeSpace(sentence) !== sentence) return null;
+  const loose = sentence.toLowerCase().indexOf(normalizeSpace(text).toLowerCase());
+  return loose === -1 ? null : loose;
+}
+
+export function validateSentenceAnalysis(
+  raw: unknown,
+  sentence: string,
+): Validation<AISentenceAnalysis> {
+  const obj = asObject(raw);
+  if (!obj) return { ok: false, errors: ['输出必须是一个 JSON 对象'] };
+
+  const reader = new FieldReader(obj);
+  const translation = reader.string('translation');
+  const subject = reader.string('subject');
+  const predicate = reader.string('predicate');
+
+  const clauses: AIClause[] = [];
+  reader.list('clauses').forEach((item, i) => {
+    const clauseObj = asObject(item);
+    if (!clauseObj) {
+      reader.errors.push(`clauses[${i}] 必须是对象`);
+      return;
+    }
+    const clauseReader = new FieldReader(clauseObj);
+    const text = clauseReader.string('text', `clauses[${i}].text`);
+    const role = clauseReader.string('role', `clauses[${i}].role`);
+    const kind = clauseReader.optionalString('kind')?.toLowerCase() as AIClauseKind | undefined;
+    if (!kind || !CLAUSE_KINDS.includes(kind)) {
+      clauseReader.errors.push(`clauses[${i}].kind 必须是 ${CLAUSE_KINDS.join(' / ')} 之一`);
+    }
+    reader.errors.push(...clauseReader.errors);
+    if (clauseReader.errors.length === 0 && clauses.length < MAX_CLAUSES) {
+      clauses.push({ text, kind: kind!, role, start: locateClause(sentence, text) });
+    }
+  });
+  if (!reader.errors.length && !clauses.some((c) => c.kind === 'main')) {
+    reader.errors.push('clauses 里至少要有一个 kind 为 main 的主句');
+  }
+
+  const grammarPoints: AIGrammarPoint[] = [];
+  for (const item of reader.list('grammarPoints')) {
+    const pointObj = asObject(item);
+    const pointReader = pointObj ? new FieldReader(pointObj) : null;
+    const title = pointReader?.optionalString('title');
+    const explanation = pointReader?.optionalString('explanation');
+    if (title && explanation) grammarPoints.push({ title, explanation });
+    if (grammarPoints.length >= MAX_GRAMMAR_POINTS) break;
+  }
+
+  const difficultWords = glossList(reader.list('difficultWords'), MAX_DIFFICULT_WORDS);
+
+  if (reader.errors.length) return { ok: false, errors: reader.errors };
+  // 按在句中出现的顺序排，找不到位置的放最后
+  clauses.sort((a, b) => {
+    if (a.start === null || b.start === null)
+      return (a.start === null ? 1 : 0) - (b.start === null ? 1 : 0);
+    return a.start - b.start;
+  });
+  return {
+    ok: true,
+    value: { sentence, translation, subject, predicate, clauses, grammarPoints, difficultWords },
+  };
+}
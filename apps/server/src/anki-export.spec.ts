@@ -0,0 +1,119 @@
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import {
+  type AnkiExportFamily,
+  DEFAULT_ANKI_FIELDS,
+  ankiTagsFor,
+  buildAnkiPackage,
+  parseAnkiFields,
+  renderAnkiField,
+} from './anki-export';
+
+function family(overrides: Partial<AnkiExportFamily> = {}): AnkiExportFamily {
+  return {
+    familyRoot: 'settle',
+    status: 'learning',
+    importSource: null,
+    tagKeys: ['cet4'],
+    members: ['settle', 'settlement', 'settled'],
+    dictionary: {
+      phonetics: ['/ˈsɛtəl/'],
+      audio: ['https://example.com/settle.mp3', 'file:///etc/passwd'],
+      chineseEntriesShort: [{ pos: 'v.', definitions: ['解决', '定居'] }],
+      entries: [{ pos: 'verb', senses: [{ glosses: ['to resolve'] }, { glosses: ['to reside'] }] }],
+    },
+    contexts: [{ surfaceForm: 'Settled', sentence: 'They Settled <here> in 1990.' }],
+    ...overrides,
+  };
+}
+
+describe('parseAnkiFields', () => {
+  it('缺省用默认组合', () => {
+    expect(parseAnkiFields()).toEqual(DEFAULT_ANKI_FIELDS);
+  });
+
+  it('word 总是挪到第一个，重复字段去重', () => {
+    expect(parseAnkiFields('context, word,chinese,context')).toEqual([
+      'word',
+      'context',
+      'chinese',
+    ]);
+  });
+
+  it('含未知字段时返回 null', () => {
+    expect(parseAnkiFields('word,image')).toBeNull();
+  });
+});
+
+describe('renderAnkiField', () => {
+  it('中文释义按词性一行，释义用全角分号连接', () => {
+    expect(renderAnkiField('chinese', family())).toBe('<b>v.</b> 解决；定居');
+  });
+
+  it('句子转义 HTML 后加粗原文写法', () => {
+    expect(renderAnkiField('context', family())).toBe('They <b>Settled</b> &lt;here&gt; in 1990.');
+  });
+
+  it('音频只保留 http(s) 链接；词族成员不含词根本身', () => {
+    expect(renderAnkiField('audio', family())).toBe(
+      '<a href="https://example.com/settle.mp3">🔊 1</a>',
+    );
+    expect(renderAnkiField('family', family())).toBe('settlement, settled');
+  });
+
+  it('没有词典数据时字段为空串', () => {
+    expect(renderAnkiField('definition', family({ dictionary: null }))).toBe('');
+  });
+});
+
+describe('ankiTagsFor', () => {
+  it('带上状态、词库标签和来源，冒号转成 Anki 层级标签', () => {
+    expect(ankiTagsFor(family({ importSource: 'preset:cet4' }))).toEqual([
+      'linguoland',
+      'status::learning',
+      'cet4',
+      'preset::cet4',
+    ]);
+  });
+});
+
+describe('buildAnkiPackage', () => {
+  it('生成含 collection.anki2 和 media 的 zip，每个词族一条 note + 一张新卡', async () => {
+    const buffer = await buildAnkiPackage(
+      [family(), family({ familyRoot: 'give up', members: ['give up'], contexts: [] })],
+      { fields: ['word', 'chinese', 'context'], deckName: 'LinguoLand' },
+    );
+
+    const zip = await JSZip.loadAsync(buffer);
+    expect(await zip.file('media')!.async('string')).toBe('{}');
+
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+    try {
+      const notes = db.exec('SELECT flds, sfld, tags FROM notes ORDER BY id')[0].values;
+      expect(notes).toHaveLength(2);
+      expect(String(notes[0][0]).split('\x1f')).toEqual([
+        'settle',
+        '<b>v.</b> 解决；定居',
+        'They <b>Settled</b> &lt;here&gt; in 1990.',
+      ]);
+      expect(notes[1][1]).toBe('give up');
+      expect(notes[0][2]).toBe(' linguoland status::learning cet4 ');
+
+      const cards = db.exec('SELECT type, queue, due FROM cards ORDER BY due')[0].values;
+      expect(cards).toEqual([
+        [0, 0, 1],
+        [0, 0, 2],
+      ]);
+
+      const [models, decks] = db.exec('SELECT models, decks FROM col')[0].values[0];
+      const model = Object.values(JSON.parse(String(models)))[0] as { flds: { name: string }[] };
+      expect(model.flds.map((f) => f.name)).toEqual(['Word', 'Chinese', 'Context']);
+      expect(
+        Object.values(JSON.parse(String(decks))).map((d) => (d as { name: string }).name),
+      ).toContain('LinguoLand');
+    } finally {
+      db.close();
+    }
+  });
+});
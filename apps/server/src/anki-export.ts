@@ -0,0 +1,365 @@
+/**
+ * Anki .apkg 打包，SQLite 部分用 sql.js（WASM，无原生依赖）。
+ *
+ * .apkg 是一个 zip：
+ *   collection.anki2  → SQLite，schema 11（Anki 2.1 旧版导入器和新版都认）
+ *   media             → JSON，序号 → 文件名；音频只给链接不打包，所以恒为 {}
+ *
+ * note 的 guid 由 familyRoot 派生，重复导入同一词族会更新而不是新增；
+ * note type 的 id 由字段组合派生，换了字段组合会在 Anki 里生成一个新的 note type。
+ */
+import { createHash } from 'crypto';
+import JSZip from 'jszip';
+import type { WordFamiliarityStatus } from 'shared-types';
+import { loadSqlJs } from './sql-js';
+
+/** 可导出的字段，顺序即默认字段顺序；word 恒为第一个字段（正面 + 排序字段） */
+export const ANKI_NOTE_FIELDS = [
+  'word',
+  'phonetic',
+  'chinese',
+  'definition',
+  'family',
+  'context',
+  'audio',
+] as const;
+
+export type AnkiNoteField = (typeof ANKI_NOTE_FIELDS)[number];
+
+export const DEFAULT_ANKI_FIELDS: AnkiNoteField[] = [
+  'word',
+  'phonetic',
+  'chinese',
+  'definition',
+  'context',
+];
+
+const FIELD_LABELS: Record<AnkiNoteField, string> = {
+  word: 'Word',
+  phonetic: 'Phonetic',
+  chinese: 'Chinese',
+  definition: 'Definition',
+  family: 'Family',
+  context: 'Context',
+  audio: 'Audio',
+};
+
+/** 每个词族最多带几条查词句子，取最近的 */
+export const MAX_ANKI_CONTEXTS = 3;
+/** 英文释义每个词性最多几个义项，卡片背面太长就没法复习了 */
+const MAX_SENSES_PER_POS = 3;
+
+export interface AnkiExportFamily {
+  familyRoot: string;
+  status: WordFamiliarityStatus;
+  importSource: string | null;
+  tagKeys: string[];
+  members: string[];
+  dictionary: {
+    phonetics: string[];
+    audio: string[];
+    chineseEntriesShort: unknown;
+    entries: { pos: string; senses: { glosses: string[] }[] }[];
+  } | null;
+  /** 最近的在前 */
+  contexts: { surfaceForm: string; sentence: string }[];
+}
+
+export interface AnkiPackageOptions {
+  fields: AnkiNoteField[];
+  deckName: string;
+  now?: Date;
+}
+
+/**
+ * 解析 ?fields=word,chinese,context。缺省用默认组合；含未知字段名时返回 null，由调用方回 400。
+ * word 不管写没写、写在哪，都挪到第一个。
+ */
+export function parseAnkiFields(raw?: string): AnkiNoteField[] | null {
+  if (!raw || !raw.trim()) {
+    return [...DEFAULT_ANKI_FIELDS];
+  }
+  const names = raw
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  if (names.some((name) => !(ANKI_NOTE_FIELDS as readonly string[]).includes(name))) {
+    return null;
+  }
+  const rest = (names as AnkiNoteField[]).filter((name) => name !== 'word');
+  return ['word', ...new Set(rest)];
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function renderChinese(value: unknown): string {
+  if (!Array.isArray(value)) return '';
+  return value
+    .filter(
+      (entry): entry is { pos?: string; definitions?: unknown[] } =>
+        !!entry && typeof entry === 'object',
+    )
+    .map((entry) => {
+      const definitions = (entry.definitions ?? []).filter(
+        (d): d is string => typeof d === 'string',
+      );
+      if (definitions.length === 0) return '';
+      const pos = entry.pos ? `<b>${escapeHtml(entry.pos)}</b> ` : '';
+      return pos + escapeHtml(definitions.join('；'));
+    })
+    .filter(Boolean)
+    .join('<br>');
+}
+
+/** 句子里第一次出现的原文写法加粗（大小写不敏感） */
+function renderContext(context: { surfaceForm: string; sentence: string }): string {
+  const sentence = escapeHtml(context.sentence);
+  const surface = escapeHtml(context.surfaceForm);
+  return sentence.replace(new RegExp(escapeRegExp(surface), 'i'), (hit) => `<b>${hit}</b>`);
+}
+
+/** 单个字段的 HTML 内容 */
+export function renderAnkiField(field: AnkiNoteField, family: AnkiExportFamily): string {
+  const dict = family.dictionary;
+  switch (field) {
+    case 'word':
+      return escapeHtml(family.familyRoot);
+    case 'phonetic':
+      return escapeHtml((dict?.phonetics ?? []).join(' '));
+    case 'chinese':
+      return renderChinese(dict?.chineseEntriesShort);
+    case 'definition':
+      return (dict?.entries ?? [])
+        .map((entry) => {
+          const senses = entry.senses
+            .slice(0, MAX_SENSES_PER_POS)
+            .map((sense) => escapeHtml(sense.glosses.join('; ')))
+            .filter(Boolean);
+          return senses.length > 0 ? `<b>${escapeHtml(entry.pos)}</b> ${senses.join(' / ')}` : '';
+        })
+        .filter(Boolean)
+        .join('<br>');
+    case 'family':
+      return escapeHtml(family.members.filter((w) => w !== family.familyRoot).join(', '));
+    case 'context':
+      return family.contexts.slice(0, MAX_ANKI_CONTEXTS).map(renderContext).join('<br>');
+    case 'audio':
+      return (dict?.audio ?? [])
+        .filter((url) => /^https?:\/\//.test(url))
+        .map((url, i) => `<a href="${escapeHtml(url)}">🔊 ${i + 1}</a>`)
+        .join(' ');
+  }
+}
+
+/** Anki 标签不允许空格；状态、来源、词库标签都带上，方便在 Anki 里再筛 */
+export function ankiTagsFor(family: AnkiExportFamily): string[] {
+  const tags = ['linguoland', `status::${family.status}`, ...family.tagKeys];
+  if (family.importSource) tags.push(family.importSource.replace(/:/g, '::'));
+  return tags.map((tag) => tag.replace(/\s+/g, '_'));
+}
+
+function sha1(text: string): string {
+  return createHash('sha1').update(text).digest('hex');
+}
+
+/** 从字符串派生稳定的毫秒级 id（Anki 的 model / deck id 习惯用创建时间戳） */
+function stableId(seed: string): number {
+  return 1_500_000_000_000 + (parseInt(sha1(seed).slice(0, 8), 16) % 1_000_000_000);
+}
+
+/** Anki 的 checksum：排序字段去掉 HTML 后 sha1 的前 8 位 */
+function fieldChecksum(sortField: string): number {
+  return parseInt(sha1(sortField.replace(/<[^>]*>/g, '')).slice(0, 8), 16);
+}
+
+const SCHEMA_SQL = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = `.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }
+.field { margin-top: 0.6em; font-size: 16px; }
+.field-context { font-style: italic; text-align: left; }`;
+
+function deckJson(id: number, name: string, modSec: number) {
+  return {
+    id,
+    name,
+    mod: modSec,
+    usn: -1,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DEFAULT_DECK_CONF = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+  rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+  lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+};
+
+/**
+ * 生成 .apkg。所有卡片都是新卡（不迁移我们自己的复习调度），按传入顺序排 due。
+ */
+export async function buildAnkiPackage(
+  families: AnkiExportFamily[],
+  options: AnkiPackageOptions,
+): Promise<Buffer> {
+  const now = options.now ?? new Date();
+  const nowMs = now.getTime();
+  const nowSec = Math.floor(nowMs / 1000);
+  const fields = options.fields;
+
+  const modelId = stableId(`model:${fields.join(',')}`);
+  const deckId = stableId(`deck:${options.deckName}`);
+
+  const backFields = fields
+    .slice(1)
+    .map(
+      (field) =>
+        `{{#${FIELD_LABELS[field]}}}<div class="field field-${field}">{{${FIELD_LABELS[field]}}}</div>{{/${FIELD_LABELS[field]}}}`,
+    )
+    .join('\n');
+  const model = {
+    id: modelId,
+    name: `LinguoLand (${fields.map((f) => FIELD_LABELS[f]).join(' / ')})`,
+    type: 0,
+    mod: nowSec,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: 'Recognition',
+        ord: 0,
+        qfmt: '{{Word}}',
+        afmt: `{{FrontSide}}\n<hr id="answer">\n${backFields}`,
+        bqfmt: '',
+        bafmt: '',
+        did: null,
+      },
+    ],
+    flds: fields.map((field, ord) => ({
+      name: FIELD_LABELS[field],
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: [],
+    })),
+    css: CARD_CSS,
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+  const colConf = {
+    nextPos: families.length + 1,
+    estTimes: true,
+    activeDecks: [1],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: 1,
+    newBury: true,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: modelId,
+    collapseTime: 1200,
+  };
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.run(SCHEMA_SQL);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      Math.floor(new Date(now).setHours(0, 0, 0, 0) / 1000),
+      nowMs,
+      nowMs,
+      JSON.stringify(colConf),
+      JSON.stringify({ [modelId]: model }),
+      JSON.stringify({
+        1: deckJson(1, 'Default', nowSec),
+        [deckId]: deckJson(deckId, options.deckName, nowSec),
+      }),
+      JSON.stringify({ 1: DEFAULT_DECK_CONF }),
+      '{}',
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)');
+    const insertCard = db.prepare(
+      'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)',
+    );
+    try {
+      families.forEach((family, i) => {
+        const values = fields.map((field) => renderAnkiField(field, family));
+        const noteId = nowMs + i;
+        insertNote.run([
+          noteId,
+          sha1(`linguoland:${family.familyRoot}`).slice(0, 10),
+          modelId,
+          nowSec,
+          ` ${ankiTagsFor(family).join(' ')} `,
+          values.join('\x1f'),
+          values[0],
+          fieldChecksum(values[0]),
+          '',
+        ]);
+        insertCard.run([noteId, noteId, deckId, nowSec, i + 1, '']);
+      });
+    } finally {
+      insertNote.free();
+      insertCard.free();
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+}
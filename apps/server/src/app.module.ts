@@ -4,15 +4,25 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { VocabularyController } from './vocabulary.controller';
 import { VocabularyService } from './vocabulary.service';
+import { VocabularyEventsService } from './vocabulary-events.service';
 import { DictionaryController } from './dictionary.controller';
 import { DictionaryService } from './dictionary.service';
+import { DictionarySearchService } from './dictionary-search.service';
+import { DictionaryPackController } from './dictionary-pack.controller';
+import { DictionaryPackService } from './dictionary-pack.service';
+import { DictionarySourcesController } from './dictionary-sources.controller';
+import { DictionarySourcesService } from './dictionary-sources.service';
 import { DictionaryWhitelistController } from './dictionary-whitelist.controller';
 import { DictionaryWhitelistService } from './dictionary-whitelist.service';
 import { PrismaService } from './prisma.service';
+import { PresetRegistryService } from './preset-registry.service';
 import { AuthModule } from './auth/auth.module';
 import { AiModule } from './ai/ai.module';
 import { DocumentsModule } from './documents/documents.module';
 import { ReadingProgressModule } from './reading-progress/reading-progress.module';
+import { UserListsModule } from './user-lists/user-lists.module';
+import { PlacementController } from './placement/placement.controller';
+import { PlacementService } from './placement/placement.service';
 
 @Module({
   imports: [
@@ -24,18 +34,28 @@ import { ReadingProgressModule } from './reading-progress/reading-progress.modul
     AiModule,
     DocumentsModule,
     ReadingProgressModule,
+    UserListsModule,
   ],
   controllers: [
     AppController,
     VocabularyController,
     DictionaryController,
     DictionaryWhitelistController,
+    DictionaryPackController,
+    DictionarySourcesController,
+    PlacementController,
   ],
   providers: [
     AppService,
     VocabularyService,
+    VocabularyEventsService,
     DictionaryService,
+    DictionarySearchService,
+    DictionaryPackService,
+    DictionarySourcesService,
     DictionaryWhitelistService,
+    PresetRegistryService,
+    PlacementService,
     PrismaService,
   ],
 })
@@ -0,0 +1,110 @@
+import {
+  attachExamples,
+  parseTatoebaLine,
+  parseWiktextractLine,
+  pickExamples,
+  pushCandidate,
+  scoreExample,
+  type ScoredExample,
+} from './dictionary-examples';
+
+describe('parseTatoebaLine', () => {
+  it('认官网四列句对和两列 英文\\t中文', () => {
+    expect(parseTatoebaLine('1276\tLet me try it.\t5091\t让我试试。')).toEqual({
+      text: 'Let me try it.',
+      translation: '让我试试。',
+    });
+    expect(parseTatoebaLine('I am hungry.\t我饿了。')).toEqual({
+      text: 'I am hungry.',
+      translation: '我饿了。',
+    });
+  });
+
+  it('第二列不是中文就只留英文，英文为空丢掉', () => {
+    expect(parseTatoebaLine('I am hungry.\tJ’ai faim.')).toEqual({ text: 'I am hungry.' });
+    expect(parseTatoebaLine('\t我饿了。')).toBeNull();
+  });
+});
+
+describe('parseWiktextractLine', () => {
+  it('取英语词条的例句，跳过书证，词性换成中式缩写', () => {
+    const line = JSON.stringify({
+      word: 'Borrow',
+      pos: 'verb',
+      lang_code: 'en',
+      senses: [
+        {
+          examples: [
+            { text: 'Can I borrow your pen?' },
+            { text: 'Long quoted passage.', type: 'quotation' },
+          ],
+        },
+      ],
+    });
+    expect(parseWiktextractLine(line)).toEqual({
+      word: 'borrow',
+      pos: 'v.',
+      examples: [{ text: 'Can I borrow your pen?', pos: 'v.' }],
+    });
+  });
+
+  it('非英语、没有例句、坏 JSON 返回 null', () => {
+    expect(
+      parseWiktextractLine(
+        JSON.stringify({ word: 'livre', lang_code: 'fr', senses: [{ examples: [{ text: 'x' }] }] }),
+      ),
+    ).toBeNull();
+    expect(parseWiktextractLine(JSON.stringify({ word: 'x', senses: [{}] }))).toBeNull();
+    expect(parseWiktextractLine('{oops')).toBeNull();
+  });
+});
+
+describe('scoreExample', () => {
+  const head = new Set(['borrow', 'borrowed']);
+  const known = new Set(['i', 'can', 'your', 'pen', 'she', 'a', 'book', 'from', 'the', 'library']);
+
+  it('8–14 个词满分，短句扣分', () => {
+    expect(scoreExample('She borrowed a book from the library.', head, known)).toBe(90);
+    expect(scoreExample('Can I borrow your pen?', head, known)).toBe(70);
+  });
+
+  it('太短、不成句、不含目标词、生词太多都不收', () => {
+    expect(scoreExample('Borrow it.', head, known)).toBe(0);
+    expect(scoreExample('she borrowed a book from the library', head, known)).toBe(0);
+    expect(scoreExample('Can I use your pen?', head, known)).toBe(0);
+    expect(scoreExample('She borrowed an antiquarian folio.', head, known)).toBe(0);
+  });
+});
+
+describe('pushCandidate / pickExamples', () => {
+  it('候选池按分数截断并去重，挑选时有译文的优先', () => {
+    const pool: ScoredExample[] = [];
+    pushCandidate(pool, { text: 'A.', score: 50 }, 2);
+    pushCandidate(pool, { text: 'B.', score: 90 }, 2);
+    pushCandidate(pool, { text: 'b.', score: 95 }, 2);
+    pushCandidate(pool, { text: 'C.', score: 70, translation: '丙。' }, 2);
+    pushCandidate(pool, { text: 'D.', score: 10 }, 2);
+    expect(pool.map((c) => c.text)).toEqual(['B.', 'C.']);
+    expect(pickExamples(pool, 2).map((c) => c.text)).toEqual(['C.', 'B.']);
+  });
+});
+
+describe('attachExamples', () => {
+  it('带词性的挂到同词性第一个义项（verb 认 vt.），否则挂第一个义项；译文下标对齐', () => {
+    const entries = [
+      { pos: 'n.', senses: [{ glosses: ['a loan'], examples: ['Old one.'] }] },
+      { pos: 'vt.', senses: [{ glosses: ['to take'], examples: [] }] },
+    ];
+    const out = attachExamples(entries, [
+      { text: 'Can I borrow it?', pos: 'v.' },
+      { text: 'It was a borrow.', translation: '那是借的。' },
+    ]);
+    expect(out[0].senses[0]).toEqual({
+      glosses: ['a loan'],
+      examples: ['Old one.', 'It was a borrow.'],
+      exampleTranslations: ['', '那是借的。'],
+    });
+    expect(out[1].senses[0].examples).toEqual(['Can I borrow it?']);
+    expect(entries[1].senses[0].examples).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * 词典构建期的例句挑选（ADR 0038）：从离线语料里给词条配短例句，
+ * 语料文件由 scripts/build-dictionary.ts 读进来。
+ *
+ * 语料来源：
+ *   - Tatoeba 句对 TSV：`eng_id \t 英文 \t cmn_id \t 中文`（官网导出格式），或两列 `英文 \t 中文`
+ *   - Wiktextract JSONL：每行一个词条，senses[].examples[].text 是例句，带 pos
+ */
+import { normalizeForm, sentenceForms } from './documents/concordance';
+
+/** 每个词条默认最多挂几句 */
+export const DEFAULT_EXAMPLES_PER_WORD = 3;
+
+/** 词卡上一眼读完：4–20 个词、160 字符以内 */
+export const MIN_EXAMPLE_WORDS = 4;
+export const MAX_EXAMPLE_WORDS = 20;
+export const MAX_EXAMPLE_CHARS = 160;
+
+/** 除目标词以外，至少这么多比例的词得在"简单词表"里，否则例句比词本身还难 */
+export const MIN_KNOWN_RATIO = 0.9;
+
+export interface CorpusExample {
+  text: string;
+  translation?: string;
+  /** 只有 Wiktextract 带，已换成我们的词性缩写 */
+  pos?: string;
+}
+
+export interface ScoredExample extends CorpusExample {
+  score: number;
+}
+
+export interface WiktextractExamples {
+  word: string;
+  pos?: string;
+  examples: CorpusExample[];
+}
+
+interface BuildSense {
+  glosses: string[];
+  examples: string[];
+  exampleTranslations?: string[];
+}
+
+interface BuildEntry {
+  pos: string;
+  senses: BuildSense[];
+}
+
+/** Wiktextract 的词性名 → build-dictionary 的中式缩写 */
+const WIKTEXTRACT_POS: Record<string, string> = {
+  noun: 'n.',
+  verb: 'v.',
+  adj: 'a.',
+  adv: 'adv.',
+  prep: 'prep.',
+  pron: 'pron.',
+  conj: 'conj.',
+  intj: 'interj.',
+  num: 'num.',
+  article: 'art.',
+};
+
+const CJK_RE = /[一-鿿]/;
+
+/** ECDICT 把动词细分成 vt. / vi.，Wiktextract 只有 verb */
+function samePos(entryPos: string, examplePos: string): boolean {
+  return entryPos === examplePos || (examplePos === 'v.' && /^v[ti]\.$/.test(entryPos));
+}
+
+/** 一行 Tatoeba TSV → 例句；英文为空或中文列不像中文时丢掉译文 */
+export function parseTatoebaLine(line: string): CorpusExample | null {
+  const cols = line.split('\t').map((c) => c.trim());
+  const [text, translation] = cols.length >= 4 ? [cols[1], cols[3]] : [cols[0], cols[1]];
+  if (!text) return null;
+  return translation && CJK_RE.test(translation) ? { text, translation } : { text };
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/** 一行 Wiktextract JSONL → 英语词条的例句；非英语、没有例句的返回 null */
+export function parseWiktextractLine(line: string): WiktextractExamples | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  const data = asObject(parsed);
+  if (!data?.word || (data.lang_code && data.lang_code !== 'en')) return null;
+
+  const pos: string | undefined =
+    typeof data.pos === 'string' ? WIKTEXTRACT_POS[data.pos] : undefined;
+  const examples: CorpusExample[] = [];
+  for (const sense of asArray(data.senses)) {
+    for (const ex of asArray(asObject(sense)?.examples).map(asObject)) {
+      // type 为 quotation 的是带出处的书证，通常又长又古旧
+      if (typeof ex?.text !== 'string' || ex.type === 'quotation') continue;
+      const translation = [ex.translation, ex.english].find(
+        (t): t is string => typeof t === 'string' && CJK_RE.test(t),
+      );
+      examples.push(translation ? { text: ex.text, translation, pos } : { text: ex.text, pos });
+    }
+  }
+  if (examples.length === 0) return null;
+  return { word: normalizeForm(String(data.word)), pos, examples };
+}
+
+/**
+ * 例句分 0–100，0 表示不收。
+ * 长度、句形不合格直接 0；目标词以外的生词太多（超出 knownWords）也是 0；
+ * 8–14 个词满分，两侧扣分。headForms 是目标词及其变形（规整后）。
+ */
+export function scoreExample(
+  text: string,
+  headForms: Set<string>,
+  knownWords: Set<string>,
+): number {
+  if (text.length > MAX_EXAMPLE_CHARS) return 0;
+  if (!/^["'“‘]?[A-Z]/.test(text) || !/[.!?]["'”’]?$/.test(text)) return 0;
+
+  const forms = sentenceForms(text);
+  if (forms.length < MIN_EXAMPLE_WORDS || forms.length > MAX_EXAMPLE_WORDS) return 0;
+  if (!forms.some((f) => headForms.has(f))) return 0;
+
+  const others = forms.filter((f) => !headForms.has(f));
+  const known = others.filter((f) => knownWords.has(f)).length;
+  if (others.length > 0 && known / others.length < MIN_KNOWN_RATIO) return 0;
+
+  let score = 100;
+  if (forms.length < 8) score -= (8 - forms.length) * 10;
+  if (forms.length > 14) score -= (forms.length - 14) * 5;
+  if (/\d/.test(text)) score -= 20;
+  return Math.max(0, score);
+}
+
+/**
+ * 候选池插入：按分数保留前 cap 条，防止 the / be 这种词把所有句子都攒进内存。
+ * 同一句（忽略大小写）只留一份。
+ */
+export function pushCandidate(pool: ScoredExample[], candidate: ScoredExample, cap: number): void {
+  const key = candidate.text.toLowerCase();
+  if (pool.some((c) => c.text.toLowerCase() === key)) return;
+  if (pool.length >= cap && pool[pool.length - 1].score >= candidate.score) return;
+  const at = pool.findIndex((c) => c.score < candidate.score);
+  pool.splice(at === -1 ? pool.length : at, 0, candidate);
+  if (pool.length > cap) pool.pop();
+}
+
+/** 挑最终例句：有中文译文的优先，其次按分数；同分保持语料顺序 */
+export function pickExamples(pool: ScoredExample[], max: number): ScoredExample[] {
+  return [...pool]
+    .sort((a, b) => Number(!!b.translation) - Number(!!a.translation) || b.score - a.score)
+    .slice(0, max);
+}
+
+/**
+ * 把挑好的例句挂到义项上：带词性的挂到同词性的第一个义项，否则挂第一个义项。
+ * exampleTranslations 与 examples 下标对齐，没有译文的位置是空串。不修改入参。
+ */
+export function attachExamples<T extends BuildEntry>(entries: T[], picked: CorpusExample[]): T[] {
+  const out = entries.map((e) => ({
+    ...e,
+    senses: e.senses.map((s) => ({
+      ...s,
+      examples: [...s.examples],
+      exampleTranslations: s.exampleTranslations
+        ? [...s.exampleTranslations]
+        : s.examples.map(() => ''),
+    })),
+  }));
+  for (const ex of picked) {
+    const entry = out.find((e) => ex.pos && samePos(e.pos, ex.pos)) ?? out[0];
+    const sense = entry?.senses[0];
+    if (!sense) continue;
+    sense.examples.push(ex.text);
+    sense.exampleTranslations.push(ex.translation ?? '');
+  }
+  return out;
+}
@@ -0,0 +1,28 @@
+import { Controller, Get, Header, Param, StreamableFile } from '@nestjs/common';
+import type { DefinitionsPackManifest } from 'shared-types';
+import { DictionaryPackService } from './dictionary-pack.service';
+
+/**
+ * 离线释义包接口（公开，不需要登录，ADR 0040）。
+ * 和白名单一样单独一个 path，避开 DictionaryController 的 :word 路由和 JwtAuthGuard。
+ */
+@Controller('api/v1/dictionary-pack')
+export class DictionaryPackController {
+  constructor(private readonly service: DictionaryPackService) {}
+
+  // manifest 很小，扩展每次检查更新都拉；短缓存即可
+  @Get('manifest')
+  @Header('Cache-Control', 'public, max-age=300')
+  getManifest(): Promise<DefinitionsPackManifest> {
+    return this.service.getManifest();
+  }
+
+  // 按内容 hash 寻址，内容永不改变，可以长期缓存；浏览器 fetch 会自动解 gzip
+  @Get('chunks/:hash')
+  @Header('Content-Type', 'application/json')
+  @Header('Content-Encoding', 'gzip')
+  @Header('Cache-Control', 'public, max-age=31536000, immutable')
+  async getChunk(@Param('hash') hash: string): Promise<StreamableFile> {
+    return new StreamableFile(await this.service.getChunk(hash));
+  }
+}
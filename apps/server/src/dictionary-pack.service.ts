@@ -0,0 +1,115 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import type { DefinitionsPackFamily, DefinitionsPackManifest, TagInfo } from 'shared-types';
+import { PrismaService } from './prisma.service';
+import { DictionaryWhitelistService } from './dictionary-whitelist.service';
+import { parsePresetFile } from './preset-registry';
+import { buildPackChunks, buildPackManifest, pickPackRoots, toPackEntry } from './dictionary-pack';
+
+/** 选词族用的词频表 */
+const FREQUENCY_FILE = 'coca20000.json';
+
+/** 查库时每批多少个词 / 词族，避免 IN 列表过长 */
+const QUERY_CHUNK = 2_000;
+
+interface BuiltPack {
+  manifest: DefinitionsPackManifest;
+  /** 块 hash → gzip 后的 JSON */
+  bodies: Map<string, Buffer>;
+}
+
+/**
+ * 离线释义包（ADR 0040）。第一次请求时从库里建好、gzip 后常驻内存，
+ * 进程生命周期内不再变；词典重新 seed 后重启服务即可。
+ */
+@Injectable()
+export class DictionaryPackService {
+  private readonly logger = new Logger(DictionaryPackService.name);
+  private building: Promise<BuiltPack> | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly whitelist: DictionaryWhitelistService,
+  ) {}
+
+  async getManifest(): Promise<DefinitionsPackManifest> {
+    return (await this.getPack()).manifest;
+  }
+
+  async getChunk(hash: string): Promise<Buffer> {
+    const body = (await this.getPack()).bodies.get(hash);
+    if (!body) {
+      throw new NotFoundException('释义包分块不存在或已过期，请重新获取 manifest');
+    }
+    return body;
+  }
+
+  private getPack(): Promise<BuiltPack> {
+    if (!this.building) {
+      this.building = this.build().catch((err) => {
+        // 失败不缓存，下次请求重建
+        this.building = null;
+        throw err;
+      });
+    }
+    return this.building;
+  }
+
+  private async build(): Promise<BuiltPack> {
+    const started = Date.now();
+    const raw = readFileSync(join(__dirname, 'data', FREQUENCY_FILE), 'utf-8');
+    const frequency = parsePresetFile(JSON.parse(raw))?.words ?? [];
+
+    const rootOf = new Map<string, string>();
+    for (let i = 0; i < frequency.length; i += QUERY_CHUNK) {
+      const words = await this.prisma.word.findMany({
+        where: { text: { in: frequency.slice(i, i + QUERY_CHUNK) } },
+        select: { text: true, family: { select: { rootWord: true } } },
+      });
+      for (const w of words) rootOf.set(w.text, w.family.rootWord);
+    }
+    const roots = pickPackRoots(frequency, rootOf);
+
+    const families: DefinitionsPackFamily[] = [];
+    for (let i = 0; i < roots.length; i += QUERY_CHUNK) {
+      const slice = roots.slice(i, i + QUERY_CHUNK);
+      const [entries, familyRows] = await Promise.all([
+        this.prisma.dictionaryEntry.findMany({
+          where: { word: { in: slice } },
+          include: { entries: { include: { senses: true }, orderBy: { id: 'asc' } } },
+        }),
+        this.prisma.wordFamily.findMany({
+          where: { rootWord: { in: slice } },
+          select: {
+            rootWord: true,
+            words: { select: { text: true } },
+            tags: { select: { id: true, key: true, name: true, description: true } },
+          },
+        }),
+      ]);
+      const entryOf = new Map(entries.map((e) => [e.word, e]));
+      for (const f of familyRows) {
+        const entry = entryOf.get(f.rootWord);
+        // 词根没有词条的词族不进包，本地查不到会照常走网络
+        if (!entry) continue;
+        families.push({
+          root: f.rootWord,
+          words: f.words.map((w) => w.text).sort(),
+          entry: toPackEntry(entry, f.tags as TagInfo[]),
+        });
+      }
+    }
+
+    const chunks = buildPackChunks(families);
+    const manifest = buildPackManifest(this.whitelist.getSnapshot().version, chunks);
+    const bodies = new Map(chunks.map((c) => [c.hash, gzipSync(JSON.stringify(c))]));
+
+    const bytes = [...bodies.values()].reduce((n, b) => n + b.length, 0);
+    this.logger.log(
+      `释义包构建完成：${manifest.familyCount} 个词族，${chunks.length} 块，gzip 后 ${Math.round(bytes / 1024)} KB，耗时 ${Date.now() - started} ms`,
+    );
+    return { manifest, bodies };
+  }
+}
@@ -0,0 +1,149 @@
+import type { DefinitionsPackFamily } from 'shared-types';
+import {
+  buildPackChunks,
+  buildPackManifest,
+  chunkIdFor,
+  type PackDictionaryRow,
+  pickPackRoots,
+  toPackEntry,
+} from './dictionary-pack';
+
+function family(root: string, words: string[] = [root]): DefinitionsPackFamily {
+  return {
+    root,
+    words,
+    entry: {
+      id: 1,
+      word: root,
+      phonetics: [],
+      audio: [],
+      forms: [],
+      entries: [],
+      source: 'db',
+      tags: [],
+    },
+  };
+}
+
+describe('dictionary-pack', () => {
+  it('chunkIdFor 对同一个词根总是落到同一块，且在范围内', () => {
+    expect(chunkIdFor('invade')).toBe(chunkIdFor('invade'));
+    for (const root of ['a', 'run', 'settle', 'give up']) {
+      const id = chunkIdFor(root, 8);
+      expect(id).toBeGreaterThanOrEqual(0);
+      expect(id).toBeLessThan(8);
+    }
+  });
+
+  it('pickPackRoots 按词频顺序归并到词根、去重并截断', () => {
+    const rootOf = new Map([
+      ['running', 'run'],
+      ['run', 'run'],
+      ['ran', 'run'],
+      ['settle', 'settle'],
+      ['invade', 'invade'],
+    ]);
+    expect(pickPackRoots(['running', 'xyzzy', 'ran', 'settle', 'invade'], rootOf)).toEqual([
+      'run',
+      'settle',
+      'invade',
+    ]);
+    expect(pickPackRoots(['running', 'settle', 'invade'], rootOf, 2)).toEqual(['run', 'settle']);
+  });
+
+  it('pickPackRoots 只认系统词族，拆出的个人词族不会成为词根', () => {
+    // 拆出 generally 后库里多了 rootWord 为 generally 的空词族，但 Word 行仍挂在 general 下
+    const rootOf = new Map([
+      ['general', 'general'],
+      ['generally', 'general'],
+    ]);
+    expect(pickPackRoots(['generally', 'general'], rootOf)).toEqual(['general']);
+  });
+
+  it('toPackEntry 去掉内部 id 和审计字段，空的例句翻译不带', () => {
+    const row: PackDictionaryRow = {
+      id: 7,
+      word: 'run',
+      phonetics: ['rʌn'],
+      audio: [],
+      forms: ['ran'],
+      source: 'ECDICT',
+      sourceModel: null,
+      generatedAt: null,
+      reviewedAt: null,
+      createdAt: new Date(),
+      chineseEntriesShort: [{ pos: 'v', definitions: ['跑'] }],
+      entries: [
+        {
+          id: 3,
+          dictionaryEntryId: 7,
+          pos: 'verb',
+          senses: [
+            {
+              id: 9,
+              definitionEntryId: 3,
+              glosses: ['move fast'],
+              examples: ['I run.'],
+              exampleTranslations: [''],
+            },
+            {
+              id: 10,
+              definitionEntryId: 3,
+              glosses: ['manage'],
+              examples: ['She runs it.'],
+              exampleTranslations: ['她管它。'],
+            },
+          ],
+        },
+      ],
+    };
+    const entry = toPackEntry(row, []);
+    expect(entry).toEqual({
+      id: 7,
+      word: 'run',
+      phonetics: ['rʌn'],
+      audio: [],
+      forms: ['ran'],
+      entries: [
+        {
+          pos: 'verb',
+          senses: [
+            { glosses: ['move fast'], examples: ['I run.'] },
+            { glosses: ['manage'], examples: ['She runs it.'], exampleTranslations: ['她管它。'] },
+          ],
+        },
+      ],
+      chineseEntriesShort: [{ pos: 'v', definitions: ['跑'] }],
+      source: 'db',
+      tags: [],
+    });
+    expect(toPackEntry({ ...row, source: 'AI' }, []).source).toBe('ai');
+  });
+
+  it('buildPackChunks 的 hash 与输入顺序无关，只有变了的块 hash 变', () => {
+    const families = ['run', 'settle', 'invade', 'go', 'make', 'take'].map((r) => family(r));
+    const a = buildPackChunks(families, 4);
+    const b = buildPackChunks([...families].reverse(), 4);
+    expect(a.map((c) => c.hash)).toEqual(b.map((c) => c.hash));
+
+    const changed = families.map((f) => (f.root === 'run' ? family('run', ['run', 'ran']) : f));
+    const c = buildPackChunks(changed, 4);
+    const runChunk = chunkIdFor('run', 4);
+    for (const chunk of c) {
+      if (chunk.id === runChunk) expect(chunk.hash).not.toBe(a[chunk.id].hash);
+      else expect(chunk.hash).toBe(a[chunk.id].hash);
+    }
+  });
+
+  it('buildPackManifest 汇总词族数，白名单或任一块变了 version 都变', () => {
+    const chunks = buildPackChunks([family('run'), family('go')], 4);
+    const manifest = buildPackManifest('w1', chunks);
+    expect(manifest.familyCount).toBe(2);
+    expect(manifest.chunks).toHaveLength(4);
+    expect(manifest.chunks.every((c) => !('families' in c))).toBe(true);
+    expect(buildPackManifest('w1', chunks).version).toBe(manifest.version);
+    expect(buildPackManifest('w2', chunks).version).not.toBe(manifest.version);
+    const other = buildPackChunks([family('run'), family('went')], 4);
+    expect(buildPackManifest('w1', other).version).not.toBe(manifest.version);
+  });
+});
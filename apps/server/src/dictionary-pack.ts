@@ -0,0 +1,118 @@
+/**
+ * 离线释义包（ADR 0040）：选词族、分块、算指纹，压缩在 DictionaryPackService。
+ *
+ * 分块按词根的 FNV-1a 哈希取模，和词频无关：某个词条改了只影响它所在的那一块，
+ * 扩展端按块 hash 对比，只重下变了的块。
+ */
+import { createHash } from 'crypto';
+import type { Prisma } from '../generated/prisma';
+import type {
+  DefinitionsPackChunk,
+  DefinitionsPackFamily,
+  DefinitionsPackManifest,
+  DictionaryEntry,
+  TagInfo,
+} from 'shared-types';
+
+/** 建包时查出的词条，带词性和义项 */
+export type PackDictionaryRow = Prisma.DictionaryEntryGetPayload<{
+  include: { entries: { include: { senses: true } } };
+}>;
+
+/** 包里最多收多少个词族（按 COCA 词频取前 N） */
+export const PACK_FAMILY_LIMIT = 20_000;
+
+/** 分块数：每块几百个词族，压缩后几十 KB */
+export const PACK_CHUNK_COUNT = 32;
+
+/** 32 位 FNV-1a，跨进程 / 跨版本稳定 */
+export function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function chunkIdFor(root: string, chunkCount = PACK_CHUNK_COUNT): number {
+  return fnv1a(root) % chunkCount;
+}
+
+function sha1(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 12);
+}
+
+/**
+ * 按词频表顺序把词映射到词根并去重，取前 limit 个。
+ * rootOf 里没有的词（不在系统词表里）跳过。
+ */
+export function pickPackRoots(
+  frequency: string[],
+  rootOf: Map<string, string>,
+  limit = PACK_FAMILY_LIMIT,
+): string[] {
+  const roots: string[] = [];
+  const seen = new Set<string>();
+  for (const word of frequency) {
+    const root = rootOf.get(word);
+    if (!root || seen.has(root)) continue;
+    seen.add(root);
+    roots.push(root);
+    if (roots.length >= limit) break;
+  }
+  return roots;
+}
+
+/**
+ * 数据库词条 → 包里的精简词条：去掉各层自增 id 和审计字段，只留词卡要用的。
+ * 顶层 id 保留，词卡靠 id !== -1 判断是不是正式词条。
+ */
+export function toPackEntry(row: PackDictionaryRow, tags: TagInfo[]): DictionaryEntry {
+  return {
+    id: row.id,
+    word: row.word,
+    phonetics: row.phonetics,
+    audio: row.audio,
+    forms: row.forms,
+    entries: row.entries.map((e) => ({
+      pos: e.pos,
+      senses: e.senses.map((s) => ({
+        glosses: s.glosses,
+        examples: s.examples,
+        ...(s.exampleTranslations.some(Boolean)
+          ? { exampleTranslations: s.exampleTranslations }
+          : {}),
+      })),
+    })),
+    chineseEntriesShort: row.chineseEntriesShort ?? undefined,
+    source: row.source === 'AI' ? 'ai' : 'db',
+    tags,
+  };
+}
+
+/** 词族按块分组；块内按词根排序，保证同样的数据算出同样的 hash */
+export function buildPackChunks(
+  families: DefinitionsPackFamily[],
+  chunkCount = PACK_CHUNK_COUNT,
+): DefinitionsPackChunk[] {
+  const groups: DefinitionsPackFamily[][] = Array.from({ length: chunkCount }, () => []);
+  for (const f of families) groups[chunkIdFor(f.root, chunkCount)].push(f);
+
+  return groups.map((group, id) => {
+    const sorted = [...group].sort((a, b) => (a.root < b.root ? -1 : a.root > b.root ? 1 : 0));
+    return { id, hash: sha1(JSON.stringify(sorted)), families: sorted };
+  });
+}
+
+export function buildPackManifest(
+  whitelistVersion: string,
+  chunks: DefinitionsPackChunk[],
+): DefinitionsPackManifest {
+  return {
+    version: sha1([whitelistVersion, ...chunks.map((c) => c.hash)].join(':')),
+    whitelistVersion,
+    familyCount: chunks.reduce((n, c) => n + c.families.length, 0),
+    chunks: chunks.map((c) => ({ id: c.id, hash: c.hash, familyCount: c.families.length })),
+  };
+}
@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { DictionarySearchResponse, DictionarySearchResult } from 'shared-types';
+import { PrismaService } from './prisma.service';
+import { DictionaryWhitelistService } from './dictionary-whitelist.service';
+import { parsePresetFile } from './preset-registry';
+import type { Prisma } from '../generated/prisma';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  buildSearchIndex,
+  isChineseQuery,
+  normalizeQuery,
+  prefixMatches,
+  rankReverseMatches,
+  spellingSuggestions,
+  summarizeChinese,
+  type SearchIndex,
+} from './dictionary-search';
+
+/** 排序用的词频表 */
+const FREQUENCY_FILE = 'coca20000.json';
+
+/** 中文反查先从库里粗筛多少条，再在内存里精排 */
+const REVERSE_CANDIDATE_LIMIT = 1_000;
+
+type ChineseRow = { word: string; chineseEntriesShort: Prisma.JsonValue };
+
+/**
+ * 词典搜索（ADR 0039）：英文走白名单（前缀补全，没有前缀命中时给拼写纠错），
+ * 中文走 chineseEntriesShort 反查。索引第一次搜索时才建，白名单服务那时已经初始化。
+ */
+@Injectable()
+export class DictionarySearchService {
+  private readonly logger = new Logger(DictionarySearchService.name);
+  private index: SearchIndex | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly whitelist: DictionaryWhitelistService,
+  ) {}
+
+  async search(rawQuery: string, limit = DEFAULT_SEARCH_LIMIT): Promise<DictionarySearchResponse> {
+    const query = normalizeQuery(rawQuery);
+    const take = Math.min(Math.max(limit, 1), MAX_SEARCH_LIMIT);
+    if (!query) return { query, mode: 'prefix', results: [] };
+
+    if (isChineseQuery(query)) {
+      return { query, mode: 'reverse', results: await this.reverseLookup(query, take) };
+    }
+
+    const index = this.getIndex();
+    const prefix = prefixMatches(index, query, take);
+    if (prefix.length > 0) {
+      return {
+        query,
+        mode: 'prefix',
+        results: await this.withSummaries(prefix.map((word) => ({ word }))),
+      };
+    }
+    const fuzzy = spellingSuggestions(index, query, take);
+    return { query, mode: 'fuzzy', results: await this.withSummaries(fuzzy) };
+  }
+
+  private getIndex(): SearchIndex {
+    if (!this.index) {
+      const snapshot = this.whitelist.getSnapshot();
+      const raw = readFileSync(join(__dirname, 'data', FREQUENCY_FILE), 'utf-8');
+      const frequency = parsePresetFile(JSON.parse(raw))?.words ?? [];
+      this.index = buildSearchIndex([...snapshot.words, ...snapshot.phrases], frequency);
+      this.logger.log(
+        `搜索索引：${this.index.sorted.length} 个词条，词频表 ${frequency.length} 个词`,
+      );
+    }
+    return this.index;
+  }
+
+  /** LIKE 在 jsonb 文本上粗筛，精确的匹配程度和排序交给 rankReverseMatches */
+  private async reverseLookup(query: string, take: number): Promise<DictionarySearchResult[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    const rows: ChineseRow[] = await this.prisma.$queryRaw`
+      SELECT "word", "chineseEntriesShort"
+      FROM "dictionary_entries"
+      WHERE "chineseEntriesShort"::text LIKE ${pattern}
+      LIMIT ${REVERSE_CANDIDATE_LIMIT}
+    `;
+    const byWord = new Map(rows.map((r) => [r.word, r]));
+    return rankReverseMatches(this.getIndex(), rows, query, take).map((word) => ({
+      word,
+      summary: summarizeChinese(byWord.get(word)?.chineseEntriesShort),
+    }));
+  }
+
+  /** 给候选词补一行中文简释；词典里没有词条的词（白名单里的变形）不带 summary */
+  private async withSummaries(
+    results: DictionarySearchResult[],
+  ): Promise<DictionarySearchResult[]> {
+    if (results.length === 0) return results;
+    const rows = await this.prisma.dictionaryEntry.findMany({
+      where: { word: { in: results.map((r) => r.word) } },
+      select: { word: true, chineseEntriesShort: true },
+    });
+    const byWord = new Map(rows.map((r) => [r.word, r.chineseEntriesShort]));
+    return results.map((r) => {
+      const summary = summarizeChinese(byWord.get(r.word));
+      return summary ? { ...r, summary } : r;
+    });
+  }
+}
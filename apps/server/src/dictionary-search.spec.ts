@@ -0,0 +1,96 @@
+import {
+  buildSearchIndex,
+  editDistance,
+  isChineseQuery,
+  normalizeQuery,
+  prefixMatches,
+  rankReverseMatches,
+  reverseMatchLevel,
+  spellingSuggestions,
+  summarizeChinese,
+} from './dictionary-search';
+
+const index = buildSearchIndex(
+  ['receive', 'received', 'recipe', 'recite', 'reception', 'Deceive', 'abandon', 'quit', 'quiet'],
+  ['quit', 'receive', 'quiet', 'the', 'receive', 'abandon', 'recipe'],
+);
+
+describe('normalizeQuery / isChineseQuery', () => {
+  it('trim、折叠空白、转小写；含汉字才走反查', () => {
+    expect(normalizeQuery('  Give   UP ')).toBe('give up');
+    expect(isChineseQuery('放弃')).toBe(true);
+    expect(isChineseQuery('give up')).toBe(false);
+  });
+});
+
+describe('prefixMatches', () => {
+  it('只取白名单里的前缀匹配，按 COCA 词频排，不在 COCA 的按长度', () => {
+    expect(prefixMatches(index, 'rec', 10)).toEqual([
+      'receive',
+      'recipe',
+      'recite',
+      'received',
+      'reception',
+    ]);
+    expect(prefixMatches(index, 'rec', 2)).toEqual(['receive', 'recipe']);
+    expect(prefixMatches(index, 'zzz', 5)).toEqual([]);
+  });
+});
+
+describe('editDistance', () => {
+  it('相邻换位算一步，超上限提前返回 max + 1', () => {
+    expect(editDistance('recieve', 'receive', 2)).toBe(1);
+    expect(editDistance('recive', 'receive', 2)).toBe(1);
+    expect(editDistance('abandon', 'receive', 2)).toBe(3);
+  });
+});
+
+describe('spellingSuggestions', () => {
+  it('距离优先、同距离按词频；短词只容 1 处错', () => {
+    expect(spellingSuggestions(index, 'recieve', 3)).toEqual([
+      { word: 'receive', distance: 1 },
+      { word: 'recipe', distance: 2 },
+      { word: 'recite', distance: 2 },
+    ]);
+    expect(spellingSuggestions(index, 'quti', 5).map((s) => s.word)).toEqual(['quit']);
+  });
+});
+
+describe('reverse lookup', () => {
+  it('完全相同 > 开头 > 包含，括号注释不影响', () => {
+    expect(reverseMatchLevel([{ pos: 'vt.', definitions: ['放弃（权利）', '遗弃'] }], '放弃')).toBe(
+      0,
+    );
+    expect(reverseMatchLevel([{ pos: 'v.', definitions: ['放弃尝试'] }], '放弃')).toBe(1);
+    expect(reverseMatchLevel([{ pos: 'v.', definitions: ['停止', '被迫放弃'] }], '放弃')).toBe(2);
+    expect(reverseMatchLevel([{ pos: 'a.', definitions: ['安静的'] }], '放弃')).toBeNull();
+  });
+
+  it('按匹配程度、再按词频排序，不匹配的丢掉', () => {
+    const rows = [
+      { word: 'abandon', chineseEntriesShort: [{ pos: 'vt.', definitions: ['放弃', '遗弃'] }] },
+      { word: 'quiet', chineseEntriesShort: [{ pos: 'a.', definitions: ['安静的'] }] },
+      { word: 'give up', chineseEntriesShort: [{ pos: 'v.', definitions: ['放弃'] }] },
+      { word: 'quit', chineseEntriesShort: [{ pos: 'v.', definitions: ['停止', '放弃工作'] }] },
+      { word: 'resign', chineseEntriesShort: null },
+    ];
+    expect(rankReverseMatches(index, rows, '放弃', 10)).toEqual(['abandon', 'give up', 'quit']);
+  });
+});
+
+describe('summarizeChinese', () => {
+  it('取第一个有释义的词性的前两条', () => {
+    expect(
+      summarizeChinese([
+        { pos: 'n.', definitions: [] },
+        { pos: 'vt.', definitions: ['接收', '收到', '接待'] },
+      ]),
+    ).toBe('vt. 接收；收到');
+    expect(summarizeChinese(null)).toBeUndefined();
+  });
+
+  it('jsonb 里形状不对的块跳过', () => {
+    expect(summarizeChinese({ pos: 'n.' })).toBeUndefined();
+    expect(summarizeChinese(['x', { pos: 'n.', definitions: [1, '苹果'] }])).toBe('n. 苹果');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * 词典搜索（ADR 0039）：前缀补全、拼写纠错、中文反查的匹配和排序。
+ *
+ * 排序统一按 COCA 词频：rank 越小越常用，不在 COCA 里的词排在后面（按长度、字母序）。
+ */
+import type { ChineseShortBlock } from './ai-dictionary';
+
+/** 单次返回条数的默认值和上限 */
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 30;
+
+/** 查询串最长多少字符，超出的直接截断 */
+export const MAX_QUERY_LENGTH = 64;
+
+const CJK_RE = /[一-鿿]/;
+
+export interface SearchIndex {
+  /** 白名单，小写去重后按字母序排好，前缀查找用二分 */
+  sorted: string[];
+  /** 词 → COCA rank（0 起），只含 COCA 里有的词 */
+  rank: Map<string, number>;
+}
+
+export function buildSearchIndex(whitelist: string[], frequency: string[]): SearchIndex {
+  const sorted = [...new Set(whitelist.map((w) => w.trim().toLowerCase()).filter(Boolean))].sort();
+  const rank = new Map<string, number>();
+  frequency.forEach((w, i) => {
+    if (!rank.has(w)) rank.set(w, i);
+  });
+  return { sorted, rank };
+}
+
+/** 查询串规整：trim、折叠空白、转小写、截断 */
+export function normalizeQuery(q: string): string {
+  return q.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_QUERY_LENGTH);
+}
+
+export function isChineseQuery(q: string): boolean {
+  return CJK_RE.test(q);
+}
+
+/** 按词频排序用的比较函数 */
+export function compareByFrequency(index: SearchIndex, a: string, b: string): number {
+  const ra = index.rank.get(a) ?? Infinity;
+  const rb = index.rank.get(b) ?? Infinity;
+  if (ra !== rb) return ra < rb ? -1 : 1;
+  return a.length - b.length || (a < b ? -1 : a > b ? 1 : 0);
+}
+
+/** 白名单里以 prefix 开头的词，按词频排序取前 limit 个 */
+export function prefixMatches(index: SearchIndex, prefix: string, limit: number): string[] {
+  if (!prefix) return [];
+  let lo = 0;
+  let hi = index.sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (index.sorted[mid] < prefix) lo = mid + 1;
+    else hi = mid;
+  }
+  const matches: string[] = [];
+  for (let i = lo; i < index.sorted.length && index.sorted[i].startsWith(prefix); i++) {
+    matches.push(index.sorted[i]);
+  }
+  return matches.sort((a, b) => compareByFrequency(index, a, b)).slice(0, limit);
+}
+
+/**
+ * 带上限的编辑距离（相邻换位算一步，recieve → receive 距离 1）。
+ * 超过 max 时提前返回 max + 1。
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      cur.push(d);
+      if (d < rowMin) rowMin = d;
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** 允许的最大编辑距离：短词只容 1 处错，否则候选太多 */
+export function maxDistanceFor(q: string): number {
+  return q.length <= 4 ? 1 : 2;
+}
+
+/** 拼写纠错候选：距离优先，同距离按词频；只在白名单里找 */
+export function spellingSuggestions(
+  index: SearchIndex,
+  q: string,
+  limit: number,
+): Array<{ word: string; distance: number }> {
+  const max = maxDistanceFor(q);
+  const hits: Array<{ word: string; distance: number }> = [];
+  for (const word of index.sorted) {
+    if (word === q) continue;
+    const distance = editDistance(q, word, max);
+    if (distance <= max) hits.push({ word, distance });
+  }
+  return hits
+    .sort((a, b) => a.distance - b.distance || compareByFrequency(index, a.word, b.word))
+    .slice(0, limit);
+}
+
+/**
+ * 中文反查的匹配程度：0 释义完全相同，1 释义以它开头，2 释义包含它，null 不匹配。
+ * 比较前去掉释义里的括号注释，"放弃（权利）" 也算完全相同。
+ */
+export function reverseMatchLevel(blocks: ChineseShortBlock[], q: string): number | null {
+  let best: number | null = null;
+  for (const block of blocks) {
+    for (const raw of block.definitions ?? []) {
+      const d = raw.replace(/[（(][^）)]*[）)]/g, '').trim();
+      const level = d === q ? 0 : d.startsWith(q) ? 1 : d.includes(q) ? 2 : null;
+      if (level !== null && (best === null || level < best)) best = level;
+    }
+  }
+  return best;
+}
+
+/** chineseEntriesShort 是 jsonb 列，取出来是 unknown；形状不对的块直接跳过 */
+export function toChineseBlocks(value: unknown): ChineseShortBlock[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((block: unknown) => {
+    if (!block || typeof block !== 'object') return [];
+    const { pos, definitions } = block as { pos?: unknown; definitions?: unknown };
+    if (!Array.isArray(definitions)) return [];
+    return [
+      {
+        pos: typeof pos === 'string' ? pos : '',
+        definitions: definitions.filter((d): d is string => typeof d === 'string'),
+      },
+    ];
+  });
+}
+
+/** 中文反查排序：匹配程度优先，其次词频 */
+export function rankReverseMatches(
+  index: SearchIndex,
+  rows: Array<{ word: string; chineseEntriesShort: unknown }>,
+  q: string,
+  limit: number,
+): string[] {
+  const scored: Array<{ word: string; level: number }> = [];
+  for (const row of rows) {
+    const level = reverseMatchLevel(toChineseBlocks(row.chineseEntriesShort), q);
+    if (level !== null) scored.push({ word: row.word, level });
+  }
+  return scored
+    .sort((a, b) => a.level - b.level || compareByFrequency(index, a.word, b.word))
+    .slice(0, limit)
+    .map((s) => s.word);
+}
+
+/** 结果列表里显示的一行简释：第一个词性的前两条 */
+export function summarizeChinese(value: unknown): string | undefined {
+  const first = toChineseBlocks(value).find((b) => b.definitions.length);
+  if (!first) return undefined;
+  return `${first.pos} ${first.definitions.slice(0, 2).join('；')}`;
+}
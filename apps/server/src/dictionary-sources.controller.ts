@@ -0,0 +1,31 @@
+import { Body, Controller, Get, Put, Request, UseGuards } from '@nestjs/common';
+import type { DictionarySourceOrderRequest, DictionarySourcesResponse } from 'shared-types';
+import { JwtAuthGuard } from './auth/guards';
+import { DictionarySourcesService } from './dictionary-sources.service';
+
+/**
+ * 词典来源（ADR 0041）：内置 ECDICT + 导入的第三方词典，以及当前用户的词典顺序。
+ * 单独一个 path，避开 DictionaryController 的 :word 路由。
+ */
+@Controller('api/v1/dictionary-sources')
+@UseGuards(JwtAuthGuard)
+export class DictionarySourcesController {
+  constructor(private readonly service: DictionarySourcesService) {}
+
+  /** 全部词典，按当前用户的顺序排好 */
+  @Get()
+  async list(@Request() req: any): Promise<DictionarySourcesResponse> {
+    const userId: number = req.user.id;
+    return this.service.listSources(userId);
+  }
+
+  /** 整体替换词典顺序；没列出的词典按默认顺序排在后面 */
+  @Put('order')
+  async setOrder(
+    @Request() req: any,
+    @Body() body: DictionarySourceOrderRequest,
+  ): Promise<DictionarySourcesResponse> {
+    const userId: number = req.user.id;
+    return this.service.setOrder(userId, body?.order);
+  }
+}
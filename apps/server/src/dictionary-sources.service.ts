@@ -0,0 +1,138 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import type {
+  DictionarySourceFormat,
+  DictionarySourceInfo,
+  DictionarySourcesResponse,
+  ExternalDefinition,
+} from 'shared-types';
+import { PrismaService } from './prisma.service';
+import { BUILTIN_SOURCE_KEY, normalizeHeadword, orderSources } from './external-dictionary';
+
+const BUILTIN_SOURCE: DictionarySourceInfo = {
+  key: BUILTIN_SOURCE_KEY,
+  name: 'ECDICT',
+  format: 'builtin',
+  entryCount: null,
+};
+
+/** 词典顺序最多记多少个 key，防止乱传 */
+const MAX_ORDER_LENGTH = 50;
+
+type ExternalDictionaryRow = {
+  id: number;
+  key: string;
+  name: string;
+  format: 'STARDICT' | 'CSV' | 'TSV';
+  entryCount: number;
+};
+
+type ExternalEntryRow = { dictionaryId: number; headword: string; definition: string };
+
+/**
+ * 多来源词典（ADR 0041）：列出内置 + 导入的词典、保存用户的词典顺序、
+ * 查词时取第三方词典里的释义。导入本身走 scripts/import-dictionary.ts，不开接口。
+ */
+@Injectable()
+export class DictionarySourcesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async listSources(userId: number): Promise<DictionarySourcesResponse> {
+    const [dictionaries, order] = await Promise.all([
+      this.loadDictionaries(),
+      this.getOrder(userId),
+    ]);
+    const byKey = new Map<string, DictionarySourceInfo>([[BUILTIN_SOURCE_KEY, BUILTIN_SOURCE]]);
+    for (const d of dictionaries) {
+      byKey.set(d.key, {
+        key: d.key,
+        name: d.name,
+        format: d.format.toLowerCase() as DictionarySourceFormat,
+        entryCount: d.entryCount,
+      });
+    }
+    return { sources: orderSources([...byKey.keys()], order).map((key) => byKey.get(key)!) };
+  }
+
+  async setOrder(userId: number, order: unknown): Promise<DictionarySourcesResponse> {
+    if (!Array.isArray(order) || order.some((key) => typeof key !== 'string')) {
+      throw new BadRequestException('order 必须是词典 key 组成的数组');
+    }
+    if (order.length > MAX_ORDER_LENGTH) {
+      throw new BadRequestException(`词典顺序最多 ${MAX_ORDER_LENGTH} 项`);
+    }
+    const dictionaries = await this.loadDictionaries();
+    const available = [BUILTIN_SOURCE_KEY, ...dictionaries.map((d) => d.key)];
+    const unknown = order.filter((key) => !available.includes(key));
+    if (unknown.length > 0) {
+      throw new BadRequestException(`不存在的词典：${unknown.join(', ')}`);
+    }
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { dictionaryOrder: orderSources(available, order) },
+    });
+    return this.listSources(userId);
+  }
+
+  /** 用户的词典顺序（含已删除的 key，交给 orderSources 过滤） */
+  async getOrder(userId: number): Promise<string[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { dictionaryOrder: true },
+    });
+    return user?.dictionaryOrder ?? [];
+  }
+
+  /**
+   * 第三方词典里的释义。words 按优先级排（点到的词形在前、词根在后），
+   * 每本词典只取优先级最高的那条；结果按用户的词典顺序排好。
+   */
+  async findDefinitions(
+    userId: number,
+    words: string[],
+  ): Promise<{ definitions: ExternalDefinition[]; order: string[] }> {
+    const candidates = [...new Set(words.map(normalizeHeadword).filter((w): w is string => !!w))];
+    const [rows, dictionaries, preferred]: [ExternalEntryRow[], ExternalDictionaryRow[], string[]] =
+      await Promise.all([
+        candidates.length === 0
+          ? []
+          : this.prisma.externalDictionaryEntry.findMany({
+              where: { headword: { in: candidates } },
+              select: { dictionaryId: true, headword: true, definition: true },
+            }),
+        this.loadDictionaries(),
+        this.getOrder(userId),
+      ]);
+    const order = orderSources([BUILTIN_SOURCE_KEY, ...dictionaries.map((d) => d.key)], preferred);
+    if (rows.length === 0) return { definitions: [], order };
+
+    const rank = (headword: string) => candidates.indexOf(headword);
+    const best = new Map<number, { headword: string; definition: string }>();
+    for (const row of rows) {
+      const current = best.get(row.dictionaryId);
+      if (!current || rank(row.headword) < rank(current.headword)) best.set(row.dictionaryId, row);
+    }
+
+    const definitions: ExternalDefinition[] = [];
+    const byKey = new Map(dictionaries.map((d) => [d.key, d]));
+    for (const key of order) {
+      const dictionary = byKey.get(key);
+      const hit = dictionary && best.get(dictionary.id);
+      if (dictionary && hit) {
+        definitions.push({
+          source: dictionary.key,
+          sourceName: dictionary.name,
+          headword: hit.headword,
+          definition: hit.definition,
+        });
+      }
+    }
+    return { definitions, order };
+  }
+
+  private loadDictionaries(): Promise<ExternalDictionaryRow[]> {
+    return this.prisma.externalDictionary.findMany({
+      orderBy: { createdAt: 'asc' },
+      select: { id: true, key: true, name: true, format: true, entryCount: true },
+    });
+  }
+}
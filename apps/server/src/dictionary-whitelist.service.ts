@@ -21,6 +21,11 @@ export interface DictionaryWhitelistSnapshot {
   nounInflectionMap: Record<string, string>;
   /** 形容词不规则比较级/最高级→原形（better→good, worst→bad, farthest→far）。 */
   adjInflectionMap: Record<string, string>;
+  /**
+   * 多词词条（phrasal verb / 习语 / 复合名词）原形，单空格分隔，如 "give up"。
+   * 客户端 textProcessor 做最长匹配，词头允许变形（gave up → give up），ADR 0026。
+   */
+  phrases: string[];
 }
 
 @Injectable()
@@ -43,6 +48,12 @@ export class DictionaryWhitelistService implements OnModuleInit {
       throw new Error('adverb-map.json 顶层不是普通对象');
     }
 
+    const phrasesRaw = readFileSync(join(dataDir, 'phrase-whitelist.json'), 'utf-8');
+    const phrases = JSON.parse(phrasesRaw) as string[];
+    if (!Array.isArray(phrases) || phrases.some((p) => typeof p !== 'string' || !p.includes(' '))) {
+      throw new Error('phrase-whitelist.json 必须是多词词条字符串数组');
+    }
+
     const verbRaw = readFileSync(join(dataDir, 'verb-inflection-map.json'), 'utf-8');
     const nounRaw = readFileSync(join(dataDir, 'noun-inflection-map.json'), 'utf-8');
     const adjRaw = readFileSync(join(dataDir, 'adj-inflection-map.json'), 'utf-8');
@@ -67,6 +78,7 @@ export class DictionaryWhitelistService implements OnModuleInit {
       .update(adjRaw)
       .update(pluralOvRaw)
       .update(adjOvRaw)
+      .update(phrasesRaw)
       .digest('hex')
       .slice(0, 12);
 
@@ -77,9 +89,10 @@ export class DictionaryWhitelistService implements OnModuleInit {
       verbInflectionMap,
       nounInflectionMap,
       adjInflectionMap,
+      phrases,
     };
     this.logger.log(
-      `Whitelist 加载完成: ${words.length} 词 + ${Object.keys(adverbMap).length} 副词 + ${Object.keys(verbInflectionMap).length}/${Object.keys(nounInflectionMap).length}/${Object.keys(adjInflectionMap).length} 动/名/形不规则变形, version=${version}`,
+      `Whitelist 加载完成: ${words.length} 词 + ${phrases.length} 短语 + ${Object.keys(adverbMap).length} 副词 + ${Object.keys(verbInflectionMap).length}/${Object.keys(nounInflectionMap).length}/${Object.keys(adjInflectionMap).length} 动/名/形不规则变形, version=${version}`,
     );
   }
 
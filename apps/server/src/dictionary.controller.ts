@@ -1,7 +1,21 @@
-import { Controller, Get, Param, UseGuards, NotFoundException } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  NotFoundException,
+  Request,
+} from '@nestjs/common';
+import type { ConcordanceExamplesResponse } from 'shared-types';
 import { DictionaryService } from './dictionary.service';
+import { DictionarySearchService } from './dictionary-search.service';
+import { DictionarySourcesService } from './dictionary-sources.service';
 import { AiService } from './ai/ai.service';
+import { AiUsageService } from './ai/ai-usage.service';
+import { ConcordanceService } from './documents/concordance.service';
 import { JwtAuthGuard } from './auth/guards';
+import { normalizeAiEntryWord, sanitizeAiChineseEntries } from './ai-dictionary';
 
 @Controller('api/v1/dictionary')
 @UseGuards(JwtAuthGuard)
@@ -9,15 +23,76 @@ export class DictionaryController {
   constructor(
     private readonly dictionaryService: DictionaryService,
     private readonly aiService: AiService,
+    private readonly aiUsage: AiUsageService,
+    private readonly concordanceService: ConcordanceService,
+    private readonly searchService: DictionarySearchService,
+    private readonly sourcesService: DictionarySourcesService,
   ) {}
 
+  // 搜索框（ADR 0039）：英文前缀补全 / 拼写纠错，中文反查。
+  // 必须声明在 :word 之前；不带 q 时当成查 "search" 这个词，不抢 :word 的路由
+  @Get('search')
+  async search(@Request() req, @Query('q') q?: string, @Query('limit') limit?: string) {
+    if (q === undefined) {
+      return this.getWordDefinition(req, 'search');
+    }
+    const parsed = limit ? parseInt(limit, 10) : undefined;
+    return this.searchService.search(q, parsed && parsed > 0 ? parsed : undefined);
+  }
+
+  // 词族例句（ADR 0037）：来自预置书和当前用户上传的文档，按质量分排序
+  @Get(':word/examples')
+  async getWordExamples(
+    @Request() req,
+    @Param('word') word: string,
+    @Query('limit') limit?: string,
+  ): Promise<ConcordanceExamplesResponse> {
+    const parsed = limit ? parseInt(limit, 10) : undefined;
+    return this.concordanceService.findExamples(
+      req.user.id,
+      word,
+      parsed && parsed > 0 ? parsed : undefined,
+    );
+  }
+
   @Get(':word')
-  async getWordDefinition(@Param('word') word: string) {
+  async getWordDefinition(@Request() req, @Param('word') word: string) {
+    let entry;
+    try {
+      entry = await this.findDefinition(req, word);
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) throw error;
+      // 内置词典和 AI 都没有，第三方词典有的照样返回，内置部分留空
+      const { definitions, order } = await this.sourcesService.findDefinitions(req.user.id, [word]);
+      if (definitions.length === 0) throw error;
+      return {
+        id: -1,
+        word,
+        phonetics: [],
+        audio: [],
+        forms: [],
+        entries: [],
+        chineseEntriesShort: [],
+        source: 'external',
+        externalDefinitions: definitions,
+        dictionaryOrder: order,
+      };
+    }
+    // 第三方词典（ADR 0041）：点到的词形优先，其次词根；词卡按 dictionaryOrder 排 tab
+    const { definitions, order } = await this.sourcesService.findDefinitions(req.user.id, [
+      word,
+      entry.word,
+    ]);
+    return { ...entry, externalDefinitions: definitions, dictionaryOrder: order };
+  }
+
+  /** 内置词典：数据库优先，未命中时 AI 兜底 */
+  private async findDefinition(req, word: string) {
     // 1. 优先从数据库查询
     try {
-      const dbEntry = await this.dictionaryService.findWord(word);
-      // 找到了，返回并标记来源为 'db'
-      return { ...dbEntry, source: 'db' };
+      const dbEntry = await this.dictionaryService.findWord(word, req.user.id);
+      // 找到了，返回并标记来源；之前 AI 兜底落库的词条仍标 'ai'
+      return { ...dbEntry, source: dbEntry.source === 'AI' ? 'ai' : 'db' };
     } catch (dbError) {
       // 数据库未找到，继续尝试 AI 回退
       if (!(dbError instanceof NotFoundException)) {
@@ -26,13 +101,34 @@ export class DictionaryController {
       }
     }
 
-    // 2. 数据库未命中，调用 AI 服务作为回退
+    // 2. 数据库未命中，调用 AI 服务作为回退；限流或当天额度用完时（ADR 0044）不调 AI，
+    //    和词典里查不到一样返回 404，词卡不用区分这两种情况
+    const quota = await this.aiUsage.check(req.user.id);
+    if (!quota.allowed) {
+      throw new NotFoundException(`Word '${word}' not found in DB.`);
+    }
     try {
-      const aiDefinition = await this.aiService.getDefinitionForWord(word);
+      const aiDefinition = await this.aiService.getDefinitionForWord(req.user.id, word);
+      const chineseEntriesShort = sanitizeAiChineseEntries(aiDefinition.chinese_entries_short);
 
       // 如果 AI 返回了有效的释义
-      if (aiDefinition.chinese_entries_short.length > 0) {
-        // 3. 构建一个符合前端期望的 DictionaryEntry-like 对象
+      if (chineseEntriesShort.length > 0) {
+        // 3. 合法的词落库（ADR 0036），下次直接命中数据库；落库失败不影响这次返回
+        const normalized = normalizeAiEntryWord(word);
+        if (normalized) {
+          try {
+            const saved = await this.dictionaryService.saveAiEntry(
+              normalized,
+              chineseEntriesShort,
+              aiDefinition.model ?? 'unknown',
+            );
+            return { ...saved, tags: [], userLists: [], source: 'ai' };
+          } catch (saveError) {
+            console.error(`Failed to persist AI entry for word "${word}":`, saveError);
+          }
+        }
+
+        // 4. 不落库时构建一个符合前端期望的 DictionaryEntry-like 对象
         const aiEntry = {
           id: -1, // 表示非数据库条目
           word: word,
@@ -40,7 +136,7 @@ export class DictionaryController {
           audio: [], // AI 不提供音频
           forms: [], // AI 不提供其他形式
           entries: [], // 英文释义为空
-          chineseEntriesShort: aiDefinition.chinese_entries_short,
+          chineseEntriesShort,
           createdAt: new Date().toISOString(),
           source: 'ai', // 标记来源为 'ai'
         };
@@ -51,7 +147,7 @@ export class DictionaryController {
       console.error(`AI fallback failed for word "${word}":`, aiError);
     }
 
-    // 4. 如果 DB 和 AI 都失败了，才抛出 404
+    // 5. 如果 DB 和 AI 都失败了，才抛出 404
     throw new NotFoundException(`Word '${word}' not found in DB or via AI.`);
   }
 }
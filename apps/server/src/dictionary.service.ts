@@ -1,5 +1,14 @@
 import { Injectable, NotFoundException, Logger } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
+import { ChineseShortBlock } from './ai-dictionary';
+
+const ENTRY_INCLUDE = {
+  entries: {
+    include: {
+      senses: true,
+    },
+  },
+};
 
 @Injectable()
 export class DictionaryService {
@@ -7,7 +16,8 @@ export class DictionaryService {
 
   constructor(private readonly prisma: PrismaService) {}
 
-  async findWord(word: string) {
+  /** 一并返回该用户包含这个词族的自建词单 */
+  async findWord(word: string, userId: number) {
     const searchWord = word.toLowerCase();
 
     // 尝试通过词族表找到词根和标签
@@ -20,6 +30,11 @@ export class DictionaryService {
             tags: {
               select: { id: true, key: true, name: true, description: true },
             },
+            userLists: {
+              where: { userId },
+              orderBy: { name: 'asc' },
+              select: { id: true, name: true },
+            },
           },
         },
       },
@@ -28,26 +43,47 @@ export class DictionaryService {
     // 确定要查询的词（rootWord）和标签
     const queryWord = wordRecord ? wordRecord.family.rootWord : searchWord;
     const tags = wordRecord ? wordRecord.family.tags : [];
+    const userLists = wordRecord ? wordRecord.family.userLists : [];
 
     this.logger.debug(`Querying dictionary for "${queryWord}" with tags: ${tags.map(t => t.name).join(', ')}`);
 
-    // 使用词根或原词查询词典
-    const entry = await this.prisma.dictionaryEntry.findUnique({
-      where: { word: queryWord },
-      include: {
-        entries: {
-          include: {
-            senses: true,
-          },
-        },
-      },
+    // 使用词根或原词查询词典；词根没有词条时再试原词（AI 兜底的词条按原词落库）
+    const candidates = Array.from(new Set([queryWord, searchWord]));
+    const found = await this.prisma.dictionaryEntry.findMany({
+      where: { word: { in: candidates } },
+      include: ENTRY_INCLUDE,
     });
+    const entry = candidates
+      .map((w) => found.find((e) => e.word === w))
+      .find((e) => e !== undefined);
 
     if (!entry) {
       throw new NotFoundException(`Word '${word}' not found in the dictionary.`);
     }
 
-    // 将查询到的 entry 和 tags 组合起来返回
-    return { ...entry, tags };
+    // 将查询到的 entry、tags 和个人词单组合起来返回
+    return { ...entry, tags, userLists };
+  }
+
+  /**
+   * AI 兜底结果落库（ADR 0036），之后同一个词直接命中数据库。
+   * 并发查同一个词时后到的不覆盖，返回已有的那条。
+   */
+  async saveAiEntry(word: string, chineseEntriesShort: ChineseShortBlock[], model: string) {
+    return this.prisma.dictionaryEntry.upsert({
+      where: { word },
+      create: {
+        word,
+        phonetics: [],
+        audio: [],
+        forms: [],
+        chineseEntriesShort: chineseEntriesShort as any,
+        source: 'AI',
+        sourceModel: model,
+        generatedAt: new Date(),
+      },
+      update: {},
+      include: ENTRY_INCLUDE,
+    });
   }
 }
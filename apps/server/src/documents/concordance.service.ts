@@ -0,0 +1,190 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import type {
+  ConcordanceExampleDto,
+  ConcordanceExamplesResponse,
+  DocumentFormat,
+} from 'shared-types';
+import { PrismaService } from '../prisma.service';
+import { readEpubChapters } from './epub-parser';
+import {
+  MAX_EXAMPLES_PER_FAMILY_PER_DOC,
+  MAX_EXAMPLES_PER_REQUEST,
+  chapterSentences,
+  collectExamples,
+  normalizeForm,
+  rankExamples,
+  sentenceForms,
+  txtSentences,
+  type RankableExample,
+  type SentenceSpan,
+} from './concordance';
+
+/** Document.filePath 相对 apps/server，与 DocumentsService 的落盘位置一致 */
+const SERVER_ROOT = resolve(__dirname, '..', '..');
+
+/** 按词形查 Word 表时每批的个数 */
+const WORD_LOOKUP_CHUNK = 5_000;
+
+/**
+ * 例句索引（ADR 0037）。文档上传后异步建索引；启动时补建还没建过的文档
+ * （seed-documents 灌进来的预置书、功能上线前的老文档）。
+ */
+@Injectable()
+export class ConcordanceService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(ConcordanceService.name);
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onApplicationBootstrap(): void {
+    this.enqueue(() => this.indexPending());
+  }
+
+  /** 排进串行队列，不阻塞调用方；大文档建索引比较吃 CPU，一次只跑一个 */
+  scheduleIndex(documentId: number): void {
+    this.enqueue(() => this.indexDocument(documentId));
+  }
+
+  async indexPending(): Promise<void> {
+    const pending = await this.prisma.document.findMany({
+      where: { concordanceIndexedAt: null },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    });
+    if (pending.length > 0) {
+      this.logger.log(`[concordance] 补建 ${pending.length} 个文档的例句索引`);
+    }
+    for (const { id } of pending) {
+      await this.indexDocument(id);
+    }
+  }
+
+  /** 整份重建一个文档的例句；文件丢失 / 解析失败只记日志，不标记已建，下次启动再试 */
+  async indexDocument(documentId: number): Promise<void> {
+    const doc = await this.prisma.document.findUnique({ where: { id: documentId } });
+    if (!doc) return;
+
+    let sentences: SentenceSpan[];
+    try {
+      sentences = await this.readSentences(doc.fileFormat as DocumentFormat, doc.filePath);
+    } catch (err) {
+      this.logger.warn(`[concordance] doc#${documentId} 读取失败：${(err as Error).message}`);
+      return;
+    }
+
+    const familyOf = await this.lookupFamilies(sentences);
+    const rows = collectExamples(sentences, familyOf, MAX_EXAMPLES_PER_FAMILY_PER_DOC);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.concordanceExample.deleteMany({ where: { documentId } });
+      if (rows.length > 0) {
+        await tx.concordanceExample.createMany({
+          data: rows.map((r) => ({ ...r, documentId })),
+        });
+      }
+      await tx.document.update({
+        where: { id: documentId },
+        data: { concordanceIndexedAt: new Date() },
+      });
+    });
+
+    this.logger.log(
+      `[concordance] doc#${documentId} ${sentences.length} 句 → ${rows.length} 条例句`,
+    );
+  }
+
+  /**
+   * 某个词所在词族的例句：只看系统预置文档和该用户自己的文档。
+   * 不在系统词表里的词直接返回空列表。
+   */
+  async findExamples(
+    userId: number,
+    word: string,
+    limit = 5,
+  ): Promise<ConcordanceExamplesResponse> {
+    const text = normalizeForm(word.trim());
+    const record = await this.prisma.word.findUnique({
+      where: { text },
+      select: { family: { select: { id: true, rootWord: true } } },
+    });
+    const family =
+      record?.family ??
+      // 拆出产生的空词族（ADR 0035）不算，它没有例句
+      (await this.prisma.wordFamily.findFirst({
+        where: { rootWord: text, words: { some: {} } },
+        select: { id: true, rootWord: true },
+      }));
+    if (!family) return { word, familyRoot: null, examples: [] };
+
+    const take = Math.min(Math.max(limit, 1), MAX_EXAMPLES_PER_REQUEST);
+    const rows = await this.prisma.concordanceExample.findMany({
+      where: {
+        familyId: family.id,
+        document: { OR: [{ ownerId: userId }, { ownerId: null }] },
+      },
+      orderBy: [{ score: 'desc' }, { id: 'asc' }],
+      // 多取一些给 rankExamples 做去重和按文档打散
+      take: take * 4,
+      include: {
+        document: { select: { title: true, ownerId: true, fileFormat: true } },
+      },
+    });
+
+    const candidates: Array<RankableExample & { example: ConcordanceExampleDto }> = rows.map(
+      (r) => ({
+        documentId: r.documentId,
+        sentence: r.sentence,
+        score: r.score,
+        example: {
+          sentence: r.sentence,
+          surfaceForm: r.surfaceForm,
+          documentId: r.documentId,
+          documentTitle: r.document.title,
+          fileFormat: r.document.fileFormat as DocumentFormat,
+          isPreset: r.document.ownerId === null,
+          locator: r.locator,
+        },
+      }),
+    );
+    const examples = rankExamples(candidates, take).map((c) => c.example);
+    return { word, familyRoot: family.rootWord, examples };
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch((err) => {
+      this.logger.error(`[concordance] 建索引失败：${(err as Error).message}`, err);
+    });
+  }
+
+  private async readSentences(
+    fileFormat: DocumentFormat,
+    filePath: string,
+  ): Promise<SentenceSpan[]> {
+    const fullPath = resolve(SERVER_ROOT, filePath);
+    if (!existsSync(fullPath)) {
+      throw new Error(`文件已丢失：${fullPath}`);
+    }
+    if (fileFormat === 'TXT') {
+      return txtSentences(await readFile(fullPath, 'utf-8'));
+    }
+    const chapters = await readEpubChapters(fullPath);
+    return chapters.flatMap((c) => chapterSentences(c.href, c.text));
+  }
+
+  /** 只查这篇文档里出现过的词形，避免把整张 Word 表读进内存 */
+  private async lookupFamilies(sentences: SentenceSpan[]): Promise<Map<string, number>> {
+    const forms = Array.from(new Set(sentences.flatMap((s) => sentenceForms(s.text))));
+    const familyOf = new Map<string, number>();
+    for (let i = 0; i < forms.length; i += WORD_LOOKUP_CHUNK) {
+      const words = await this.prisma.word.findMany({
+        where: { text: { in: forms.slice(i, i + WORD_LOOKUP_CHUNK) } },
+        select: { text: true, familyId: true },
+      });
+      for (const w of words) familyOf.set(w.text, w.familyId);
+    }
+    return familyOf;
+  }
+}
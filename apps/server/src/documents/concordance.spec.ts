@@ -0,0 +1,128 @@
+import {
+  chapterSentences,
+  collectExamples,
+  rankExamples,
+  scoreSentence,
+  splitSentences,
+  txtSentences,
+} from './concordance';
+
+describe('splitSentences', () => {
+  it('按句末标点切分，带收尾引号，保留段内偏移', () => {
+    const p = 'He left early. "Why?" she asked.  Nobody knew.';
+    expect(splitSentences(p)).toEqual([
+      { text: 'He left early.', offset: 0 },
+      { text: '"Why?" she asked.', offset: 15 },
+      { text: 'Nobody knew.', offset: 34 },
+    ]);
+  });
+
+  it('称谓缩写和小写开头不断句，段内换行折叠成空格', () => {
+    expect(
+      splitSentences('Mr. Smith met Dr. Lee\nat noon. it was e.g. fine.').map((s) => s.text),
+    ).toEqual(['Mr. Smith met Dr. Lee at noon. it was e.g. fine.']);
+  });
+});
+
+describe('txtSentences', () => {
+  it('locator 与移动端 TextReader 的偏移一致：段落 trim、段间按 2 个字符累计', () => {
+    const text = '  First one. Second one.\r\n\r\n\n  Third paragraph here.';
+    const spans = txtSentences(text);
+    expect(spans.map((s) => s.locator)).toEqual(['0:0', '0:11', '0:24']);
+
+    // 用同样的规则重建阅读器里的全文，偏移处正好是句首
+    const readerText = ['First one. Second one.', 'Third paragraph here.'].join('\n\n');
+    for (const s of spans) {
+      const offset = Number(s.locator.split(':')[1]);
+      expect(readerText.slice(offset, offset + s.text.length)).toBe(s.text);
+    }
+  });
+});
+
+describe('chapterSentences', () => {
+  it('EPUB 章节按空行分段，locator 为章节 href', () => {
+    expect(chapterSentences('ch1.xhtml', 'Chapter One\n\nIt began. Then it ended.')).toEqual([
+      { text: 'Chapter One', locator: 'ch1.xhtml' },
+      { text: 'It began.', locator: 'ch1.xhtml' },
+      { text: 'Then it ended.', locator: 'ch1.xhtml' },
+    ]);
+  });
+});
+
+describe('scoreSentence', () => {
+  it('12–20 个词满分，太短 / 太长 / 没有句末标点不收', () => {
+    expect(
+      scoreSentence('The settlers built their first houses along the river in the spring.'),
+    ).toBe(100);
+    expect(scoreSentence('Too short.')).toBe(0);
+    expect(scoreSentence('CHAPTER ONE THE RIVER')).toBe(0);
+    expect(scoreSentence(`${'word '.repeat(45).trim()}.`)).toBe(0);
+  });
+
+  it('短句、全大写、数字和符号扣分', () => {
+    const base = scoreSentence('They settled near the old stone bridge by the river.');
+    expect(base).toBeLessThan(100);
+    expect(scoreSentence('THEY SETTLED NEAR THE OLD STONE BRIDGE BY THE RIVER.')).toBeLessThan(
+      base,
+    );
+    expect(scoreSentence('They settled near the old stone bridge in 1820 today.')).toBeLessThan(
+      100,
+    );
+  });
+});
+
+describe('collectExamples', () => {
+  const familyOf = new Map([
+    ['settle', 1],
+    ['settled', 1],
+    ['settlers', 1],
+    ['river', 2],
+  ]);
+
+  it('按词形归到词族，同一句同一词族只记一次，保留原文写法', () => {
+    const rows = collectExamples(
+      [
+        {
+          text: 'The settlers settled along the river before the first winter came.',
+          locator: '0:0',
+        },
+      ],
+      familyOf,
+    );
+    expect(rows).toEqual([
+      expect.objectContaining({ familyId: 1, surfaceForm: 'settlers', locator: '0:0' }),
+      expect.objectContaining({ familyId: 2, surfaceForm: 'river', locator: '0:0' }),
+    ]);
+  });
+
+  it('每个词族按分数留前 N 句，同分取靠前的；不收的句子跳过', () => {
+    const good = (i: number) => ({
+      text: `Settlers arrived at the river crossing on the morning of day number ${'x'.repeat(i)}.`,
+      locator: `0:${i}`,
+    });
+    const rows = collectExamples(
+      [{ text: 'Settle.', locator: '0:99' }, good(1), good(2), good(3)],
+      familyOf,
+      2,
+    );
+    expect(rows.filter((r) => r.familyId === 1).map((r) => r.locator)).toEqual(['0:1', '0:2']);
+  });
+});
+
+describe('rankExamples', () => {
+  it('分数降序、去重句子，每个文档先占 perDoc 条，不够再补', () => {
+    const rows = [
+      { documentId: 1, sentence: 'A one.', score: 90 },
+      { documentId: 1, sentence: 'A two.', score: 85 },
+      { documentId: 1, sentence: 'A three.', score: 80 },
+      { documentId: 2, sentence: 'B one.', score: 50 },
+      { documentId: 3, sentence: 'a one.', score: 70 },
+    ];
+    expect(rankExamples(rows, 4, 2).map((r) => r.sentence)).toEqual([
+      'A one.',
+      'A two.',
+      'B one.',
+      'A three.',
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * 例句索引（ADR 0037）：切句、打分、挑句、排序，读文件和写库在 ConcordanceService。
+ *
+ * TXT 的 locator 必须和移动端 TextReader 的进度模型一致（"0:<charOffset>"），
+ * 所以段落切分照抄 apps/mobile/src/reader/tokenize.ts 的 splitParagraphs：
+ * 按空行切段、段落 trim、段与段之间按 2 个字符累计偏移。
+ */
+
+/** 每个文档里每个词族最多留几句，防止高频词把表撑爆 */
+export const MAX_EXAMPLES_PER_FAMILY_PER_DOC = 5;
+
+/** 句子长度（词数）窗口：太短没有上下文，太长在词卡里读不完 */
+export const MIN_SENTENCE_WORDS = 5;
+export const MAX_SENTENCE_WORDS = 40;
+export const MAX_SENTENCE_CHARS = 300;
+
+/** 接口返回的条数上限，以及同一文档在前排最多占几条 */
+export const MAX_EXAMPLES_PER_REQUEST = 20;
+export const MAX_EXAMPLES_PER_DOC_IN_RESULT = 2;
+
+/** 与移动端 tokenize 的 word token 同一个正则 */
+const WORD_RE = /\p{Letter}+(?:['’\-]\p{Letter}+)*/gu;
+
+export interface SentenceSpan {
+  text: string;
+  locator: string;
+}
+
+export interface ConcordanceRow {
+  familyId: number;
+  surfaceForm: string;
+  sentence: string;
+  locator: string;
+  score: number;
+}
+
+export interface RankableExample {
+  documentId: number;
+  sentence: string;
+  score: number;
+}
+
+/** 小写 + 弯撇号转直撇号，和 Word.text 的存法一致 */
+export function normalizeForm(token: string): string {
+  return token.toLowerCase().replace(/’/g, "'");
+}
+
+/**
+ * 段内切句：句末标点（可带收尾引号 / 括号）后跟空白再跟大写或引号时断开。
+ * 常见称谓缩写（Mr. / Dr. …）不断。返回句子和它在段内的起点偏移。
+ */
+export function splitSentences(paragraph: string): Array<{ text: string; offset: number }> {
+  const out: Array<{ text: string; offset: number }> = [];
+  const boundary = /[.!?]+["'”’)\]]*(?=\s+["'“‘(\[]?[A-Z0-9])/g;
+  let start = 0;
+  let m: RegExpExecArray | null;
+  while ((m = boundary.exec(paragraph)) !== null) {
+    const end = m.index + m[0].length;
+    if (/\b(?:Mr|Mrs|Ms|Dr|St|Prof|Sr|Jr|vs|etc|e\.g|i\.e)\.$/i.test(paragraph.slice(start, end))) {
+      continue;
+    }
+    pushSentence(out, paragraph, start, end);
+    start = end;
+  }
+  pushSentence(out, paragraph, start, paragraph.length);
+  return out;
+}
+
+function pushSentence(
+  out: Array<{ text: string; offset: number }>,
+  paragraph: string,
+  start: number,
+  end: number,
+) {
+  const raw = paragraph.slice(start, end);
+  const lead = raw.length - raw.trimStart().length;
+  const text = raw.trim().replace(/\s+/g, ' ');
+  if (text) out.push({ text, offset: start + lead });
+}
+
+/** TXT 全文 → 句子，locator 为 "0:<句首在阅读器坐标里的偏移>" */
+export function txtSentences(text: string): SentenceSpan[] {
+  const paragraphs = text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+
+  const out: SentenceSpan[] = [];
+  let base = 0;
+  for (const p of paragraphs) {
+    for (const s of splitSentences(p)) {
+      out.push({ text: s.text, locator: `0:${base + s.offset}` });
+    }
+    base += p.length + 2;
+  }
+  return out;
+}
+
+/** EPUB 章节纯文本 → 句子，locator 为章节 href（epub.js 能直接跳到章节开头） */
+export function chapterSentences(href: string, text: string): SentenceSpan[] {
+  return text
+    .split(/\n\s*\n/)
+    .flatMap((p) => splitSentences(p.trim()))
+    .map((s) => ({ text: s.text, locator: href }));
+}
+
+/** 句子里所有词形（规整后），按出现顺序、不去重 */
+export function sentenceForms(sentence: string): string[] {
+  return (sentence.match(WORD_RE) ?? []).map(normalizeForm);
+}
+
+/**
+ * 句子质量分 0–100，0 表示不收。
+ * 12–20 个词满分，两侧线性扣分；大写字母 / 数字 / 奇怪符号太多（标题、表格、目录）扣分。
+ */
+export function scoreSentence(sentence: string): number {
+  if (sentence.length > MAX_SENTENCE_CHARS) return 0;
+  const words = sentence.match(WORD_RE) ?? [];
+  if (words.length < MIN_SENTENCE_WORDS || words.length > MAX_SENTENCE_WORDS) return 0;
+  if (!/[.!?]["'”’)\]]*$/.test(sentence)) return 0;
+
+  let score = 100;
+  if (words.length < 12) score -= (12 - words.length) * 6;
+  if (words.length > 20) score -= (words.length - 20) * 3;
+
+  const letters = sentence.replace(/[^A-Za-z]/g, '');
+  const upper = letters.replace(/[^A-Z]/g, '').length;
+  if (letters.length > 0 && upper / letters.length > 0.3) score -= 40;
+  if (/\d/.test(sentence)) score -= 10;
+  if (/[|#*_=<>{}\\/@]/.test(sentence)) score -= 30;
+
+  return Math.max(0, score);
+}
+
+/**
+ * 从一个文档的句子里挑例句：每个词族按分数留前 N 句（同分取靠前的），
+ * 同一句里同一词族出现多次只算一次。familyOf 只需要含这篇文档出现过的词形。
+ */
+export function collectExamples(
+  sentences: SentenceSpan[],
+  familyOf: Map<string, number>,
+  perFamily = MAX_EXAMPLES_PER_FAMILY_PER_DOC,
+): ConcordanceRow[] {
+  const byFamily = new Map<number, ConcordanceRow[]>();
+
+  for (const s of sentences) {
+    const score = scoreSentence(s.text);
+    if (score === 0) continue;
+
+    const seen = new Set<number>();
+    for (const raw of s.text.match(WORD_RE) ?? []) {
+      const familyId = familyOf.get(normalizeForm(raw));
+      if (familyId === undefined || seen.has(familyId)) continue;
+      seen.add(familyId);
+
+      const rows = byFamily.get(familyId) ?? [];
+      rows.push({ familyId, surfaceForm: raw, sentence: s.text, locator: s.locator, score });
+      byFamily.set(familyId, rows);
+    }
+  }
+
+  const out: ConcordanceRow[] = [];
+  for (const rows of byFamily.values()) {
+    // sort 是稳定的：同分保持原文顺序
+    out.push(...rows.sort((a, b) => b.score - a.score).slice(0, perFamily));
+  }
+  return out;
+}
+
+/**
+ * 接口返回前的排序：按分数降序、去掉重复句子；先让每个文档最多占 perDoc 条，
+ * 不够 limit 时再用剩下的补齐，避免一本书霸占整张列表。
+ */
+export function rankExamples<T extends RankableExample>(
+  rows: T[],
+  limit: number,
+  perDoc = MAX_EXAMPLES_PER_DOC_IN_RESULT,
+): T[] {
+  const sorted = [...rows].sort((a, b) => b.score - a.score);
+  const seenSentences = new Set<string>();
+  const unique = sorted.filter((r) => {
+    const key = r.sentence.toLowerCase();
+    if (seenSentences.has(key)) return false;
+    seenSentences.add(key);
+    return true;
+  });
+
+  const picked: T[] = [];
+  const rest: T[] = [];
+  const perDocCount = new Map<number, number>();
+  for (const r of unique) {
+    const n = perDocCount.get(r.documentId) ?? 0;
+    if (n < perDoc) {
+      picked.push(r);
+      perDocCount.set(r.documentId, n + 1);
+    } else {
+      rest.push(r);
+    }
+  }
+  return [...picked, ...rest].slice(0, limit);
+}
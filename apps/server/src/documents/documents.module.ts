@@ -1,11 +1,12 @@
 import { Module } from '@nestjs/common';
 import { DocumentsController } from './documents.controller';
 import { DocumentsService } from './documents.service';
+import { ConcordanceService } from './concordance.service';
 import { PrismaService } from '../prisma.service';
 
 @Module({
   controllers: [DocumentsController],
-  providers: [DocumentsService, PrismaService],
-  exports: [DocumentsService],
+  providers: [DocumentsService, ConcordanceService, PrismaService],
+  exports: [DocumentsService, ConcordanceService],
 })
 export class DocumentsModule {}
@@ -17,6 +17,7 @@ import { unlink, writeFile } from 'fs/promises';
 import { join, extname, basename, resolve } from 'path';
 import { randomUUID } from 'crypto';
 import { parseEpubMeta } from './epub-parser';
+import { ConcordanceService } from './concordance.service';
 import type {
   DocumentMeta,
   DocumentFormat,
@@ -36,7 +37,10 @@ const MAX_FILE_BYTES = 50 * 1024 * 1024; // 50MB
 export class DocumentsService implements OnModuleInit {
   private readonly logger = new Logger(DocumentsService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly concordance: ConcordanceService,
+  ) {}
 
   onModuleInit(): void {
     if (!existsSync(STORAGE_ROOT)) {
@@ -50,7 +54,7 @@ export class DocumentsService implements OnModuleInit {
    * 1. 校验扩展名 / 大小
    * 2. 落盘到 STORAGE_ROOT/<uuid>.<ext>
    * 3. EPUB → 抽 title/author/toc；TXT → 用文件名当 title
-   * 4. 入库
+   * 4. 入库，排队建例句索引（ADR 0037）
    */
   async upload(
     userId: number,
@@ -104,6 +108,7 @@ export class DocumentsService implements OnModuleInit {
     this.logger.log(
       `[upload] user=${userId} ${fileFormat} "${title}" → doc#${doc.id}`,
     );
+    this.concordance.scheduleIndex(doc.id);
 
     return this.toMeta(doc);
   }
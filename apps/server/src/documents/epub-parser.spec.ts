@@ -2,7 +2,7 @@ import { promises as fs } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import JSZip from 'jszip';
-import { parseEpubMeta } from './epub-parser';
+import { parseEpubMeta, readEpubChapters } from './epub-parser';
 
 /**
  * 用 jszip 现造一份"最小但完整"的 EPUB（container.xml + OPF + nav.xhtml + 一节 xhtml 占位），
@@ -186,6 +186,44 @@ describe('parseEpubMeta', () => {
     ]);
   });
 
+  it('readEpubChapters：按 spine 顺序读正文纯文本，块级元素之间空行分隔', async () => {
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/epub+zip');
+    zip.file('META-INF/container.xml', buildContainerXml('OPS/content.opf'));
+    zip.file(
+      'OPS/content.opf',
+      `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata/>
+  <manifest>
+    <item id="css" href="style.css" media-type="text/css"/>
+    <item id="ch2" href="text/chap02.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch1" href="text/chap01.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="ch1"/>
+    <itemref idref="css"/>
+    <itemref idref="ch2"/>
+    <itemref idref="missing"/>
+  </spine>
+</package>`,
+    );
+    zip.file(
+      'OPS/text/chap01.xhtml',
+      `<html><head><title>Ignored</title><style>p { margin: 0 }</style></head>
+<body><h1>Chapter&#160;One</h1>
+<p>Tom &amp; Jerry
+  ran.</p><p>They&#x2019;re gone.</p></body></html>`,
+    );
+    zip.file('OPS/text/chap02.xhtml', '<html><body><p>The end.</p></body></html>');
+
+    const path = await writeEpub(zip);
+    expect(await readEpubChapters(path)).toEqual([
+      { href: 'text/chap01.xhtml', text: 'Chapter\u00a0One\n\nTom & Jerry\nran.\n\nThey’re gone.' },
+      { href: 'text/chap02.xhtml', text: 'The end.' },
+    ]);
+  });
+
   it('container.xml 缺失抛错', async () => {
     const zip = new JSZip();
     zip.file('mimetype', 'application/epub+zip');
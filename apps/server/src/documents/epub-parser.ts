@@ -6,7 +6,8 @@
  *   *.opf                   → 元数据 (dc:title / dc:creator) + manifest + spine
  *   nav.xhtml 或 toc.ncx    → 目录树
  *
- * 服务端只读这三处，正文保留在原 .epub 文件里，由移动端 epub.js 直渲（见 ADR 0018）。
+ * 上传时只读这三处，正文保留在原 .epub 文件里，由移动端 epub.js 直渲（见 ADR 0018）。
+ * 例句索引（ADR 0037）另外按 spine 顺序读正文纯文本，见 readEpubChapters。
  */
 import { Open, type CentralDirectory } from 'unzipper';
 import { XMLParser } from 'fast-xml-parser';
@@ -19,6 +20,15 @@ export interface EpubMeta {
   toc?: DocumentTocEntry[];
 }
 
+export interface EpubChapter {
+  /** manifest 里的 href（相对 OPF），epub.js 的 display() 直接认 */
+  href: string;
+  /** 去标签后的纯文本，块级元素之间用空行分隔 */
+  text: string;
+}
+
+type FileMap = Map<string, CentralDirectory['files'][number]>;
+
 const xml = new XMLParser({
   ignoreAttributes: false,
   attributeNamePrefix: '@_',
@@ -27,6 +37,32 @@ const xml = new XMLParser({
 });
 
 export async function parseEpubMeta(filePath: string): Promise<EpubMeta> {
+  const { fileMap, opfDir, pkg, items } = await openPackage(filePath);
+
+  const title = extractText(pickMeta(pkg.metadata, 'title'));
+  const author = extractText(pickMeta(pkg.metadata, 'creator'));
+  const toc = await extractToc(fileMap, opfDir, pkg, items);
+
+  return { title, author, toc };
+}
+
+/** 按 spine 顺序读出各章节纯文本；缺失 / 非 HTML 的条目跳过 */
+export async function readEpubChapters(filePath: string): Promise<EpubChapter[]> {
+  const { fileMap, opfDir, pkg, items } = await openPackage(filePath);
+  const byId = new Map(items.map((i) => [i?.['@_id'], i]));
+
+  const chapters: EpubChapter[] = [];
+  for (const ref of toArray<any>(pkg.spine?.itemref)) {
+    const item = byId.get(ref?.['@_idref']);
+    const href: string | undefined = item?.['@_href'];
+    if (!href || !/html/.test(String(item?.['@_media-type'] ?? 'html'))) continue;
+    const html = await readEntry(fileMap, posix.join(opfDir, href));
+    if (html) chapters.push({ href, text: xhtmlToText(html) });
+  }
+  return chapters;
+}
+
+async function openPackage(filePath: string) {
   const directory = await Open.file(filePath);
   const fileMap = buildFileMap(directory);
 
@@ -53,27 +89,19 @@ export async function parseEpubMeta(filePath: string): Promise<EpubMeta> {
     throw new Error('OPF 根节点不是 <package>');
   }
 
-  const title = extractText(pickMeta(pkg.metadata, 'title'));
-  const author = extractText(pickMeta(pkg.metadata, 'creator'));
-
-  const itemList = toArray<any>(pkg.manifest?.item);
-  const toc = await extractToc(fileMap, opfDir, pkg, itemList);
-
-  return { title, author, toc };
+  const items = toArray<any>(pkg.manifest?.item);
+  return { fileMap, opfDir, pkg, items };
 }
 
-function buildFileMap(directory: CentralDirectory): Map<string, CentralDirectory['files'][number]> {
-  const map = new Map<string, CentralDirectory['files'][number]>();
+function buildFileMap(directory: CentralDirectory): FileMap {
+  const map: FileMap = new Map();
   for (const f of directory.files) {
     map.set(f.path.replace(/\\/g, '/'), f);
   }
   return map;
 }
 
-async function readEntry(
-  map: Map<string, CentralDirectory['files'][number]>,
-  path: string,
-): Promise<string | null> {
+async function readEntry(map: FileMap, path: string): Promise<string | null> {
   const entry = map.get(path);
   if (!entry) return null;
   const buf = await entry.buffer();
@@ -112,7 +140,7 @@ function toArray<T>(value: T | T[] | undefined | null): T[] {
 }
 
 async function extractToc(
-  fileMap: Map<string, CentralDirectory['files'][number]>,
+  fileMap: FileMap,
   opfDir: string,
   pkg: any,
   items: any[],
@@ -238,6 +266,30 @@ function parseLi(li: string): DocumentTocEntry | null {
   return children?.length ? { label, href, children } : { label, href };
 }
 
+/**
+ * 正文 XHTML → 纯文本。块级元素收尾处换成空行，让段落 / 标题不会粘进同一句；
+ * 只解常见实体，生僻的数字实体按码点解。
+ */
+export function xhtmlToText(html: string): string {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  return body
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|section|tr)>|<br\s*\/?>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 function stripHtml(s: string): string {
   return s
     .replace(/<[^>]*>/g, '')
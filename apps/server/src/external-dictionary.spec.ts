@@ -0,0 +1,107 @@
+import {
+  htmlToText,
+  mergeGlossary,
+  normalizeHeadword,
+  orderSources,
+  parseGlossaryLine,
+  parseStarDictIdx,
+  parseStarDictIfo,
+  readStarDictDefinition,
+} from './external-dictionary';
+
+/** 拼一个最小的 .idx：词头 \0 + 32 位 offset + 32 位 size */
+function buildIdx(items: [string, number, number][]): Buffer {
+  return Buffer.concat(
+    items.map(([word, offset, size]) => {
+      const tail = Buffer.alloc(8);
+      tail.writeUInt32BE(offset, 0);
+      tail.writeUInt32BE(size, 4);
+      return Buffer.concat([Buffer.from(word, 'utf8'), Buffer.from([0]), tail]);
+    }),
+  );
+}
+
+describe('external-dictionary', () => {
+  it('normalizeHeadword 小写、统一撇号、过滤过长词头', () => {
+    expect(normalizeHeadword('  Don’t  Stop ')).toBe("don't stop");
+    expect(normalizeHeadword('')).toBeNull();
+    expect(normalizeHeadword('x'.repeat(65))).toBeNull();
+  });
+
+  it('htmlToText 块级标签换行、去标签、解实体', () => {
+    expect(htmlToText('<b>run</b> &amp; go<br>跑<div>v.&nbsp;跑步</div>&#x4e2d;')).toBe(
+      'run & go\n跑\nv. 跑步\n中',
+    );
+  });
+
+  it('parseStarDictIfo 校验魔数并解析 key=value', () => {
+    const info = parseStarDictIfo(
+      "StarDict's dict ifo file\nversion=2.4.2\nbookname=Test Dict\nsametypesequence=m\n",
+    );
+    expect(info).toMatchObject({ bookname: 'Test Dict', sametypesequence: 'm' });
+    expect(() => parseStarDictIfo('bookname=x')).toThrow();
+  });
+
+  it('parseStarDictIdx + readStarDictDefinition 按 sametypesequence 取释义', () => {
+    const dict = Buffer.from('to move fast<i>n.</i> a fruit', 'utf8');
+    const idx = parseStarDictIdx(
+      buildIdx([
+        ['run', 0, 12],
+        ['Apple', 12, dict.length - 12],
+      ]),
+    );
+    expect(idx.map((e) => e.headword)).toEqual(['run', 'Apple']);
+    expect(readStarDictDefinition(dict, idx[0], 'm')).toBe('to move fast');
+    expect(readStarDictDefinition(dict, idx[1], 'h')).toBe('n. a fruit');
+  });
+
+  it('readStarDictDefinition 没有 sametypesequence 时按类型字节取字段，跳过二进制字段', () => {
+    const image = Buffer.alloc(4 + 3);
+    image.writeUInt32BE(3, 0);
+    const data = Buffer.concat([
+      Buffer.from('tfɑːst\0', 'utf8'),
+      Buffer.from('P'),
+      image,
+      Buffer.from('mquick\0', 'utf8'),
+    ]);
+    expect(readStarDictDefinition(data, { headword: 'fast', offset: 0, size: data.length })).toBe(
+      'fɑːst\nquick',
+    );
+  });
+
+  it('parseGlossaryLine 解析 CSV 引号、TSV 多列和字面量换行', () => {
+    expect(parseGlossaryLine('"give up","放弃, 认输",phr.', 'csv')).toEqual({
+      headword: 'give up',
+      definition: '放弃, 认输\nphr.',
+    });
+    expect(parseGlossaryLine('Run\tv. 跑\\nn. 跑步', 'tsv')).toEqual({
+      headword: 'run',
+      definition: 'v. 跑\nn. 跑步',
+    });
+    expect(parseGlossaryLine('# comment', 'tsv')).toBeNull();
+    expect(parseGlossaryLine('lonely', 'tsv')).toBeNull();
+  });
+
+  it('mergeGlossary 合并重复词头并去掉完全相同的释义', () => {
+    expect(
+      mergeGlossary([
+        { headword: 'run', definition: 'a' },
+        { headword: 'go', definition: 'b' },
+        { headword: 'run', definition: 'c' },
+        { headword: 'run', definition: 'a' },
+      ]),
+    ).toEqual([
+      { headword: 'run', definition: 'a\n\nc' },
+      { headword: 'go', definition: 'b' },
+    ]);
+  });
+
+  it('orderSources 偏好的排前面，未列出的按默认顺序接上，删掉的忽略', () => {
+    expect(orderSources(['ecdict', 'oald', 'gloss'], ['gloss', 'gone', 'gloss'])).toEqual([
+      'gloss',
+      'ecdict',
+      'oald',
+    ]);
+    expect(orderSources(['ecdict', 'oald'], [])).toEqual(['ecdict', 'oald']);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * 第三方词典（ADR 0041）：解析 StarDict / CSV / TSV、规范化词头、排词典顺序。
+ * 导入脚本和 DictionarySourcesService 共用。
+ */
+
+/** 内置 ECDICT 在词典顺序里的 key */
+export const BUILTIN_SOURCE_KEY = 'ecdict';
+
+/** 词头超过这个长度的多半是句子或脏数据，不收 */
+export const MAX_HEADWORD_LENGTH = 64;
+
+/** 单条释义的上限；个别词典把整页附录塞在一个词条里 */
+export const MAX_DEFINITION_CHARS = 20_000;
+
+export const SOURCE_KEY_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
+export interface GlossaryEntry {
+  headword: string;
+  definition: string;
+}
+
+export interface StarDictIndexEntry {
+  headword: string;
+  offset: number;
+  size: number;
+}
+
+/** 和 Word.text 一致：小写、弯引号换直引号、空白归一 */
+export function normalizeHeadword(raw: string): string | null {
+  const text = raw.trim().toLowerCase().replace(/[‘’]/g, "'").replace(/\s+/g, ' ');
+  if (!text || text.length > MAX_HEADWORD_LENGTH) return null;
+  return text;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/** 词典里的 HTML / XDXF 标记转纯文本：块级标签换行，其余标签去掉 */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|li|tr|h[1-6])\b[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+      if (code[0] === '#') {
+        const n =
+          code[1] === 'x' || code[1] === 'X'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1), 10);
+        return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+      }
+      return ENTITIES[code.toLowerCase()] ?? match;
+    })
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/** .ifo 是 key=value 文本，第一行是固定的魔数 */
+export function parseStarDictIfo(text: string): Record<string, string> {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== "StarDict's dict ifo file") {
+    throw new Error('不是 StarDict 的 .ifo 文件');
+  }
+  const info: Record<string, string> = {};
+  for (const line of lines.slice(1)) {
+    const eq = line.indexOf('=');
+    if (eq > 0) info[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+  }
+  return info;
+}
+
+/** .idx：以 \0 结尾的 UTF-8 词头，后跟大端的 offset（32 或 64 位）和 size（32 位） */
+export function parseStarDictIdx(buf: Buffer, offsetBits: 32 | 64 = 32): StarDictIndexEntry[] {
+  const entries: StarDictIndexEntry[] = [];
+  const tail = offsetBits === 64 ? 12 : 8;
+  let pos = 0;
+  while (pos < buf.length) {
+    const end = buf.indexOf(0, pos);
+    if (end < 0 || end + 1 + tail > buf.length) break;
+    const headword = buf.toString('utf8', pos, end);
+    const offset =
+      offsetBits === 64 ? Number(buf.readBigUInt64BE(end + 1)) : buf.readUInt32BE(end + 1);
+    const size = buf.readUInt32BE(end + 1 + tail - 4);
+    entries.push({ headword, offset, size });
+    pos = end + 1 + tail;
+  }
+  return entries;
+}
+
+/** 这几种字段是 HTML / XML，要去标签 */
+const MARKUP_TYPES = new Set(['h', 'g', 'x', 'k', 'w']);
+/** 纯文本字段；其余类型（图片、音频、资源列表）跳过 */
+const TEXT_TYPES = new Set(['m', 'l', 't', 'y', ...MARKUP_TYPES]);
+
+/**
+ * 取出一条释义。有 sametypesequence 时字段不带类型字节，最后一个字段占满剩余部分；
+ * 没有时每个字段前面一个类型字节。小写类型以 \0 结尾，大写类型前面是 32 位长度。
+ */
+export function readStarDictDefinition(
+  dict: Buffer,
+  entry: StarDictIndexEntry,
+  sameTypeSequence?: string,
+): string {
+  const data = dict.subarray(entry.offset, entry.offset + entry.size);
+  const parts: string[] = [];
+  let pos = 0;
+  let field = 0;
+
+  while (pos < data.length) {
+    let type: string;
+    if (sameTypeSequence) {
+      if (field >= sameTypeSequence.length) break;
+      type = sameTypeSequence[field];
+    } else {
+      type = String.fromCharCode(data[pos]);
+      pos += 1;
+    }
+    const last = !!sameTypeSequence && field === sameTypeSequence.length - 1;
+    field += 1;
+
+    // 大写类型都是二进制（图片、音频），跳过
+    if (type !== type.toLowerCase()) {
+      pos = last ? data.length : pos + 4 + data.readUInt32BE(pos);
+      continue;
+    }
+    let body: Buffer;
+    if (last) {
+      body = data.subarray(pos);
+      pos = data.length;
+    } else {
+      const end = data.indexOf(0, pos);
+      body = data.subarray(pos, end < 0 ? data.length : end);
+      pos = end < 0 ? data.length : end + 1;
+    }
+    if (!TEXT_TYPES.has(type)) continue;
+    const text = body.toString('utf8');
+    parts.push(MARKUP_TYPES.has(type) ? htmlToText(text) : text.trim());
+  }
+  return parts.filter(Boolean).join('\n');
+}
+
+/** 按 RFC 4180 拆一行 CSV：双引号包裹的字段里可以有逗号，"" 表示一个引号 */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        current += c;
+      }
+    } else if (c === '"' && current === '') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += c;
+    }
+  }
+  fields.push(current);
+  return fields;
+}
+
+/**
+ * 词汇表一行：第一列词头，其余列拼成释义（多列用换行连接）；
+ * 释义里的字面量 \n 当换行。空行和 # 开头的注释行返回 null。
+ */
+export function parseGlossaryLine(line: string, format: 'csv' | 'tsv'): GlossaryEntry | null {
+  if (!line.trim() || line.startsWith('#')) return null;
+  const fields = format === 'csv' ? splitCsvLine(line) : line.split('\t');
+  const headword = normalizeHeadword(fields[0] ?? '');
+  const definition = fields
+    .slice(1)
+    .map((f) => f.replace(/\\n/g, '\n').trim())
+    .filter(Boolean)
+    .join('\n');
+  if (!headword || !definition) return null;
+  return { headword, definition };
+}
+
+/** 同一个词头出现多次（StarDict 里常见，比如大小写不同的两条）合并成一条，保持首次出现的顺序 */
+export function mergeGlossary(entries: Iterable<GlossaryEntry>): GlossaryEntry[] {
+  const byHeadword = new Map<string, string[]>();
+  for (const { headword, definition } of entries) {
+    const list = byHeadword.get(headword);
+    if (!list) byHeadword.set(headword, [definition]);
+    else if (!list.includes(definition)) list.push(definition);
+  }
+  return [...byHeadword].map(([headword, defs]) => ({
+    headword,
+    definition: defs.join('\n\n').slice(0, MAX_DEFINITION_CHARS),
+  }));
+}
+
+/**
+ * 用户偏好的词典顺序：preferred 里列出且存在的排前面（去重），
+ * 剩下的按 available 的默认顺序接在后面。删掉的词典自然被过滤掉。
+ */
+export function orderSources(available: string[], preferred: readonly string[]): string[] {
+  const known = new Set(available);
+  const head = [...new Set(preferred)].filter((key) => known.has(key));
+  const picked = new Set(head);
+  return [...head, ...available.filter((key) => !picked.has(key))];
+}
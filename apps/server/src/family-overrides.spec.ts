@@ -0,0 +1,77 @@
+import {
+  MAX_OVERRIDE_WORD_LENGTH,
+  normalizeOverrideWord,
+  overrideFamilyLemmas,
+  overrideKind,
+  planFamilyMerge,
+} from './family-overrides';
+
+// general = 1，generate = 2，拆出的 generally = 3
+const GENERAL = ['general', 'generally', 'generals'];
+
+describe('overrideFamilyLemmas', () => {
+  it('没有覆盖时原样返回系统词形', () => {
+    expect(overrideFamilyLemmas(1, GENERAL, [])).toEqual(GENERAL);
+  });
+
+  it('拆出的词从原词族去掉，出现在自己的词族里', () => {
+    const overrides = [{ text: 'generally', defaultFamilyId: 1, familyId: 3 }];
+    expect(overrideFamilyLemmas(1, GENERAL, overrides)).toEqual(['general', 'generals']);
+    expect(overrideFamilyLemmas(3, [], overrides)).toEqual(['generally']);
+  });
+
+  it('并进来的词追加在系统词形后面，不重复', () => {
+    const overrides = [
+      { text: 'generate', defaultFamilyId: 2, familyId: 1 },
+      { text: 'generated', defaultFamilyId: 2, familyId: 1 },
+      { text: 'generated', defaultFamilyId: 2, familyId: 1 },
+    ];
+    expect(overrideFamilyLemmas(1, GENERAL, overrides)).toEqual([
+      ...GENERAL,
+      'generate',
+      'generated',
+    ]);
+    expect(overrideFamilyLemmas(2, ['generate', 'generated'], overrides)).toEqual([]);
+  });
+
+  it('指回系统词族的覆盖不影响结果', () => {
+    const overrides = [{ text: 'generally', defaultFamilyId: 1, familyId: 1 }];
+    expect(overrideFamilyLemmas(1, GENERAL, overrides)).toEqual(GENERAL);
+  });
+});
+
+describe('overrideKind', () => {
+  it('挂在以自己为根的词族上算拆出', () => {
+    expect(overrideKind('generally', 'generally')).toBe('detached');
+    expect(overrideKind('generate', 'general')).toBe('merged');
+  });
+});
+
+describe('planFamilyMerge', () => {
+  it('系统词族就是目标的词只删覆盖，其余改挂', () => {
+    expect(
+      planFamilyMerge(
+        [
+          { wordId: 10, defaultFamilyId: 2 },
+          { wordId: 11, defaultFamilyId: 2 },
+          { wordId: 12, defaultFamilyId: 1 },
+        ],
+        1,
+      ),
+    ).toEqual({ reassign: [10, 11], reset: [12] });
+  });
+});
+
+describe('normalizeOverrideWord', () => {
+  it('小写、去空白', () => {
+    expect(normalizeOverrideWord('  Generally ')).toBe('generally');
+    expect(normalizeOverrideWord('Give\t Up')).toBe('give up');
+  });
+
+  it('非字符串、空串、超长返回 null', () => {
+    expect(normalizeOverrideWord(undefined)).toBeNull();
+    expect(normalizeOverrideWord(42)).toBeNull();
+    expect(normalizeOverrideWord('   ')).toBeNull();
+    expect(normalizeOverrideWord('a'.repeat(MAX_OVERRIDE_WORD_LENGTH + 1))).toBeNull();
+  });
+});
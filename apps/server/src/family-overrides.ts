@@ -0,0 +1,68 @@
+/**
+ * 词族调整（ADR 0035）：词形叠加、合并规划、输入规整。
+ *
+ * 系统词族来自 rebuild-word-families.ts，对所有人一样；WordFamilyOverride 只记
+ * "这个词在该用户眼里改挂到哪个词族"。读路径先按系统词族取词形，再叠加覆盖。
+ */
+import type { FamilyOverrideKind } from 'shared-types';
+
+/** 单个词最长字符数，与忽略列表一致 */
+export const MAX_OVERRIDE_WORD_LENGTH = 64;
+
+export interface FamilyOverrideRow {
+  text: string;
+  defaultFamilyId: number; // Word.familyId
+  familyId: number; // 调整后所在词族
+}
+
+/**
+ * 某个词族在该用户眼里的词形：系统词形里去掉被拆走 / 并走的，加上挂进来的。
+ * overrides 可以包含与该词族无关的行。
+ */
+export function overrideFamilyLemmas(
+  familyId: number,
+  defaultWords: string[],
+  overrides: FamilyOverrideRow[],
+): string[] {
+  const movedOut = new Set(
+    overrides
+      .filter((o) => o.defaultFamilyId === familyId && o.familyId !== familyId)
+      .map((o) => o.text),
+  );
+  const lemmas = defaultWords.filter((w) => !movedOut.has(w));
+  for (const o of overrides) {
+    if (o.familyId === familyId && o.defaultFamilyId !== familyId && !lemmas.includes(o.text)) {
+      lemmas.push(o.text);
+    }
+  }
+  return lemmas;
+}
+
+/** 拆出的词挂在以它自己为根的词族上，其余都是合并 */
+export function overrideKind(word: string, familyRoot: string): FamilyOverrideKind {
+  return word === familyRoot ? 'detached' : 'merged';
+}
+
+/**
+ * 合并规划：源词族的每个词改挂到目标词族。系统词族本来就是目标的词不需要覆盖，
+ * 只删掉旧覆盖（相当于"并回去"）。
+ */
+export function planFamilyMerge(
+  members: { wordId: number; defaultFamilyId: number }[],
+  targetFamilyId: number,
+): { reassign: number[]; reset: number[] } {
+  const reassign: number[] = [];
+  const reset: number[] = [];
+  for (const member of members) {
+    (member.defaultFamilyId === targetFamilyId ? reset : reassign).push(member.wordId);
+  }
+  return { reassign, reset };
+}
+
+/** 规整请求里的词：小写、去首尾空白、折叠空白。不是字符串 / 为空 / 超长时返回 null */
+export function normalizeOverrideWord(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const word = raw.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!word || word.length > MAX_OVERRIDE_WORD_LENGTH) return null;
+  return word;
+}
@@ -0,0 +1,80 @@
+/**
+ * 按用户解析词族：系统词族叠加该用户的 WordFamilyOverride（ADR 0035）。
+ * 凡是按词元定位词族的读写路径都走这里，不直接用 Word.familyId。
+ */
+import type { Prisma } from '../generated/prisma';
+import { type FamilyOverrideRow, overrideFamilyLemmas } from './family-overrides';
+
+export interface ResolvedFamily {
+  id: number;
+  rootWord: string;
+  overridden: boolean;
+}
+
+/**
+ * 把词元映射到该用户眼里的词族。不在系统词表的词不出现在结果里。
+ */
+export async function resolveFamilies(
+  db: Prisma.TransactionClient,
+  userId: number,
+  lemmas: string[],
+): Promise<Map<string, ResolvedFamily>> {
+  const words = await db.word.findMany({
+    where: { text: { in: lemmas } },
+    select: { text: true, family: { select: { id: true, rootWord: true } } },
+  });
+  const overrides = await db.wordFamilyOverride.findMany({
+    where: { userId, word: { text: { in: lemmas } } },
+    select: {
+      word: { select: { text: true } },
+      family: { select: { id: true, rootWord: true } },
+    },
+  });
+
+  const result = new Map<string, ResolvedFamily>();
+  for (const word of words) {
+    result.set(word.text, { ...word.family, overridden: false });
+  }
+  for (const override of overrides) {
+    result.set(override.word.text, { ...override.family, overridden: true });
+  }
+  return result;
+}
+
+/**
+ * 各词族在该用户眼里的词形：系统词形去掉拆走的，加上挂进来的。
+ */
+export async function familyLemmas(
+  db: Prisma.TransactionClient,
+  userId: number,
+  familyIds: number[],
+): Promise<Map<number, string[]>> {
+  if (familyIds.length === 0) return new Map();
+
+  const words = await db.word.findMany({
+    where: { familyId: { in: familyIds } },
+    select: { text: true, familyId: true },
+  });
+  const overrides = await db.wordFamilyOverride.findMany({
+    where: {
+      userId,
+      OR: [{ familyId: { in: familyIds } }, { word: { familyId: { in: familyIds } } }],
+    },
+    select: { familyId: true, word: { select: { text: true, familyId: true } } },
+  });
+  const rows: FamilyOverrideRow[] = overrides.map((o) => ({
+    text: o.word.text,
+    defaultFamilyId: o.word.familyId,
+    familyId: o.familyId,
+  }));
+
+  const defaultWords = new Map<number, string[]>();
+  for (const word of words) {
+    const list = defaultWords.get(word.familyId) ?? [];
+    list.push(word.text);
+    defaultWords.set(word.familyId, list);
+  }
+  return new Map(
+    familyIds.map((id) => [id, overrideFamilyLemmas(id, defaultWords.get(id) ?? [], rows)]),
+  );
+}
@@ -0,0 +1,32 @@
+import {
+  MAX_IGNORED_WORD_LENGTH,
+  normalizeIgnoredWord,
+  normalizeIgnoredWords,
+} from './ignored-words';
+
+describe('normalizeIgnoredWord', () => {
+  it('小写、弯撇号转直撇号、空白折叠', () => {
+    expect(normalizeIgnoredWord('  Don’t ')).toBe("don't");
+    expect(normalizeIgnoredWord('Give\t  Up')).toBe('give up');
+  });
+});
+
+describe('normalizeIgnoredWords', () => {
+  it('规整后去重，保持首次出现的顺序', () => {
+    expect(normalizeIgnoredWords(['Kubernetes', 'kubernetes ', 'NASA', 'nasa'])).toEqual([
+      'kubernetes',
+      'nasa',
+    ]);
+  });
+
+  it('丢掉空串和超长串', () => {
+    const tooLong = 'a'.repeat(MAX_IGNORED_WORD_LENGTH + 1);
+    expect(normalizeIgnoredWords(['', '   ', tooLong, 'ok'])).toEqual(['ok']);
+  });
+
+  it('不是字符串数组时返回 null', () => {
+    expect(normalizeIgnoredWords('word')).toBeNull();
+    expect(normalizeIgnoredWords(undefined)).toBeNull();
+    expect(normalizeIgnoredWords(['ok', 42])).toBeNull();
+  });
+});
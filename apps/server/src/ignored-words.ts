@@ -0,0 +1,34 @@
+/**
+ * 忽略列表的输入规整。
+ *
+ * 扩展端历史数据来自 chrome.storage.sync，里面混着大小写、弯撇号、首尾空白；
+ * 统一成小写 + 直撇号 + 单空格（短语原形也可以被忽略），再去重、丢掉空串和超长串。
+ */
+
+/** 单次请求最多条数：本地列表一次性迁移也要装得下 */
+export const MAX_IGNORED_WORDS_PER_REQUEST = 5_000;
+
+/** 单条最长字符数，防止把整段文本塞进来 */
+export const MAX_IGNORED_WORD_LENGTH = 64;
+
+export function normalizeIgnoredWord(raw: string): string {
+  return raw.trim().toLowerCase().replace(/’/g, "'").replace(/\s+/g, ' ');
+}
+
+/**
+ * 规整一批待忽略的词。不是字符串数组时返回 null，由调用方回 400。
+ */
+export function normalizeIgnoredWords(input: unknown): string[] | null {
+  if (!Array.isArray(input) || input.some((w) => typeof w !== 'string')) {
+    return null;
+  }
+
+  const result = new Set<string>();
+  for (const raw of input as string[]) {
+    const word = normalizeIgnoredWord(raw);
+    if (word && word.length <= MAX_IGNORED_WORD_LENGTH) {
+      result.add(word);
+    }
+  }
+  return Array.from(result);
+}
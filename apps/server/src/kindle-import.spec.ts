@@ -0,0 +1,84 @@
+import initSqlJs from 'sql.js';
+import {
+  detectKindleSource,
+  normalizeKindleWord,
+  parseKindleClippings,
+  parseKindleVocabDb,
+} from './kindle-import';
+
+async function buildVocabDb(): Promise<Buffer> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE WORDS (id TEXT PRIMARY KEY, word TEXT, stem TEXT, lang TEXT, category INTEGER, timestamp INTEGER, profileid TEXT);
+    CREATE TABLE LOOKUPS (id TEXT PRIMARY KEY, word_key TEXT, book_key TEXT, dict_key TEXT, pos TEXT, usage TEXT, timestamp INTEGER);
+    CREATE TABLE BOOK_INFO (id TEXT PRIMARY KEY, asin TEXT, guid TEXT, lang TEXT, title TEXT, authors TEXT);
+    INSERT INTO WORDS VALUES ('en:settled', 'Settled', 'settle', 'en', 0, 0, '');
+    INSERT INTO WORDS VALUES ('de:haus', 'Haus', 'haus', 'de', 0, 0, '');
+    INSERT INTO BOOK_INFO VALUES ('book1', 'B00X', 'g', 'en', 'Middlemarch', 'George Eliot');
+    INSERT INTO LOOKUPS VALUES ('l1', 'en:settled', 'book1', '', '', '  They settled
+ near the river. ', 1700000000000);
+    INSERT INTO LOOKUPS VALUES ('l2', 'de:haus', 'book1', '', '', 'Das Haus.', 1700000001000);
+  `);
+  const buffer = Buffer.from(db.export());
+  db.close();
+  return buffer;
+}
+
+const CLIPPINGS = `﻿Middlemarch (George Eliot)
+- Your Highlight on page 12 | Location 120-121 | Added on Monday, 1 January 2024 10:00:00
+
+Ardent,
+==========
+Middlemarch (George Eliot)
+- Your Bookmark on page 13 | Location 130 | Added on Monday, 1 January 2024 10:01:00
+
+
+==========
+Middlemarch (George Eliot)
+- 您在位置 #140-141的标注 | 添加于 2024年1月1日星期一 上午10:02:00
+
+Miss Brooke had that kind of beauty which seems to be thrown into relief by poor dress.
+==========
+Middlemarch (George Eliot)
+- Your Note on page 14 | Location 150 | Added on Monday, 1 January 2024 10:03:00
+
+remember this
+==========
+`;
+
+describe('detectKindleSource', () => {
+  it('按 SQLite 文件头 / 分隔行识别来源', async () => {
+    expect(detectKindleSource(await buildVocabDb())).toBe('vocab-db');
+    expect(detectKindleSource(Buffer.from(CLIPPINGS))).toBe('clippings');
+    expect(detectKindleSource(Buffer.from('hello'))).toBeNull();
+  });
+});
+
+describe('normalizeKindleWord', () => {
+  it('小写、直撇号、去掉首尾标点', () => {
+    expect(normalizeKindleWord('“Don’t,”')).toBe("don't");
+  });
+});
+
+describe('parseKindleVocabDb', () => {
+  it('只取英文查词，带上词干、例句、书名和时间', async () => {
+    expect(await parseKindleVocabDb(await buildVocabDb())).toEqual([
+      {
+        word: 'settled',
+        stem: 'settle',
+        usage: 'They settled near the river.',
+        bookTitle: 'Middlemarch',
+        lookedUpAt: new Date(1700000000000),
+      },
+    ]);
+  });
+});
+
+describe('parseKindleClippings', () => {
+  it('只取短标注当作查词；书签、笔记、长摘抄都跳过；书名去掉作者', () => {
+    expect(parseKindleClippings(CLIPPINGS)).toEqual([
+      { word: 'ardent', stem: null, usage: null, bookTitle: 'Middlemarch', lookedUpAt: null },
+    ]);
+  });
+});
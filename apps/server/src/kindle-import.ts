@@ -0,0 +1,120 @@
+/**
+ * Kindle 查词数据解析。
+ *
+ * 两种来源：
+ *   vocab.db           → Kindle 生词本（Vocabulary Builder）的 SQLite 库：
+ *                        WORDS(id, word, stem, lang) + LOOKUPS(word_key, book_key, usage, timestamp) + BOOK_INFO(id, title)
+ *   My Clippings.txt   → 标注导出。只取 1–3 个词的标注，视为"查过的词"；
+ *                        长标注是摘抄的段落，不是查词，跳过
+ */
+import type { KindleImportSource } from 'shared-types';
+import { loadSqlJs } from './sql-js';
+
+/** Kindle 导入写进 UserFamilyStatus.importSource 的值 */
+export const KINDLE_IMPORT_SOURCE = 'import:kindle';
+/** 单个文件最多解析多少条查词，防止异常大的库拖垮进程 */
+export const MAX_KINDLE_LOOKUPS = 20_000;
+/** 标注最多几个词还算查词 */
+const MAX_CLIPPING_WORDS = 3;
+
+export interface KindleLookup {
+  word: string;
+  /** Kindle 自己算的词干（只有 vocab.db 有），比原词更容易命中词表 */
+  stem: string | null;
+  usage: string | null;
+  bookTitle: string | null;
+  lookedUpAt: Date | null;
+}
+
+const SQLITE_MAGIC = 'SQLite format 3\0';
+
+export function detectKindleSource(buffer: Buffer): KindleImportSource | null {
+  if (buffer.subarray(0, SQLITE_MAGIC.length).toString('latin1') === SQLITE_MAGIC) {
+    return 'vocab-db';
+  }
+  const head = buffer.subarray(0, 64 * 1024).toString('utf-8');
+  return head.includes('==========') ? 'clippings' : null;
+}
+
+/** 小写、直撇号、去掉首尾标点；没剩下字母时返回空串 */
+export function normalizeKindleWord(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/’/g, "'")
+    .replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '')
+    .replace(/\s+/g, ' ');
+}
+
+function cleanText(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const text = raw.replace(/\s+/g, ' ').trim();
+  return text || null;
+}
+
+/**
+ * 解析 vocab.db。不是合法 SQLite 或缺表时抛错，由 controller 转 400。
+ * 只取英文查词（WORDS.lang 以 en 开头）。
+ */
+export async function parseKindleVocabDb(buffer: Buffer): Promise<KindleLookup[]> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(new Uint8Array(buffer));
+  try {
+    const result = db.exec(
+      `SELECT w.word, w.stem, l.usage, b.title, l.timestamp
+         FROM LOOKUPS l
+         JOIN WORDS w ON l.word_key = w.id
+         LEFT JOIN BOOK_INFO b ON l.book_key = b.id
+        WHERE w.lang IS NULL OR w.lang LIKE 'en%'
+        ORDER BY l.timestamp DESC
+        LIMIT ${MAX_KINDLE_LOOKUPS}`,
+    );
+    const rows = result[0]?.values ?? [];
+    return rows
+      .map(([word, stem, usage, title, timestamp]) => ({
+        word: normalizeKindleWord(String(word ?? '')),
+        stem: typeof stem === 'string' ? normalizeKindleWord(stem) || null : null,
+        usage: cleanText(usage),
+        bookTitle: cleanText(title),
+        lookedUpAt: typeof timestamp === 'number' && timestamp > 0 ? new Date(timestamp) : null,
+      }))
+      .filter((lookup) => lookup.word);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 解析 My Clippings.txt。每条记录以 "==========" 结尾：
+ *   第一行 书名 (作者)
+ *   第二行 - 您在位置 #120-121的标注 | 添加于 … / - Your Highlight on page 12 | …
+ *   之后   标注内容
+ */
+export function parseKindleClippings(text: string): KindleLookup[] {
+  const lookups: KindleLookup[] = [];
+  for (const block of text.replace(/^﻿/, '').split(/^==========\s*$/m)) {
+    const lines = block
+      .split(/\r?\n/)
+      .map((line) => line.replace(/^﻿/, '').trim())
+      .filter(Boolean);
+    if (lines.length < 3 || !lines[1].startsWith('-')) continue;
+
+    // 书签、笔记都不是查词
+    const meta = lines[1].split('|')[0];
+    if (/bookmark|note|书签|笔记/i.test(meta)) continue;
+
+    const word = normalizeKindleWord(lines.slice(2).join(' '));
+    const tokens = word.split(' ');
+    if (!word || tokens.length > MAX_CLIPPING_WORDS) continue;
+    if (tokens.some((token) => !/^[\p{L}'-]+$/u.test(token))) continue;
+
+    lookups.push({
+      word,
+      stem: null,
+      usage: null,
+      bookTitle: cleanText(lines[0].replace(/\s*\([^()]*\)\s*$/, '')),
+      lookedUpAt: null,
+    });
+    if (lookups.length >= MAX_KINDLE_LOOKUPS) break;
+  }
+  return lookups;
+}
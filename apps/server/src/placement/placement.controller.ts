@@ -0,0 +1,64 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards';
+import { PlacementService } from './placement.service';
+import type { PlacementAnswerRequest, PlacementSessionDto } from 'shared-types';
+
+@Controller('api/v1/placement')
+@UseGuards(JwtAuthGuard)
+export class PlacementController {
+  constructor(private readonly service: PlacementService) {}
+
+  /** 最近一次测试（进行中的可以接着答），没测过时 session 为 null */
+  @Get()
+  async latest(@Request() req: any): Promise<{ session: PlacementSessionDto | null }> {
+    const userId: number = req.user.id;
+    const session = await this.service.latest(userId);
+    return { session };
+  }
+
+  /** 开始一次新测试，返回第一题 */
+  @Post()
+  async start(@Request() req: any): Promise<PlacementSessionDto> {
+    const userId: number = req.user.id;
+    return this.service.start(userId);
+  }
+
+  @Get(':id')
+  async get(
+    @Request() req: any,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PlacementSessionDto> {
+    const userId: number = req.user.id;
+    return this.service.get(userId, id);
+  }
+
+  /** 回答当前题，返回下一题；答够了 status 变为 finished */
+  @Post(':id/answer')
+  async answer(
+    @Request() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: PlacementAnswerRequest,
+  ): Promise<PlacementSessionDto> {
+    const userId: number = req.user.id;
+    return this.service.answer(userId, id, body);
+  }
+
+  /** 把估计频段以下的词族标为已掌握（importSource = "placement"） */
+  @Post(':id/apply')
+  async apply(
+    @Request() req: any,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PlacementSessionDto> {
+    const userId: number = req.user.id;
+    return this.service.apply(userId, id);
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { PlacementAnswerRequest, PlacementSessionDto } from 'shared-types';
+import { PrismaService } from '../prisma.service';
+import { VocabularyEventsService } from '../vocabulary-events.service';
+import { parsePresetFile } from '../preset-registry';
+import { resolveFamilies } from '../family-resolution';
+import {
+  PLACEMENT_IMPORT_SOURCE,
+  PLACEMENT_MAX_QUESTIONS,
+  type PlacementAnswer,
+  estimateVocabularySize,
+  isPlacementFinished,
+  parsePlacementAnswers,
+  pickPlacementWord,
+  placementBand,
+  placementKnownLimit,
+  placementKnownWords,
+} from './placement';
+
+/** 出题用的词频表 */
+const FREQUENCY_FILE = 'coca20000.json';
+
+type PlacementRow = {
+  id: number;
+  answers: unknown;
+  currentWord: string | null;
+  currentRank: number | null;
+  finishedAt: Date | null;
+  appliedAt: Date | null;
+  appliedCount: number | null;
+  createdAt: Date;
+};
+
+const SESSION_SELECT = {
+  id: true,
+  answers: true,
+  currentWord: true,
+  currentRank: true,
+  finishedAt: true,
+  appliedAt: true,
+  appliedCount: true,
+  createdAt: true,
+} as const;
+
+/**
+ * 词汇量测试：会话和答题记录存 placement_sessions，出题 / 估计见 ./placement。
+ * 测完可以把估计频段以下的词族一键标为已掌握（importSource = "placement"）。
+ */
+@Injectable()
+export class PlacementService implements OnModuleInit {
+  private readonly logger = new Logger(PlacementService.name);
+  /** 按词频排序、去重后的 COCA 词表，下标即 rank */
+  private words: string[] = [];
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly events: VocabularyEventsService,
+  ) {}
+
+  onModuleInit(): void {
+    const raw = readFileSync(join(__dirname, '..', 'data', FREQUENCY_FILE), 'utf-8');
+    this.words = parsePresetFile(JSON.parse(raw))?.words ?? [];
+    this.logger.log(`词汇量测试词频表：${this.words.length} 个词`);
+  }
+
+  /** 当前用户最近一次测试，没测过返回 null */
+  async latest(userId: number): Promise<PlacementSessionDto | null> {
+    const row: PlacementRow | null = await this.prisma.placementSession.findFirst({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      select: SESSION_SELECT,
+    });
+    return row ? this.toDto(row) : null;
+  }
+
+  async get(userId: number, id: number): Promise<PlacementSessionDto> {
+    return this.toDto(await this.findOwned(userId, id));
+  }
+
+  async start(userId: number): Promise<PlacementSessionDto> {
+    const first = this.nextQuestion([]);
+    if (!first) {
+      throw new BadRequestException('词频表未加载，暂时无法测试');
+    }
+    const row: PlacementRow = await this.prisma.placementSession.create({
+      data: { userId, currentWord: first.word, currentRank: first.rank },
+      select: SESSION_SELECT,
+    });
+    return this.toDto(row);
+  }
+
+  async answer(
+    userId: number,
+    id: number,
+    body: PlacementAnswerRequest,
+  ): Promise<PlacementSessionDto> {
+    if (typeof body?.word !== 'string' || typeof body?.known !== 'boolean') {
+      throw new BadRequestException('需要 word 和 known');
+    }
+    const session = await this.findOwned(userId, id);
+    if (session.finishedAt) {
+      throw new ConflictException('这次测试已经结束');
+    }
+    if (session.currentWord !== body.word || session.currentRank === null) {
+      throw new ConflictException('这道题已经答过了，请刷新');
+    }
+
+    const answers: PlacementAnswer[] = [
+      ...parsePlacementAnswers(session.answers),
+      { word: body.word, rank: session.currentRank, known: body.known },
+    ];
+    const estimate = estimateVocabularySize(answers, this.words.length);
+    const next = isPlacementFinished(answers, estimate) ? null : this.nextQuestion(answers);
+
+    // 带上 currentWord 条件：双击 / 两台设备同时答同一题时只算一次
+    const { count } = await this.prisma.placementSession.updateMany({
+      where: { id, currentWord: body.word, finishedAt: null },
+      data: {
+        answers: answers as any,
+        currentWord: next?.word ?? null,
+        currentRank: next?.rank ?? null,
+        finishedAt: next ? null : new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException('这道题已经答过了，请刷新');
+    }
+    return this.get(userId, id);
+  }
+
+  /** 把估计频段以下的词族标为已掌握；已在词库里的不覆盖 */
+  async apply(userId: number, id: number): Promise<PlacementSessionDto> {
+    const session = await this.findOwned(userId, id);
+    if (!session.finishedAt) {
+      throw new BadRequestException('测试还没完成');
+    }
+    if (session.appliedAt) {
+      throw new ConflictException('这次测试的结果已经标记过了');
+    }
+
+    const answers = parsePlacementAnswers(session.answers);
+    const limit = placementKnownLimit(estimateVocabularySize(answers, this.words.length));
+    const words = placementKnownWords(this.words, answers, limit);
+    const families = words.length
+      ? [...(await resolveFamilies(this.prisma, userId, words)).values()]
+      : [];
+    const familyIds = [...new Set(families.map((family) => family.id))];
+
+    // 占 appliedAt 和写词库在同一个事务里：并发提交只有一次能占到；
+    // 写失败时 appliedAt 跟着回滚，用户可以重试
+    const count = await this.prisma.$transaction(async (tx) => {
+      const { count: claimed } = await tx.placementSession.updateMany({
+        where: { id, appliedAt: null },
+        data: { appliedAt: new Date() },
+      });
+      if (claimed === 0) {
+        throw new ConflictException('这次测试的结果已经标记过了');
+      }
+
+      // 和预设导入一样：批量写不记状态流水，熟练度直接给满
+      const { count: created } = await tx.userFamilyStatus.createMany({
+        data: familyIds.map((familyId) => ({
+          userId,
+          familyId,
+          status: 'KNOWN' as const,
+          familiarityLevel: 7,
+          importSource: PLACEMENT_IMPORT_SOURCE,
+        })),
+        skipDuplicates: true,
+      });
+      await tx.placementSession.update({
+        where: { id },
+        data: { appliedCount: created },
+      });
+      return created;
+    });
+
+    this.logger.log(`用户 ${userId} 按测试结果标记前 ${limit} 个高频词，新增 ${count} 个词族`);
+    if (count > 0) this.events.publish(userId, { resync: true });
+    return this.get(userId, id);
+  }
+
+  private nextQuestion(answers: PlacementAnswer[]): { word: string; rank: number } | null {
+    const target = answers.length
+      ? estimateVocabularySize(answers, this.words.length).size
+      : Math.floor(this.words.length / 2);
+    return pickPlacementWord(this.words, target, new Set(answers.map((a) => a.word)));
+  }
+
+  private async findOwned(userId: number, id: number): Promise<PlacementRow> {
+    const row: PlacementRow | null = await this.prisma.placementSession.findFirst({
+      where: { id, userId },
+      select: SESSION_SELECT,
+    });
+    if (!row) {
+      throw new NotFoundException('测试不存在');
+    }
+    return row;
+  }
+
+  private toDto(row: PlacementRow): PlacementSessionDto {
+    const answers = parsePlacementAnswers(row.answers);
+    const estimate = answers.length ? estimateVocabularySize(answers, this.words.length) : null;
+    return {
+      id: row.id,
+      status: row.appliedAt ? 'applied' : row.finishedAt ? 'finished' : 'active',
+      answered: answers.length,
+      maxQuestions: PLACEMENT_MAX_QUESTIONS,
+      question:
+        row.currentWord !== null && row.currentRank !== null
+          ? { word: row.currentWord, band: placementBand(row.currentRank) + 1 }
+          : null,
+      estimate,
+      knownLimit: row.finishedAt && estimate ? placementKnownLimit(estimate) : null,
+      appliedCount: row.appliedCount,
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import {
+  PLACEMENT_MAX_QUESTIONS,
+  PLACEMENT_MIN_QUESTIONS,
+  type PlacementAnswer,
+  estimateVocabularySize,
+  isPlacementFinished,
+  parsePlacementAnswers,
+  pickPlacementWord,
+  placementKnownLimit,
+  placementKnownWords,
+} from './placement';
+
+/** 10000 个可出题的假词，rank 即下标 */
+const WORDS = Array.from(
+  { length: 10000 },
+  (_, i) => `wd${String(i).replace(/\d/g, (d) => 'abcdefghij'[Number(d)])}`,
+);
+
+/** 固定种子的伪随机，保证用例可复现 */
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+/** 模拟一个恰好认识前 trueSize 个词的用户做完整套测试 */
+function simulate(trueSize: number, seed = 1): PlacementAnswer[] {
+  const random = seeded(seed);
+  const answers: PlacementAnswer[] = [];
+  let target = WORDS.length / 2;
+  for (;;) {
+    const next = pickPlacementWord(WORDS, target, new Set(answers.map((a) => a.word)), random);
+    if (!next) break;
+    answers.push({ ...next, known: next.rank < trueSize });
+    const estimate = estimateVocabularySize(answers, WORDS.length);
+    if (isPlacementFinished(answers, estimate)) break;
+    target = estimate.size;
+  }
+  return answers;
+}
+
+describe('estimateVocabularySize', () => {
+  it('没答题时是整张表的中点，区间几乎覆盖全表', () => {
+    const estimate = estimateVocabularySize([], WORDS.length);
+    expect(estimate.size).toBe(5000);
+    expect(estimate.low).toBeLessThanOrEqual(600);
+    expect(estimate.high).toBeGreaterThanOrEqual(9400);
+  });
+
+  it.each([1500, 4200, 8000])('真实词汇量 %i：估计落在 90% 区间内，区间不超过 3000', (trueSize) => {
+    const answers = simulate(trueSize);
+    const estimate = estimateVocabularySize(answers, WORDS.length);
+    expect(estimate.low).toBeLessThanOrEqual(trueSize);
+    expect(estimate.high).toBeGreaterThanOrEqual(trueSize);
+    expect(Math.abs(estimate.size - trueSize)).toBeLessThan(1000);
+    expect(estimate.high - estimate.low).toBeLessThanOrEqual(3000);
+    expect(answers.length).toBeGreaterThanOrEqual(PLACEMENT_MIN_QUESTIONS);
+    expect(answers.length).toBeLessThanOrEqual(PLACEMENT_MAX_QUESTIONS);
+  });
+
+  it('偶尔答错一题不会把估计拉崩', () => {
+    const answers = simulate(6000, 7);
+    const flipped = answers.map((a, i) => (i === 3 ? { ...a, known: !a.known } : a));
+    expect(Math.abs(estimateVocabularySize(flipped, WORDS.length).size - 6000)).toBeLessThan(1500);
+  });
+});
+
+describe('pickPlacementWord', () => {
+  it('从目标所在的千词段里抽', () => {
+    const picked = pickPlacementWord(WORDS, 3500, new Set(), seeded(3));
+    expect(picked!.rank).toBeGreaterThanOrEqual(3000);
+    expect(picked!.rank).toBeLessThan(4000);
+    expect(picked!.word).toBe(WORDS[picked!.rank]);
+  });
+
+  it('短词、带符号的词和出过的词不再抽，抽完返回 null', () => {
+    const words = ['a', 'he/she', 'the', 'cat', 'dog'];
+    expect(pickPlacementWord(words, 0, new Set(['the', 'cat']), () => 0)).toEqual({
+      word: 'dog',
+      rank: 4,
+    });
+    expect(pickPlacementWord(words, 0, new Set(['the', 'cat', 'dog']))).toBeNull();
+  });
+});
+
+describe('placementKnownWords', () => {
+  it('按整段截断，去掉答了不认识的，补上段外答了认识的', () => {
+    const limit = placementKnownLimit({ size: 2600, low: 1900, high: 3300 });
+    expect(limit).toBe(2000);
+
+    const answers: PlacementAnswer[] = [
+      { word: WORDS[10], rank: 10, known: false },
+      { word: WORDS[2500], rank: 2500, known: true },
+      { word: WORDS[2600], rank: 2600, known: false },
+    ];
+    const known = placementKnownWords(WORDS, answers, limit);
+    expect(known).toHaveLength(2000);
+    expect(known).not.toContain(WORDS[10]);
+    expect(known).toContain(WORDS[2500]);
+    expect(known).not.toContain(WORDS[2600]);
+  });
+});
+
+describe('parsePlacementAnswers', () => {
+  it('丢掉形状不对的项', () => {
+    expect(
+      parsePlacementAnswers([
+        { word: 'cat', rank: 3, known: true },
+        { word: 'dog', rank: '4', known: true },
+        null,
+      ]),
+    ).toEqual([{ word: 'cat', rank: 3, known: true }]);
+    expect(parsePlacementAnswers(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * 词汇量测试的出题与估计。
+ *
+ * 模型：按 COCA 词频排名 rank（0 起）把"认识"看成 rank 的递减 logistic 曲线，
+ *   P(认识 | rank, θ) = SLIP + (1 - 2·SLIP) / (1 + e^((rank - θ) / SLOPE))
+ * θ 即词汇量。在 [0, 词表长度] 的网格上算均匀先验下的后验，取均值和 90% 区间；
+ * 下一题从后验均值所在的千词段里随机抽，信息量最大。
+ * SLIP 容忍手滑 / 蒙对，一两道答错不会把估计拉崩。
+ */
+import type { PlacementEstimate } from 'shared-types';
+
+export interface PlacementAnswer {
+  word: string;
+  rank: number;
+  known: boolean;
+}
+
+/** 一个频段 1000 词，出题和一键标记都按整段算 */
+export const PLACEMENT_BAND_SIZE = 1000;
+export const PLACEMENT_MIN_QUESTIONS = 15;
+export const PLACEMENT_MAX_QUESTIONS = 50;
+/** 90% 区间收窄到这个宽度就可以提前结束 */
+export const PLACEMENT_TARGET_INTERVAL = 2000;
+export const PLACEMENT_IMPORT_SOURCE = 'placement';
+
+const SLOPE = 600;
+const SLIP = 0.05;
+const GRID_STEP = 100;
+
+/** 太短的词和带符号的（he/she、n't）不出题 */
+const TESTABLE_WORD = /^[a-z]{3,}$/;
+
+export function knownProbability(rank: number, theta: number): number {
+  return SLIP + (1 - 2 * SLIP) / (1 + Math.exp((rank - theta) / SLOPE));
+}
+
+export function estimateVocabularySize(
+  answers: PlacementAnswer[],
+  totalWords: number,
+): PlacementEstimate {
+  const thetas: number[] = [];
+  for (let theta = 0; theta < totalWords; theta += GRID_STEP) thetas.push(theta);
+  thetas.push(totalWords);
+
+  const logPosterior = thetas.map((theta) =>
+    answers.reduce((sum, a) => {
+      const p = knownProbability(a.rank, theta);
+      return sum + Math.log(a.known ? p : 1 - p);
+    }, 0),
+  );
+  // 先减最大值再取指数，避免下溢
+  const peak = Math.max(...logPosterior);
+  const weights = logPosterior.map((lp) => Math.exp(lp - peak));
+  const total = weights.reduce((a, b) => a + b, 0);
+
+  let mean = 0;
+  let low = thetas[0];
+  let high = thetas[thetas.length - 1];
+  let cumulative = 0;
+  let lowFound = false;
+  let highFound = false;
+  thetas.forEach((theta, i) => {
+    const w = weights[i] / total;
+    mean += theta * w;
+    cumulative += w;
+    if (!lowFound && cumulative >= 0.05) {
+      low = theta;
+      lowFound = true;
+    }
+    if (!highFound && cumulative >= 0.95) {
+      high = theta;
+      highFound = true;
+    }
+  });
+
+  return { size: Math.round(mean), low, high };
+}
+
+export function isPlacementFinished(
+  answers: PlacementAnswer[],
+  estimate: PlacementEstimate,
+): boolean {
+  if (answers.length >= PLACEMENT_MAX_QUESTIONS) return true;
+  return (
+    answers.length >= PLACEMENT_MIN_QUESTIONS &&
+    estimate.high - estimate.low <= PLACEMENT_TARGET_INTERVAL
+  );
+}
+
+export function placementBand(rank: number): number {
+  return Math.floor(rank / PLACEMENT_BAND_SIZE);
+}
+
+/**
+ * 从 targetRank 所在的频段里随机抽一个没出过的词；本段抽完了就往两边找。
+ * 整张词表都抽完时返回 null。
+ */
+export function pickPlacementWord(
+  words: string[],
+  targetRank: number,
+  asked: Set<string>,
+  random: () => number = Math.random,
+): { word: string; rank: number } | null {
+  const maxBand = placementBand(Math.max(words.length - 1, 0));
+  const home = Math.min(Math.max(placementBand(targetRank), 0), maxBand);
+
+  for (let offset = 0; offset <= maxBand; offset++) {
+    const bands = offset === 0 ? [home] : [home - offset, home + offset];
+    for (const band of bands) {
+      if (band < 0 || band > maxBand) continue;
+      const candidates: number[] = [];
+      const end = Math.min((band + 1) * PLACEMENT_BAND_SIZE, words.length);
+      for (let rank = band * PLACEMENT_BAND_SIZE; rank < end; rank++) {
+        if (TESTABLE_WORD.test(words[rank]) && !asked.has(words[rank])) candidates.push(rank);
+      }
+      if (candidates.length) {
+        const rank = candidates[Math.floor(random() * candidates.length)];
+        return { word: words[rank], rank };
+      }
+    }
+  }
+  return null;
+}
+
+/** 估计值所在频段以下的整段词数，即可以一键标为已掌握的前 N 个高频词 */
+export function placementKnownLimit(estimate: PlacementEstimate): number {
+  return placementBand(estimate.size) * PLACEMENT_BAND_SIZE;
+}
+
+/**
+ * 要标为已掌握的词：前 limit 个高频词，去掉测试里答了"不认识"的，
+ * 再加上 limit 以外答了"认识"的。
+ */
+export function placementKnownWords(
+  words: string[],
+  answers: PlacementAnswer[],
+  limit: number,
+): string[] {
+  const unknown = new Set(answers.filter((a) => !a.known).map((a) => a.word));
+  const extra = answers.filter((a) => a.known && a.rank >= limit).map((a) => a.word);
+  return [...words.slice(0, limit).filter((w) => !unknown.has(w)), ...extra];
+}
+
+/** answers 列存的是 JSON，读回来时过滤掉形状不对的项 */
+export function parsePlacementAnswers(raw: unknown): PlacementAnswer[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (a): a is PlacementAnswer =>
+      !!a &&
+      typeof a === 'object' &&
+      typeof a.word === 'string' &&
+      typeof a.rank === 'number' &&
+      typeof a.known === 'boolean',
+  );
+}
@@ -0,0 +1,78 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { PrismaService } from './prisma.service';
+import { type PresetDefinition, parsePresetFile, presetChecksum } from './preset-registry';
+
+/**
+ * 启动时把 src/data 下的预设词表同步进 preset_lists。
+ * 词表指纹和解析出的词族集合都没变的只刷新名称 / 描述；任一变了 version 加一，词族关联整体重建。
+ * 词族每次都重新解析：词典晚于服务启动才灌入、rebuild-word-families 重建了词族时，
+ * 词表没变但原来的关联已经失效。
+ * 同步失败只记日志，不阻止服务启动——已有的注册表照常可用。
+ */
+@Injectable()
+export class PresetRegistryService implements OnModuleInit {
+  private readonly logger = new Logger(PresetRegistryService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async onModuleInit(): Promise<void> {
+    const dataDir = join(__dirname, 'data');
+    for (const file of readdirSync(dataDir).filter((f) => f.endsWith('.json'))) {
+      const raw = readFileSync(join(dataDir, file), 'utf-8');
+      // 词形映射、白名单等大文件没有 words 字段，省掉一次 JSON.parse
+      if (!raw.includes('"words"')) continue;
+      const preset = parsePresetFile(JSON.parse(raw));
+      if (!preset) continue;
+      try {
+        await this.sync(preset);
+      } catch (error) {
+        this.logger.error(`同步预设词库 ${preset.key} 失败`, error as Error);
+      }
+    }
+  }
+
+  private async sync(preset: PresetDefinition): Promise<void> {
+    const checksum = presetChecksum(preset.words);
+    const existing = await this.prisma.presetList.findUnique({
+      where: { key: preset.key },
+      select: { id: true, version: true, checksum: true, families: { select: { id: true } } },
+    });
+    const meta = {
+      name: preset.name,
+      description: preset.description,
+      wordCount: preset.wordCount,
+    };
+
+    const words = await this.prisma.word.findMany({
+      where: { text: { in: preset.words } },
+      select: { familyId: true },
+    });
+    const familyIds = new Set(words.map((w) => w.familyId));
+    const families = [...familyIds].map((id) => ({ id }));
+
+    const linked = existing?.families ?? [];
+    const sameFamilies =
+      linked.length === familyIds.size && linked.every((f) => familyIds.has(f.id));
+    if (existing && existing.checksum === checksum && sameFamilies) {
+      await this.prisma.presetList.update({ where: { id: existing.id }, data: meta });
+      return;
+    }
+
+    if (existing) {
+      await this.prisma.presetList.update({
+        where: { id: existing.id },
+        data: { ...meta, checksum, version: existing.version + 1, families: { set: families } },
+      });
+      this.logger.log(
+        `预设词库 ${preset.key} 升级到 v${existing.version + 1}（${families.length} 个词族）`,
+      );
+    } else {
+      await this.prisma.presetList.create({
+        data: { key: preset.key, ...meta, checksum, families: { connect: families } },
+      });
+      this.logger.log(`注册预设词库 ${preset.key}（${families.length} 个词族）`);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  isUntouchedPresetRow,
+  parsePresetFile,
+  presetChecksum,
+  presetImportSource,
+} from './preset-registry';
+
+describe('parsePresetFile', () => {
+  it('小写、去重，保留原始词数', () => {
+    expect(
+      parsePresetFile({
+        key: 'cet_4',
+        name: '大学四级词汇',
+        description: '高频词',
+        words: ['Abandon', 'ability', ' abandon ', 42, ''],
+      }),
+    ).toEqual({
+      key: 'cet_4',
+      name: '大学四级词汇',
+      description: '高频词',
+      words: ['abandon', 'ability'],
+      wordCount: 5,
+    });
+  });
+
+  it('词形映射这类数据文件不是预设', () => {
+    expect(parsePresetFile({ happily: 'happy' })).toBeNull();
+    expect(parsePresetFile(['give up'])).toBeNull();
+    expect(parsePresetFile({ key: 'x', name: 'X' })).toBeNull();
+  });
+});
+
+describe('presetChecksum', () => {
+  it('与词序和重复无关，内容变了才变', () => {
+    const base = presetChecksum(['a', 'b', 'c']);
+    expect(presetChecksum(['c', 'a', 'b', 'a'])).toBe(base);
+    expect(presetChecksum(['a', 'b'])).not.toBe(base);
+  });
+});
+
+describe('presetImportSource', () => {
+  it('和 addPresetVocabulary 写入的 importSource 一致', () => {
+    expect(presetImportSource('cet_6')).toBe('preset:cet_6');
+  });
+});
+
+describe('isUntouchedPresetRow', () => {
+  const importedAt = new Date('2026-10-01T00:00:00Z');
+  const row = {
+    status: 'KNOWN',
+    familiarityLevel: 7,
+    lastReviewedAt: null,
+    createdAt: importedAt,
+  };
+
+  it('导入后没动过', () => {
+    expect(isUntouchedPresetRow(row, null)).toBe(true);
+    expect(isUntouchedPresetRow(row, new Date('2026-09-01T00:00:00Z'))).toBe(true);
+  });
+
+  it('改过状态、熟练度或复习过都保留', () => {
+    expect(isUntouchedPresetRow({ ...row, status: 'LEARNING' }, null)).toBe(false);
+    expect(isUntouchedPresetRow({ ...row, familiarityLevel: 5 }, null)).toBe(false);
+    expect(isUntouchedPresetRow({ ...row, lastReviewedAt: new Date() }, null)).toBe(false);
+  });
+
+  it('导入后有过状态流水（改了又改回来）也保留', () => {
+    expect(isUntouchedPresetRow(row, new Date('2026-10-02T00:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * 预设词库的文件解析、版本指纹和撤销判定。
+ *
+ * src/data 下除了预设词表还有词形映射等数据文件，只有形如
+ *   { key, name, description?, words: string[] }
+ * 的才算预设词库。
+ */
+import { createHash } from 'crypto';
+
+export interface PresetDefinition {
+  key: string;
+  name: string;
+  description: string | null;
+  /** 小写、去空白、去重，保持原顺序 */
+  words: string[];
+  /** 原始词数（未去重），展示"共 N 个词"用 */
+  wordCount: number;
+}
+
+/** 导入预设时写入的状态：默认都认识 */
+export const PRESET_IMPORT_STATUS = 'KNOWN';
+export const PRESET_IMPORT_LEVEL = 7;
+
+export const PRESET_IMPORT_SOURCE_PREFIX = 'preset:';
+
+export function presetImportSource(key: string): string {
+  return `${PRESET_IMPORT_SOURCE_PREFIX}${key}`;
+}
+
+/** 不是预设词表格式时返回 null */
+export function parsePresetFile(raw: unknown): PresetDefinition | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const { key, name, description, words } = raw as Record<string, unknown>;
+  if (typeof key !== 'string' || !key.trim() || typeof name !== 'string') return null;
+  if (!Array.isArray(words)) return null;
+
+  const normalized = [
+    ...new Set(
+      words
+        .filter((w): w is string => typeof w === 'string')
+        .map((w) => w.trim().toLowerCase())
+        .filter(Boolean),
+    ),
+  ];
+  return {
+    key: key.trim(),
+    name,
+    description: typeof description === 'string' && description ? description : null,
+    words: normalized,
+    wordCount: words.length,
+  };
+}
+
+/** 词表内容指纹：与词序无关，只看去重后的词集合 */
+export function presetChecksum(words: string[]): string {
+  return createHash('sha1')
+    .update([...new Set(words)].sort().join('\n'))
+    .digest('hex');
+}
+
+/**
+ * 撤销导入时，这一行是否还是导入时的原样。
+ * 用户改过状态 / 熟练度、复习过，或导入之后有过状态流水，都算动过，保留。
+ */
+export function isUntouchedPresetRow(
+  row: {
+    status: string;
+    familiarityLevel: number;
+    lastReviewedAt: Date | null;
+    createdAt: Date;
+  },
+  lastChangeAt: Date | null,
+): boolean {
+  if (row.status !== PRESET_IMPORT_STATUS || row.familiarityLevel !== PRESET_IMPORT_LEVEL) {
+    return false;
+  }
+  if (row.lastReviewedAt) return false;
+  return !lastChangeAt || lastChangeAt < row.createdAt;
+}
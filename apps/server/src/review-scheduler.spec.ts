@@ -0,0 +1,103 @@
+import {
+  MIN_EASE_FACTOR,
+  isReviewGrade,
+  scheduleReview,
+  type ReviewState,
+} from './review-scheduler';
+
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function fresh(overrides: Partial<ReviewState> = {}): ReviewState {
+  return {
+    intervalDays: 0,
+    easeFactor: 2.5,
+    repetitions: 0,
+    lapseCount: 0,
+    familiarityLevel: 1,
+    ...overrides,
+  };
+}
+
+describe('scheduleReview', () => {
+  it('新词第一次 good：1 天后到期，熟练度 +1', () => {
+    const r = scheduleReview(fresh(), 'good', NOW);
+    expect(r.intervalDays).toBe(1);
+    expect(r.repetitions).toBe(1);
+    expect(r.familiarityLevel).toBe(2);
+    expect(r.dueAt.getTime()).toBe(NOW.getTime() + DAY_MS);
+    expect(r.lastReviewedAt).toBe(NOW);
+  });
+
+  it('第二次 good：6 天；第三次按 ease 倍增', () => {
+    const second = scheduleReview(fresh({ repetitions: 1, intervalDays: 1 }), 'good', NOW);
+    expect(second.intervalDays).toBe(6);
+
+    const third = scheduleReview(
+      fresh({ repetitions: 2, intervalDays: 6, easeFactor: 2.5 }),
+      'good',
+      NOW,
+    );
+    expect(third.intervalDays).toBe(15);
+  });
+
+  it('again：间隔回到 1 天、连续次数清零、lapse +1、熟练度回落但不低于 1', () => {
+    const r = scheduleReview(
+      fresh({ repetitions: 4, intervalDays: 30, familiarityLevel: 2, lapseCount: 1 }),
+      'again',
+      NOW,
+    );
+    expect(r.intervalDays).toBe(1);
+    expect(r.repetitions).toBe(0);
+    expect(r.lapseCount).toBe(2);
+    expect(r.familiarityLevel).toBe(1);
+    expect(r.easeFactor).toBeLessThan(2.5);
+  });
+
+  it('ease 有下限 1.3，反复 again 不会继续往下掉', () => {
+    let state = fresh({ easeFactor: 1.35 });
+    for (let i = 0; i < 5; i++) {
+      const r = scheduleReview(state, 'again', NOW);
+      state = { ...r };
+    }
+    expect(state.easeFactor).toBe(MIN_EASE_FACTOR);
+  });
+
+  it('hard 在后期只按 1.2 倍增长，且不提升熟练度', () => {
+    const r = scheduleReview(
+      fresh({ repetitions: 3, intervalDays: 10, familiarityLevel: 4 }),
+      'hard',
+      NOW,
+    );
+    expect(r.intervalDays).toBe(12);
+    expect(r.familiarityLevel).toBe(4);
+  });
+
+  it('easy 比 good 间隔更长，ease 上升', () => {
+    const state = fresh({ repetitions: 2, intervalDays: 6 });
+    const good = scheduleReview(state, 'good', NOW);
+    const easy = scheduleReview(state, 'easy', NOW);
+    expect(easy.intervalDays).toBeGreaterThan(good.intervalDays);
+    expect(easy.easeFactor).toBeGreaterThan(2.5);
+  });
+
+  it('熟练度封顶 7，间隔封顶 365 天', () => {
+    const r = scheduleReview(
+      fresh({ repetitions: 10, intervalDays: 300, easeFactor: 2.8, familiarityLevel: 7 }),
+      'easy',
+      NOW,
+    );
+    expect(r.familiarityLevel).toBe(7);
+    expect(r.intervalDays).toBe(365);
+  });
+});
+
+describe('isReviewGrade', () => {
+  it('只接受四档评分', () => {
+    expect(isReviewGrade('good')).toBe(true);
+    expect(isReviewGrade('again')).toBe(true);
+    expect(isReviewGrade('perfect')).toBe(false);
+    expect(isReviewGrade(3)).toBe(false);
+    expect(isReviewGrade(undefined)).toBe(false);
+  });
+});
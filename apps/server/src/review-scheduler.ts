@@ -0,0 +1,105 @@
+import type { ReviewGrade } from 'shared-types';
+
+/**
+ * 间隔重复调度器（SM-2 变体）
+ *
+ * 输入词族当前调度状态 + 本次评分，输出下一次的调度状态；
+ * VocabularyService.reviewFamily 在事务里读出 UserFamilyStatus，算完写回。
+ *
+ * 与原版 SM-2 的差异：
+ * - 评分用 Anki 四档（again / hard / good / easy）而非 0-5，映射到 quality 2/3/4/5
+ * - again 不把间隔打回 1 天重来之外再额外惩罚 interval，只扣 ease 并累计 lapse
+ * - hard 在第 3 次及以后只按 1.2 倍增长，避免"勉强想起"也指数拉长
+ * - easy 额外乘 1.3 的 bonus
+ *
+ * 同时给出新的 familiarityLevel（0-7），让词卡/列表里的熟练度和调度保持同向。
+ */
+
+export interface ReviewState {
+  intervalDays: number;
+  easeFactor: number;
+  repetitions: number;
+  lapseCount: number;
+  familiarityLevel: number;
+}
+
+export interface ReviewResult extends ReviewState {
+  dueAt: Date;
+  lastReviewedAt: Date;
+}
+
+export const REVIEW_GRADES: readonly ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL_DAYS = 365;
+const EASY_BONUS = 1.3;
+const HARD_MULTIPLIER = 1.2;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 2,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+  return typeof value === 'string' && (REVIEW_GRADES as readonly string[]).includes(value);
+}
+
+export function scheduleReview(
+  state: ReviewState,
+  grade: ReviewGrade,
+  now: Date = new Date(),
+): ReviewResult {
+  const quality = GRADE_QUALITY[grade];
+
+  // SM-2 的 EF 更新公式：EF' = EF + (0.1 - (5-q) * (0.08 + (5-q) * 0.02))
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    round2(state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))),
+  );
+
+  let intervalDays: number;
+  let repetitions: number;
+  let lapseCount = state.lapseCount;
+  let familiarityLevel: number;
+
+  if (grade === 'again') {
+    // 遗忘：重新从 1 天开始，熟练度回落 2 档（不低于 1，仍在学习中）
+    repetitions = 0;
+    intervalDays = 1;
+    lapseCount += 1;
+    familiarityLevel = Math.max(1, state.familiarityLevel - 2);
+  } else {
+    repetitions = state.repetitions + 1;
+    if (repetitions === 1) {
+      intervalDays = grade === 'easy' ? 4 : 1;
+    } else if (repetitions === 2) {
+      intervalDays = grade === 'hard' ? 3 : 6;
+    } else {
+      const base = Math.max(1, state.intervalDays);
+      const factor = grade === 'hard' ? HARD_MULTIPLIER : easeFactor;
+      intervalDays = Math.round(base * factor);
+    }
+    if (grade === 'easy') {
+      intervalDays = Math.round(intervalDays * EASY_BONUS);
+    }
+    intervalDays = Math.min(MAX_INTERVAL_DAYS, Math.max(1, intervalDays));
+    familiarityLevel = Math.min(7, state.familiarityLevel + (grade === 'hard' ? 0 : 1));
+  }
+
+  return {
+    intervalDays,
+    easeFactor,
+    repetitions,
+    lapseCount,
+    familiarityLevel,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    lastReviewedAt: now,
+  };
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
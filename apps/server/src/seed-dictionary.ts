@@ -51,6 +51,7 @@ async function main() {
               create: (entry.senses || []).map((sense: any) => ({
                 glosses: sense.glosses || [],
                 examples: sense.examples || [],
+                exampleTranslations: sense.exampleTranslations || [],
               })),
             },
           })),
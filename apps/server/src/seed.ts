@@ -68,9 +68,36 @@ async function main() {
     }
   }
 
+  // 3. 多词词条（ADR 0026）：每条短语自成一个词族，词族下只有短语原形这一个 Word。
+  // 变形（gave up）由客户端还原词头后按原形查询，不需要在这里展开 surface form。
+  const phrases = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'data/phrase-whitelist.json'), 'utf-8'),
+  ) as string[];
+  let processedPhrases = 0;
+
+  for (const rawPhrase of phrases) {
+    const text = rawPhrase.toLowerCase().trim().split(/\s+/).join(' ');
+    try {
+      const family = await prisma.wordFamily.upsert({
+        where: { rootWord: text },
+        update: {},
+        create: { rootWord: text },
+      });
+      await prisma.word.upsert({
+        where: { text },
+        update: {},
+        create: { text, tokenCount: text.split(' ').length, familyId: family.id },
+      });
+      processedPhrases++;
+    } catch (error) {
+      console.error(`处理短语 "${text}" 时出错:`, error);
+    }
+  }
+
   console.log(`[SUCCESS] 数据导入完成！`);
   console.log(`          - 词族总数: ${processedFamilies}`);
   console.log(`   - 单词总数: ${processedWords}`);
+  console.log(`   - 短语总数: ${processedPhrases}`);
 }
 
 main()
@@ -0,0 +1,12 @@
+/**
+ * sql.js（WASM SQLite）的进程级单例。Anki 导出和 Kindle vocab.db 导入共用，
+ * WASM 只在第一次用到时加载。
+ */
+import initSqlJs, { type SqlJsStatic } from 'sql.js';
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+export function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
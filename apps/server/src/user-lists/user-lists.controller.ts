@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../auth/guards';
+import { UserListsService } from './user-lists.service';
+import type {
+  UserListDto,
+  UserListFamiliesRequest,
+  UserListFamiliesResponse,
+  UserListUpsertRequest,
+} from 'shared-types';
+
+@Controller('api/v1/lists')
+@UseGuards(JwtAuthGuard)
+export class UserListsController {
+  constructor(private readonly service: UserListsService) {}
+
+  /** 当前用户的全部词单 */
+  @Get()
+  async list(@Request() req: any): Promise<{ lists: UserListDto[] }> {
+    const userId: number = req.user.id;
+    const lists = await this.service.list(userId);
+    return { lists };
+  }
+
+  @Post()
+  async create(@Request() req: any, @Body() body: UserListUpsertRequest): Promise<UserListDto> {
+    const userId: number = req.user.id;
+    return this.service.create(userId, body ?? {});
+  }
+
+  /** 改名 / 改描述，只改传了的字段 */
+  @Patch(':id')
+  async update(
+    @Request() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UserListUpsertRequest,
+  ): Promise<UserListDto> {
+    const userId: number = req.user.id;
+    return this.service.update(userId, id, body ?? {});
+  }
+
+  @Delete(':id')
+  @HttpCode(204)
+  async remove(@Request() req: any, @Param('id', ParseIntPipe) id: number): Promise<void> {
+    const userId: number = req.user.id;
+    await this.service.remove(userId, id);
+  }
+
+  /** 把词所在的词族加入词单；词族里的成员词不用逐个加 */
+  @Post(':id/families')
+  async addFamilies(
+    @Request() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UserListFamiliesRequest,
+  ): Promise<UserListFamiliesResponse> {
+    const userId: number = req.user.id;
+    return this.service.setFamilies(userId, id, body?.words, 'add');
+  }
+
+  @Delete(':id/families')
+  async removeFamilies(
+    @Request() req: any,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() body: UserListFamiliesRequest,
+  ): Promise<UserListFamiliesResponse> {
+    const userId: number = req.user.id;
+    return this.service.setFamilies(userId, id, body?.words, 'remove');
+  }
+}
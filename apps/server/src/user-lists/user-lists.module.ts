@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { UserListsController } from './user-lists.controller';
+import { UserListsService } from './user-lists.service';
+import { PrismaService } from '../prisma.service';
+
+@Module({
+  controllers: [UserListsController],
+  providers: [UserListsService, PrismaService],
+  exports: [UserListsService],
+})
+export class UserListsModule {}
@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma.service';
+import { resolveFamilies } from '../family-resolution';
+import type { UserListDto, UserListFamiliesResponse, UserListUpsertRequest } from 'shared-types';
+import {
+  MAX_LISTS_PER_USER,
+  MAX_LIST_WORDS_PER_REQUEST,
+  normalizeListDescription,
+  normalizeListName,
+} from './user-lists';
+
+type UserListRow = {
+  id: number;
+  name: string;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { wordFamilies: number };
+};
+
+const LIST_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  createdAt: true,
+  updatedAt: true,
+  _count: { select: { wordFamilies: true } },
+} as const;
+
+@Injectable()
+export class UserListsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** 当前用户的全部词单，按名字排序 */
+  async list(userId: number): Promise<UserListDto[]> {
+    const rows: UserListRow[] = await this.prisma.userList.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      select: LIST_SELECT,
+    });
+    return rows.map((row) => this.toDto(row));
+  }
+
+  async create(userId: number, body: UserListUpsertRequest): Promise<UserListDto> {
+    const name = normalizeListName(body.name);
+    if (!name) {
+      throw new BadRequestException('词单名称不能为空，且不超过 50 个字符');
+    }
+    const description = this.parseDescription(body.description);
+
+    const count = await this.prisma.userList.count({ where: { userId } });
+    if (count >= MAX_LISTS_PER_USER) {
+      throw new BadRequestException(`最多只能建 ${MAX_LISTS_PER_USER} 个词单`);
+    }
+    await this.assertNameFree(userId, name);
+
+    const row: UserListRow = await this.prisma.userList.create({
+      data: { userId, name, description: description ?? null },
+      select: LIST_SELECT,
+    });
+    return this.toDto(row);
+  }
+
+  async update(userId: number, id: number, body: UserListUpsertRequest): Promise<UserListDto> {
+    await this.assertOwned(userId, id);
+
+    const data: { name?: string; description?: string | null } = {};
+    if (body.name !== undefined) {
+      const name = normalizeListName(body.name);
+      if (!name) {
+        throw new BadRequestException('词单名称不能为空，且不超过 50 个字符');
+      }
+      await this.assertNameFree(userId, name, id);
+      data.name = name;
+    }
+    if (body.description !== undefined) {
+      data.description = this.parseDescription(body.description);
+    }
+
+    const row: UserListRow = await this.prisma.userList.update({
+      where: { id },
+      data,
+      select: LIST_SELECT,
+    });
+    return this.toDto(row);
+  }
+
+  /** 删除词单只断开和词族的关联，不动词库状态 */
+  async remove(userId: number, id: number): Promise<void> {
+    await this.assertOwned(userId, id);
+    await this.prisma.userList.delete({ where: { id } });
+  }
+
+  /** 把词（任意词形）所在的词族加入 / 移出词单 */
+  async setFamilies(
+    userId: number,
+    id: number,
+    words: unknown,
+    action: 'add' | 'remove',
+  ): Promise<UserListFamiliesResponse> {
+    if (!Array.isArray(words) || words.length === 0) {
+      throw new BadRequestException('words 不能为空');
+    }
+    if (words.length > MAX_LIST_WORDS_PER_REQUEST) {
+      throw new BadRequestException(`一次最多 ${MAX_LIST_WORDS_PER_REQUEST} 个词`);
+    }
+    await this.assertOwned(userId, id);
+
+    const texts = [
+      ...new Set(
+        words
+          .filter((w): w is string => typeof w === 'string')
+          .map((w) => w.trim().toLowerCase().replace(/’/g, "'").replace(/\s+/g, ' '))
+          .filter(Boolean),
+      ),
+    ];
+    const found = await resolveFamilies(this.prisma, userId, texts);
+    const familyIds = [...new Set([...found.values()].map((family) => family.id))];
+
+    const current = await this.prisma.userList.findUniqueOrThrow({
+      where: { id },
+      select: { wordFamilies: { where: { id: { in: familyIds } }, select: { id: true } } },
+    });
+    const present = new Set(current.wordFamilies.map((f) => f.id));
+    const changed = familyIds.filter((familyId) =>
+      action === 'add' ? !present.has(familyId) : present.has(familyId),
+    );
+
+    const row: UserListRow = await this.prisma.userList.update({
+      where: { id },
+      data: {
+        wordFamilies:
+          action === 'add'
+            ? { connect: changed.map((familyId) => ({ id: familyId })) }
+            : { disconnect: changed.map((familyId) => ({ id: familyId })) },
+      },
+      select: LIST_SELECT,
+    });
+
+    return {
+      list: this.toDto(row),
+      changedCount: changed.length,
+      unmatched: texts.filter((text) => !found.has(text)),
+    };
+  }
+
+  private parseDescription(raw: unknown): string | null | undefined {
+    if (raw === undefined) return undefined;
+    const description = normalizeListDescription(raw);
+    if (description === undefined) {
+      throw new BadRequestException('词单描述不超过 500 个字符');
+    }
+    return description;
+  }
+
+  private async assertOwned(userId: number, id: number): Promise<void> {
+    const list = await this.prisma.userList.findFirst({
+      where: { id, userId },
+      select: { id: true },
+    });
+    if (!list) throw new NotFoundException('词单不存在');
+  }
+
+  private async assertNameFree(userId: number, name: string, exceptId?: number): Promise<void> {
+    const existing = await this.prisma.userList.findUnique({
+      where: { userId_name: { userId, name } },
+      select: { id: true },
+    });
+    if (existing && existing.id !== exceptId) {
+      throw new ConflictException(`词单 "${name}" 已存在`);
+    }
+  }
+
+  private toDto(row: UserListRow): UserListDto {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      familyCount: row._count.wordFamilies,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
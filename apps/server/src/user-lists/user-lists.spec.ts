@@ -0,0 +1,49 @@
+import {
+  MAX_LIST_DESCRIPTION_LENGTH,
+  MAX_LIST_NAME_LENGTH,
+  listFilterValue,
+  normalizeListDescription,
+  normalizeListName,
+  parseVocabularyTagFilter,
+} from './user-lists';
+
+describe('normalizeListName', () => {
+  it('去首尾空白并压缩中间空白', () => {
+    expect(normalizeListName('  The Economist \t week 12 ')).toBe('The Economist week 12');
+  });
+
+  it('空串、非字符串、超长返回 null', () => {
+    expect(normalizeListName('   ')).toBeNull();
+    expect(normalizeListName(42)).toBeNull();
+    expect(normalizeListName('x'.repeat(MAX_LIST_NAME_LENGTH + 1))).toBeNull();
+  });
+});
+
+describe('normalizeListDescription', () => {
+  it('null 和空串都表示清空', () => {
+    expect(normalizeListDescription(null)).toBeNull();
+    expect(normalizeListDescription('  ')).toBeNull();
+  });
+
+  it('类型不对或超长返回 undefined', () => {
+    expect(normalizeListDescription(1)).toBeUndefined();
+    expect(normalizeListDescription('x'.repeat(MAX_LIST_DESCRIPTION_LENGTH + 1))).toBeUndefined();
+  });
+});
+
+describe('parseVocabularyTagFilter', () => {
+  it('普通值当作全局 Tag.key', () => {
+    expect(parseVocabularyTagFilter(' cet4 ')).toEqual({ tagKey: 'cet4' });
+  });
+
+  it('list:<id> 当作自建词单，和 listFilterValue 互逆', () => {
+    expect(parseVocabularyTagFilter(listFilterValue(12))).toEqual({ listId: 12 });
+  });
+
+  it('缺省、空串、非法 id 不筛选', () => {
+    expect(parseVocabularyTagFilter()).toBeNull();
+    expect(parseVocabularyTagFilter('')).toBeNull();
+    expect(parseVocabularyTagFilter('list:abc')).toBeNull();
+    expect(parseVocabularyTagFilter('list:0')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * 自建词单的输入规整与词库筛选参数解析。
+ *
+ * 词库列表 / Anki 导出的 ?tag= 同时接受两种值：
+ *   cet4      → 全局 Tag.key（考试词表）
+ *   list:12   → 当前用户 id 为 12 的自建词单
+ */
+
+export const MAX_LIST_NAME_LENGTH = 50;
+export const MAX_LIST_DESCRIPTION_LENGTH = 500;
+/** 单个用户最多建多少个词单 */
+export const MAX_LISTS_PER_USER = 200;
+/** 一次加入 / 移出最多多少个词 */
+export const MAX_LIST_WORDS_PER_REQUEST = 500;
+
+const LIST_FILTER_PREFIX = 'list:';
+
+export type VocabularyTagFilter = { tagKey: string } | { listId: number };
+
+/** 去首尾空白、压缩中间空白；为空或超长时返回 null */
+export function normalizeListName(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const name = raw.trim().replace(/\s+/g, ' ');
+  return name && name.length <= MAX_LIST_NAME_LENGTH ? name : null;
+}
+
+/** 空串视为清空（null）；类型不对或超长返回 undefined，由调用方回 400 */
+export function normalizeListDescription(raw: unknown): string | null | undefined {
+  if (raw === null) return null;
+  if (typeof raw !== 'string') return undefined;
+  const description = raw.trim();
+  if (description.length > MAX_LIST_DESCRIPTION_LENGTH) return undefined;
+  return description || null;
+}
+
+/** 词单 id 的筛选值，前端拼 ?tag= 时用 */
+export function listFilterValue(listId: number): string {
+  return `${LIST_FILTER_PREFIX}${listId}`;
+}
+
+/** 解析 ?tag=。缺省或空串返回 null（不筛选）；"list:" 后不是正整数时也返回 null */
+export function parseVocabularyTagFilter(raw?: string): VocabularyTagFilter | null {
+  const value = raw?.trim();
+  if (!value) return null;
+  if (!value.startsWith(LIST_FILTER_PREFIX)) return { tagKey: value };
+  const listId = Number(value.slice(LIST_FILTER_PREFIX.length));
+  return Number.isInteger(listId) && listId > 0 ? { listId } : null;
+}
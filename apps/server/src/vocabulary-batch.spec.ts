@@ -0,0 +1,66 @@
+import { parseBatchItems, toBatchResponse } from './vocabulary-batch';
+
+describe('parseBatchItems', () => {
+  it('规整 word，保留给出的字段', () => {
+    expect(
+      parseBatchItems([
+        { word: ' Running ', status: 'known', familiarityLevel: 7 },
+        { word: 'apple', familiarityLevel: 3 },
+        { word: 'tax', status: 'unknown' },
+      ]),
+    ).toEqual([
+      { word: 'running', status: 'known', familiarityLevel: 7 },
+      { word: 'apple', familiarityLevel: 3 },
+      { word: 'tax', status: 'unknown' },
+    ]);
+  });
+
+  it('任何一项不合法整批拒绝', () => {
+    expect(parseBatchItems({ word: 'a', status: 'known' })).toBeNull();
+    expect(parseBatchItems([{ word: 'a', status: 'known' }, { word: '' }])).toBeNull();
+    expect(parseBatchItems([{ word: 'a' }])).toBeNull();
+    expect(parseBatchItems([{ word: 'a', status: 'mastered' }])).toBeNull();
+    expect(parseBatchItems([{ word: 'a', familiarityLevel: 8 }])).toBeNull();
+    expect(parseBatchItems([{ word: 'a', familiarityLevel: 2.5 }])).toBeNull();
+    expect(parseBatchItems([null])).toBeNull();
+  });
+
+  it('空数组合法', () => {
+    expect(parseBatchItems([])).toEqual([]);
+  });
+});
+
+describe('toBatchResponse', () => {
+  it('结果与 items 一一对应，不在词表的词单独列出', () => {
+    const family = {
+      familyRoot: 'run',
+      lemmas: ['run', 'running'],
+      status: 'known' as const,
+      familiarityLevel: 7,
+    };
+    const response = toBatchResponse(
+      [
+        { word: 'running', status: 'known' },
+        { word: 'tax', status: 'unknown' },
+        { word: 'zzxq', status: 'known' },
+        { word: 'apple', familiarityLevel: 3 },
+      ],
+      [
+        { kind: 'updated', family },
+        { kind: 'removed', familyRoot: 'tax' },
+        { kind: 'noop', unknownLemma: true },
+        { kind: 'noop' },
+      ],
+    );
+
+    expect(response.results.map((r) => [r.family?.familyRoot, r.removedFamilyRoot])).toEqual([
+      ['run', undefined],
+      [undefined, 'tax'],
+      [undefined, undefined],
+      [undefined, undefined],
+    ]);
+    expect(response.updatedCount).toBe(1);
+    expect(response.removedCount).toBe(1);
+    expect(response.unknownLemmas).toEqual(['zzxq']);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * POST /vocabulary/batch 的请求校验与响应组装。
+ *
+ * 整批共用一个事务，所以校验放在事务之外一次做完：任何一项不合法整批回 400，
+ * 不会出现前半截写进去、后半截被拒的情况。
+ */
+import type {
+  VocabularyBatchItem,
+  VocabularyBatchResponse,
+  WordFamiliarityStatus,
+  WordMutationResponse,
+} from 'shared-types';
+import type { MutationOutcome } from './vocabulary.service';
+
+export const MAX_BATCH_ITEMS = 500;
+
+const STATUSES: readonly WordFamiliarityStatus[] = ['unknown', 'learning', 'known'];
+
+/**
+ * 规整批量条目：word 去空白转小写，status 必须是三种之一，familiarityLevel 为 0-7 的整数，
+ * 两者至少给一个。任何一项不合法返回 null，由调用方回 400。
+ */
+export function parseBatchItems(raw: unknown): VocabularyBatchItem[] | null {
+  if (!Array.isArray(raw)) return null;
+
+  const items: VocabularyBatchItem[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') return null;
+    const { word, status, familiarityLevel } = entry as Record<string, unknown>;
+    if (typeof word !== 'string' || !word.trim()) return null;
+
+    const item: VocabularyBatchItem = { word: word.trim().toLowerCase() };
+    if (status !== undefined) {
+      if (!STATUSES.includes(status as WordFamiliarityStatus)) return null;
+      item.status = status as WordFamiliarityStatus;
+    }
+    if (familiarityLevel !== undefined) {
+      if (
+        typeof familiarityLevel !== 'number' ||
+        !Number.isInteger(familiarityLevel) ||
+        familiarityLevel < 0 ||
+        familiarityLevel > 7
+      ) {
+        return null;
+      }
+      item.familiarityLevel = familiarityLevel;
+    }
+    if (item.status === undefined && item.familiarityLevel === undefined) return null;
+    items.push(item);
+  }
+  return items;
+}
+
+/** 把逐条的 MutationOutcome 组装成响应，results 与 items 一一对应 */
+export function toBatchResponse(
+  items: VocabularyBatchItem[],
+  outcomes: MutationOutcome[],
+): VocabularyBatchResponse {
+  const results: WordMutationResponse[] = outcomes.map((outcome, i) => {
+    const word = items[i].word;
+    if (outcome.kind === 'updated') {
+      return { success: true, message: `Word "${word}" updated`, family: outcome.family };
+    }
+    if (outcome.kind === 'removed') {
+      return {
+        success: true,
+        message: `Word "${word}" removed`,
+        removedFamilyRoot: outcome.familyRoot,
+      };
+    }
+    return {
+      success: true,
+      message: outcome.unknownLemma
+        ? `Word "${word}" not in dictionary`
+        : `Word "${word}" unchanged`,
+    };
+  });
+
+  const updatedCount = outcomes.filter((o) => o.kind === 'updated').length;
+  const removedCount = outcomes.filter((o) => o.kind === 'removed').length;
+  const unknownLemmas = [
+    ...new Set(
+      items
+        .filter((_, i) => {
+          const outcome = outcomes[i];
+          return outcome.kind === 'noop' && outcome.unknownLemma;
+        })
+        .map((item) => item.word),
+    ),
+  ];
+
+  return {
+    success: true,
+    message: `已更新 ${updatedCount} 个词族，移出 ${removedCount} 个`,
+    results,
+    updatedCount,
+    removedCount,
+    unknownLemmas,
+  };
+}
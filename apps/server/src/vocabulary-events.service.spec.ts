@@ -0,0 +1,51 @@
+import type { MessageEvent } from '@nestjs/common';
+import { VocabularyEventsService } from './vocabulary-events.service';
+
+describe('VocabularyEventsService', () => {
+  let service: VocabularyEventsService;
+
+  beforeEach(() => {
+    service = new VocabularyEventsService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('只把当前用户的变更推给订阅者', () => {
+    const received: MessageEvent[] = [];
+    const sub = service.stream(1).subscribe((e) => received.push(e));
+
+    service.publish(1, { removedFamilyRoot: 'run' });
+    service.publish(2, { removedFamilyRoot: 'eat' });
+    sub.unsubscribe();
+
+    expect(received).toEqual([{ type: 'change', data: { removedFamilyRoot: 'run' } }]);
+  });
+
+  it('同一用户的多个设备都能收到', () => {
+    const a: MessageEvent[] = [];
+    const b: MessageEvent[] = [];
+    const subA = service.stream(1).subscribe((e) => a.push(e));
+    const subB = service.stream(1).subscribe((e) => b.push(e));
+
+    service.publish(1, { resync: true });
+    subA.unsubscribe();
+    subB.unsubscribe();
+
+    expect(a).toHaveLength(1);
+    expect(b).toHaveLength(1);
+  });
+
+  it('空闲时定期发心跳，防止代理断开长连接', () => {
+    jest.useFakeTimers();
+    const received: MessageEvent[] = [];
+    const sub = service.stream(1).subscribe((e) => received.push(e));
+
+    jest.advanceTimersByTime(25_000);
+    sub.unsubscribe();
+    jest.useRealTimers();
+
+    expect(received).toEqual([{ type: 'ping', data: {} }]);
+  });
+});
@@ -0,0 +1,43 @@
+import { Injectable, Logger, MessageEvent, OnModuleDestroy } from '@nestjs/common';
+import { Observable, Subject, filter, interval, map, merge } from 'rxjs';
+import type { VocabularyChangeEvent } from 'shared-types';
+
+/** 心跳间隔：低于常见反向代理 / 负载均衡 60s 的空闲超时 */
+const HEARTBEAT_MS = 25_000;
+
+interface Envelope {
+  userId: number;
+  event: VocabularyChangeEvent;
+}
+
+/**
+ * 用户词库变更的进程内广播。VocabularyService 在写事务提交后 publish，
+ * /vocabulary/events 的 SSE 连接按 userId 过滤后推给该用户的所有设备。
+ *
+ * 只在单进程内有效——多实例部署需要换成 Redis pub/sub 之类的共享通道（见 ADR 0025）。
+ */
+@Injectable()
+export class VocabularyEventsService implements OnModuleDestroy {
+  private readonly logger = new Logger(VocabularyEventsService.name);
+  private readonly bus = new Subject<Envelope>();
+
+  publish(userId: number, event: VocabularyChangeEvent): void {
+    this.bus.next({ userId, event });
+  }
+
+  stream(userId: number): Observable<MessageEvent> {
+    this.logger.debug(`用户 ${userId} 订阅词库事件`);
+    const changes = this.bus.pipe(
+      filter((envelope) => envelope.userId === userId),
+      map((envelope): MessageEvent => ({ type: 'change', data: envelope.event })),
+    );
+    const heartbeat = interval(HEARTBEAT_MS).pipe(
+      map((): MessageEvent => ({ type: 'ping', data: {} })),
+    );
+    return merge(changes, heartbeat);
+  }
+
+  onModuleDestroy(): void {
+    this.bus.complete();
+  }
+}
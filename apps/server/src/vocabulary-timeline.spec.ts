@@ -0,0 +1,66 @@
+import { buildTimeline, localDateKey, timelineWindowStart } from './vocabulary-timeline';
+
+// 东八区 2026-10-19 10:00
+const NOW = new Date('2026-10-19T02:00:00.000Z');
+const CST = 480;
+
+describe('buildTimeline', () => {
+  it('窗口内每天都有一项，无事件补 0，按日期升序', () => {
+    const days = buildTimeline([], { days: 3, tzOffsetMinutes: CST, now: NOW });
+    expect(days.map((d) => d.date)).toEqual(['2026-10-17', '2026-10-18', '2026-10-19']);
+    expect(days.every((d) => d.learned === 0 && d.mastered === 0 && d.demoted === 0)).toBe(true);
+  });
+
+  it('按状态变化分类：新加入学习 / 升为已掌握 / 回退', () => {
+    const at = new Date('2026-10-19T01:00:00.000Z');
+    const days = buildTimeline(
+      [
+        { oldStatus: null, newStatus: 'LEARNING', createdAt: at },
+        { oldStatus: 'LEARNING', newStatus: 'KNOWN', createdAt: at },
+        { oldStatus: 'KNOWN', newStatus: 'LEARNING', createdAt: at },
+        { oldStatus: 'LEARNING', newStatus: null, createdAt: at },
+      ],
+      { days: 1, tzOffsetMinutes: CST, now: NOW },
+    );
+    // KNOWN → LEARNING 同时算"开始学"和"回退"
+    expect(days[0]).toEqual({ date: '2026-10-19', learned: 2, mastered: 1, demoted: 2 });
+  });
+
+  it('只改熟练度（状态不变）不计入任何曲线', () => {
+    const days = buildTimeline([{ oldStatus: 'LEARNING', newStatus: 'LEARNING', createdAt: NOW }], {
+      days: 1,
+      tzOffsetMinutes: CST,
+      now: NOW,
+    });
+    expect(days[0]).toMatchObject({ learned: 0, mastered: 0, demoted: 0 });
+  });
+
+  it('按请求方时区切天：UTC 前一天 17:00 在东八区已经是次日', () => {
+    const utcEvening = new Date('2026-10-18T17:00:00.000Z');
+    const days = buildTimeline([{ oldStatus: null, newStatus: 'KNOWN', createdAt: utcEvening }], {
+      days: 2,
+      tzOffsetMinutes: CST,
+      now: NOW,
+    });
+    expect(days[1]).toMatchObject({ date: '2026-10-19', mastered: 1 });
+    expect(days[0].mastered).toBe(0);
+  });
+
+  it('窗口外的事件被丢弃', () => {
+    const old = new Date('2026-09-01T00:00:00.000Z');
+    const days = buildTimeline([{ oldStatus: null, newStatus: 'LEARNING', createdAt: old }], {
+      days: 7,
+      tzOffsetMinutes: CST,
+      now: NOW,
+    });
+    expect(days.reduce((sum, d) => sum + d.learned, 0)).toBe(0);
+  });
+});
+
+describe('timelineWindowStart', () => {
+  it('返回请求方时区 (days-1) 天前 00:00 对应的 UTC 时间', () => {
+    const start = timelineWindowStart({ days: 3, tzOffsetMinutes: CST, now: NOW });
+    expect(start.toISOString()).toBe('2026-10-16T16:00:00.000Z');
+    expect(localDateKey(start, CST)).toBe('2026-10-17');
+  });
+});
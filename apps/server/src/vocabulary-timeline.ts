@@ -0,0 +1,76 @@
+import type { VocabularyTimelinePoint } from 'shared-types';
+
+/**
+ * 把 StatusChange 流水聚合成按天的进度时间线。
+ *
+ * VocabularyService 查出窗口内的流水后交给这里分桶。
+ * 分类规则按状态"等级"比较：不在词库 / UNKNOWN = 0，LEARNING = 1，KNOWN = 2。
+ *  - learned：新状态是 LEARNING 且旧状态不是（新加入 / 从已掌握退回都算"开始学"）
+ *  - mastered：新状态是 KNOWN 且旧状态不是
+ *  - demoted：等级下降（KNOWN → LEARNING、任意 → 移出词库）
+ * 所以 KNOWN → LEARNING 会同时计入 learned 和 demoted，两条曲线各自语义成立。
+ */
+
+export interface TimelineEvent {
+  oldStatus: string | null;
+  newStatus: string | null;
+  createdAt: Date;
+}
+
+export interface TimelineOptions {
+  days: number;
+  /** 请求方与 UTC 的偏移（分钟，东八区 = 480），决定"一天"的边界 */
+  tzOffsetMinutes: number;
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_RANK: Record<string, number> = {
+  UNKNOWN: 0,
+  LEARNING: 1,
+  KNOWN: 2,
+};
+
+function rank(status: string | null): number {
+  return status ? (STATUS_RANK[status] ?? 0) : 0;
+}
+
+/** 把时间换算成请求方时区的 YYYY-MM-DD */
+export function localDateKey(date: Date, tzOffsetMinutes: number): string {
+  return new Date(date.getTime() + tzOffsetMinutes * 60 * 1000).toISOString().slice(0, 10);
+}
+
+/** 时间窗口起点：请求方时区下 (days-1) 天前的 00:00，换回 UTC */
+export function timelineWindowStart({ days, tzOffsetMinutes, now }: TimelineOptions): Date {
+  const offsetMs = tzOffsetMinutes * 60 * 1000;
+  const localMidnight = Math.floor((now.getTime() + offsetMs) / DAY_MS) * DAY_MS;
+  return new Date(localMidnight - (days - 1) * DAY_MS - offsetMs);
+}
+
+export function buildTimeline(
+  events: TimelineEvent[],
+  options: TimelineOptions,
+): VocabularyTimelinePoint[] {
+  const start = timelineWindowStart(options);
+  const buckets = new Map<string, VocabularyTimelinePoint>();
+  const days: VocabularyTimelinePoint[] = [];
+
+  for (let i = 0; i < options.days; i++) {
+    const date = localDateKey(new Date(start.getTime() + i * DAY_MS), options.tzOffsetMinutes);
+    const point = { date, learned: 0, mastered: 0, demoted: 0 };
+    buckets.set(date, point);
+    days.push(point);
+  }
+
+  for (const event of events) {
+    const point = buckets.get(localDateKey(event.createdAt, options.tzOffsetMinutes));
+    if (!point) continue;
+
+    if (event.newStatus === 'LEARNING' && event.oldStatus !== 'LEARNING') point.learned++;
+    if (event.newStatus === 'KNOWN' && event.oldStatus !== 'KNOWN') point.mastered++;
+    if (rank(event.newStatus) < rank(event.oldStatus)) point.demoted++;
+  }
+
+  return days;
+}
@@ -4,6 +4,7 @@ import {
   Body,
   Get,
   Put,
+  Delete,
   Param,
   Query,
   Header,
@@ -12,12 +13,54 @@ import {
   UploadedFile,
   UseGuards,
   Request,
+  BadRequestException,
+  Sse,
+  MessageEvent,
 } from '@nestjs/common';
+import { Observable } from 'rxjs';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { VocabularyService } from './vocabulary.service';
+import { VocabularyEventsService } from './vocabulary-events.service';
 import { JwtAuthGuard } from './auth/guards';
+import { isReviewGrade } from './review-scheduler';
+import {
+  MAX_IGNORED_WORDS_PER_REQUEST,
+  normalizeIgnoredWord,
+  normalizeIgnoredWords,
+} from './ignored-words';
+import { normalizeEncounter, parseEncounterPage } from './word-encounters';
+import { normalizeOverrideWord } from './family-overrides';
+import { MAX_BATCH_ITEMS, parseBatchItems, toBatchResponse } from './vocabulary-batch';
+import { ANKI_NOTE_FIELDS, parseAnkiFields } from './anki-export';
+import { type VocabularyTagFilter, parseVocabularyTagFilter } from './user-lists/user-lists';
+import {
+  type KindleLookup,
+  detectKindleSource,
+  parseKindleClippings,
+  parseKindleVocabDb,
+} from './kindle-import';
 import type {
+  FamilyDetachRequest,
+  FamilyMergeRequest,
+  FamilyOverridesResponse,
+  IgnoreWordsRequest,
+  IgnoredWordsResponse,
+  KindleImportResponse,
+  PresetImportResponse,
+  PresetListInfo,
+  PresetRemovalResponse,
+  ReviewDueResponse,
+  ReviewSubmitRequest,
+  ReviewSubmitResponse,
+  StatusChangeSource,
+  VocabularyBatchRequest,
+  VocabularyBatchResponse,
+  VocabularyImportSourceFilter,
+  VocabularyTimelineResponse,
   VocabularySyncResponse,
+  WordEncounterListResponse,
+  WordEncounterRecordResponse,
+  WordEncounterRequest,
   WordMutationResponse,
   WordQueryRequest,
   WordQueryResponse,
@@ -25,10 +68,32 @@ import type {
   WordFamiliarityStatus,
 } from 'shared-types';
 
+const STATUS_CHANGE_SOURCES: readonly StatusChangeSource[] = [
+  'word_card',
+  'batch',
+  'auto',
+  'import',
+  'review',
+  'manual',
+];
+
+// ?tag=cet4 / ?tag=list:12；给了但解析不出来时回 400，而不是悄悄返回全部词汇
+function parseTagQuery(raw?: string): VocabularyTagFilter | null {
+  if (!raw?.trim()) return null;
+  const filter = parseVocabularyTagFilter(raw);
+  if (!filter) {
+    throw new BadRequestException('tag 必须是词表 key 或 list:<词单 id>');
+  }
+  return filter;
+}
+
 @Controller('api/v1/vocabulary')
 @UseGuards(JwtAuthGuard) // 保护整个控制器
 export class VocabularyController {
-  constructor(private readonly vocabularyService: VocabularyService) {}
+  constructor(
+    private readonly vocabularyService: VocabularyService,
+    private readonly vocabularyEvents: VocabularyEventsService,
+  ) {}
 
   @Post('query')
   async queryWords(@Request() req, @Body() request: WordQueryRequest): Promise<WordQueryResponse> {
@@ -42,15 +107,26 @@ export class VocabularyController {
   async addPresetVocabulary(
     @Request() req,
     @Param('listKey') listKey: string,
-  ): Promise<{ message: string; count: number }> {
+  ): Promise<PresetImportResponse> {
     const userId = req.user.id;
     return this.vocabularyService.addPresetVocabulary(listKey, userId);
   }
 
-  // 获取所有可用的预设词库
+  // 撤销预设导入：只移出导入后没动过的词族
+  @Delete('preset/:listKey')
+  async removePresetVocabulary(
+    @Request() req,
+    @Param('listKey') listKey: string,
+  ): Promise<PresetRemovalResponse> {
+    const userId = req.user.id;
+    return this.vocabularyService.removePresetVocabulary(listKey, userId);
+  }
+
+  // 获取所有可用的预设词库（含版本和当前用户的覆盖率）
   @Get('presets')
-  async getAvailablePresets() {
-    return this.vocabularyService.getAvailablePresets();
+  async getAvailablePresets(@Request() req): Promise<PresetListInfo[]> {
+    const userId = req.user.id;
+    return this.vocabularyService.getAvailablePresets(userId);
   }
 
   // 获取所有词汇来源
@@ -60,6 +136,136 @@ export class VocabularyController {
     return this.vocabularyService.getVocabularySources(userId);
   }
 
+  // 到期复习队列（学习中 + 已到期 / 从未复习）
+  @Get('review/due')
+  async getDueReviews(@Request() req, @Query('limit') limit?: string): Promise<ReviewDueResponse> {
+    const userId = req.user.id;
+    const parsed = limit ? parseInt(limit, 10) : undefined;
+    const take = parsed && parsed > 0 ? Math.min(parsed, 200) : undefined;
+    return this.vocabularyService.getDueReviews(userId, take);
+  }
+
+  // 提交复习评分，返回与写接口同形的 family，扩展端镜像直接 upsert
+  @Post('review/:familyRoot')
+  async reviewFamily(
+    @Request() req,
+    @Param('familyRoot') familyRoot: string,
+    @Body() request: ReviewSubmitRequest,
+  ): Promise<ReviewSubmitResponse> {
+    if (!isReviewGrade(request?.grade)) {
+      throw new BadRequestException('grade 必须是 again / hard / good / easy 之一');
+    }
+    const userId = req.user.id;
+    const { family, schedule } = await this.vocabularyService.reviewFamily(
+      familyRoot,
+      request.grade,
+      userId,
+    );
+    return {
+      success: true,
+      message: `Family "${familyRoot}" reviewed with grade "${request.grade}"`,
+      family,
+      schedule,
+    };
+  }
+
+  // 忽略列表：按字面词存在服务端，扩展 / 移动端共享。写接口返回最新全量
+  @Get('ignored')
+  async getIgnoredWords(@Request() req): Promise<IgnoredWordsResponse> {
+    const userId = req.user.id;
+    return { words: await this.vocabularyService.listIgnoredWords(userId) };
+  }
+
+  @Post('ignored')
+  async ignoreWords(
+    @Request() req,
+    @Body() request: IgnoreWordsRequest,
+  ): Promise<IgnoredWordsResponse> {
+    const words = normalizeIgnoredWords(request?.words);
+    if (!words) {
+      throw new BadRequestException('words 必须是字符串数组');
+    }
+    if (words.length > MAX_IGNORED_WORDS_PER_REQUEST) {
+      throw new BadRequestException(`单次最多忽略 ${MAX_IGNORED_WORDS_PER_REQUEST} 个词`);
+    }
+    const userId = req.user.id;
+    return this.vocabularyService.ignoreWords(userId, words);
+  }
+
+  @Delete('ignored/:word')
+  async unignoreWord(@Request() req, @Param('word') word: string): Promise<IgnoredWordsResponse> {
+    const userId = req.user.id;
+    return this.vocabularyService.unignoreWords(userId, [normalizeIgnoredWord(word)]);
+  }
+
+  // 清空忽略列表
+  @Delete('ignored')
+  async clearIgnoredWords(@Request() req): Promise<IgnoredWordsResponse> {
+    const userId = req.user.id;
+    return this.vocabularyService.unignoreWords(userId);
+  }
+
+  // 词族调整（ADR 0035）：拆出单个词 / 合并两个词族 / 撤销。写接口返回最新全量
+  @Get('family-overrides')
+  async getFamilyOverrides(@Request() req): Promise<FamilyOverridesResponse> {
+    const userId = req.user.id;
+    return { overrides: await this.vocabularyService.listFamilyOverrides(userId) };
+  }
+
+  @Post('family-overrides/detach')
+  async detachWord(
+    @Request() req,
+    @Body() request: FamilyDetachRequest,
+  ): Promise<FamilyOverridesResponse> {
+    const word = normalizeOverrideWord(request?.word);
+    if (!word) {
+      throw new BadRequestException('word 不能为空');
+    }
+    const userId = req.user.id;
+    return this.vocabularyService.detachWord(userId, word);
+  }
+
+  @Post('family-overrides/merge')
+  async mergeFamilies(
+    @Request() req,
+    @Body() request: FamilyMergeRequest,
+  ): Promise<FamilyOverridesResponse> {
+    const word = normalizeOverrideWord(request?.word);
+    const into = normalizeOverrideWord(request?.into);
+    if (!word || !into) {
+      throw new BadRequestException('word 与 into 不能为空');
+    }
+    const userId = req.user.id;
+    return this.vocabularyService.mergeFamilies(userId, word, into);
+  }
+
+  @Delete('family-overrides/:word')
+  async resetFamilyOverride(
+    @Request() req,
+    @Param('word') raw: string,
+  ): Promise<FamilyOverridesResponse> {
+    const word = normalizeOverrideWord(raw);
+    if (!word) {
+      throw new BadRequestException('word 不能为空');
+    }
+    const userId = req.user.id;
+    return this.vocabularyService.resetFamilyOverride(userId, word);
+  }
+
+  // 查词记录：客户端每次弹词卡时发一条，作为个人例句库
+  @Post('encounters')
+  async recordEncounter(
+    @Request() req,
+    @Body() request: WordEncounterRequest,
+  ): Promise<WordEncounterRecordResponse> {
+    const encounter = normalizeEncounter(request);
+    if (!encounter) {
+      throw new BadRequestException('word 与 sentence 不能为空');
+    }
+    const userId = req.user.id;
+    return this.vocabularyService.recordEncounter(userId, encounter);
+  }
+
   @Put(':word')
   async updateWordStatus(
     @Request() req,
@@ -73,6 +279,9 @@ export class VocabularyController {
         request.status ?? null,
         userId,
         request.familiarityLevel,
+        request.source && STATUS_CHANGE_SOURCES.includes(request.source)
+          ? request.source
+          : 'manual',
       );
 
       let message = '';
@@ -99,6 +308,28 @@ export class VocabularyController {
     }
   }
 
+  // 批量更新：整批一个事务，results 与 items 一一对应
+  @Post('batch')
+  async batchUpdateWordStatus(
+    @Request() req,
+    @Body() request: VocabularyBatchRequest,
+  ): Promise<VocabularyBatchResponse> {
+    const items = parseBatchItems(request?.items);
+    if (!items) {
+      throw new BadRequestException('items 必须是 { word, status?, familiarityLevel? } 数组');
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      throw new BadRequestException(`单次最多更新 ${MAX_BATCH_ITEMS} 个词`);
+    }
+    const userId = req.user.id;
+    const outcomes = await this.vocabularyService.batchUpdateWordStatus(
+      userId,
+      items,
+      request.source && STATUS_CHANGE_SOURCES.includes(request.source) ? request.source : 'batch',
+    );
+    return toBatchResponse(items, outcomes);
+  }
+
   // 自动提升熟练度接口
   @Post(':word/increase-familiarity')
   async autoIncreaseFamiliarity(
@@ -138,6 +369,23 @@ export class VocabularyController {
     return this.vocabularyService.getVocabularyStats(userId);
   }
 
+  // 进度时间线：最近 N 天每天新学 / 掌握 / 回退的词族数
+  @Get('stats/timeline')
+  async getVocabularyTimeline(
+    @Request() req,
+    @Query('days') days?: string,
+    @Query('tzOffset') tzOffset?: string,
+  ): Promise<VocabularyTimelineResponse> {
+    const userId = req.user.id;
+    const parsedDays = days ? parseInt(days, 10) : 30;
+    const parsedOffset = tzOffset ? parseInt(tzOffset, 10) : 0;
+    return this.vocabularyService.getVocabularyTimeline(
+      userId,
+      Number.isFinite(parsedDays) ? Math.min(Math.max(parsedDays, 1), 365) : 30,
+      Number.isFinite(parsedOffset) ? Math.min(Math.max(parsedOffset, -720), 840) : 0,
+    );
+  }
+
   @Get('list')
   async getAllVocabulary(
     @Request() req,
@@ -148,7 +396,8 @@ export class VocabularyController {
     @Query('sortOrder') sortOrder?: 'asc' | 'desc',
     @Query('status') status?: WordFamiliarityStatus,
     @Query('search') search?: string,
-    @Query('importSource') importSource?: 'manual' | 'preset' | 'all',
+    @Query('importSource') importSource?: VocabularyImportSourceFilter,
+    @Query('tag') tag?: string,
   ) {
     const userId = req.user.id;
     const options = {
@@ -159,6 +408,7 @@ export class VocabularyController {
       status,
       search,
       importSource,
+      tag: parseTagQuery(tag),
     };
 
     return this.vocabularyService.getAllVocabulary(userId, options);
@@ -200,6 +450,31 @@ export class VocabularyController {
     return new StreamableFile(Buffer.from(jsonData));
   }
 
+  // 导出为 Anki 卡包：?fields=word,chinese,context&status=&tag=&importSource=
+  @Get('export/anki')
+  @Header('Content-Type', 'application/octet-stream')
+  @Header('Content-Disposition', 'attachment; filename="vocabulary.apkg"')
+  async exportVocabularyAnki(
+    @Request() req,
+    @Query('fields') fields?: string,
+    @Query('status') status?: WordFamiliarityStatus,
+    @Query('tag') tag?: string,
+    @Query('importSource') importSource?: VocabularyImportSourceFilter,
+  ): Promise<StreamableFile> {
+    const parsedFields = parseAnkiFields(fields);
+    if (!parsedFields) {
+      throw new BadRequestException(`fields 只能取 ${ANKI_NOTE_FIELDS.join(', ')}`);
+    }
+    const userId = req.user.id;
+    const apkg = await this.vocabularyService.exportVocabularyToAnki(userId, {
+      fields: parsedFields,
+      status,
+      tag: parseTagQuery(tag),
+      importSource,
+    });
+    return new StreamableFile(apkg);
+  }
+
   // 导入词汇从JSON
   @Post('import')
   @UseInterceptors(FileInterceptor('file'))
@@ -215,12 +490,58 @@ export class VocabularyController {
     return this.vocabularyService.importVocabularyFromJson(jsonContent, userId);
   }
 
-  // 全量同步：扩展端启动 / 登录时拉一次，用作本地词库镜像。
-  // 不分页——一个用户的词族数量级在 1k~10k 间，一次拉完最简单。
+  // Kindle 导入：上传 vocab.db 或 My Clippings.txt。默认只预览，?commit=true 才写库
+  @Post('import/kindle')
+  @UseInterceptors(FileInterceptor('file'))
+  async importKindle(
+    @Request() req,
+    @UploadedFile() file: Express.Multer.File,
+    @Query('commit') commit?: string,
+  ): Promise<KindleImportResponse> {
+    if (!file) {
+      throw new BadRequestException('请上传 vocab.db 或 My Clippings.txt');
+    }
+    const source = detectKindleSource(file.buffer);
+    if (!source) {
+      throw new BadRequestException('无法识别的文件：需要 Kindle 的 vocab.db 或 My Clippings.txt');
+    }
+    let lookups: KindleLookup[];
+    try {
+      lookups =
+        source === 'vocab-db'
+          ? await parseKindleVocabDb(file.buffer)
+          : parseKindleClippings(file.buffer.toString('utf-8'));
+    } catch {
+      throw new BadRequestException('vocab.db 已损坏或不是 Kindle 生词本');
+    }
+    const userId = req.user.id;
+    return this.vocabularyService.importFromKindle(userId, source, lookups, commit === 'true');
+  }
+
+  // 词库同步：扩展端 / 移动端启动、登录时拉取，用作本地词库镜像。
+  // 首次不带 since 拉全量；之后带上次的 syncedAt 只拉增量 + tombstone。
   @Get('sync')
-  async syncVocabulary(@Request() req): Promise<VocabularySyncResponse> {
+  async syncVocabulary(
+    @Request() req,
+    @Query('since') since?: string,
+  ): Promise<VocabularySyncResponse> {
+    const userId = req.user.id;
+    if (!since) {
+      return this.vocabularyService.syncVocabulary(userId);
+    }
+    const cursor = new Date(since);
+    if (Number.isNaN(cursor.getTime())) {
+      throw new BadRequestException('since 必须是 ISO 8601 时间戳');
+    }
+    return this.vocabularyService.syncVocabulary(userId, cursor);
+  }
+
+  // 词库变更推送（SSE）：当前用户任一设备写入后，其他设备实时收到 family / tombstone。
+  // 客户端用带 Authorization 头的 fetch / XHR 读流（EventSource 不能带头）
+  @Sse('events')
+  streamVocabularyEvents(@Request() req): Observable<MessageEvent> {
     const userId = req.user.id;
-    return this.vocabularyService.syncVocabulary(userId);
+    return this.vocabularyEvents.stream(userId);
   }
 
   @Get('health')
@@ -237,4 +558,20 @@ export class VocabularyController {
     const userId = req.user.id;
     return this.vocabularyService.getWordsInFamily(familyRoot, userId);
   }
+
+  // 词族的查词记录，按时间倒序分页：?cursor=<上一页 nextCursor>&limit=
+  @Get('family/:familyRoot/encounters')
+  async getFamilyEncounters(
+    @Request() req,
+    @Param('familyRoot') familyRoot: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ): Promise<WordEncounterListResponse> {
+    const userId = req.user.id;
+    return this.vocabularyService.listEncounters(
+      userId,
+      familyRoot,
+      parseEncounterPage(cursor, limit),
+    );
+  }
 }
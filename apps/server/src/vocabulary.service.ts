@@ -1,28 +1,88 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from './prisma.service';
+import { VocabularyEventsService } from './vocabulary-events.service';
 import type {
+  FamilyOverrideInfo,
+  FamilyOverridesResponse,
+  IgnoredWordsResponse,
+  KindleImportFamily,
+  KindleImportResponse,
+  KindleImportSource,
+  PresetImportResponse,
+  PresetListInfo,
+  PresetRemovalResponse,
+  ReviewDueResponse,
+  ReviewGrade,
+  ReviewSchedule,
+  StatusChangeSource,
+  VocabularyBatchItem,
+  VocabularyImportSourceFilter,
   VocabularySyncFamily,
   VocabularySyncResponse,
+  VocabularyTimelineResponse,
+  WordEncounterListResponse,
+  WordEncounterRecordResponse,
   WordFamiliarityStatus,
+  WordQueryResponse,
 } from 'shared-types';
-import { Prisma, WordFamiliarityStatus as PrismaWordStatus } from '../generated/prisma';
-import * as fs from 'fs';
-import * as path from 'path';
+import {
+  Prisma,
+  StatusChangeSource as PrismaChangeSource,
+  WordFamiliarityStatus as PrismaWordStatus,
+} from '../generated/prisma';
+import { scheduleReview } from './review-scheduler';
+import { buildTimeline, timelineWindowStart } from './vocabulary-timeline';
+import {
+  MAX_ENCOUNTER_SENTENCE_LENGTH,
+  MAX_ENCOUNTER_SURFACE_LENGTH,
+  MAX_ENCOUNTER_TITLE_LENGTH,
+  type NormalizedEncounter,
+} from './word-encounters';
+import { KINDLE_IMPORT_SOURCE, type KindleLookup } from './kindle-import';
+import { overrideKind, planFamilyMerge } from './family-overrides';
+import { familyLemmas, resolveFamilies } from './family-resolution';
+import type { VocabularyTagFilter } from './user-lists/user-lists';
+import {
+  PRESET_IMPORT_LEVEL,
+  PRESET_IMPORT_SOURCE_PREFIX,
+  isUntouchedPresetRow,
+  presetImportSource,
+} from './preset-registry';
+import { PLACEMENT_IMPORT_SOURCE } from './placement/placement';
+import {
+  type AnkiExportFamily,
+  type AnkiNoteField,
+  MAX_ANKI_CONTEXTS,
+  buildAnkiPackage,
+} from './anki-export';
 
 /**
  * 写入操作的结果——告知扩展端如何更新本地 mirror。
  *  - updated: family upsert
  *  - removed: family 已从用户词库移除（按 root 删镜像）
- *  - noop: 词不在系统词表 / 状态无变化
+ *  - noop: 词不在系统词表（unknownLemma）/ 状态无变化
  */
 export type MutationOutcome =
   | { kind: 'updated'; family: VocabularySyncFamily }
   | { kind: 'removed'; familyRoot: string }
-  | { kind: 'noop' };
+  | { kind: 'noop'; unknownLemma?: boolean };
+
+/**
+ * 增量同步的回看窗口。游标是服务端时间戳，而 updatedAt 取的是事务内的时间——
+ * 一个在游标之前开始、之后才提交的事务会被漏掉。往回多看几秒兜住这种情况，
+ * 重复下发的 upsert / tombstone 在客户端都是幂等的。
+ */
+const SYNC_CURSOR_OVERLAP_MS = 5_000;
+
+/** 批量更新的事务超时：一条约 4~5 次查询，500 条在默认的 5s 内跑不完 */
+const BATCH_TRANSACTION_TIMEOUT_MS = 60_000;
 
 @Injectable()
 export class VocabularyService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly events: VocabularyEventsService,
+  ) {}
 
   /**
    * 查询词元的状态（基于词族）
@@ -30,29 +90,12 @@ export class VocabularyService {
    * @param userId 用户ID
    * @returns 返回每个词元对应的词族状态
    */
-  async queryWordsStatus(
-    lemmas: string[],
-    userId: number,
-  ): Promise<
-    Record<string, { status: WordFamiliarityStatus; familyRoot: string; familiarityLevel: number }>
-  > {
+  async queryWordsStatus(lemmas: string[], userId: number): Promise<WordQueryResponse> {
     if (lemmas.length === 0) return {};
 
-    // 1. 查找这些词元属于哪些词族
-    const wordsWithFamily = await this.prisma.word.findMany({
-      where: { text: { in: lemmas } },
-      select: {
-        text: true,
-        family: {
-          select: {
-            id: true,
-            rootWord: true,
-          },
-        },
-      },
-    });
-
-    const familyIds = [...new Set(wordsWithFamily.map((w) => w.family.id))];
+    // 1. 查找这些词元属于哪些词族（叠加用户的词族调整）
+    const familyByLemma = await resolveFamilies(this.prisma, userId, lemmas);
+    const familyIds = [...new Set([...familyByLemma.values()].map((f) => f.id))];
 
     // 2. 查询这些词族的状态和熟练度
     const familyStatuses = await this.prisma.userFamilyStatus.findMany({
@@ -72,17 +115,15 @@ export class VocabularyService {
     });
 
     // 3. 构建返回给前端的最终结果：{ lemma -> { status, familyRoot, familiarityLevel } }
-    const result: Record<
-      string,
-      { status: WordFamiliarityStatus; familyRoot: string; familiarityLevel: number }
-    > = {};
-    wordsWithFamily.forEach((word) => {
-      const familyData = statusMap.get(word.family.id);
-      result[word.text] = {
+    const result: WordQueryResponse = {};
+    familyByLemma.forEach((family, lemma) => {
+      const familyData = statusMap.get(family.id);
+      result[lemma] = {
         // 如果数据库没记录，则为 UNKNOWN
         status: familyData?.status || 'unknown',
-        familyRoot: word.family.rootWord,
+        familyRoot: family.rootWord,
         familiarityLevel: familyData?.familiarityLevel || 0,
+        ...(family.overridden && { overridden: true }),
       };
     });
 
@@ -92,88 +133,162 @@ export class VocabularyService {
   /**
    * 更新词族状态（基于词元）。
    * 返回 MutationOutcome——告知扩展端如何更新本地 mirror。
+   * 每次实际变更都追加一条 StatusChange 流水，source 标记触发来源。
    */
   async updateWordStatus(
     lemma: string,
     status: WordFamiliarityStatus | null,
     userId: number,
     familiarityLevel?: number,
+    source: StatusChangeSource = 'manual',
   ): Promise<MutationOutcome> {
-    return this.prisma.$transaction(async (tx) => {
-      const wordInfo = await tx.word.findUnique({
-        where: { text: lemma },
-        select: { familyId: true, family: { select: { rootWord: true } } },
-      });
-
-      if (!wordInfo) {
-        console.warn(`无法更新单词 "${lemma}" 的状态，因为它不属于任何词族。`);
-        return { kind: 'noop' };
-      }
+    const outcome = await this.prisma.$transaction((tx) =>
+      this.applyWordStatus(tx, userId, lemma, status, familiarityLevel, source),
+    );
+    this.publishOutcome(userId, outcome);
+    return outcome;
+  }
 
-      const { familyId } = wordInfo;
-      const { rootWord } = wordInfo.family;
+  /**
+   * 批量更新（右键"全部标为已掌握"等）。所有条目在同一个事务里按顺序执行，
+   * 任何一条抛错整体回滚；不在系统词表里的词记 noop，不算失败。
+   * 返回与 items 一一对应的结果。批量写不逐条推送，有变更时推一次 resync。
+   */
+  async batchUpdateWordStatus(
+    userId: number,
+    items: VocabularyBatchItem[],
+    source: StatusChangeSource = 'batch',
+  ): Promise<MutationOutcome[]> {
+    const outcomes = await this.prisma.$transaction(
+      async (tx) => {
+        const results: MutationOutcome[] = [];
+        for (const item of items) {
+          results.push(
+            await this.applyWordStatus(
+              tx,
+              userId,
+              item.word,
+              item.status ?? null,
+              item.familiarityLevel,
+              source,
+            ),
+          );
+        }
+        return results;
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT_MS },
+    );
+    if (outcomes.some((o) => o.kind !== 'noop')) {
+      this.events.publish(userId, { resync: true });
+    }
+    return outcomes;
+  }
 
-      // "unknown" 表示从词库中移除该词族——告知客户端按 root 删除镜像
-      if (status === 'unknown') {
-        await tx.userFamilyStatus.deleteMany({ where: { userId, familyId } });
-        console.log(`[UPDATE] 词族 "${rootWord}" (词元: "${lemma}") 已从词库移除`);
-        return { kind: 'removed', familyRoot: rootWord };
-      }
+  /** updateWordStatus / batchUpdateWordStatus 共用的单条写入，调用方负责事务和推送 */
+  private async applyWordStatus(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    lemma: string,
+    status: WordFamiliarityStatus | null,
+    familiarityLevel: number | undefined,
+    source: StatusChangeSource,
+  ): Promise<MutationOutcome> {
+    const wordInfo = (await resolveFamilies(tx, userId, [lemma])).get(lemma);
 
-      // 仅更新熟练度（保持状态）
-      if (status === null && familiarityLevel !== undefined) {
-        await tx.userFamilyStatus.updateMany({
-          where: { userId, familyId },
-          data: { familiarityLevel, updatedAt: new Date() },
-        });
-        console.log(`[UPDATE] 已更新词族 "${rootWord}" 熟练度为 ${familiarityLevel}`);
-        const family = await this.readFamilyState(tx, userId, familyId);
-        return family ? { kind: 'updated', family } : { kind: 'noop' };
-      }
+    if (!wordInfo) {
+      console.warn(`无法更新单词 "${lemma}" 的状态，因为它不属于任何词族。`);
+      return { kind: 'noop', unknownLemma: true };
+    }
 
-      const prismaStatus = status ? this.mapStatusToPrismaStatus(status) : undefined;
-      if (!prismaStatus) return { kind: 'noop' };
+    const { id: familyId, rootWord } = wordInfo;
+    const previous = await tx.userFamilyStatus.findUnique({
+      where: { userId_familyId: { userId, familyId } },
+      select: { status: true, familiarityLevel: true },
+    });
 
-      let finalFamiliarityLevel = familiarityLevel;
-      if (finalFamiliarityLevel === undefined) {
-        finalFamiliarityLevel = status === 'learning' ? 1 : status === 'known' ? 7 : 0;
-      }
+    // "unknown" 表示从词库中移除该词族——告知客户端按 root 删除镜像
+    if (status === 'unknown') {
+      await tx.userFamilyStatus.deleteMany({ where: { userId, familyId } });
+      await this.recordStatusChange(tx, userId, familyId, previous, null, source);
+      console.log(`[UPDATE] 词族 "${rootWord}" (词元: "${lemma}") 已从词库移除`);
+      return { kind: 'removed', familyRoot: rootWord };
+    }
 
-      await tx.userFamilyStatus.upsert({
-        where: { userId_familyId: { userId, familyId } },
-        update: {
-          status: prismaStatus,
-          familiarityLevel: finalFamiliarityLevel,
-          updatedAt: new Date(),
-        },
-        create: {
+    // 仅更新熟练度（保持状态）
+    if (status === null && familiarityLevel !== undefined) {
+      await tx.userFamilyStatus.updateMany({
+        where: { userId, familyId },
+        data: { familiarityLevel, updatedAt: new Date() },
+      });
+      if (previous) {
+        await this.recordStatusChange(
+          tx,
           userId,
           familyId,
-          status: prismaStatus,
-          familiarityLevel: finalFamiliarityLevel,
-          lastSeenAt: new Date(),
-        },
-      });
-
-      console.log(`[UPDATE] 已更新词族 "${rootWord}" (词元: "${lemma}") 状态为 "${status}"`);
+          previous,
+          { status: previous.status, familiarityLevel },
+          source,
+        );
+      }
+      console.log(`[UPDATE] 已更新词族 "${rootWord}" 熟练度为 ${familiarityLevel}`);
       const family = await this.readFamilyState(tx, userId, familyId);
       return family ? { kind: 'updated', family } : { kind: 'noop' };
+    }
+
+    const prismaStatus = status ? this.mapStatusToPrismaStatus(status) : undefined;
+    if (!prismaStatus) return { kind: 'noop' };
+
+    let finalFamiliarityLevel = familiarityLevel;
+    if (finalFamiliarityLevel === undefined) {
+      finalFamiliarityLevel = status === 'learning' ? 1 : status === 'known' ? 7 : 0;
+    }
+
+    // 从其他状态重新进入学习中：调度从头开始，否则已掌握期间的长间隔会让它迟迟不到期
+    const reenteringLearning =
+      prismaStatus === PrismaWordStatus.LEARNING &&
+      !!previous &&
+      previous.status !== PrismaWordStatus.LEARNING;
+
+    await tx.userFamilyStatus.upsert({
+      where: { userId_familyId: { userId, familyId } },
+      update: {
+        status: prismaStatus,
+        familiarityLevel: finalFamiliarityLevel,
+        ...(reenteringLearning && { dueAt: null, intervalDays: 0, repetitions: 0 }),
+        updatedAt: new Date(),
+      },
+      create: {
+        userId,
+        familyId,
+        status: prismaStatus,
+        familiarityLevel: finalFamiliarityLevel,
+        lastSeenAt: new Date(),
+      },
     });
+    await this.recordStatusChange(
+      tx,
+      userId,
+      familyId,
+      previous,
+      { status: prismaStatus, familiarityLevel: finalFamiliarityLevel },
+      source,
+    );
+
+    console.log(`[UPDATE] 已更新词族 "${rootWord}" (词元: "${lemma}") 状态为 "${status}"`);
+    const family = await this.readFamilyState(tx, userId, familyId);
+    return family ? { kind: 'updated', family } : { kind: 'noop' };
   }
 
   /**
    * 自动提升熟练度（最高到 7）并增加查词次数。
    */
   async autoIncreaseFamiliarity(lemma: string, userId: number): Promise<MutationOutcome> {
-    return this.prisma.$transaction(async (tx) => {
-      const wordInfo = await tx.word.findUnique({
-        where: { text: lemma },
-        select: { familyId: true, family: { select: { rootWord: true } } },
-      });
+    const outcome = await this.prisma.$transaction(async (tx): Promise<MutationOutcome> => {
+      const wordInfo = (await resolveFamilies(tx, userId, [lemma])).get(lemma);
 
       if (!wordInfo) return { kind: 'noop' };
 
-      const { familyId } = wordInfo;
+      const { id: familyId } = wordInfo;
       const existing = await tx.userFamilyStatus.findUnique({
         where: { userId_familyId: { userId, familyId } },
       });
@@ -197,18 +312,221 @@ export class VocabularyService {
       });
 
       if (shouldRaise) {
+        await this.recordStatusChange(tx, userId, familyId, existing, updated, 'auto');
         console.log(
-          `[AUTO] 词族 "${wordInfo.family.rootWord}" 熟练度 ${existing.familiarityLevel} -> ${updated.familiarityLevel}，查词次数 ${updated.lookupCount}`,
+          `[AUTO] 词族 "${wordInfo.rootWord}" 熟练度 ${existing.familiarityLevel} -> ${updated.familiarityLevel}，查词次数 ${updated.lookupCount}`,
         );
       } else {
-        console.log(
-          `[AUTO] 词族 "${wordInfo.family.rootWord}" 仅增加查词次数: ${updated.lookupCount}`,
-        );
+        console.log(`[AUTO] 词族 "${wordInfo.rootWord}" 仅增加查词次数: ${updated.lookupCount}`);
       }
 
       const family = await this.readFamilyState(tx, userId, familyId);
       return family ? { kind: 'updated', family } : { kind: 'noop' };
     });
+    this.publishOutcome(userId, outcome);
+    return outcome;
+  }
+
+  /**
+   * 到期复习队列：学习中且 dueAt 已过（或从未复习）的词族，最早到期的排前面。
+   * 从未复习过的（dueAt 为空）排在最后，避免刚批量加进来的新词淹没真正该复习的旧词。
+   */
+  async getDueReviews(userId: number, limit = 50): Promise<ReviewDueResponse> {
+    const where: Prisma.UserFamilyStatusWhereInput = {
+      userId,
+      status: PrismaWordStatus.LEARNING,
+      OR: [{ dueAt: null }, { dueAt: { lte: new Date() } }],
+    };
+
+    const [total, rows] = await Promise.all([
+      this.prisma.userFamilyStatus.count({ where }),
+      this.prisma.userFamilyStatus.findMany({
+        where,
+        orderBy: [{ dueAt: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }],
+        take: limit,
+        select: {
+          status: true,
+          familiarityLevel: true,
+          dueAt: true,
+          intervalDays: true,
+          easeFactor: true,
+          repetitions: true,
+          lapseCount: true,
+          lastReviewedAt: true,
+          familyId: true,
+          family: { select: { rootWord: true } },
+        },
+      }),
+    ]);
+    const lemmasByFamily = await familyLemmas(
+      this.prisma,
+      userId,
+      rows.map((row) => row.familyId),
+    );
+
+    return {
+      total,
+      families: rows.map((row) => ({
+        familyRoot: row.family.rootWord,
+        lemmas: lemmasByFamily.get(row.familyId) ?? [],
+        status: this.mapPrismaStatusToStatus(row.status),
+        familiarityLevel: row.familiarityLevel,
+        schedule: this.toReviewSchedule(row),
+      })),
+    };
+  }
+
+  /**
+   * 提交一次复习评分：按 SM-2 重新调度该词族，同步更新熟练度。
+   * 只允许复习用户词库里已有的词族——没加过的词没有调度状态可言。
+   */
+  async reviewFamily(
+    familyRoot: string,
+    grade: ReviewGrade,
+    userId: number,
+  ): Promise<{ family: VocabularySyncFamily; schedule: ReviewSchedule }> {
+    const result = await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.userFamilyStatus.findFirst({
+        where: { userId, family: { rootWord: familyRoot } },
+      });
+
+      if (!existing) {
+        throw new NotFoundException(`词族 "${familyRoot}" 不在你的词库中`);
+      }
+
+      const next = scheduleReview(existing, grade);
+
+      const updated = await tx.userFamilyStatus.update({
+        where: { id: existing.id },
+        data: {
+          dueAt: next.dueAt,
+          intervalDays: next.intervalDays,
+          easeFactor: next.easeFactor,
+          repetitions: next.repetitions,
+          lapseCount: next.lapseCount,
+          lastReviewedAt: next.lastReviewedAt,
+          familiarityLevel: next.familiarityLevel,
+        },
+      });
+
+      await this.recordStatusChange(tx, userId, existing.familyId, existing, updated, 'review');
+
+      console.log(
+        `[REVIEW] 词族 "${familyRoot}" 评分 ${grade}，间隔 ${existing.intervalDays} -> ${next.intervalDays} 天，熟练度 ${existing.familiarityLevel} -> ${next.familiarityLevel}`,
+      );
+
+      const family = await this.readFamilyState(tx, userId, existing.familyId);
+      if (!family) {
+        throw new NotFoundException(`词族 "${familyRoot}" 不在你的词库中`);
+      }
+      return { family, schedule: this.toReviewSchedule(updated) };
+    });
+    this.events.publish(userId, { family: result.family });
+    return result;
+  }
+
+  /**
+   * 写事务提交后把结果推给该用户的其他设备（SSE）。noop 不推。
+   */
+  private publishOutcome(userId: number, outcome: MutationOutcome): void {
+    if (outcome.kind === 'updated') {
+      this.events.publish(userId, { family: outcome.family });
+    } else if (outcome.kind === 'removed') {
+      this.events.publish(userId, { removedFamilyRoot: outcome.familyRoot });
+    }
+  }
+
+  private toReviewSchedule(row: {
+    dueAt: Date | null;
+    intervalDays: number;
+    easeFactor: number;
+    repetitions: number;
+    lapseCount: number;
+    lastReviewedAt: Date | null;
+  }): ReviewSchedule {
+    return {
+      dueAt: row.dueAt ? row.dueAt.toISOString() : null,
+      intervalDays: row.intervalDays,
+      easeFactor: row.easeFactor,
+      repetitions: row.repetitions,
+      lapseCount: row.lapseCount,
+      lastReviewedAt: row.lastReviewedAt ? row.lastReviewedAt.toISOString() : null,
+    };
+  }
+
+  /** ?tag= 的词族条件：全局 Tag.key，或当前用户自己的词单（别人的词单 id 匹配不到） */
+  private familyTagWhere(userId: number, filter: VocabularyTagFilter): Prisma.WordFamilyWhereInput {
+    return 'listId' in filter
+      ? { userLists: { some: { id: filter.listId, userId } } }
+      : { tags: { some: { key: filter.tagKey } } };
+  }
+
+  /** ?importSource= 的条件：手动添加的没有 importSource，预设词表按 "preset:<key>" 前缀匹配 */
+  private importSourceWhere(
+    filter: Exclude<VocabularyImportSourceFilter, 'all'>,
+  ): Prisma.UserFamilyStatusWhereInput['importSource'] {
+    switch (filter) {
+      case 'manual':
+        return null;
+      case 'preset':
+        return { startsWith: PRESET_IMPORT_SOURCE_PREFIX };
+      case 'kindle':
+        return KINDLE_IMPORT_SOURCE;
+      case 'placement':
+        return PLACEMENT_IMPORT_SOURCE;
+    }
+  }
+
+  /**
+   * 追加一条状态变更流水。before / after 为 null 分别表示变更前不在词库、变更后被移出；
+   * 状态和熟练度都没变（如重复点同一个按钮）时不写，避免流水被噪声撑大。
+   */
+  private async recordStatusChange(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    familyId: number,
+    before: { status: PrismaWordStatus; familiarityLevel: number } | null,
+    after: { status: PrismaWordStatus; familiarityLevel: number } | null,
+    source: StatusChangeSource,
+  ): Promise<void> {
+    if (!before && !after) return;
+    if (
+      before &&
+      after &&
+      before.status === after.status &&
+      before.familiarityLevel === after.familiarityLevel
+    ) {
+      return;
+    }
+
+    await tx.statusChange.create({
+      data: {
+        userId,
+        familyId,
+        oldStatus: before?.status ?? null,
+        newStatus: after?.status ?? null,
+        oldLevel: before?.familiarityLevel ?? null,
+        newLevel: after?.familiarityLevel ?? null,
+        source: this.mapChangeSourceToPrisma(source),
+      },
+    });
+  }
+
+  private mapChangeSourceToPrisma(source: StatusChangeSource): PrismaChangeSource {
+    switch (source) {
+      case 'word_card':
+        return PrismaChangeSource.WORD_CARD;
+      case 'batch':
+        return PrismaChangeSource.BATCH;
+      case 'auto':
+        return PrismaChangeSource.AUTO;
+      case 'import':
+        return PrismaChangeSource.IMPORT;
+      case 'review':
+        return PrismaChangeSource.REVIEW;
+      default:
+        return PrismaChangeSource.MANUAL;
+    }
   }
 
   /**
@@ -225,25 +543,42 @@ export class VocabularyService {
       select: {
         status: true,
         familiarityLevel: true,
-        family: {
-          select: {
-            rootWord: true,
-            words: { select: { text: true } },
-          },
-        },
+        family: { select: { rootWord: true } },
       },
     });
 
     if (!status) return null;
+    const lemmasByFamily = await familyLemmas(tx, userId, [familyId]);
 
     return {
       familyRoot: status.family.rootWord,
-      lemmas: status.family.words.map((w) => w.text),
+      lemmas: lemmasByFamily.get(familyId) ?? [],
       status: this.mapPrismaStatusToStatus(status.status),
       familiarityLevel: status.familiarityLevel,
     };
   }
 
+  /** 调整过词族归属的词，随 sync 整份下发给客户端挑代表词元用 */
+  private async listOverriddenWords(userId: number): Promise<string[]> {
+    const rows = await this.prisma.wordFamilyOverride.findMany({
+      where: { userId },
+      select: { word: { select: { text: true } } },
+    });
+    return rows.map((row) => row.word.text);
+  }
+
+  /** 词形变了而状态没变：碰一下 updatedAt，让增量同步重新下发这些词族 */
+  private async touchFamilies(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    familyIds: number[],
+  ): Promise<void> {
+    await tx.userFamilyStatus.updateMany({
+      where: { userId, familyId: { in: familyIds } },
+      data: { updatedAt: new Date() },
+    });
+  }
+
   private mapPrismaStatusToStatus(prismaStatus: PrismaWordStatus): WordFamiliarityStatus {
     switch (prismaStatus) {
       case PrismaWordStatus.UNKNOWN:
@@ -357,51 +692,410 @@ export class VocabularyService {
   }
 
   /**
-   * 全量同步：一次性返回当前用户拥有的所有词族及其所有词形。
-   * 扩展端用此构建本地镜像，所有 QUERY_WORDS_STATUS 读路径走本地。
+   * 进度时间线：最近 days 天每天新学 / 掌握 / 回退的词族数，数据来自 StatusChange 流水。
+   * tzOffsetMinutes 决定按哪个时区切天（东八区 = 480）。
+   */
+  async getVocabularyTimeline(
+    userId: number,
+    days: number,
+    tzOffsetMinutes: number,
+  ): Promise<VocabularyTimelineResponse> {
+    const now = new Date();
+    const options = { days, tzOffsetMinutes, now };
+
+    const events = await this.prisma.statusChange.findMany({
+      where: { userId, createdAt: { gte: timelineWindowStart(options) } },
+      select: { oldStatus: true, newStatus: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { days: buildTimeline(events, options) };
+  }
+
+  /**
+   * 词库同步，扩展端 / 移动端用此维护本地镜像，所有 QUERY_WORDS_STATUS 读路径走本地。
+   *  - 不带 since：全量，返回当前用户拥有的所有词族及其所有词形，客户端整体覆盖
+   *  - 带 since（上次响应的 syncedAt）：只返回之后写过的词族，外加被移出词库的
+   *    tombstone，客户端合并。tombstone 取自 StatusChange 里 newStatus 为空的流水
    */
-  async syncVocabulary(userId: number): Promise<VocabularySyncResponse> {
+  async syncVocabulary(userId: number, since?: Date): Promise<VocabularySyncResponse> {
+    // 游标取查询开始前的时间，查询期间发生的写入留给下一轮
+    const syncedAt = new Date();
+    const from = since ? new Date(since.getTime() - SYNC_CURSOR_OVERLAP_MS) : null;
+
     const rows = await this.prisma.userFamilyStatus.findMany({
-      where: { userId },
+      where: from ? { userId, updatedAt: { gt: from } } : { userId },
       select: {
         status: true,
         familiarityLevel: true,
-        family: {
-          select: {
-            rootWord: true,
-            words: { select: { text: true } },
-          },
-        },
+        familyId: true,
+        family: { select: { rootWord: true } },
       },
     });
+    // 词形叠加用户的词族调整；调整时会碰相关词族的 updatedAt，增量也能拿到新词形
+    const lemmasByFamily = await familyLemmas(
+      this.prisma,
+      userId,
+      rows.map((row) => row.familyId),
+    );
 
     const families = rows.map((row) => ({
       familyRoot: row.family.rootWord,
-      lemmas: row.family.words.map((w) => w.text),
+      lemmas: lemmasByFamily.get(row.familyId) ?? [],
       status: this.mapPrismaStatusToStatus(row.status),
       familiarityLevel: row.familiarityLevel,
     }));
 
+    // 忽略列表、调整过词族的词量都小，全量 / 增量都整份下发，省掉 tombstone
+    const ignoredWords = await this.listIgnoredWords(userId);
+    const overriddenWords = await this.listOverriddenWords(userId);
+
+    if (!from) {
+      return { syncedAt: syncedAt.toISOString(), families, ignoredWords, overriddenWords };
+    }
+
+    const removals = await this.prisma.statusChange.findMany({
+      where: { userId, newStatus: null, createdAt: { gt: from } },
+      distinct: ['familyId'],
+      select: { familyId: true, family: { select: { rootWord: true } } },
+    });
+
+    // 移除后又被重新加入的词族以当前行为准，不发 tombstone
+    const stillOwned = removals.length
+      ? await this.prisma.userFamilyStatus.findMany({
+          where: { userId, familyId: { in: removals.map((r) => r.familyId) } },
+          select: { familyId: true },
+        })
+      : [];
+    const owned = new Set(stillOwned.map((r) => r.familyId));
+
     return {
-      syncedAt: new Date().toISOString(),
+      syncedAt: syncedAt.toISOString(),
       families,
+      incremental: true,
+      removedFamilyRoots: removals
+        .filter((r) => !owned.has(r.familyId))
+        .map((r) => r.family.rootWord),
+      ignoredWords,
+      overriddenWords,
+    };
+  }
+
+  /**
+   * 忽略列表，最近加入的在前。调用方负责传入已规整的词（见 ignored-words.ts）。
+   */
+  async listIgnoredWords(userId: number): Promise<string[]> {
+    const rows = await this.prisma.ignoredWord.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select: { text: true },
+    });
+    return rows.map((row) => row.text);
+  }
+
+  async ignoreWords(userId: number, words: string[]): Promise<IgnoredWordsResponse> {
+    const { count } = await this.prisma.ignoredWord.createMany({
+      data: words.map((text) => ({ userId, text })),
+      skipDuplicates: true,
+    });
+    return this.publishIgnoredWords(userId, { addedCount: count });
+  }
+
+  /**
+   * 取消忽略。words 缺省表示清空整个列表。
+   */
+  async unignoreWords(userId: number, words?: string[]): Promise<IgnoredWordsResponse> {
+    const { count } = await this.prisma.ignoredWord.deleteMany({
+      where: words ? { userId, text: { in: words } } : { userId },
+    });
+    return this.publishIgnoredWords(userId, { removedCount: count });
+  }
+
+  private async publishIgnoredWords(
+    userId: number,
+    counts: Pick<IgnoredWordsResponse, 'addedCount' | 'removedCount'>,
+  ): Promise<IgnoredWordsResponse> {
+    const words = await this.listIgnoredWords(userId);
+    if (counts.addedCount || counts.removedCount) {
+      this.events.publish(userId, { ignoredWords: words });
+    }
+    return { words, ...counts };
+  }
+
+  /**
+   * 词族调整（ADR 0035），最近调整的在前。
+   */
+  async listFamilyOverrides(userId: number): Promise<FamilyOverrideInfo[]> {
+    const rows = await this.prisma.wordFamilyOverride.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      select: {
+        family: { select: { rootWord: true } },
+        word: { select: { text: true, family: { select: { rootWord: true } } } },
+      },
+    });
+    return rows.map((row) => ({
+      word: row.word.text,
+      kind: overrideKind(row.word.text, row.family.rootWord),
+      familyRoot: row.family.rootWord,
+      defaultFamilyRoot: row.word.family.rootWord,
+    }));
+  }
+
+  /**
+   * 把一个词从当前词族拆出来，挂到以它自己为根的词族上（没有则现建）。
+   * 新词族不继承原词族的状态——用户拆它就是因为两者掌握程度不同。
+   */
+  async detachWord(userId: number, word: string): Promise<FamilyOverridesResponse> {
+    await this.prisma.$transaction(async (tx) => {
+      const target = await tx.word.findUnique({
+        where: { text: word },
+        select: { id: true, familyId: true },
+      });
+      if (!target) {
+        throw new NotFoundException(`"${word}" 不在系统词表中`);
+      }
+      const current = (await resolveFamilies(tx, userId, [word])).get(word)!;
+      if (current.rootWord === word) {
+        throw new BadRequestException(`"${word}" 是所在词族的代表词，不用拆出`);
+      }
+
+      const own = await tx.wordFamily.upsert({
+        where: { rootWord: word },
+        update: {},
+        create: { rootWord: word },
+        select: { id: true },
+      });
+      if (own.id === target.familyId) {
+        // 系统词族本来就以它为根，之前是被并走的：删掉覆盖即可
+        await tx.wordFamilyOverride.deleteMany({ where: { userId, wordId: target.id } });
+      } else {
+        await tx.wordFamilyOverride.upsert({
+          where: { userId_wordId: { userId, wordId: target.id } },
+          update: { familyId: own.id },
+          create: { userId, wordId: target.id, familyId: own.id },
+        });
+      }
+      await this.touchFamilies(tx, userId, [current.id, own.id]);
+      console.log(`[OVERRIDE] "${word}" 从词族 "${current.rootWord}" 拆出`);
+    });
+    return this.publishFamilyOverrides(userId);
+  }
+
+  /**
+   * 把 word 所在词族整体并入 into 所在词族。目标已在词库时以目标状态为准，
+   * 否则继承源词族的状态（含复习调度）；源词族在该用户眼里空了，移出词库。
+   */
+  async mergeFamilies(
+    userId: number,
+    word: string,
+    into: string,
+  ): Promise<FamilyOverridesResponse> {
+    await this.prisma.$transaction(async (tx) => {
+      const resolved = await resolveFamilies(tx, userId, [word, into]);
+      const source = resolved.get(word);
+      const target = resolved.get(into);
+      if (!source || !target) {
+        throw new NotFoundException(`"${source ? into : word}" 不在系统词表中`);
+      }
+      if (source.id === target.id) {
+        throw new BadRequestException(`"${word}" 和 "${into}" 已经在同一个词族`);
+      }
+
+      // 源词族在该用户眼里的全部词：没被调走的系统词形 + 挂进来的
+      const members = await tx.word.findMany({
+        where: {
+          OR: [
+            { familyId: source.id, userOverrides: { none: { userId } } },
+            { userOverrides: { some: { userId, familyId: source.id } } },
+          ],
+        },
+        select: { id: true, familyId: true },
+      });
+      const plan = planFamilyMerge(
+        members.map((m) => ({ wordId: m.id, defaultFamilyId: m.familyId })),
+        target.id,
+      );
+      await tx.wordFamilyOverride.deleteMany({
+        where: { userId, wordId: { in: members.map((m) => m.id) } },
+      });
+      await tx.wordFamilyOverride.createMany({
+        data: plan.reassign.map((wordId) => ({ userId, wordId, familyId: target.id })),
+      });
+
+      const sourceStatus = await tx.userFamilyStatus.findUnique({
+        where: { userId_familyId: { userId, familyId: source.id } },
+      });
+      if (sourceStatus) {
+        const targetStatus = await tx.userFamilyStatus.findUnique({
+          where: { userId_familyId: { userId, familyId: target.id } },
+          select: { id: true },
+        });
+        if (targetStatus) {
+          await tx.userFamilyStatus.delete({ where: { id: sourceStatus.id } });
+        } else {
+          // 整行挪到目标词族，复习调度、查词次数一并带过去
+          await tx.userFamilyStatus.update({
+            where: { id: sourceStatus.id },
+            data: { familyId: target.id, updatedAt: new Date() },
+          });
+          await this.recordStatusChange(tx, userId, target.id, null, sourceStatus, 'manual');
+        }
+        await this.recordStatusChange(tx, userId, source.id, sourceStatus, null, 'manual');
+      }
+      await this.touchFamilies(tx, userId, [target.id]);
+      console.log(
+        `[OVERRIDE] 词族 "${source.rootWord}" 并入 "${target.rootWord}"（${members.length} 个词）`,
+      );
+    });
+    return this.publishFamilyOverrides(userId);
+  }
+
+  /**
+   * 撤销某个词的调整，回到系统词族。合并是整族的，撤销也整族撤销；
+   * 拆出的独立词族撤销后空了，它的状态一起移出词库。
+   */
+  async resetFamilyOverride(userId: number, word: string): Promise<FamilyOverridesResponse> {
+    await this.prisma.$transaction(async (tx) => {
+      const override = await tx.wordFamilyOverride.findFirst({
+        where: { userId, word: { text: word } },
+        select: { familyId: true, word: { select: { familyId: true } } },
+      });
+      if (!override) {
+        throw new NotFoundException(`"${word}" 没有调整过词族`);
+      }
+      const { familyId } = override;
+      const defaultFamilyId = override.word.familyId;
+
+      await tx.wordFamilyOverride.deleteMany({
+        where: { userId, familyId, word: { familyId: defaultFamilyId } },
+      });
+
+      const remaining = await familyLemmas(tx, userId, [familyId]);
+      if (remaining.get(familyId)?.length === 0) {
+        const previous = await tx.userFamilyStatus.findUnique({
+          where: { userId_familyId: { userId, familyId } },
+          select: { status: true, familiarityLevel: true },
+        });
+        if (previous) {
+          await tx.userFamilyStatus.deleteMany({ where: { userId, familyId } });
+          await this.recordStatusChange(tx, userId, familyId, previous, null, 'manual');
+        }
+      }
+      await this.touchFamilies(tx, userId, [familyId, defaultFamilyId]);
+      console.log(`[OVERRIDE] "${word}" 回到系统词族`);
+    });
+    return this.publishFamilyOverrides(userId);
+  }
+
+  /** 调整改的是词形归属，客户端按增量同步重新拉取受影响的词族 */
+  private async publishFamilyOverrides(userId: number): Promise<FamilyOverridesResponse> {
+    this.events.publish(userId, { resync: true });
+    return { overrides: await this.listFamilyOverrides(userId) };
+  }
+
+  /**
+   * 追加一条查词记录。按 lookupKeys 顺序找第一个命中的 Word 定位词族；
+   * 都不在系统词表时不记录（没有词族可挂）。documentId 必须是本人或系统预置文档，否则只丢出处。
+   */
+  async recordEncounter(
+    userId: number,
+    encounter: NormalizedEncounter,
+  ): Promise<WordEncounterRecordResponse> {
+    const familyByLemma = await resolveFamilies(this.prisma, userId, encounter.lookupKeys);
+    const hit = encounter.lookupKeys
+      .map((key) => familyByLemma.get(key))
+      .find((family) => family !== undefined);
+    if (!hit) {
+      return { recorded: false };
+    }
+
+    let documentId = encounter.documentId;
+    if (documentId !== null) {
+      const document = await this.prisma.document.findFirst({
+        where: { id: documentId, OR: [{ ownerId: null }, { ownerId: userId }] },
+        select: { id: true },
+      });
+      documentId = document?.id ?? null;
+    }
+
+    await this.prisma.wordEncounter.create({
+      data: {
+        userId,
+        familyId: hit.id,
+        surfaceForm: encounter.surfaceForm,
+        sentence: encounter.sentence,
+        url: encounter.url,
+        pageTitle: encounter.pageTitle,
+        documentId,
+        locator: documentId !== null ? encounter.locator : null,
+      },
+    });
+    return { recorded: true, familyRoot: hit.rootWord };
+  }
+
+  /**
+   * 词族的查词记录，按 id 倒序做游标分页。词族不必在用户词库里——查过但没加入的词也有记录。
+   */
+  async listEncounters(
+    userId: number,
+    familyRoot: string,
+    page: { cursor: number | null; limit: number },
+  ): Promise<WordEncounterListResponse> {
+    const family = await this.prisma.wordFamily.findUnique({
+      where: { rootWord: familyRoot },
+      select: { id: true },
+    });
+    if (!family) {
+      throw new NotFoundException(`词族 "${familyRoot}" 不存在`);
+    }
+
+    // 多取一条判断是否还有下一页
+    const rows = await this.prisma.wordEncounter.findMany({
+      where: {
+        userId,
+        familyId: family.id,
+        ...(page.cursor !== null ? { id: { lt: page.cursor } } : {}),
+      },
+      orderBy: { id: 'desc' },
+      take: page.limit + 1,
+      include: { document: { select: { title: true } } },
+    });
+    const hasMore = rows.length > page.limit;
+    const encounters = rows.slice(0, page.limit).map((row) => ({
+      id: row.id,
+      surfaceForm: row.surfaceForm,
+      sentence: row.sentence,
+      url: row.url,
+      pageTitle: row.pageTitle,
+      documentId: row.documentId,
+      documentTitle: row.document?.title ?? null,
+      locator: row.locator,
+      createdAt: row.createdAt.toISOString(),
+    }));
+
+    return {
+      familyRoot,
+      encounters,
+      nextCursor: hasMore ? encounters[encounters.length - 1].id : null,
     };
   }
 
   /**
-   * 获取词族内的所有单词
+   * 获取词族内的所有单词（叠加用户的词族调整）
    */
   async getWordsInFamily(familyRoot: string, userId: number): Promise<string[]> {
     const family = await this.prisma.wordFamily.findUnique({
       where: { rootWord: familyRoot },
-      include: { words: { select: { text: true } } },
+      select: { id: true },
     });
 
     if (!family) {
       return [];
     }
 
-    return family.words.map((w) => w.text);
+    const lemmasByFamily = await familyLemmas(this.prisma, userId, [family.id]);
+    return lemmasByFamily.get(family.id) ?? [];
   }
 
   async getAllVocabulary(
@@ -413,7 +1107,8 @@ export class VocabularyService {
       sortOrder?: 'asc' | 'desc';
       status?: WordFamiliarityStatus;
       search?: string;
-      importSource?: 'manual' | 'preset' | 'all'; // 新增：来源筛选
+      importSource?: VocabularyImportSourceFilter;
+      tag?: VocabularyTagFilter | null; // 考试词表或自建词单
     } = {},
   ): Promise<{
     families: Array<{
@@ -439,6 +1134,7 @@ export class VocabularyService {
       status,
       search,
       importSource = 'all',
+      tag,
     } = options;
 
     const skip = (page - 1) * limit;
@@ -447,13 +1143,8 @@ export class VocabularyService {
     const where: {
       userId: number;
       status?: PrismaWordStatus;
-      importSource?: any;
-      family?: {
-        rootWord?: {
-          contains: string;
-          mode: 'insensitive';
-        };
-      };
+      importSource?: Prisma.UserFamilyStatusWhereInput['importSource'];
+      family?: Prisma.WordFamilyWhereInput;
     } = { userId };
 
     if (status) {
@@ -469,13 +1160,14 @@ export class VocabularyService {
       };
     }
 
-    // 来源筛选
-    if (importSource === 'manual') {
-      where.importSource = null; // 手动添加的词汇没有importSource
-    } else if (importSource === 'preset') {
-      where.importSource = { not: null }; // 预设导入的词汇有importSource
+    if (tag) {
+      where.family = { ...where.family, ...this.familyTagWhere(userId, tag) };
+    }
+
+    // 来源筛选，'all' 不加条件
+    if (importSource !== 'all') {
+      where.importSource = this.importSourceWhere(importSource);
     }
-    // 'all' 则不添加筛选条件
 
     // 获取总数
     const total = await this.prisma.userFamilyStatus.count({ where });
@@ -503,23 +1195,20 @@ export class VocabularyService {
       skip,
       take: limit,
       orderBy,
-      include: {
-        family: {
-          include: {
-            _count: {
-              select: { words: true },
-            },
-          },
-        },
-      },
+      include: { family: true },
     });
+    const lemmasByFamily = await familyLemmas(
+      this.prisma,
+      userId,
+      families.map((item) => item.familyId),
+    );
 
     const totalPages = Math.ceil(total / limit);
 
     return {
       families: families.map((item) => ({
         familyRoot: item.family.rootWord,
-        wordCount: item.family._count.words,
+        wordCount: lemmasByFamily.get(item.familyId)?.length ?? 0,
         status: this.mapPrismaStatusToStatus(item.status),
         familiarityLevel: item.familiarityLevel,
         lookupCount: item.lookupCount,
@@ -534,152 +1223,162 @@ export class VocabularyService {
     };
   }
 
-  // 新增方法：加载预设词库
-  private _loadPresetList(listKey: string): Promise<{ name: string; words: string[] }> {
-    return new Promise((resolve, reject) => {
-      // 尝试多个可能的路径
-      const possiblePaths = [
-        path.join(__dirname, 'data', `${listKey}.json`), // 编译后的路径
-        path.join(__dirname, '..', 'data', `${listKey}.json`), // 可能的相对路径
-        path.join(process.cwd(), 'apps', 'server', 'src', 'data', `${listKey}.json`), // 开发模式路径
-        path.join(process.cwd(), 'src', 'data', `${listKey}.json`), // 当前工作目录
-      ];
+  // 通用的预设词库添加方法：词表来自注册表（PresetRegistryService 启动时同步）
+  async addPresetVocabulary(listKey: string, userId: number): Promise<PresetImportResponse> {
+    const preset = await this.prisma.presetList.findUnique({
+      where: { key: listKey },
+      select: {
+        id: true,
+        name: true,
+        version: true,
+        wordCount: true,
+        families: { select: { id: true } },
+      },
+    });
+    if (!preset) {
+      throw new NotFoundException(`预设词库 "${listKey}" 不存在`);
+    }
 
-      let filePath: string | null = null;
-      for (const testPath of possiblePaths) {
-        if (fs.existsSync(testPath)) {
-          filePath = testPath;
-          break;
-        }
-      }
+    console.log(
+      `为用户 ${userId} 添加 '${preset.name}' v${preset.version}, 共 ${preset.families.length} 个词族`,
+    );
 
-      if (!filePath) {
-        reject(
-          new Error(
-            `Preset list '${listKey}' not found. Searched paths: ${possiblePaths.join(', ')}`,
-          ),
-        );
-        return;
-      }
+    // 已存在的不覆盖（用户可能已经调整过状态），所以 skipDuplicates
+    const { count: familiesAdded } = await this.prisma.userFamilyStatus.createMany({
+      data: preset.families.map((family) => ({
+        userId,
+        familyId: family.id,
+        status: PrismaWordStatus.KNOWN, // 预设词库默认都认识
+        familiarityLevel: PRESET_IMPORT_LEVEL,
+        importSource: presetImportSource(listKey), // 标记来源，如 "preset:cet_4"
+      })),
+      skipDuplicates: true,
+    });
 
-      try {
-        const fileContent = fs.readFileSync(filePath, 'utf-8');
-        const data = JSON.parse(fileContent) as {
-          name: string;
-          words: string[];
-        };
-        resolve({ name: data.name, words: data.words });
-      } catch (error) {
-        reject(error);
-      }
+    await this.prisma.userPresetImport.upsert({
+      where: { userId_presetId: { userId, presetId: preset.id } },
+      update: {
+        version: preset.version,
+        familiesAdded: { increment: familiesAdded },
+        importedAt: new Date(),
+      },
+      create: { userId, presetId: preset.id, version: preset.version, familiesAdded },
     });
-  }
 
-  // 通用的预设词库添加方法
-  async addPresetVocabulary(
-    listKey: string,
-    userId: number,
-  ): Promise<{ message: string; count: number; familiesAdded: number }> {
-    const { name, words } = await this._loadPresetList(listKey);
+    console.log(`  [SUCCESS] 成功添加 ${familiesAdded} 个词族`);
+    // 批量写入不逐条推送，让客户端自己走一次增量 sync
+    if (familiesAdded > 0) this.events.publish(userId, { resync: true });
 
-    console.log(`为用户 ${userId} 添加 '${name}' 词库, 共 ${words.length} 个单词`);
+    return {
+      message: `'${preset.name}' 添加成功`,
+      count: preset.wordCount,
+      familiesAdded,
+      version: preset.version,
+    };
+  }
+
+  /**
+   * 撤销预设导入：只移出带该 importSource、导入后没动过的词族（判定见 isUntouchedPresetRow）；
+   * 用户改过状态、复习过的保留，importSource 不变。导入本身不记状态流水；
+   * 撤销要记 newStatus = null 的流水，增量 sync 靠它给客户端发 tombstone。
+   */
+  async removePresetVocabulary(listKey: string, userId: number): Promise<PresetRemovalResponse> {
+    const preset = await this.prisma.presetList.findUnique({
+      where: { key: listKey },
+      select: { id: true },
+    });
+    if (!preset) {
+      throw new NotFoundException(`预设词库 "${listKey}" 不存在`);
+    }
 
-    // 新逻辑：基于词族
-    // 1. 查找这些词元对应的词族
-    const wordsWithFamily = await this.prisma.word.findMany({
-      where: { text: { in: words } },
+    const rows = await this.prisma.userFamilyStatus.findMany({
+      where: { userId, importSource: presetImportSource(listKey) },
       select: {
-        text: true,
+        id: true,
         familyId: true,
-        family: { select: { rootWord: true } },
+        status: true,
+        familiarityLevel: true,
+        lastReviewedAt: true,
+        createdAt: true,
       },
     });
-
-    // 获取所有唯一的词族ID
-    const uniqueFamilyIds = [...new Set(wordsWithFamily.map((w) => w.familyId))];
-
-    console.log(
-      `  找到 ${wordsWithFamily.length}/${words.length} 个词元，涉及 ${uniqueFamilyIds.length} 个词族`,
+    const lastChanges = await this.prisma.statusChange.groupBy({
+      by: ['familyId'],
+      where: { userId, familyId: { in: rows.map((r) => r.familyId) } },
+      _max: { createdAt: true },
+    });
+    const lastChangeByFamily = new Map<number, Date | null>(
+      lastChanges.map((c) => [c.familyId, c._max.createdAt]),
     );
 
-    // 2. 为每个词族创建或更新状态记录
-    let familiesAdded = 0;
-    const importSource = `preset:${listKey}`; // 标记来源，如 "preset:cet4"
-    for (const familyId of uniqueFamilyIds) {
-      try {
-        await this.prisma.userFamilyStatus.upsert({
-          where: { userId_familyId: { userId, familyId } },
-          update: {
-            // 如果已存在，不覆盖（用户可能已经调整过状态）
-          },
-          create: {
+    const removable = rows.filter((row) =>
+      isUntouchedPresetRow(row, lastChangeByFamily.get(row.familyId) ?? null),
+    );
+    await this.prisma.$transaction(async (tx) => {
+      if (removable.length > 0) {
+        await tx.userFamilyStatus.deleteMany({
+          where: { id: { in: removable.map((r) => r.id) } },
+        });
+        // 一个词库几千个词族，逐条 recordStatusChange 太慢，这里按同样的字段批量写
+        await tx.statusChange.createMany({
+          data: removable.map((row) => ({
             userId,
-            familyId,
-            status: PrismaWordStatus.KNOWN, // 预设词库默认都认识
-            familiarityLevel: 7,
-            importSource, // 标记导入来源
-          },
+            familyId: row.familyId,
+            oldStatus: row.status,
+            newStatus: null,
+            oldLevel: row.familiarityLevel,
+            newLevel: null,
+            source: this.mapChangeSourceToPrisma('import'),
+          })),
         });
-        familiesAdded++;
-      } catch (error) {
-        console.error(`创建词族状态失败 (familyId: ${familyId}):`, error);
       }
-    }
-
-    console.log(`  [SUCCESS] 成功添加 ${familiesAdded} 个词族`);
+      await tx.userPresetImport.deleteMany({ where: { userId, presetId: preset.id } });
+    });
 
-    return {
-      message: `'${name}' 添加成功`,
-      count: words.length,
-      familiesAdded,
-    };
+    if (removable.length > 0) this.events.publish(userId, { resync: true });
+    return { removedCount: removable.length, keptCount: rows.length - removable.length };
   }
 
-  // 获取所有可用的预设词库信息
-  getAvailablePresets(): Promise<Array<{ key: string; name: string; description: string }>> {
-    return new Promise((resolve, reject) => {
-      try {
-        // 尝试多个可能的路径找到data目录
-        const possibleDataDirs = [
-          path.join(__dirname, 'data'),
-          path.join(__dirname, '..', 'data'),
-          path.join(process.cwd(), 'apps', 'server', 'src', 'data'),
-          path.join(process.cwd(), 'src', 'data'),
-        ];
-
-        let dataDir: string | null = null;
-        for (const testDir of possibleDataDirs) {
-          if (fs.existsSync(testDir)) {
-            dataDir = testDir;
-            break;
-          }
-        }
-
-        if (!dataDir) {
-          reject(new Error(`Data directory not found. Searched: ${possibleDataDirs.join(', ')}`));
-          return;
-        }
+  // 获取所有预设词库，附带当前用户的覆盖率和导入版本
+  async getAvailablePresets(userId: number): Promise<PresetListInfo[]> {
+    const presets = await this.prisma.presetList.findMany({
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        key: true,
+        name: true,
+        description: true,
+        version: true,
+        wordCount: true,
+        _count: { select: { families: true } },
+        imports: { where: { userId }, select: { version: true, importedAt: true } },
+      },
+    });
 
-        const files = fs.readdirSync(dataDir).filter((f) => f.endsWith('.json'));
-
-        const presets = files.map((file) => {
-          const fileContent = fs.readFileSync(path.join(dataDir!, file), 'utf-8');
-          const data = JSON.parse(fileContent) as {
-            key: string;
-            name: string;
-            description: string;
-          };
-          return {
-            key: data.key,
-            name: data.name,
-            description: data.description,
-          };
+    return Promise.all(
+      presets.map(async (preset) => {
+        const counts = await this.prisma.userFamilyStatus.groupBy({
+          by: ['status'],
+          where: { userId, family: { presetLists: { some: { id: preset.id } } } },
+          _count: { _all: true },
         });
-        resolve(presets);
-      } catch (error) {
-        reject(error);
-      }
-    });
+        const countOf = (status: PrismaWordStatus) =>
+          counts.find((c) => c.status === status)?._count._all ?? 0;
+        const imported = preset.imports[0];
+        return {
+          key: preset.key,
+          name: preset.name,
+          description: preset.description ?? '',
+          version: preset.version,
+          wordCount: preset.wordCount,
+          familyCount: preset._count.families,
+          knownCount: countOf(PrismaWordStatus.KNOWN),
+          learningCount: countOf(PrismaWordStatus.LEARNING),
+          importedVersion: imported?.version ?? null,
+          importedAt: imported ? imported.importedAt.toISOString() : null,
+        };
+      }),
+    );
   }
 
   // 获取所有词汇来源
@@ -698,19 +1397,14 @@ export class VocabularyService {
   async exportVocabularyToJson(userId: number): Promise<string> {
     const allFamilies = await this.prisma.userFamilyStatus.findMany({
       where: { userId },
-      include: {
-        family: {
-          include: {
-            words: {
-              select: {
-                text: true,
-              },
-            },
-          },
-        },
-      },
+      include: { family: true },
       orderBy: { family: { rootWord: 'asc' } },
     });
+    const lemmasByFamily = await familyLemmas(
+      this.prisma,
+      userId,
+      allFamilies.map((f) => f.familyId),
+    );
 
     const exportData = {
       version: '1.0',
@@ -724,7 +1418,7 @@ export class VocabularyService {
         lastSeenAt: f.lastSeenAt ? f.lastSeenAt.toISOString() : null,
         createdAt: f.createdAt.toISOString(),
         updatedAt: f.updatedAt.toISOString(),
-        words: f.family.words.map((w) => w.text),
+        words: lemmasByFamily.get(f.familyId) ?? [],
       })),
     };
 
@@ -791,6 +1485,102 @@ export class VocabularyService {
     return JSON.stringify(rootWords, null, 2);
   }
 
+  /**
+   * 导出为 Anki .apkg。字段来自词典（音标 / 中文释义 / 英文义项 / 音频链接）、
+   * 词族成员和查词记录里的句子；按 status / 词库标签 / 来源筛选（见 anki-export.ts）
+   */
+  async exportVocabularyToAnki(
+    userId: number,
+    options: {
+      fields: AnkiNoteField[];
+      status?: WordFamiliarityStatus;
+      tag?: VocabularyTagFilter | null;
+      importSource?: VocabularyImportSourceFilter;
+    },
+  ): Promise<Buffer> {
+    const where: Prisma.UserFamilyStatusWhereInput = { userId };
+    if (options.status) {
+      where.status = this.mapStatusToPrismaStatus(options.status);
+    }
+    if (options.tag) {
+      where.family = this.familyTagWhere(userId, options.tag);
+    }
+    if (options.importSource && options.importSource !== 'all') {
+      where.importSource = this.importSourceWhere(options.importSource);
+    }
+
+    const rows = await this.prisma.userFamilyStatus.findMany({
+      where,
+      include: {
+        family: {
+          select: {
+            id: true,
+            rootWord: true,
+            tags: { select: { key: true } },
+          },
+        },
+      },
+      orderBy: { family: { rootWord: 'asc' } },
+    });
+    const lemmasByFamily = await familyLemmas(
+      this.prisma,
+      userId,
+      rows.map((r) => r.family.id),
+    );
+
+    const needsDictionary = options.fields.some((f) =>
+      ['phonetic', 'chinese', 'definition', 'audio'].includes(f),
+    );
+    const dictionary = needsDictionary
+      ? await this.prisma.dictionaryEntry.findMany({
+          where: { word: { in: rows.map((r) => r.family.rootWord) } },
+          include: { entries: { include: { senses: { select: { glosses: true } } } } },
+        })
+      : [];
+    const dictionaryByWord = new Map<string, (typeof dictionary)[number]>(
+      dictionary.map((entry) => [entry.word, entry]),
+    );
+
+    const contextsByFamily = new Map<number, { surfaceForm: string; sentence: string }[]>();
+    if (options.fields.includes('context')) {
+      const encounters = await this.prisma.wordEncounter.findMany({
+        where: { userId, familyId: { in: rows.map((r) => r.family.id) } },
+        orderBy: { id: 'desc' },
+        select: { familyId: true, surfaceForm: true, sentence: true },
+      });
+      for (const e of encounters) {
+        const list = contextsByFamily.get(e.familyId) ?? [];
+        // 同一句子查了多次只留一条
+        if (list.length < MAX_ANKI_CONTEXTS && !list.some((c) => c.sentence === e.sentence)) {
+          list.push({ surfaceForm: e.surfaceForm, sentence: e.sentence });
+          contextsByFamily.set(e.familyId, list);
+        }
+      }
+    }
+
+    const families: AnkiExportFamily[] = rows.map((row) => {
+      const entry = dictionaryByWord.get(row.family.rootWord);
+      return {
+        familyRoot: row.family.rootWord,
+        status: this.mapPrismaStatusToStatus(row.status),
+        importSource: row.importSource,
+        tagKeys: row.family.tags.map((t) => t.key),
+        members: lemmasByFamily.get(row.family.id) ?? [],
+        dictionary: entry
+          ? {
+              phonetics: entry.phonetics,
+              audio: entry.audio,
+              chineseEntriesShort: entry.chineseEntriesShort,
+              entries: entry.entries,
+            }
+          : null,
+        contexts: contextsByFamily.get(row.family.id) ?? [],
+      };
+    });
+
+    return buildAnkiPackage(families, { fields: options.fields, deckName: 'LinguoLand' });
+  }
+
   // 从JSON导入词汇
   async importVocabularyFromJson(
     jsonContent: string,
@@ -827,40 +1617,58 @@ export class VocabularyService {
             continue;
           }
 
-          // 如果状态是unknown，则删除记录
-          if (status === 'unknown') {
-            await this.prisma.userFamilyStatus.deleteMany({
-              where: {
-                userId,
-                familyId: family.id,
-              },
+          // 读旧状态 + 写新状态 + 记流水放进同一事务（ADR 0006）
+          await this.prisma.$transaction(async (tx) => {
+            const previous = await tx.userFamilyStatus.findUnique({
+              where: { userId_familyId: { userId, familyId: family.id } },
+              select: { status: true, familiarityLevel: true },
             });
-            imported++;
-            continue;
-          }
 
-          // 创建或更新词族状态
-          await this.prisma.userFamilyStatus.upsert({
-            where: {
-              userId_familyId: {
+            // 如果状态是unknown，则删除记录
+            if (status === 'unknown') {
+              await tx.userFamilyStatus.deleteMany({
+                where: {
+                  userId,
+                  familyId: family.id,
+                },
+              });
+              await this.recordStatusChange(tx, userId, family.id, previous, null, 'import');
+              return;
+            }
+
+            const prismaStatus = this.mapStatusToPrismaStatus(status as WordFamiliarityStatus);
+
+            // 创建或更新词族状态
+            await tx.userFamilyStatus.upsert({
+              where: {
+                userId_familyId: {
+                  userId,
+                  familyId: family.id,
+                },
+              },
+              update: {
+                status: prismaStatus,
+                familiarityLevel: familiarityLevel || 0,
+                lookupCount: lookupCount || 0,
+                updatedAt: new Date(),
+              },
+              create: {
                 userId,
                 familyId: family.id,
+                status: prismaStatus,
+                familiarityLevel: familiarityLevel || 0,
+                lookupCount: lookupCount || 0,
+                lastSeenAt: new Date(),
               },
-            },
-            update: {
-              status: this.mapStatusToPrismaStatus(status as WordFamiliarityStatus),
-              familiarityLevel: familiarityLevel || 0,
-              lookupCount: lookupCount || 0,
-              updatedAt: new Date(),
-            },
-            create: {
+            });
+            await this.recordStatusChange(
+              tx,
               userId,
-              familyId: family.id,
-              status: this.mapStatusToPrismaStatus(status as WordFamiliarityStatus),
-              familiarityLevel: familiarityLevel || 0,
-              lookupCount: lookupCount || 0,
-              lastSeenAt: new Date(),
-            },
+              family.id,
+              previous,
+              { status: prismaStatus, familiarityLevel: familiarityLevel || 0 },
+              'import',
+            );
           });
           imported++;
         } catch (error) {
@@ -869,10 +1677,167 @@ export class VocabularyService {
         }
       }
 
+      if (imported > 0) this.events.publish(userId, { resync: true });
       return { message: '导入完成', imported, skipped };
     } catch (error) {
       throw new Error(`JSON解析失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   }
 
+  /**
+   * Kindle 查词导入。先按 stem、原词匹配系统词表并按词族合并；commit 为 false 时只返回预览。
+   * 提交时不在词库（或 UNKNOWN）的词族加为学习中，已在学习中 / 已掌握的不动状态；
+   * 带原句的查词写入查词记录（同词族同句去重），书名作为出处。
+   */
+  async importFromKindle(
+    userId: number,
+    source: KindleImportSource,
+    lookups: KindleLookup[],
+    commit: boolean,
+  ): Promise<KindleImportResponse> {
+    const keys = [...new Set(lookups.flatMap((l) => (l.stem ? [l.stem, l.word] : [l.word])))];
+    const familyByText = await resolveFamilies(this.prisma, userId, keys);
+
+    type Group = { id: number; rootWord: string; lookups: KindleLookup[] };
+    const groups = new Map<number, Group>();
+    const unmatched = new Set<string>();
+    for (const lookup of lookups) {
+      const family =
+        (lookup.stem ? familyByText.get(lookup.stem) : undefined) ?? familyByText.get(lookup.word);
+      if (!family) {
+        unmatched.add(lookup.word);
+        continue;
+      }
+      const group = groups.get(family.id) ?? {
+        id: family.id,
+        rootWord: family.rootWord,
+        lookups: [],
+      };
+      group.lookups.push(lookup);
+      groups.set(family.id, group);
+    }
+
+    const statuses = await this.prisma.userFamilyStatus.findMany({
+      where: { userId, familyId: { in: [...groups.keys()] } },
+      select: { familyId: true, status: true, familiarityLevel: true },
+    });
+    const statusByFamily = new Map<number, (typeof statuses)[number]>(
+      statuses.map((s) => [s.familyId, s]),
+    );
+
+    const matched: KindleImportFamily[] = [];
+    const alreadyKnown: KindleImportFamily[] = [];
+    const toAdd: Group[] = [];
+    for (const group of groups.values()) {
+      const current = statusByFamily.get(group.id);
+      const preview: KindleImportFamily = {
+        familyRoot: group.rootWord,
+        words: [...new Set(group.lookups.map((l) => l.word))],
+        books: [...new Set(group.lookups.flatMap((l) => (l.bookTitle ? [l.bookTitle] : [])))],
+        lookupCount: group.lookups.length,
+        sampleUsage: group.lookups.find((l) => l.usage)?.usage ?? null,
+        currentStatus: current ? this.mapPrismaStatusToStatus(current.status) : 'unknown',
+      };
+      if (current?.status === PrismaWordStatus.KNOWN) {
+        alreadyKnown.push(preview);
+        continue;
+      }
+      matched.push(preview);
+      if (!current || current.status === PrismaWordStatus.UNKNOWN) toAdd.push(group);
+    }
+
+    const response: KindleImportResponse = {
+      source,
+      totalLookups: lookups.length,
+      matched,
+      alreadyKnown,
+      unmatched: [...unmatched].sort(),
+      committed: commit,
+      addedCount: toAdd.length,
+      contextCount: 0,
+    };
+    if (!commit) return response;
+
+    const importSource = KINDLE_IMPORT_SOURCE;
+    const after = { status: PrismaWordStatus.LEARNING, familiarityLevel: 0 };
+    await this.prisma.$transaction(async (tx) => {
+      const familyIds = toAdd.map((group) => group.id);
+      // 事务里重读一遍：预览之后才变成学习中 / 已掌握的不动
+      const previous = await tx.userFamilyStatus.findMany({
+        where: { userId, familyId: { in: familyIds } },
+        select: { familyId: true, status: true, familiarityLevel: true },
+      });
+      const existing = new Set(previous.map((row) => row.familyId));
+      const unknown = previous.filter((row) => row.status === PrismaWordStatus.UNKNOWN);
+      const fresh = familyIds.filter((familyId) => !existing.has(familyId));
+
+      await tx.userFamilyStatus.updateMany({
+        where: { userId, familyId: { in: unknown.map((row) => row.familyId) } },
+        data: { ...after, importSource },
+      });
+      await tx.userFamilyStatus.createMany({
+        data: fresh.map((familyId) => ({
+          userId,
+          familyId,
+          ...after,
+          importSource,
+          lastSeenAt: new Date(),
+        })),
+        skipDuplicates: true,
+      });
+      // 一次几百个词族，逐条 recordStatusChange 太慢，这里按同样的字段批量写
+      await tx.statusChange.createMany({
+        data: [
+          ...unknown.map((row) => ({ familyId: row.familyId, before: row })),
+          ...fresh.map((familyId) => ({ familyId, before: null })),
+        ].map(({ familyId, before }) => ({
+          userId,
+          familyId,
+          oldStatus: before?.status ?? null,
+          newStatus: after.status,
+          oldLevel: before?.familiarityLevel ?? null,
+          newLevel: after.familiarityLevel,
+          source: this.mapChangeSourceToPrisma('import'),
+        })),
+      });
+    });
+
+    // 原句进查词记录；重复导入同一个 vocab.db 时跳过已有的（同词族同句）
+    const contexts = [...groups.values()].flatMap((group) =>
+      group.lookups
+        .filter((l) => l.usage)
+        .map((l) => ({
+          userId,
+          familyId: group.id,
+          surfaceForm: l.word.slice(0, MAX_ENCOUNTER_SURFACE_LENGTH),
+          sentence: l.usage!.slice(0, MAX_ENCOUNTER_SENTENCE_LENGTH),
+          pageTitle: l.bookTitle?.slice(0, MAX_ENCOUNTER_TITLE_LENGTH) ?? null,
+          createdAt: l.lookedUpAt ?? new Date(),
+        })),
+    );
+    if (contexts.length > 0) {
+      const existing = await this.prisma.wordEncounter.findMany({
+        where: {
+          userId,
+          familyId: { in: [...new Set(contexts.map((c) => c.familyId))] },
+          sentence: { in: [...new Set(contexts.map((c) => c.sentence))] },
+        },
+        select: { familyId: true, sentence: true },
+      });
+      const seen = new Set(existing.map((e) => `${e.familyId}\u0000${e.sentence}`));
+      const fresh = contexts.filter((c) => {
+        const key = `${c.familyId}\u0000${c.sentence}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (fresh.length > 0) {
+        await this.prisma.wordEncounter.createMany({ data: fresh });
+      }
+      response.contextCount = fresh.length;
+    }
+
+    if (toAdd.length > 0) this.events.publish(userId, { resync: true });
+    return response;
+  }
 }
@@ -0,0 +1,55 @@
+import {
+  DEFAULT_ENCOUNTER_PAGE_SIZE,
+  MAX_ENCOUNTER_PAGE_SIZE,
+  MAX_ENCOUNTER_SENTENCE_LENGTH,
+  normalizeEncounter,
+  parseEncounterPage,
+} from './word-encounters';
+
+describe('normalizeEncounter', () => {
+  it('词元优先于原文写法作为词族查找键，两者都规整成小写', () => {
+    const result = normalizeEncounter({
+      word: 'Gave  Up',
+      lemma: 'give up',
+      sentence: '  She never gave up.  ',
+    });
+    expect(result).toMatchObject({
+      surfaceForm: 'Gave Up',
+      lookupKeys: ['give up', 'gave up'],
+      sentence: 'She never gave up.',
+    });
+  });
+
+  it('超长句子截断而不是拒绝', () => {
+    const result = normalizeEncounter({ word: 'run', sentence: 'a'.repeat(5_000) });
+    expect(result?.sentence).toHaveLength(MAX_ENCOUNTER_SENTENCE_LENGTH);
+  });
+
+  it('出处字段类型不对时丢掉；没有 documentId 时 locator 也丢掉', () => {
+    const result = normalizeEncounter({
+      word: 'run',
+      sentence: 'I run.',
+      url: 42 as unknown as string,
+      documentId: -1,
+      locator: '0:120',
+    });
+    expect(result).toMatchObject({ url: null, documentId: null, locator: null });
+  });
+
+  it('缺 word 或 sentence 时返回 null', () => {
+    expect(normalizeEncounter({ word: 'run' })).toBeNull();
+    expect(normalizeEncounter({ word: '  ', sentence: 'x' })).toBeNull();
+    expect(normalizeEncounter(undefined)).toBeNull();
+  });
+});
+
+describe('parseEncounterPage', () => {
+  it('缺省 / 非法值回落到默认，limit 夹在 1..MAX 之间', () => {
+    expect(parseEncounterPage()).toEqual({ cursor: null, limit: DEFAULT_ENCOUNTER_PAGE_SIZE });
+    expect(parseEncounterPage('abc', '0')).toEqual({ cursor: null, limit: 1 });
+    expect(parseEncounterPage('57', '9999')).toEqual({
+      cursor: 57,
+      limit: MAX_ENCOUNTER_PAGE_SIZE,
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * 查词记录的输入规整与分页参数解析。
+ *
+ * 句子来自网页 / 阅读器的段落截取，长度不可控；超长的截断而不是拒绝——
+ * 记录失败不应该影响查词本身。出处字段类型不对或超长就丢掉，只保留句子。
+ */
+import type { WordEncounterRequest } from 'shared-types';
+
+export const MAX_ENCOUNTER_SENTENCE_LENGTH = 1_000;
+export const MAX_ENCOUNTER_SURFACE_LENGTH = 64;
+export const MAX_ENCOUNTER_URL_LENGTH = 2_048;
+export const MAX_ENCOUNTER_TITLE_LENGTH = 300;
+export const MAX_ENCOUNTER_LOCATOR_LENGTH = 500;
+
+export const DEFAULT_ENCOUNTER_PAGE_SIZE = 20;
+export const MAX_ENCOUNTER_PAGE_SIZE = 100;
+
+export interface NormalizedEncounter {
+  surfaceForm: string;
+  /** 用来定位词族的候选 Word.text，按优先级排列 */
+  lookupKeys: string[];
+  sentence: string;
+  url: string | null;
+  pageTitle: string | null;
+  documentId: number | null;
+  locator: string | null;
+}
+
+function optionalString(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed && trimmed.length <= maxLength ? trimmed : null;
+}
+
+function toLookupKey(raw: string): string {
+  return raw.trim().toLowerCase().replace(/’/g, "'").replace(/\s+/g, ' ');
+}
+
+/**
+ * 规整一条查词记录。word / sentence 缺失或为空时返回 null，由调用方回 400。
+ */
+export function normalizeEncounter(
+  input: Partial<WordEncounterRequest> | null | undefined,
+): NormalizedEncounter | null {
+  if (!input || typeof input.word !== 'string' || typeof input.sentence !== 'string') {
+    return null;
+  }
+
+  const surfaceForm = input.word.trim().replace(/\s+/g, ' ');
+  const sentence = input.sentence.trim().replace(/\s+/g, ' ');
+  if (!surfaceForm || surfaceForm.length > MAX_ENCOUNTER_SURFACE_LENGTH || !sentence) {
+    return null;
+  }
+
+  const lookupKeys = new Set<string>();
+  if (typeof input.lemma === 'string' && input.lemma.trim()) {
+    lookupKeys.add(toLookupKey(input.lemma));
+  }
+  lookupKeys.add(toLookupKey(surfaceForm));
+
+  const documentId =
+    typeof input.documentId === 'number' &&
+    Number.isInteger(input.documentId) &&
+    input.documentId > 0
+      ? input.documentId
+      : null;
+
+  return {
+    surfaceForm,
+    lookupKeys: Array.from(lookupKeys),
+    sentence: sentence.slice(0, MAX_ENCOUNTER_SENTENCE_LENGTH),
+    url: optionalString(input.url, MAX_ENCOUNTER_URL_LENGTH),
+    pageTitle: optionalString(input.pageTitle, MAX_ENCOUNTER_TITLE_LENGTH),
+    documentId,
+    locator: documentId ? optionalString(input.locator, MAX_ENCOUNTER_LOCATOR_LENGTH) : null,
+  };
+}
+
+/**
+ * 解析分页参数。cursor 是上一页最后一条的 id，非法值当作从头开始。
+ */
+export function parseEncounterPage(
+  cursor?: string,
+  limit?: string,
+): { cursor: number | null; limit: number } {
+  const parsedCursor = cursor ? parseInt(cursor, 10) : NaN;
+  const parsedLimit = limit ? parseInt(limit, 10) : NaN;
+  return {
+    cursor: Number.isFinite(parsedCursor) && parsedCursor > 0 ? parsedCursor : null,
+    limit: Number.isFinite(parsedLimit)
+      ? Math.min(Math.max(parsedLimit, 1), MAX_ENCOUNTER_PAGE_SIZE)
+      : DEFAULT_ENCOUNTER_PAGE_SIZE,
+  };
+}
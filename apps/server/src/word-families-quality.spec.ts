@@ -173,3 +173,27 @@ describe('词族 / 白名单质量', () => {
     expect(families[sg]).toContain(pl);
   });
 });
+
+describe('短语白名单（ADR 0026）', () => {
+  const phrases: string[] = JSON.parse(
+    readFileSync(join(DATA_DIR, 'phrase-whitelist.json'), 'utf-8'),
+  );
+
+  it('全部是小写、单空格分隔的 2-5 词原形，且不重复', () => {
+    for (const p of phrases) {
+      expect(p).toBe(p.toLowerCase().trim().split(/\s+/).join(' '));
+      expect(p.split(' ').length).toBeGreaterThanOrEqual(2);
+      expect(p.split(' ').length).toBeLessThanOrEqual(5);
+    }
+    expect(new Set(phrases).size).toBe(phrases.length);
+  });
+
+  it('词头都在单词白名单里——客户端要先还原词头才能匹配 gave up → give up', () => {
+    const missing = phrases.filter((p) => !wset.has(p.split(' ')[0]));
+    expect(missing).toEqual([]);
+  });
+
+  it('不与单词词族的 root 撞名', () => {
+    expect(phrases.filter((p) => p in families)).toEqual([]);
+  });
+});
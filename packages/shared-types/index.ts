@@ -6,6 +6,7 @@ export interface WordFamilyInfo {
   status: WordFamiliarityStatus;
   familyRoot: string; // 词族的根词
   familiarityLevel: number; // 熟练度 0-7
+  overridden?: boolean; // 用户调整过这个词的词族归属（ADR 0035），挑代表词元时优先
 }
 
 // 定义 /api/v1/vocabulary/query 的响应体类型（新版：基于词族）
@@ -25,15 +26,26 @@ export interface VocabularySyncFamily {
 }
 
 export interface VocabularySyncResponse {
-  syncedAt: string; // ISO 8601 时间戳，扩展端可用于判断陈旧
+  syncedAt: string; // ISO 8601 时间戳，扩展端可用于判断陈旧；也是下次增量同步的游标（?since=）
   families: VocabularySyncFamily[];
+  incremental?: boolean; // true：只含 since 之后写过的词族，客户端合并；缺省为全量，客户端整体覆盖
+  removedFamilyRoots?: string[]; // 增量模式下 since 之后被移出词库的词族（tombstone），按 root 删
+  ignoredWords?: string[]; // 忽略列表全量（全量 / 增量都带），客户端整体覆盖
+  overriddenWords?: string[]; // 调整过词族归属的词全量（全量 / 增量都带），客户端整体覆盖
 }
 
+// 状态变更的触发来源，写入 StatusChange 流水
+export type StatusChangeSource = 'word_card' | 'batch' | 'auto' | 'import' | 'review' | 'manual';
+
+// 词库列表 / Anki 导出的 ?importSource= 筛选：手动添加、预设词表、Kindle 导入、水平测试
+export type VocabularyImportSourceFilter = 'all' | 'manual' | 'preset' | 'kindle' | 'placement';
+
 // 定义 /api/v1/vocabulary/:word 的请求体类型
 export interface WordUpdateRequest {
   status?: WordFamiliarityStatus; // 改为可选，支持只更新熟练度
   familiarityLevel?: number;
   userId?: string;
+  source?: StatusChangeSource; // 缺省按 manual 记
 }
 
 // 写入接口（PUT /vocabulary/:word, POST /vocabulary/:word/increase-familiarity）的响应。
@@ -46,11 +58,254 @@ export interface WordMutationResponse {
   // family 与 removedFamilyRoot 互斥；都缺省表示 lemma 不在系统词表 / no-op
 }
 
+// POST /api/v1/vocabulary/batch 的一项；status / familiarityLevel 语义同 PUT /vocabulary/:word，至少给一个
+export interface VocabularyBatchItem {
+  word: string;
+  status?: WordFamiliarityStatus;
+  familiarityLevel?: number;
+}
+
+export interface VocabularyBatchRequest {
+  items: VocabularyBatchItem[];
+  source?: StatusChangeSource; // 缺省按 batch 记
+}
+
+// 整批在一个事务里：要么全部生效，要么整体失败（HTTP 错误），不会部分写入
+export interface VocabularyBatchResponse {
+  success: boolean;
+  message: string;
+  results: WordMutationResponse[]; // 与 items 一一对应
+  updatedCount: number; // results 中带 family 的条数
+  removedCount: number; // results 中带 removedFamilyRoot 的条数
+  unknownLemmas: string[]; // 不在系统词表里、没有写入的词
+}
+
+// GET /api/v1/vocabulary/events（SSE）中 type=change 的事件体。
+// family / removedFamilyRoot 与 WordMutationResponse 同义，直接喂给本地镜像；
+// resync 表示发生了批量写入（导入 / 预设词库），客户端应走一次增量 sync 而不是等逐条推送。
+export interface VocabularyChangeEvent {
+  family?: VocabularySyncFamily;
+  removedFamilyRoot?: string;
+  resync?: boolean;
+  ignoredWords?: string[]; // 忽略列表变更后的全量，客户端整体覆盖
+}
+
+// --- 忽略列表 ---
+
+// POST /api/v1/vocabulary/ignored 的请求体（单个忽略、批量忽略、本地列表迁移共用）
+export interface IgnoreWordsRequest {
+  words: string[];
+}
+
+// GET / POST / DELETE /api/v1/vocabulary/ignored 的响应：写接口也返回最新全量，客户端直接覆盖
+export interface IgnoredWordsResponse {
+  words: string[]; // 小写，最近加入的在前
+  addedCount?: number; // POST：实际新增条数（已存在的不算）
+  removedCount?: number; // DELETE：实际删除条数
+}
+
+// --- 词族调整（ADR 0035） ---
+
+// detached：拆成只含这个词的独立词族；merged：随原词族整体并入另一个词族
+export type FamilyOverrideKind = 'detached' | 'merged';
+
+export interface FamilyOverrideInfo {
+  word: string;
+  kind: FamilyOverrideKind;
+  familyRoot: string; // 调整后所在词族
+  defaultFamilyRoot: string; // 系统词族
+}
+
+// POST /api/v1/vocabulary/family-overrides/detach 的请求体
+export interface FamilyDetachRequest {
+  word: string;
+}
+
+// POST /api/v1/vocabulary/family-overrides/merge 的请求体：把 word 所在词族整体并入 into 所在词族
+export interface FamilyMergeRequest {
+  word: string;
+  into: string;
+}
+
+// GET / POST / DELETE /api/v1/vocabulary/family-overrides 的响应：写接口也返回最新全量
+export interface FamilyOverridesResponse {
+  overrides: FamilyOverrideInfo[]; // 最近调整的在前
+}
+
+// --- 查词记录（个人例句库） ---
+
+// POST /api/v1/vocabulary/encounters 的请求体。出处二选一：网页填 url / pageTitle，阅读器填 documentId / locator
+export interface WordEncounterRequest {
+  word: string; // 原文里的写法
+  lemma?: string; // 客户端已知的词族根 / 词元，优先用它定位词族
+  sentence: string;
+  url?: string;
+  pageTitle?: string;
+  documentId?: number;
+  locator?: string; // 同 ReadingProgressDto.locator
+}
+
+export interface WordEncounterRecordResponse {
+  recorded: boolean; // false：词不在系统词表，没有可挂的词族
+  familyRoot?: string;
+}
+
+export interface WordEncounterDto {
+  id: number;
+  surfaceForm: string;
+  sentence: string;
+  url: string | null;
+  pageTitle: string | null;
+  documentId: number | null;
+  documentTitle: string | null;
+  locator: string | null;
+  createdAt: string; // ISO 8601
+}
+
+// GET /api/v1/vocabulary/family/:familyRoot/encounters 的响应，按时间倒序
+export interface WordEncounterListResponse {
+  familyRoot: string;
+  encounters: WordEncounterDto[];
+  nextCursor: number | null; // 作为下一页的 ?cursor=；null 表示没有更多
+}
+
+// --- Kindle 导入 ---
+
+export type KindleImportSource = 'vocab-db' | 'clippings'; // vocab.db 生词本 / My Clippings.txt
+
+// 预览里的一个词族（多个查词合并到同一个词族）
+export interface KindleImportFamily {
+  familyRoot: string;
+  words: string[]; // 命中该词族的 Kindle 原词
+  books: string[];
+  lookupCount: number;
+  sampleUsage: string | null; // 一条原句，只有 vocab.db 有
+  currentStatus: WordFamiliarityStatus; // 导入前的状态
+}
+
+// POST /api/v1/vocabulary/import/kindle 的响应。不带 ?commit=true 时只预览，不写库
+export interface KindleImportResponse {
+  source: KindleImportSource;
+  totalLookups: number;
+  matched: KindleImportFamily[]; // 会加入 / 已在学习中的词族
+  alreadyKnown: KindleImportFamily[]; // 已掌握，不动状态
+  unmatched: string[]; // 系统词表里找不到的词
+  committed: boolean;
+  addedCount: number; // 新加入学习中的词族数（预览时为将要加入的数目）
+  contextCount: number; // 写入查词记录的原句数（预览时为 0）
+}
+
+// --- 预设词库 ---
+
+// GET /api/v1/vocabulary/presets 的一项：注册表信息 + 当前用户的覆盖率
+export interface PresetListInfo {
+  key: string; // importSource 为 "preset:<key>"
+  name: string;
+  description: string;
+  version: number;
+  wordCount: number;
+  familyCount: number; // 词表覆盖的词族数
+  knownCount: number; // 其中用户已掌握的词族数
+  learningCount: number;
+  importedVersion: number | null; // 用户最近一次导入时的版本；null 表示没导入过
+  importedAt: string | null; // ISO 8601
+}
+
+// POST /api/v1/vocabulary/add-preset/:listKey 的响应
+export interface PresetImportResponse {
+  message: string;
+  count: number; // 词表词数
+  familiesAdded: number; // 本次新加入词库的词族数（已在词库里的不覆盖）
+  version: number;
+}
+
+// DELETE /api/v1/vocabulary/preset/:listKey 的响应
+export interface PresetRemovalResponse {
+  removedCount: number; // 导入后没动过、被移出词库的词族数
+  keptCount: number; // 用户改过状态 / 复习过而保留的词族数
+}
+
+// --- 词汇量测试 ---
+
+// 词汇量估计：size 为后验均值，[low, high] 为 90% 区间（按 COCA 词频排名计的词数）
+export interface PlacementEstimate {
+  size: number;
+  low: number;
+  high: number;
+}
+
+// 服务端保存的一次测试；status 为 active 时 question 是当前待答的词
+export interface PlacementSessionDto {
+  id: number;
+  status: 'active' | 'finished' | 'applied';
+  answered: number;
+  maxQuestions: number;
+  question: { word: string; band: number } | null; // band 从 1 开始：第 N 个千词段
+  estimate: PlacementEstimate | null; // 还没答题时为 null
+  knownLimit: number | null; // 完成后可一键标为已掌握的高频词数（前 N 个）
+  appliedCount: number | null; // 已标记时新加入词库的词族数
+  createdAt: string; // ISO 8601
+}
+
+// POST /api/v1/placement/:id/answer 的请求体；word 必须是当前题目，防止重复提交
+export interface PlacementAnswerRequest {
+  word: string;
+  known: boolean;
+}
+
+// GET /api/v1/vocabulary/stats/timeline 的单日数据
+export interface VocabularyTimelinePoint {
+  date: string; // YYYY-MM-DD（按请求方时区）
+  learned: number; // 进入学习中的词族数
+  mastered: number; // 升为已掌握的词族数
+  demoted: number; // 状态回退（已掌握→学习中 / 移出词库）的词族数
+}
+
+export interface VocabularyTimelineResponse {
+  days: VocabularyTimelinePoint[]; // 按日期升序，无事件的日子补 0
+}
+
+// --- 间隔重复复习（SM-2） ---
+
+// 复习评分，语义同 Anki 四档：忘了 / 勉强想起 / 想起 / 很轻松
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// 词族当前的调度状态
+export interface ReviewSchedule {
+  dueAt: string | null; // ISO 8601；null 表示从未复习，视为立即到期
+  intervalDays: number;
+  easeFactor: number;
+  repetitions: number;
+  lapseCount: number;
+  lastReviewedAt: string | null;
+}
+
+// GET /api/v1/vocabulary/review/due 队列中的一项：镜像用的 family + 调度信息
+export interface ReviewQueueItem extends VocabularySyncFamily {
+  schedule: ReviewSchedule;
+}
+
+export interface ReviewDueResponse {
+  total: number; // 当前到期总数（不受 limit 影响）
+  families: ReviewQueueItem[];
+}
+
+// POST /api/v1/vocabulary/review/:familyRoot 的请求体
+export interface ReviewSubmitRequest {
+  grade: ReviewGrade;
+}
+
+// 复习提交的响应——family 与写接口同形，扩展端镜像可直接 applyFamily
+export interface ReviewSubmitResponse extends WordMutationResponse {
+  schedule?: ReviewSchedule;
+}
+
 // --- 新的词典数据类型 ---
 
 export interface Sense {
   glosses: string[];
   examples: string[];
+  exampleTranslations?: string[]; // 与 examples 下标对齐，没有中文译文的为空串
 }
 
 export interface DefinitionEntry {
@@ -66,6 +321,36 @@ export interface TagInfo {
   description?: string;
 }
 
+// 用户自建词单（个人标签）
+export interface UserListInfo {
+  id: number;
+  name: string;
+}
+
+export interface UserListDto extends UserListInfo {
+  description: string | null;
+  familyCount: number;
+  createdAt: string; // ISO 8601
+  updatedAt: string;
+}
+
+// POST /api/v1/lists、PATCH /api/v1/lists/:id 的请求体
+export interface UserListUpsertRequest {
+  name?: string;
+  description?: string | null;
+}
+
+// POST / DELETE /api/v1/lists/:id/families 的请求体：词或词族根均可，服务端定位到词族
+export interface UserListFamiliesRequest {
+  words: string[];
+}
+
+export interface UserListFamiliesResponse {
+  list: UserListDto;
+  changedCount: number; // 实际加入 / 移出的词族数
+  unmatched: string[]; // 系统词表里找不到的词
+}
+
 export interface DictionaryEntry {
   id: number;
   word: string;
@@ -74,8 +359,99 @@ export interface DictionaryEntry {
   forms: string[];
   entries: DefinitionEntry[];
   chineseEntriesShort?: any; // JSON 类型，用于存储中文释义
-  source?: 'db' | 'ai'; // 标识数据来源：数据库 或 AI 生成
+  source?: 'db' | 'ai' | 'pack' | 'external'; // 数据来源：数据库 / AI 生成（落库后仍是 'ai'）/ 扩展本地离线释义包 / 只有第三方词典有
+  sourceModel?: string | null; // AI 生成时的模型名
+  generatedAt?: string | null; // AI 生成时间，ISO 8601
   tags?: TagInfo[]; // 标签信息
+  userLists?: UserListInfo[]; // 当前用户包含该词族的自建词单
+  externalDefinitions?: ExternalDefinition[]; // 第三方词典里的释义，已按用户的词典顺序排好（ADR 0041）
+  dictionaryOrder?: string[]; // 用户的词典顺序（含内置的 'ecdict'），词卡据此排 tab
+}
+
+// 第三方词典（ADR 0041）：内置的 ECDICT 也算一个来源，key 固定为 'ecdict'
+export type DictionarySourceFormat = 'builtin' | 'stardict' | 'csv' | 'tsv';
+
+export interface DictionarySourceInfo {
+  key: string;
+  name: string;
+  format: DictionarySourceFormat;
+  entryCount: number | null; // 内置词典不统计，为 null
+}
+
+// GET /api/v1/dictionary-sources：全部词典，已按当前用户的顺序排好
+export interface DictionarySourcesResponse {
+  sources: DictionarySourceInfo[];
+}
+
+// PUT /api/v1/dictionary-sources/order
+export interface DictionarySourceOrderRequest {
+  order: string[]; // 词典 key；没列出的词典按默认顺序排在后面
+}
+
+export interface ExternalDefinition {
+  source: string; // 词典 key
+  sourceName: string;
+  headword: string; // 命中的词头，可能是点到的词形，也可能是词根
+  definition: string; // 纯文本，换行分段
+}
+
+// GET /api/v1/dictionary/:word/examples：从预置书和用户自己上传的文档里挖出的例句（ADR 0037）
+export interface ConcordanceExampleDto {
+  sentence: string;
+  surfaceForm: string; // 句中原文写法，可能是词族里的其他成员
+  documentId: number;
+  documentTitle: string;
+  fileFormat: DocumentFormat;
+  isPreset: boolean;
+  locator: string; // 同 ReadingProgress.locator：TXT "0:<charOffset>"，EPUB 为章节 href
+}
+
+export interface ConcordanceExamplesResponse {
+  word: string;
+  familyRoot: string | null; // 系统词表里找不到时为 null，examples 为空
+  examples: ConcordanceExampleDto[];
+}
+
+// GET /api/v1/dictionary-pack/manifest：离线释义包（ADR 0040），按词族哈希分块，按块增量更新
+export interface DefinitionsPackChunkInfo {
+  id: number;
+  hash: string; // 块内容指纹，也是下载地址 /dictionary-pack/chunks/:hash
+  familyCount: number;
+}
+
+export interface DefinitionsPackManifest {
+  version: string; // 整包指纹，由白名单 version 和各块 hash 算出
+  whitelistVersion: string; // 构建时的白名单 version
+  familyCount: number;
+  chunks: DefinitionsPackChunkInfo[];
+}
+
+export interface DefinitionsPackFamily {
+  root: string;
+  words: string[]; // 词族里的所有词形（含 root），本地按它把点到的词还原到词根
+  entry: DictionaryEntry; // 不含 userLists：那是用户数据，不进公共包
+}
+
+// GET /api/v1/dictionary-pack/chunks/:hash（gzip）
+export interface DefinitionsPackChunk {
+  id: number;
+  hash: string;
+  families: DefinitionsPackFamily[];
+}
+
+// GET /api/v1/dictionary/search?q=：前缀补全 / 拼写纠错 / 中文反查（ADR 0039）
+export type DictionarySearchMode = 'prefix' | 'fuzzy' | 'reverse';
+
+export interface DictionarySearchResult {
+  word: string;
+  summary?: string; // 第一条中文简释，如 "vt. 接收；收到"；词典里没有词条时缺省
+  distance?: number; // fuzzy 模式下与输入的编辑距离
+}
+
+export interface DictionarySearchResponse {
+  query: string;
+  mode: DictionarySearchMode;
+  results: DictionarySearchResult[];
 }
 
 // 单词详细信息接口 - 现在使用新的 DictionaryEntry 结构
@@ -88,6 +464,129 @@ export interface AIEnrichmentData {
   synonym: string;
 }
 
+// --- AI 结构化输出（ADR 0045） ---
+
+/** 中文释义配英文原文，搭配、难词、完整表达都用它 */
+export interface AIGlossItem {
+  text: string;
+  meaning: string;
+}
+
+/** POST /api/v1/ai/enrich-structured */
+export interface AIStructuredEnrichment {
+  /** 点到的词，原样返回 */
+  word: string;
+  /** 原形 */
+  lemma: string;
+  /** 句中词性，如 "n." "v." "adj." */
+  partOfSpeech: string;
+  /** 句中含义，中文 */
+  contextualSense: string;
+  /** 句子里包含这个词的完整表达（短语动词、固定搭配、连字符复合词），没有时为 null */
+  phrase: AIGlossItem | null;
+  /** 这个词在这个意思下的常见搭配 */
+  collocations: AIGlossItem[];
+}
+
+/** main 主句；subordinate 从句；nonfinite 非谓语短语（不定式、分词、动名词） */
+export type AIClauseKind = 'main' | 'subordinate' | 'nonfinite';
+
+export interface AIClause {
+  /** 句中原文 */
+  text: string;
+  kind: AIClauseKind;
+  /** 中文说明，如 "定语从句，修饰 the man" */
+  role: string;
+  /** text 在原句中的起始下标（服务端计算），找不到时为 null，客户端据此高亮 */
+  start: number | null;
+}
+
+export interface AIGrammarPoint {
+  title: string;
+  explanation: string;
+}
+
+/** POST /api/v1/ai/sentence-analysis */
+export interface AISentenceAnalysis {
+  sentence: string;
+  translation: string;
+  /** 主句的主语、谓语，句中原文 */
+  subject: string;
+  predicate: string;
+  /** 按在句中出现的顺序 */
+  clauses: AIClause[];
+  grammarPoints: AIGrammarPoint[];
+  difficultWords: AIGlossItem[];
+}
+
+// --- 词卡追问（ADR 0046） ---
+
+/**
+ * POST /api/v1/ai/chat（SSE）。不带 threadId 时新开一个对话，word / context 必填；
+ * 新对话的 id 在第一帧 `data: {"threadId": 1, "choices": []}` 里返回，之后的追问带上它。
+ */
+export interface AiChatRequest {
+  threadId?: number;
+  word?: string;
+  context?: string;
+  message: string;
+}
+
+export interface AiChatMessageDto {
+  id: number;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+}
+
+/** GET /api/v1/ai/chat/:threadId */
+export interface AiChatThreadDto {
+  id: number;
+  word: string;
+  context: string;
+  messages: AiChatMessageDto[];
+}
+
+// --- AI 用量和配额（ADR 0044） ---
+
+/** used / limit / remaining；limit 为 null 表示不限 */
+export interface AiQuotaMeter {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface AiFeatureUsage {
+  requests: number;
+  /** 其中命中缓存的次数，不消耗 token */
+  cachedRequests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** GET /api/v1/ai/usage：当天（UTC）的用量 */
+export interface AiUsageResponse {
+  plan: string;
+  /** YYYY-MM-DD（UTC） */
+  day: string;
+  /** 下一次重置的时间，ISO 8601 */
+  resetAt: string;
+  requests: AiQuotaMeter;
+  tokens: AiQuotaMeter;
+  exhausted: boolean;
+  features: Record<string, AiFeatureUsage>;
+}
+
+/** /ai/* 返回 429 时的响应体；quota 是当天额度用完，rate 是请求太频繁 */
+export interface AiQuotaErrorBody {
+  statusCode: 429;
+  message: string;
+  error: string;
+  reason: 'quota' | 'rate';
+  /** 秒，和 Retry-After 头一致 */
+  retryAfter: number;
+}
+
 // Chrome 扩展消息类型
 export interface ChromeMessage {
   type:
@@ -111,7 +610,13 @@ export interface ChromeMessage {
     | 'TRANSLATE_STREAM_COMPLETE' // background -> content script 翻译流式完成
     | 'TRANSLATE_STREAM_ERROR' // background -> content script 翻译流式错误
     | 'AUTO_INCREASE_FAMILIARITY' // background -> content script 自动提升熟练度
-    | 'GET_DICTIONARY_WHITELIST'; // 获取后端白名单（背景脚本镜像兜底）
+    | 'RECORD_ENCOUNTER' // 弹词卡时记录查词上下文（word + lemma + context）
+    | 'GET_DICTIONARY_WHITELIST' // 获取后端白名单（背景脚本镜像兜底）
+    | 'GET_USER_LISTS' // 词卡"加入词单"菜单：拉当前用户的词单
+    | 'ADD_TO_USER_LIST' // 把 word 所在词族加入词单（listId，或 listName 新建）
+    | 'DETACH_WORD_FAMILY' // 词卡"这个词不一样"：把 word 拆成独立词族（ADR 0035）
+    | 'GET_WORD_EXAMPLES' // 词卡"原文例句"：拉 word 所在词族的例句（ADR 0037）
+    | 'AI_CHAT_STREAM'; // 词卡追问 AI（ADR 0046），回复走 ENRICH_STREAM_*，带 channel: 'chat'
   words?: string[];
   word?: string;
   context?: string; // AI 解析所需的上下文 / 翻译的段落
@@ -123,9 +628,16 @@ export interface ChromeMessage {
   sentenceAnalysisMode?: 'always' | 'smart' | 'off'; // 长难句分析模式
   content?: string; // 流式内容
   error?: string; // 错误信息
+  quotaExceeded?: boolean; // ENRICH_STREAM_ERROR / TRANSLATE_STREAM_ERROR：当天 AI 额度用完（ADR 0044）
+  channel?: 'chat'; // ENRICH_STREAM_*：词卡追问的回复，和 AI 解析的流区分开
+  threadId?: number; // AI_CHAT_STREAM / ENRICH_STREAM_*（channel: 'chat'）：追问的对话 id，第一轮没有
+  question?: string; // AI_CHAT_STREAM：这轮的追问
   translation?: string; // 翻译内容
   sentenceAnalysis?: string; // 句子分析
   paragraph?: string; // 段落（原文）
+  lemma?: string; // RECORD_ENCOUNTER：词族根或词元，服务端优先用它定位词族
+  listId?: number; // ADD_TO_USER_LIST
+  listName?: string; // ADD_TO_USER_LIST：没有 listId 时按名字新建词单
   familyRoot?: string; // WORD_STATUS_UPDATED / WORD_IGNORED 跨 frame 广播时携带，让 iframe 能按词族整体更新而不只匹配字面 word
 }
 
@@ -150,6 +662,11 @@ export interface DictionaryWhitelistResponse {
   nounInflectionMap?: Record<string, string>;
   /** 形容词不规则比较级/最高级→原形（better→good, worst→bad）。详见 verbInflectionMap。 */
   adjInflectionMap?: Record<string, string>;
+  /**
+   * 多词词条原形（give up / in spite of / machine learning），单空格分隔。
+   * 客户端 textProcessor 据此做最长匹配，词头允许变形（ADR 0026）。
+   */
+  phrases?: string[];
   error?: string;
 }
 
@@ -213,6 +730,9 @@ export interface ChromeMessageResponse {
     | Record<string, WordFamilyInfo>
     | WordDetails
     | DictionaryWhitelistResponse
+    | UserListDto[]
+    | UserListFamiliesResponse
+    | ConcordanceExamplesResponse
     | { success: boolean; message: string };
   error?: string;
   message?: string;